@@ -0,0 +1,12 @@
+CREATE TABLE `workflows` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`app_id` integer,
+	`name` text NOT NULL,
+	`source` text NOT NULL,
+	`definition` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `chats` ADD `workflow_id` integer REFERENCES workflows(id);
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `workflow_history` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`chat_id` integer NOT NULL,
+	`workflow_id` integer,
+	`kind` text NOT NULL,
+	`step` text NOT NULL,
+	`to_step` text,
+	`gate` text,
+	`passed` integer NOT NULL,
+	`output` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`chat_id`) REFERENCES `chats`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`workflow_id`) REFERENCES `workflows`(`id`) ON UPDATE no action ON DELETE set null
+);
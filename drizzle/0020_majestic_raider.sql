@@ -0,0 +1,27 @@
+CREATE TABLE `workflow_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`chat_id` integer NOT NULL,
+	`workflow_id` integer,
+	`workflow_name` text NOT NULL,
+	`status` text NOT NULL,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`finished_at` integer,
+	FOREIGN KEY (`chat_id`) REFERENCES `chats`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`workflow_id`) REFERENCES `workflows`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `workflow_step_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`run_id` integer NOT NULL,
+	`step` text NOT NULL,
+	`status` text NOT NULL,
+	`model` text,
+	`start_commit_hash` text,
+	`end_commit_hash` text,
+	`checklist` text NOT NULL,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`finished_at` integer,
+	FOREIGN KEY (`run_id`) REFERENCES `workflow_runs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `workflow_step_run_id` integer REFERENCES workflow_step_runs(id);
\ No newline at end of file
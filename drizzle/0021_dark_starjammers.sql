@@ -0,0 +1 @@
+ALTER TABLE `messages` ADD `routing` text;
\ No newline at end of file
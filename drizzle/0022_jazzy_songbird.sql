@@ -0,0 +1,22 @@
+CREATE TABLE `usage_records` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`app_id` integer,
+	`chat_id` integer,
+	`message_id` integer,
+	`kind` text NOT NULL,
+	`provider` text NOT NULL,
+	`model` text NOT NULL,
+	`input_tokens` integer NOT NULL,
+	`output_tokens` integer NOT NULL,
+	`cached_input_tokens` integer DEFAULT 0 NOT NULL,
+	`reasoning_tokens` integer DEFAULT 0 NOT NULL,
+	`cost` real,
+	`estimated` integer DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`chat_id`) REFERENCES `chats`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+ALTER TABLE `apps` ADD `monthly_soft_limit` real;--> statement-breakpoint
+ALTER TABLE `apps` ADD `monthly_hard_limit` real;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `apps` ADD `command_policy` text;
\ No newline at end of file
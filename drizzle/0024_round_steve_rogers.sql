@@ -0,0 +1,15 @@
+CREATE TABLE `agent_command_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`app_id` integer NOT NULL,
+	`chat_id` integer,
+	`command` text NOT NULL,
+	`cwd` text NOT NULL,
+	`category` text NOT NULL,
+	`status` text NOT NULL,
+	`exit_code` integer,
+	`duration_ms` integer,
+	`timed_out` integer DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`chat_id`) REFERENCES `chats`(`id`) ON UPDATE no action ON DELETE set null
+);
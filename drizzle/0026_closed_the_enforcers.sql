@@ -0,0 +1,15 @@
+CREATE TABLE `workflow_subagent_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`step_run_id` integer NOT NULL,
+	`step` text NOT NULL,
+	`model` text,
+	`branch` text NOT NULL,
+	`status` text NOT NULL,
+	`commit_hash` text,
+	`changed_files` text NOT NULL,
+	`conflict_files` text NOT NULL,
+	`error` text,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`finished_at` integer,
+	FOREIGN KEY (`step_run_id`) REFERENCES `workflow_step_runs`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -16,6 +16,8 @@ const config: ForgeConfig = {
   packagerConfig: {
     asar: true,
     executableName: "dyad",
+    // Read with fs at runtime, see getTokenizerDataDir
+    extraResource: ["tokenizers"],
   },
   makers: [
     new MakerSquirrel({ signWithParams: winSignParams }),
@@ -3,9 +3,16 @@ import MagicString from "magic-string";
 import path from "node:path";
 import { walk } from "estree-walker";
 import type { Plugin } from "vite";
+import { tagMarkup, type MarkupFramework } from "./markup";
 
 const VALID_EXTENSIONS = new Set([".jsx", ".tsx"]);
 
+// Component formats whose markup is tagged without Babel
+const MARKUP_EXTENSIONS = new Map<string, MarkupFramework>([
+  [".vue", "vue"],
+  [".svelte", "svelte"],
+]);
+
 /**
  * Returns a Vite / esbuild plug-in.
  */
@@ -17,12 +24,27 @@ export default function dyadTagger(): Plugin {
 
     async transform(code: string, id: string) {
       try {
-        // Ignore non-jsx files and files inside node_modules
-        if (
-          !VALID_EXTENSIONS.has(path.extname(id)) ||
-          id.includes("node_modules")
-        )
-          return null;
+        if (id.includes("node_modules")) return null;
+
+        // Vue single-file components and Svelte components. Their
+        // sub-requests (e.g. "App.vue?vue&type=style") have a query string
+        // and are left alone.
+        const framework = MARKUP_EXTENSIONS.get(path.extname(id));
+        if (framework) {
+          const ms = tagMarkup(
+            code,
+            framework,
+            path.relative(process.cwd(), id),
+          );
+          if (!ms || ms.toString() === code) return null;
+          return {
+            code: ms.toString(),
+            map: ms.generateMap({ hires: true }),
+          };
+        }
+
+        // Ignore non-jsx files
+        if (!VALID_EXTENSIONS.has(path.extname(id))) return null;
 
         const ast = parse(code, {
           sourceType: "module",
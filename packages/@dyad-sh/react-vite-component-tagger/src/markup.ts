@@ -0,0 +1,246 @@
+import MagicString from "magic-string";
+
+/**
+ * Tags the elements of Vue single-file component templates and Svelte
+ * components. Their markup isn't JSX, so instead of Babel a small scanner
+ * finds the start tags while skipping comments, <script>/<style> blocks,
+ * quoted attribute values and template expressions.
+ */
+
+export type MarkupFramework = "vue" | "svelte";
+
+interface StartTag {
+  name: string;
+  // Offset of the "<"
+  start: number;
+  // Offset just past the tag name
+  nameEnd: number;
+  // Offset just past the closing ">"
+  end: number;
+  alreadyTagged: boolean;
+}
+
+// Elements that don't render a DOM node of their own, so an attribute on
+// them would be dropped or trigger a warning
+const VUE_SKIPPED_TAGS = new Set([
+  "template",
+  "slot",
+  "script",
+  "style",
+  "transition",
+  "transitiongroup",
+  "transition-group",
+  "keep-alive",
+  "keepalive",
+  "teleport",
+  "suspense",
+]);
+
+const SVELTE_SKIPPED_TAGS = new Set(["slot", "script", "style", "template"]);
+
+// Blocks whose content isn't markup
+const RAW_TEXT_TAGS = new Set(["script", "style"]);
+
+// The only svelte:* elements that render their children in place; the
+// children of the others aren't part of the component's DOM, e.g. the
+// <title> in <svelte:head>
+const SVELTE_IN_PLACE_TAGS = new Set([
+  "svelte:element",
+  "svelte:fragment",
+  "svelte:boundary",
+]);
+
+function hasSkippedContent(name: string, framework: MarkupFramework) {
+  if (RAW_TEXT_TAGS.has(name.toLowerCase())) return true;
+  return (
+    framework === "svelte" &&
+    name.startsWith("svelte:") &&
+    !SVELTE_IN_PLACE_TAGS.has(name)
+  );
+}
+
+// Skips a quoted string starting at `i`, returning the offset past its end
+function skipString(source: string, i: number): number {
+  const quote = source[i];
+  i++;
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === "\\") i++;
+    i++;
+  }
+  return i + 1;
+}
+
+// Skips a `{ ... }` expression starting at `i`, including nested braces and
+// strings, returning the offset past the closing brace
+function skipBraces(source: string, i: number): number {
+  let depth = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === "`") {
+      i = skipString(source, i);
+      continue;
+    }
+    if (char === "{") depth++;
+    if (char === "}") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Start tags between `from` and `to`, in source order.
+ */
+export function findStartTags(
+  source: string,
+  framework: MarkupFramework,
+  from = 0,
+  to = source.length,
+): StartTag[] {
+  const tags: StartTag[] = [];
+  let i = from;
+  while (i < to) {
+    if (source.startsWith("<!--", i)) {
+      const close = source.indexOf("-->", i + 4);
+      i = close === -1 ? to : close + 3;
+      continue;
+    }
+    // Text interpolation: {{ ... }} in Vue, { ... } in Svelte
+    if (source[i] === "{") {
+      if (framework === "svelte") {
+        i = skipBraces(source, i);
+        continue;
+      }
+      if (source[i + 1] === "{") {
+        const close = source.indexOf("}}", i + 2);
+        i = close === -1 ? to : close + 2;
+        continue;
+      }
+    }
+    const nameMatch =
+      source[i] === "<"
+        ? /^[A-Za-z][\w:.-]*/.exec(source.slice(i + 1, i + 200))
+        : null;
+    if (!nameMatch) {
+      i++;
+      continue;
+    }
+
+    const name = nameMatch[0];
+    const nameEnd = i + 1 + name.length;
+    // Scan the attributes to the unquoted ">"
+    let j = nameEnd;
+    while (j < to && source[j] !== ">") {
+      const char = source[j];
+      if (char === '"' || char === "'") {
+        j = skipString(source, j);
+      } else if (char === "{" && framework === "svelte") {
+        j = skipBraces(source, j);
+      } else {
+        j++;
+      }
+    }
+    const end = Math.min(j + 1, to);
+    tags.push({
+      name,
+      start: i,
+      nameEnd,
+      end,
+      alreadyTagged: source.slice(nameEnd, end).includes("data-dyad-id"),
+    });
+
+    const selfClosing = source[end - 2] === "/";
+    if (!selfClosing && hasSkippedContent(name, framework)) {
+      const close = source
+        .toLowerCase()
+        .indexOf(`</${name.toLowerCase()}`, end);
+      i = close === -1 ? to : close;
+    } else {
+      i = end;
+    }
+  }
+  return tags;
+}
+
+function shouldTag(tag: StartTag, framework: MarkupFramework): boolean {
+  if (tag.alreadyTagged) return false;
+  // Components decide where their attributes go, if anywhere (a Svelte
+  // component doesn't forward unknown props, a Vue component with several
+  // roots or `inheritAttrs: false` drops them), so only DOM elements are
+  // tagged: not <Component> or <svelte:head>
+  if (framework === "vue") {
+    return (
+      !/^[A-Z]/.test(tag.name) && !VUE_SKIPPED_TAGS.has(tag.name.toLowerCase())
+    );
+  }
+  return (
+    /^[a-z][a-z0-9-]*$/.test(tag.name) && !SVELTE_SKIPPED_TAGS.has(tag.name)
+  );
+}
+
+// Range of the markup: the root <template> block of a Vue SFC, or the
+// whole Svelte file (its <script> and <style> blocks are skipped)
+function getMarkupRange(
+  source: string,
+  framework: MarkupFramework,
+): { from: number; to: number } | null {
+  if (framework === "svelte") {
+    return { from: 0, to: source.length };
+  }
+  const root = findStartTags(source, "vue").find(
+    (tag) => tag.name === "template",
+  );
+  const close = source.lastIndexOf("</template>");
+  if (!root || close < root.end) {
+    return null;
+  }
+  // Templates in another language, e.g. Pug, aren't HTML
+  const lang = /\slang=["']([^"']*)["']/.exec(
+    source.slice(root.nameEnd, root.end),
+  );
+  if (lang && lang[1] !== "html") {
+    return null;
+  }
+  return { from: root.end, to: close };
+}
+
+function getLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * Adds `data-dyad-id="file:line:column"` and `data-dyad-name` to each
+ * element of the component's markup. Lines are 1-based and columns 0-based,
+ * like the ids of the JSX tagger.
+ */
+export function tagMarkup(
+  source: string,
+  framework: MarkupFramework,
+  fileRelative: string,
+): MagicString | null {
+  const range = getMarkupRange(source, framework);
+  if (!range) {
+    return null;
+  }
+  const lineStarts = getLineStarts(source);
+  const ms = new MagicString(source);
+  let line = 0;
+  for (const tag of findStartTags(source, framework, range.from, range.to)) {
+    if (!shouldTag(tag, framework)) continue;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= tag.start) {
+      line++;
+    }
+    const dyadId = `${fileRelative}:${line + 1}:${tag.start - lineStarts[line]}`;
+    ms.appendLeft(
+      tag.nameEnd,
+      ` data-dyad-id="${dyadId}" data-dyad-name="${tag.name}"`,
+    );
+  }
+  return ms;
+}
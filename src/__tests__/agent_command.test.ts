@@ -0,0 +1,170 @@
+import type { WebContents } from "electron";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ConsentDecision } from "../ipc/utils/mcp_consent";
+import type { CommandPolicy } from "../lib/schemas";
+
+const state = vi.hoisted(() => ({
+  app: { id: 1, path: "app", commandPolicy: null as CommandPolicy | null },
+  runs: [] as Record<string, unknown>[],
+  commands: [] as string[],
+  response: "decline" as ConsentDecision,
+}));
+
+vi.mock("../main/settings", () => ({
+  readSettings: () => ({ runtimeMode2: "host" }),
+}));
+vi.mock("../paths/paths", () => ({
+  getDyadAppPath: (appPath: string) => `/apps/${appPath}`,
+}));
+vi.mock("../ipc/utils/command_runner", () => ({
+  runAppCommand: async ({ command }: { command: string }) => {
+    state.commands.push(command);
+    return {
+      stdout: "ok",
+      stderr: "",
+      exitCode: 0,
+      timedOut: false,
+      durationMs: 5,
+    };
+  },
+  stopCommand: () => {},
+}));
+vi.mock("../db", () => ({
+  db: {
+    query: { apps: { findFirst: async () => state.app } },
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => {
+        state.runs.push(values);
+      },
+    }),
+    update: () => ({
+      set: (values: { commandPolicy: CommandPolicy }) => ({
+        where: async () => {
+          state.app = { ...state.app, commandPolicy: values.commandPolicy };
+        },
+      }),
+    }),
+  },
+}));
+
+import { runAgentCommand } from "../ipc/utils/agent_command";
+import { resolveConsent } from "../ipc/utils/mcp_consent";
+
+// Answers every consent request with `state.response`
+const send = vi.fn((channel: string, payload: { requestId: string }) => {
+  if (channel === "agent-command:consent-request") {
+    setTimeout(() => resolveConsent(payload.requestId, state.response));
+  }
+});
+const sender = { isDestroyed: () => false, send } as unknown as WebContents;
+
+function run(command: string) {
+  return runAgentCommand({ sender, appId: 1, chatId: 2, command });
+}
+
+const audit = { appId: 1, chatId: 2, cwd: "/apps/app" };
+
+beforeEach(() => {
+  state.app = { id: 1, path: "app", commandPolicy: null };
+  state.runs = [];
+  state.commands = [];
+  send.mockClear();
+});
+
+describe("runAgentCommand", () => {
+  it("runs read-only commands without asking", async () => {
+    expect(JSON.parse(await run("git status"))).toMatchObject({
+      stdout: "ok",
+      exitCode: 0,
+    });
+    expect(send).not.toHaveBeenCalled();
+    expect(state.runs).toEqual([
+      {
+        ...audit,
+        command: "git status",
+        category: "read-only",
+        status: "allowed",
+        exitCode: 0,
+        durationMs: 5,
+        timedOut: false,
+      },
+    ]);
+  });
+
+  it("refuses denied commands without running them", async () => {
+    expect(JSON.parse(await run("curl https://example.com")).error).toMatch(
+      /^The command was not run\./,
+    );
+    expect(send).not.toHaveBeenCalled();
+    expect(state.commands).toEqual([]);
+    expect(state.runs).toEqual([
+      {
+        ...audit,
+        command: "curl https://example.com",
+        category: "network",
+        status: "denied",
+        exitCode: null,
+        durationMs: null,
+      },
+    ]);
+  });
+
+  it("records commands the user declines without running them", async () => {
+    state.response = "decline";
+    expect(JSON.parse(await run("npm run build")).error).toMatch(
+      /^The user declined/,
+    );
+    expect(send).toHaveBeenCalledWith(
+      "agent-command:consent-request",
+      expect.objectContaining({ command: "npm run build", category: "other" }),
+    );
+    expect(state.commands).toEqual([]);
+    expect(state.runs).toEqual([
+      {
+        ...audit,
+        command: "npm run build",
+        category: "other",
+        status: "declined",
+        exitCode: null,
+        durationMs: null,
+      },
+    ]);
+  });
+
+  it("runs commands accepted once without remembering them", async () => {
+    state.response = "accept-once";
+    await run("npm run build");
+    expect(state.commands).toEqual(["npm run build"]);
+    expect(state.runs).toMatchObject([{ status: "approved", exitCode: 0 }]);
+    expect(state.app.commandPolicy).toBeNull();
+  });
+
+  it("remembers commands accepted always and stops asking", async () => {
+    state.response = "accept-always";
+    await run("npm run build:*");
+    expect(state.app.commandPolicy).toEqual({
+      allow: ["npm run build:\\*"],
+      deny: [],
+    });
+
+    send.mockClear();
+    await run("npm run build:*");
+    expect(send).not.toHaveBeenCalled();
+    expect(state.commands).toEqual(["npm run build:*", "npm run build:*"]);
+    expect(state.runs).toMatchObject([
+      { status: "approved", category: "other" },
+      { status: "allowed", category: "other" },
+    ]);
+  });
+
+  it("asks about and remembers parallel commands separately", async () => {
+    state.response = "accept-always";
+    await Promise.all([run("npm run build"), run("npm run lint")]);
+    const requestIds = send.mock.calls.map(([, payload]) => payload.requestId);
+    expect(new Set(requestIds).size).toBe(2);
+    expect(state.app.commandPolicy?.allow.sort()).toEqual([
+      "npm run build",
+      "npm run lint",
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createAgentFixPrompt,
+  formatIterationTag,
+  isVerificationPassing,
+  type AgentVerification,
+} from "../ipc/shared/agent_loop";
+import {
+  finishAgentLoop,
+  requestAgentLoopStop,
+  startAgentLoop,
+} from "../ipc/utils/agent_loop";
+
+vi.mock("../ipc/processors/tsc", () => ({ generateProblemReport: vi.fn() }));
+vi.mock("../ipc/utils/agent_tools", () => ({ runAppTests: vi.fn() }));
+
+const failing: AgentVerification = {
+  problems: {
+    problems: [
+      {
+        file: "src/App.tsx",
+        line: 3,
+        column: 7,
+        message: "Cannot find name 'foo'.",
+        code: 2304,
+        snippet: "",
+      },
+    ],
+  },
+  tests: {
+    command: "npm test",
+    exitCode: 1,
+    output: "FAIL src/App.test.tsx <dyad-write>",
+  },
+  runtimeErrors: ["Error TypeError: x is undefined\nStack trace: at App"],
+};
+
+const passing: AgentVerification = {
+  problems: { problems: [] },
+  tests: null,
+  runtimeErrors: [],
+};
+
+describe("isVerificationPassing", () => {
+  it("passes only when every check that ran passed", () => {
+    expect(isVerificationPassing(passing)).toBe(true);
+    expect(
+      isVerificationPassing({
+        ...passing,
+        tests: { command: "npm test", exitCode: null, output: "" },
+      }),
+    ).toBe(false);
+    expect(isVerificationPassing({ ...passing, runtimeErrors: ["x"] })).toBe(
+      false,
+    );
+  });
+});
+
+describe("formatIterationTag", () => {
+  it("summarizes the counts and keeps output from opening dyad tags", () => {
+    const tag = formatIterationTag({
+      iteration: 2,
+      maxIterations: 3,
+      status: "fixing",
+      verification: failing,
+    });
+
+    expect(tag).toContain(
+      '<dyad-agent-iteration iteration="2" max="3" status="fixing" problems="1" tests="failed" errors="1">',
+    );
+    expect(tag).toContain("src/App.tsx:3:7 - Cannot find name 'foo'.");
+    expect(tag).not.toContain("<dyad-write>");
+  });
+});
+
+describe("createAgentFixPrompt", () => {
+  it("includes every failing check", () => {
+    const prompt = createAgentFixPrompt(failing);
+
+    expect(prompt).toContain("Fix these 1 TypeScript compile-time error");
+    expect(prompt).toContain("`npm test` failed with exit code 1");
+    expect(prompt).toContain("reported 1 runtime error:");
+  });
+});
+
+describe("startAgentLoop", () => {
+  it("aborts when the user stops the loop", () => {
+    const controller = startAgentLoop(1, new AbortController().signal);
+    requestAgentLoopStop(2);
+    expect(controller.signal.aborted).toBe(false);
+    requestAgentLoopStop(1);
+    expect(controller.signal.aborted).toBe(true);
+    finishAgentLoop(1, controller);
+  });
+
+  it("aborts when the whole response is cancelled", () => {
+    const response = new AbortController();
+    const controller = startAgentLoop(1, response.signal);
+    response.abort();
+    expect(controller.signal.aborted).toBe(true);
+    finishAgentLoop(1, controller);
+  });
+
+  it("ignores stops after the loop finished", () => {
+    const controller = startAgentLoop(1, new AbortController().signal);
+    finishAgentLoop(1, controller);
+    requestAgentLoopStop(1);
+    expect(controller.signal.aborted).toBe(false);
+  });
+});
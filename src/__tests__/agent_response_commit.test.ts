@@ -0,0 +1,148 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import git from "isomorphic-git";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({ appPath: "", messageExists: true }));
+
+vi.mock("electron", () => ({
+  app: { getPath: () => state.appPath, isPackaged: false },
+  safeStorage: { isEncryptionAvailable: () => false },
+}));
+vi.mock("../main/settings", () => ({
+  readSettings: () => ({
+    selectedChatMode: "agent",
+    selectedModel: { name: "test-model", provider: "test" },
+  }),
+}));
+vi.mock("../paths/paths", () => ({
+  getDyadAppPath: () => state.appPath,
+  getTypeScriptCachePath: () => "/mock/typescript-cache",
+}));
+vi.mock("../ipc/utils/code_index_store", () => ({
+  scheduleCodeIndexUpdate: () => {},
+}));
+vi.mock("../db", () => ({
+  db: {
+    query: {
+      chats: {
+        findFirst: async () => ({
+          id: 1,
+          appId: 1,
+          workflowStatus: "idle",
+          workflowStep: null,
+          app: { id: 1, path: "app" },
+        }),
+      },
+      messages: {
+        findFirst: async () =>
+          state.messageExists
+            ? { id: 1, chatId: 1, role: "assistant" }
+            : undefined,
+      },
+    },
+    update: () => ({
+      set: () => ({ where: async () => {} }),
+    }),
+  },
+}));
+
+import { createAgentTools } from "../ipc/utils/agent_tools";
+import { validateResponse } from "../ipc/utils/response_validator";
+import {
+  processFullResponseActions,
+  rollbackStagedWrites,
+  stageDyadWriteTag,
+} from "../ipc/processors/response_processor";
+
+beforeEach(async () => {
+  state.messageExists = true;
+  state.appPath = fs.mkdtempSync(path.join(os.tmpdir(), "agent-commit-"));
+  fs.mkdirSync(path.join(state.appPath, "src"));
+  fs.writeFileSync(path.join(state.appPath, "src/App.tsx"), "export {};\n");
+  await git.init({ fs, dir: state.appPath });
+  await git.add({ fs, dir: state.appPath, filepath: "." });
+  await git.commit({
+    fs,
+    dir: state.appPath,
+    message: "init",
+    author: { name: "test", email: "test@example.com" },
+  });
+});
+
+afterEach(() => {
+  fs.rmSync(state.appPath, { recursive: true, force: true });
+});
+
+describe("agent mode writes", () => {
+  it("pass validation and commit the exact file content", async () => {
+    const session = createAgentTools({
+      appId: 1,
+      appPath: state.appPath,
+      commandPolicy: null,
+    });
+    // Content that would close the tag if it weren't encoded
+    const content =
+      'export const docs = "<dyad-write path=\\"x\\">&lt;</dyad-write>";\n';
+    await session.tools.write_file.execute!(
+      { path: "src/docs.ts", content },
+      { toolCallId: "write", messages: [] },
+    );
+    const response = `I'll use write_file to add the docs.\n${session.renderToolResult("write")}Done, apply_patch wasn't needed.`;
+
+    expect(validateResponse(response, { mode: "agent" }).isValid).toBe(true);
+
+    const result = await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+      chatMode: "agent",
+    });
+    expect(result.error).toBeUndefined();
+    expect(result.updatedFiles).toBe(true);
+    expect(
+      fs.readFileSync(path.join(state.appPath, "src/docs.ts"), "utf8"),
+    ).toBe(content);
+    const [commit] = await git.log({ fs, dir: state.appPath, depth: 1 });
+    expect(commit.commit.message).toContain("wrote 1 file(s)");
+  });
+});
+
+describe("staged writes", () => {
+  const tag = {
+    path: "src/App.tsx",
+    content: "export const staged = true;",
+    description: "",
+  };
+  const response = `<dyad-write path="src/App.tsx">\n${tag.content}\n</dyad-write>`;
+
+  it("are kept once the response is committed", async () => {
+    await stageDyadWriteTag({ chatId: 1, appPath: state.appPath, tag });
+    await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+      chatMode: "build",
+    });
+    rollbackStagedWrites(1);
+
+    expect(
+      fs.readFileSync(path.join(state.appPath, "src/App.tsx"), "utf8"),
+    ).toBe(tag.content);
+  });
+
+  it("are rolled back when the response is never committed", async () => {
+    state.messageExists = false;
+    await stageDyadWriteTag({ chatId: 1, appPath: state.appPath, tag });
+    const result = await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+      chatMode: "build",
+    });
+    expect(result.updatedFiles).toBeUndefined();
+    rollbackStagedWrites(1);
+
+    expect(
+      fs.readFileSync(path.join(state.appPath, "src/App.tsx"), "utf8"),
+    ).toBe("export {};\n");
+  });
+});
@@ -0,0 +1,185 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../main/settings", () => ({ readSettings: () => ({}) }));
+vi.mock("../paths/paths", () => ({
+  getTypeScriptCachePath: () => "/mock/typescript-cache",
+}));
+
+import {
+  createAgentTools,
+  globToRegExp,
+  stripModelToolAttributes,
+} from "../ipc/utils/agent_tools";
+import type { CommandPolicy } from "../lib/schemas";
+
+describe("globToRegExp", () => {
+  it("matches nested directories with **", () => {
+    const regex = globToRegExp("src/**/*.tsx");
+    expect(regex.test("src/App.tsx")).toBe(true);
+    expect(regex.test("src/components/ui/Button.tsx")).toBe(true);
+    expect(regex.test("src/App.ts")).toBe(false);
+    expect(regex.test("lib/App.tsx")).toBe(false);
+  });
+
+  it("supports alternatives and single characters", () => {
+    const regex = globToRegExp("*.{ts,tsx}");
+    expect(regex.test("index.ts")).toBe(true);
+    expect(regex.test("index.tsx")).toBe(true);
+    expect(regex.test("src/index.ts")).toBe(false);
+    expect(globToRegExp("file?.md").test("file1.md")).toBe(true);
+  });
+});
+
+describe("createAgentTools", () => {
+  let appPath: string;
+
+  beforeEach(() => {
+    appPath = fs.mkdtempSync(path.join(os.tmpdir(), "agent-tools-"));
+    fs.mkdirSync(path.join(appPath, "src"));
+    fs.writeFileSync(
+      path.join(appPath, "src/App.tsx"),
+      ["export function App() {", "  return <h1>Hello</h1>;", "}"].join("\n"),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(appPath, { recursive: true, force: true });
+  });
+
+  const createSession = (commandPolicy: CommandPolicy | null = null) =>
+    createAgentTools({ appId: 1, appPath, commandPolicy });
+
+  const call = async (
+    session: ReturnType<typeof createSession>,
+    toolName: string,
+    input: unknown,
+    toolCallId = toolName,
+  ) => {
+    const output = await session.tools[toolName].execute!(input, {
+      toolCallId,
+      messages: [],
+    });
+    return { output, markup: session.renderToolResult(toolCallId) };
+  };
+
+  it("reads a range of lines", async () => {
+    const session = createSession();
+    const { output, markup } = await call(session, "read_file", {
+      path: "src/App.tsx",
+      start_line: 2,
+      end_line: 2,
+    });
+    expect(output).toBe("  return <h1>Hello</h1>;");
+    expect(markup).toBe(
+      '<dyad-read path="src/App.tsx">Lines 2-2 of 3</dyad-read>\n',
+    );
+  });
+
+  it("refuses paths outside the app", async () => {
+    const session = createSession();
+    const { output, markup } = await call(session, "read_file", {
+      path: "../secrets.txt",
+    });
+    expect(output).toMatch(/^Error: /);
+    expect(markup).toContain('error="true"');
+  });
+
+  it("stages patches as writes without touching the disk", async () => {
+    const session = createSession();
+    const { markup } = await call(session, "apply_patch", {
+      path: "src/App.tsx",
+      patch: [
+        "<<<<<<< SEARCH",
+        "  return <h1>Hello</h1>;",
+        "=======",
+        "  return <h1>Hi</h1>;",
+        ">>>>>>> REPLACE",
+      ].join("\n"),
+    });
+    expect(markup).toContain('<dyad-write path="src/App.tsx"');
+    expect(session.pendingWrites.get("src/App.tsx")).toContain("<h1>Hi</h1>");
+    expect(
+      fs.readFileSync(path.join(appPath, "src/App.tsx"), "utf8"),
+    ).toContain("<h1>Hello</h1>");
+
+    // Later reads and searches see the staged content
+    const { output } = await call(session, "grep", { pattern: "Hi<" });
+    expect(output).toBe("src/App.tsx:2: return <h1>Hi</h1>;");
+  });
+
+  it("reports patches that don't apply", async () => {
+    const session = createSession();
+    const { output } = await call(session, "apply_patch", {
+      path: "src/App.tsx",
+      patch: "<<<<<<< SEARCH\nmissing\n=======\nnew\n>>>>>>> REPLACE",
+    });
+    expect(output).toContain("src/App.tsx was left unchanged.");
+    expect(session.pendingWrites.size).toBe(0);
+  });
+
+  it("lists and globs files written in the response", async () => {
+    const session = createSession();
+    await call(session, "write_file", {
+      path: "src/pages/Home.tsx",
+      content: "export default function Home() {}",
+    });
+    const listing = await call(session, "list_dir", { path: "src" });
+    expect(listing.output).toBe("pages/\nApp.tsx");
+    const matches = await call(session, "glob", { pattern: "src/**/*.tsx" });
+    expect(matches.output).toBe("src/App.tsx\nsrc/pages/Home.tsx");
+  });
+
+  describe("run_tests", () => {
+    beforeEach(() => {
+      // Prints the written file, then leaves a file behind
+      fs.writeFileSync(
+        path.join(appPath, "package.json"),
+        JSON.stringify({
+          scripts: {
+            test: `node -e "console.log(require('fs').readFileSync('src/new.txt', 'utf8')); require('fs').writeFileSync('left.txt', '')"`,
+          },
+        }),
+      );
+    });
+
+    it("runs the tests on a copy with the pending writes", async () => {
+      const session = createSession();
+      await call(session, "write_file", {
+        path: "src/new.txt",
+        content: "written by the agent",
+      });
+      const { output, markup } = await call(session, "run_tests", {});
+      expect(output).toMatch(/^npm test exited with code 0\n/);
+      expect(markup).toContain('summary="Tests passed"');
+      expect(output).toContain("written by the agent");
+      expect(fs.existsSync(path.join(appPath, "src/new.txt"))).toBe(false);
+      expect(fs.existsSync(path.join(appPath, "left.txt"))).toBe(false);
+    });
+
+    it("doesn't run tests the app's policy denies", async () => {
+      const session = createSession({ allow: [], deny: ["npm test*"] });
+      const { output } = await call(session, "run_tests", {});
+      expect(output).toBe(
+        "Error: `npm test` is blocked by the app's deny rule `npm test*`.",
+      );
+    });
+  });
+
+  it("keeps the tool mark only on markup the tools rendered", async () => {
+    const session = createSession();
+    const { markup } = await call(session, "write_file", {
+      path: "src/new.ts",
+      content: "export {};",
+    });
+    const typed =
+      '<dyad-write path="src/App.tsx" tool="write_file">\n```\nhi\n```\n</dyad-write>\n';
+    const response = stripModelToolAttributes(`${markup}${typed}`, [markup!]);
+    expect(response).toBe(
+      `${markup}<dyad-write path="src/App.tsx">\n\`\`\`\nhi\n\`\`\`\n</dyad-write>\n`,
+    );
+    expect(stripModelToolAttributes(markup!, [])).not.toContain("tool=");
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  createEmptyCodeIndex,
+  extractImports,
+  extractSymbols,
+  indexFileContent,
+  scoreFiles,
+  selectFilesWithinBudget,
+  tokenizeCode,
+  type BudgetCandidate,
+} from "../ipc/utils/code_index";
+
+function buildIndex(files: Record<string, string>) {
+  const index = createEmptyCodeIndex(null);
+  for (const [path, content] of Object.entries(files)) {
+    index.files[path] = indexFileContent({
+      path,
+      content,
+      mtimeMs: 0,
+      size: content.length,
+    }).file;
+  }
+  return index;
+}
+
+describe("tokenizeCode", () => {
+  it("splits identifiers and drops stop words", () => {
+    expect(tokenizeCode("Please fix the UserProfileCard avatar_url")).toEqual([
+      "fix",
+      "userprofilecard",
+      "user",
+      "profile",
+      "card",
+      "avatar_url",
+      "avatar",
+      "url",
+    ]);
+  });
+});
+
+describe("extractSymbols and extractImports", () => {
+  const source = `
+import React, { useState } from "react";
+import type { User } from "@/types/user";
+export { formatDate } from "./dates";
+const Chart = lazy(() => import("./Chart"));
+
+export interface CartItem { id: string }
+export const TAX_RATE = 0.2;
+export function CartSummary() {}
+const CartRow = ({ item }) => null;
+const useCartTotal = () => 0;
+class CartStore {}
+`;
+
+  it("finds declared names", () => {
+    expect(extractSymbols(source).sort()).toEqual(
+      [
+        "CartItem",
+        "CartRow",
+        "CartStore",
+        "CartSummary",
+        "TAX_RATE",
+        "useCartTotal",
+      ].sort(),
+    );
+  });
+
+  it("finds module specifiers", () => {
+    expect(extractImports(source).sort()).toEqual(
+      ["./Chart", "./dates", "@/types/user", "react"].sort(),
+    );
+  });
+});
+
+describe("scoreFiles", () => {
+  const index = buildIndex({
+    "src/components/CheckoutForm.tsx":
+      "export function CheckoutForm() { return <form>pay with card</form>; }",
+    "src/components/Navbar.tsx":
+      "export function Navbar() { return <nav>home about</nav>; }",
+    "src/lib/payments.ts":
+      "export async function chargeCard(amount: number) { /* stripe */ }",
+  });
+
+  it("ranks files by the prompt's terms in their code, path and symbols", () => {
+    const scores = scoreFiles(
+      index,
+      "the checkout form should charge the card",
+    );
+    const ranked = [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([path]) => path);
+    expect(ranked[0]).toBe("src/components/CheckoutForm.tsx");
+    expect(ranked[2]).toBe("src/components/Navbar.tsx");
+    expect(scores.get("src/components/Navbar.tsx")).toBe(0);
+  });
+
+  it("blends in embedding similarity when the prompt is embedded", () => {
+    for (const file of Object.values(index.files)) {
+      for (const chunk of file.chunks) {
+        chunk.embedding = file.path.includes("Navbar") ? [1, 0] : [0, 1];
+      }
+    }
+    const scores = scoreFiles(index, "header links", [1, 0]);
+    expect(scores.get("src/components/Navbar.tsx")).toBeCloseTo(0.5);
+    expect(scores.get("src/lib/payments.ts")).toBe(0);
+  });
+});
+
+describe("selectFilesWithinBudget", () => {
+  function candidate(overrides: Partial<BudgetCandidate>): BudgetCandidate {
+    return {
+      path: "a.ts",
+      tokens: 100,
+      omittedTokens: 10,
+      forced: false,
+      score: 0,
+      recency: 0,
+      ...overrides,
+    };
+  }
+
+  it("keeps forced files, then the most relevant that fit", () => {
+    const selected = selectFilesWithinBudget(
+      [
+        candidate({ path: "picked.ts", forced: true, tokens: 200 }),
+        candidate({ path: "relevant.ts", score: 0.9, tokens: 300 }),
+        candidate({ path: "small.ts", score: 0.1, tokens: 50 }),
+        candidate({ path: "large.ts", score: 0.5, tokens: 1_000 }),
+        candidate({ path: "recent.ts", score: 0.1, tokens: 50, recency: 5 }),
+      ],
+      // 50 for the placeholders, 190 for picked.ts, 290 for relevant.ts
+      // and 40 for recent.ts
+      570,
+    );
+    expect([...selected]).toEqual(["picked.ts", "relevant.ts", "recent.ts"]);
+  });
+});
@@ -0,0 +1,71 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({ dir: "" }));
+const embed = vi.hoisted(() => vi.fn());
+
+vi.mock("electron", () => ({
+  app: { getPath: () => state.dir, isPackaged: false },
+}));
+vi.mock("../main/settings", () => ({
+  readSettings: () => ({
+    codeIndex: { enabled: true, embeddingBackend: "ollama" },
+  }),
+}));
+vi.mock("../paths/paths", () => ({ getUserDataPath: () => state.dir }));
+vi.mock("../ipc/utils/embedding_backends", () => ({
+  getEmbeddingBackend: () => ({ id: "test:model", embed }),
+}));
+
+import {
+  getCodeIndexStatus,
+  rankFilesForPrompt,
+} from "../ipc/utils/code_index_store";
+
+let appPath: string;
+
+beforeEach(() => {
+  state.dir = fs.mkdtempSync(path.join(os.tmpdir(), "code-index-"));
+  appPath = path.join(state.dir, "app");
+  fs.mkdirSync(path.join(appPath, "src"), { recursive: true });
+  fs.writeFileSync(
+    path.join(appPath, "src/login.ts"),
+    "export function login() {}\n",
+  );
+  fs.writeFileSync(
+    path.join(appPath, "src/chart.ts"),
+    "export function drawChart() {}\n",
+  );
+  embed.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(state.dir, { recursive: true, force: true });
+});
+
+describe("rankFilesForPrompt", () => {
+  it("ranks by keywords and embeds in the background until files are embedded", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    embed.mockImplementation(async (texts: string[]) =>
+      texts.map(() => [1, 0]),
+    );
+
+    const scores = await rankFilesForPrompt(appPath, "fix the login");
+    expect(embed).not.toHaveBeenCalled();
+    expect(scores.get("src/login.ts")).toBeGreaterThan(
+      scores.get("src/chart.ts") ?? 0,
+    );
+
+    await vi.runAllTimersAsync();
+    await vi.waitFor(async () =>
+      expect((await getCodeIndexStatus(appPath)).embeddedFileCount).toBe(2),
+    );
+
+    embed.mockClear();
+    await rankFilesForPrompt(appPath, "fix the login");
+    expect(embed).toHaveBeenCalledWith(["fix the login"], expect.anything());
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { applyPatchHunks, parsePatchHunks } from "../shared/dyad_patch";
+import { getDyadPatchTags } from "../ipc/utils/dyad_tag_parser";
+
+const FILE = `function App() {
+  return (
+    <div>
+      <h1>Hello</h1>
+    </div>
+  );
+}
+`;
+
+describe("parsePatchHunks", () => {
+  it("parses search/replace blocks", () => {
+    const { hunks, errors } = parsePatchHunks(`<<<<<<< SEARCH
+      <h1>Hello</h1>
+=======
+      <h1>Hi</h1>
+>>>>>>> REPLACE`);
+    expect(errors).toEqual([]);
+    expect(hunks).toEqual([
+      { search: "      <h1>Hello</h1>", replace: "      <h1>Hi</h1>" },
+    ]);
+  });
+
+  it("turns unified diff hunks into search/replace hunks", () => {
+    const { hunks } = parsePatchHunks(`--- a/src/App.tsx
++++ b/src/App.tsx
+@@ -3,3 +3,3 @@
+     <div>
+-      <h1>Hello</h1>
++      <h1>Hi</h1>
+     </div>`);
+    expect(hunks).toEqual([
+      {
+        search: "    <div>\n      <h1>Hello</h1>\n    </div>",
+        replace: "    <div>\n      <h1>Hi</h1>\n    </div>",
+      },
+    ]);
+  });
+
+  it("reports unterminated blocks", () => {
+    expect(parsePatchHunks("<<<<<<< SEARCH\nfoo\n=======\nbar").errors).toEqual(
+      ['Hunk 1 is missing its ">>>>>>> REPLACE" marker.'],
+    );
+  });
+});
+
+describe("applyPatchHunks", () => {
+  it("matches lines regardless of indentation and keeps the file's", () => {
+    const result = applyPatchHunks(FILE, [
+      { search: "<h1>Hello</h1>\n</div>", replace: "<h1>Hi</h1>\n</div>" },
+    ]);
+    expect(result.failures).toEqual([]);
+    expect(result.content).toContain("      <h1>Hi</h1>\n    </div>");
+  });
+
+  it("keeps CRLF line endings", () => {
+    const result = applyPatchHunks(FILE.replace(/\n/g, "\r\n"), [
+      { search: "<h1>Hello</h1>", replace: "<h1>Hi</h1>" },
+    ]);
+    expect(result.content).toBe(
+      FILE.replace("Hello", "Hi").replace(/\n/g, "\r\n"),
+    );
+  });
+
+  it("reports ambiguous and missing hunks per hunk", () => {
+    const result = applyPatchHunks(FILE, [
+      { search: "<h1>Hello</h1>", replace: "<h1>Hi</h1>" },
+      { search: "div>", replace: "section>" },
+      { search: "  return (\n    <span>", replace: "" },
+    ]);
+    expect(result.content).toContain("<h1>Hi</h1>");
+    expect(result.failures.map((failure) => failure.index)).toEqual([1, 2]);
+    expect(result.failures[0].reason).toContain("matches 2 places");
+    expect(result.failures[1].reason).toContain("appears at line 2");
+  });
+});
+
+describe("getDyadPatchTags", () => {
+  it("reads the path and hunks, stripping a code fence", () => {
+    const [tag] = getDyadPatchTags(`<dyad-patch path="src/App.tsx">
+\`\`\`diff
+<<<<<<< SEARCH
+a
+=======
+b
+>>>>>>> REPLACE
+\`\`\`
+</dyad-patch>`);
+    expect(tag).toMatchObject({
+      path: "src/App.tsx",
+      hunks: [{ search: "a", replace: "b" }],
+      errors: [],
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import {
+  DyadTagEvent,
+  DyadTagStreamParser,
+  parseDyadTags,
+} from "../ipc/utils/dyad_tag_stream_parser";
+import {
+  getDyadWriteTags,
+  getMalformedDyadTags,
+} from "../ipc/utils/dyad_tag_parser";
+
+function feedInChunks(text: string, chunkSize: number): DyadTagEvent[] {
+  const parser = new DyadTagStreamParser();
+  const events: DyadTagEvent[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    events.push(...parser.write(text.slice(i, i + chunkSize)));
+  }
+  events.push(...parser.end());
+  return events;
+}
+
+describe("DyadTagStreamParser", () => {
+  const response = `Here you go:
+<dyad-write path="src/App.tsx" description="Update app">
+const App = () => <div className="a">Hi</div>;
+</dyad-write>
+<dyad-delete path="src/old.ts"></dyad-delete>
+Done.`;
+
+  it("emits open, attribute, content and close events", () => {
+    const events = feedInChunks(response, response.length);
+    expect(events.map((e) => e.type)).toEqual([
+      "open",
+      "attribute",
+      "attribute",
+      "content",
+      "close",
+      "open",
+      "attribute",
+      "close",
+    ]);
+    const close = events[4];
+    expect(close).toMatchObject({
+      type: "close",
+      tag: "dyad-write",
+      attributes: { path: "src/App.tsx", description: "Update app" },
+      content: `\nconst App = () => <div className="a">Hi</div>;\n`,
+      start: { offset: 13, line: 2, column: 1 },
+    });
+  });
+
+  it("produces the same tags regardless of chunk boundaries", () => {
+    const expected = parseDyadTags(response).tags;
+    for (const chunkSize of [1, 2, 3, 7, 16]) {
+      const closes = feedInChunks(response, chunkSize).filter(
+        (e) => e.type === "close",
+      );
+      expect(closes).toEqual(expected);
+    }
+  });
+
+  it("closes a tag as soon as its closing tag arrives", () => {
+    const parser = new DyadTagStreamParser();
+    expect(
+      parser.write(`<dyad-write path="a.ts">x</dyad-wr`),
+    ).not.toContainEqual(expect.objectContaining({ type: "close" }));
+    expect(parser.openTag).toBe("dyad-write");
+    expect(parser.write("ite> more text")).toContainEqual(
+      expect.objectContaining({ type: "close", content: "x" }),
+    );
+    expect(parser.openTag).toBeNull();
+  });
+
+  it("handles escaped quotes and > inside attribute values", () => {
+    const { tags } = parseDyadTags(
+      `<dyad-write path="a.ts" description="Say \\"hi\\" & use a -> b">x</dyad-write>`,
+    );
+    expect(tags[0].attributes).toEqual({
+      path: "a.ts",
+      description: 'Say "hi" & use a -> b',
+    });
+  });
+
+  it("handles self-closing tags", () => {
+    const { tags } = parseDyadTags(`<dyad-command type="rebuild" />`);
+    expect(tags).toMatchObject([
+      { tag: "dyad-command", attributes: { type: "rebuild" }, content: "" },
+    ]);
+  });
+
+  it("reports unclosed tags with their position", () => {
+    const { tags, malformed } = parseDyadTags(
+      `intro\n  <dyad-write path="a.ts">\nconst a = 1;`,
+    );
+    expect(tags).toEqual([]);
+    expect(malformed).toEqual([
+      {
+        type: "malformed",
+        tag: "dyad-write",
+        reason: "Missing closing dyad-write tag",
+        position: { offset: 8, line: 2, column: 3 },
+      },
+    ]);
+  });
+
+  it("reports nested tags of the same name", () => {
+    const { tags, malformed } = parseDyadTags(
+      `<dyad-write path="a.ts">a\n<dyad-write path="b.ts">b</dyad-write>`,
+    );
+    expect(tags).toHaveLength(1);
+    expect(tags[0].attributes.path).toBe("a.ts");
+    expect(malformed).toMatchObject([
+      {
+        tag: "dyad-write",
+        position: { line: 2, column: 1 },
+      },
+    ]);
+  });
+
+  it("reports stray closing tags", () => {
+    const { malformed } = parseDyadTags(`text </dyad-delete> text`);
+    expect(malformed).toMatchObject([
+      { tag: "dyad-delete", position: { offset: 5, line: 1, column: 6 } },
+    ]);
+  });
+
+  it("does not repeat completed tags when the prefix is rewritten", () => {
+    const parser = new DyadTagStreamParser();
+    let text = `<dyad-delete path="a.ts"></dyad-delete>\n<dyad-write path="b.ts" description="<a`;
+    const first = parser.sync(text);
+    expect(first.filter((e) => e.type === "close")).toHaveLength(1);
+
+    text = `<dyad-delete path="a.ts"></dyad-delete>\n<dyad-write path="b.ts" description="＜a＞ tag">x</dyad-write>`;
+    const second = parser.sync(text);
+    expect(second.filter((e) => e.type === "close")).toMatchObject([
+      { tag: "dyad-write", attributes: { description: "＜a＞ tag" } },
+    ]);
+  });
+});
+
+describe("getMalformedDyadTags", () => {
+  it("reports tags missing a required attribute", () => {
+    const response = `<dyad-write description="no path">x</dyad-write>`;
+    expect(getDyadWriteTags(response)).toEqual([]);
+    expect(getMalformedDyadTags(response)).toMatchObject([
+      {
+        tag: "dyad-write",
+        reason: "dyad-write tag is missing the 'path' attribute",
+        position: { line: 1, column: 1 },
+      },
+    ]);
+  });
+
+  it("returns nothing for well-formed responses", () => {
+    expect(
+      getMalformedDyadTags(
+        `<dyad-write path="a.ts">x</dyad-write><dyad-chat-summary>Hi</dyad-chat-summary>`,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import type {
+  LanguageModelV2,
+  LanguageModelV2StreamPart,
+} from "@ai-sdk/provider";
+import {
+  classifyModelError,
+  createFallback,
+} from "../ipc/utils/fallback_ai_model";
+import { ModelHealthRegistry } from "../ipc/utils/model_health";
+
+vi.mock("../ipc/utils/model_health_store", () => ({
+  getModelHealthRegistry: () => new ModelHealthRegistry(),
+}));
+
+function httpError(statusCode: number, message: string) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+function fakeModel(
+  modelId: string,
+  behavior: { error?: Error; text?: string },
+): LanguageModelV2 {
+  return {
+    specificationVersion: "v2",
+    provider: "fake",
+    modelId,
+    supportedUrls: {},
+    doGenerate: vi.fn(),
+    doStream: vi.fn(async () => {
+      if (behavior.error) {
+        throw behavior.error;
+      }
+      return {
+        stream: new ReadableStream<LanguageModelV2StreamPart>({
+          start(controller) {
+            controller.enqueue({ type: "text-start", id: "1" });
+            controller.enqueue({
+              type: "text-delta",
+              id: "1",
+              delta: behavior.text ?? "",
+            });
+            controller.close();
+          },
+        }),
+      };
+    }),
+  } as unknown as LanguageModelV2;
+}
+
+async function readText(stream: ReadableStream<LanguageModelV2StreamPart>) {
+  let text = "";
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    if (value.type === "text-delta") text += value.delta;
+  }
+}
+
+describe("classifyModelError", () => {
+  it("sorts errors into fallback classes", () => {
+    expect(classifyModelError(httpError(401, "invalid key"))).toBe("auth");
+    expect(classifyModelError(httpError(429, "slow down"))).toBe("rate-limit");
+    expect(classifyModelError(httpError(529, "overloaded"))).toBe("server");
+    expect(
+      classifyModelError(Object.assign(new Error("x"), { code: "ECONNRESET" })),
+    ).toBe("network");
+    expect(
+      classifyModelError(httpError(400, "prompt is too long: 250000 tokens")),
+    ).toBe("context-length");
+    expect(classifyModelError(httpError(400, "invalid tool schema"))).toBe(
+      null,
+    );
+  });
+});
+
+describe("FallbackModel", () => {
+  const options = { prompt: [] } as any;
+
+  it("falls back and reports which model answered", async () => {
+    const model = createFallback({
+      models: [
+        fakeModel("claude", { error: httpError(429, "rate limited") }),
+        fakeModel("gpt", { text: "hello" }),
+      ],
+      health: new ModelHealthRegistry(),
+    });
+
+    const { stream } = await model.doStream(options);
+    expect(await readText(stream)).toBe("hello");
+    expect(model.getLastReport()).toEqual({
+      answeredIndex: 1,
+      skipped: [
+        { index: 0, modelId: "claude", reason: "rate-limit: rate limited" },
+      ],
+    });
+  });
+
+  it("surfaces errors the chain isn't configured to fall back on", async () => {
+    const gpt = fakeModel("gpt", { text: "hello" });
+    const model = createFallback({
+      models: [fakeModel("claude", { error: httpError(401, "bad key") }), gpt],
+      health: new ModelHealthRegistry(),
+      shouldFallback: (error) => classifyModelError(error) === "rate-limit",
+    });
+
+    await expect(model.doStream(options)).rejects.toThrow("bad key");
+    expect(gpt.doStream).not.toHaveBeenCalled();
+  });
+
+  it("skips models whose circuit is open", async () => {
+    const health = new ModelHealthRegistry();
+    const claude = fakeModel("claude", { text: "from claude" });
+    health.recordFailure(claude, httpError(401, "bad key"));
+    const model = createFallback({
+      models: [claude, fakeModel("gpt", { text: "from gpt" })],
+      health,
+    });
+
+    const { stream } = await model.doStream(options);
+    expect(await readText(stream)).toBe("from gpt");
+    expect(claude.doStream).not.toHaveBeenCalled();
+    expect(model.getLastReport()?.skipped[0]).toMatchObject({
+      index: 0,
+      reason: "circuit open after repeated failures",
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../main/settings", () => ({
+  readSettings: () => ({}),
+}));
+
+import {
+  summarizeViolations,
+  violationsToCsv,
+  type ViolationLog,
+} from "../ipc/utils/guardrail_logger";
+
+function makeLog(overrides: Partial<ViolationLog>): ViolationLog {
+  return {
+    timestamp: new Date("2026-03-02T10:00:00.000Z"),
+    chatId: 1,
+    appId: 2,
+    messageId: 3,
+    violationType: "markdown_code_block",
+    action: "correct",
+    mode: "build",
+    model: "gpt-5",
+    provider: "openai",
+    context: "```tsx",
+    ...overrides,
+  };
+}
+
+describe("summarizeViolations", () => {
+  it("buckets violations per day, including empty days", () => {
+    const logs = [
+      makeLog({}),
+      makeLog({ violationType: "codex_cli_tool", provider: "anthropic" }),
+      makeLog({ timestamp: new Date("2026-03-04T08:00:00.000Z") }),
+    ];
+    const summary = summarizeViolations(
+      logs,
+      new Date("2026-03-01T00:00:00.000Z"),
+      new Date("2026-03-04T23:00:00.000Z"),
+    );
+
+    expect(summary.total).toBe(3);
+    expect(summary.byProvider).toEqual({ openai: 2, anthropic: 1 });
+    expect(summary.daily.map((day) => [day.date, day.total])).toEqual([
+      ["2026-03-01", 0],
+      ["2026-03-02", 2],
+      ["2026-03-03", 0],
+      ["2026-03-04", 1],
+    ]);
+    expect(summary.daily[1].byType).toEqual({
+      markdown_code_block: 1,
+      codex_cli_tool: 1,
+    });
+    // Newest first, with the chat and message for drill-down
+    expect(summary.entries[0]).toMatchObject({
+      timestamp: "2026-03-04T08:00:00.000Z",
+      chatId: 1,
+      appId: 2,
+      messageId: 3,
+    });
+  });
+});
+
+describe("violationsToCsv", () => {
+  it("quotes fields with commas, quotes and newlines", () => {
+    const csv = violationsToCsv([
+      makeLog({ context: 'say "hi", then\nleave', workflowStep: undefined }),
+    ]);
+    const [header, row] = csv.split(/\n(?=2026)/);
+    expect(header).toBe(
+      "timestamp,violation_type,action,mode,workflow_step,model,provider,app_id,chat_id,message_id,context",
+    );
+    expect(row).toBe(
+      '2026-03-02T10:00:00.000Z,markdown_code_block,correct,build,,gpt-5,openai,2,1,3,"say ""hi"", then\nleave"\n',
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_GUARDRAIL_RULES,
+  evaluateGuardrailRules,
+  globToRegExp,
+  mergeGuardrailConfigs,
+  parseGuardrailConfig,
+} from "../ipc/utils/guardrail_rules";
+
+const ids = (violations: { ruleId: string }[]) =>
+  violations.map((v) => v.ruleId);
+
+describe("evaluateGuardrailRules", () => {
+  it("flags markdown code blocks outside dyad tags only", () => {
+    const inside = `<dyad-write path="README.md">\n\`\`\`bash\nnpm i\n\`\`\`\n</dyad-write>`;
+    expect(
+      evaluateGuardrailRules(inside, DEFAULT_GUARDRAIL_RULES, {
+        mode: "build",
+      }),
+    ).toEqual([]);
+
+    const outside = "Here is the file:\n```tsx\nexport {}\n```";
+    expect(
+      ids(
+        evaluateGuardrailRules(outside, DEFAULT_GUARDRAIL_RULES, {
+          mode: "build",
+        }),
+      ),
+    ).toEqual(["markdown_code_block"]);
+  });
+
+  it("applies rules to their chat modes", () => {
+    const response = `<dyad-write path="src/a.ts">x</dyad-write>`;
+    expect(
+      ids(
+        evaluateGuardrailRules(response, DEFAULT_GUARDRAIL_RULES, {
+          mode: "agent",
+        }),
+      ),
+    ).toEqual(["agent_dyad_tags"]);
+    expect(
+      evaluateGuardrailRules(response, DEFAULT_GUARDRAIL_RULES, {
+        mode: "build",
+      }),
+    ).toEqual([]);
+  });
+
+  it("checks paths against the docs step's allow list", () => {
+    const response = `<dyad-write path="docs/guide.md">a</dyad-write><dyad-write path="src/App.tsx">b</dyad-write>`;
+    const violations = evaluateGuardrailRules(
+      response,
+      DEFAULT_GUARDRAIL_RULES,
+      { mode: "build", workflowStep: "docs" },
+    );
+    expect(ids(violations)).toEqual(["docs_non_markdown"]);
+    expect(violations[0].message).toContain("src/App.tsx");
+  });
+
+  it("skips unclosed tags while the response is streaming", () => {
+    const response = `<dyad-write path="src/a.ts">export const a = 1;`;
+    expect(
+      evaluateGuardrailRules(response, DEFAULT_GUARDRAIL_RULES, {
+        mode: "build",
+        partial: true,
+      }),
+    ).toEqual([]);
+    expect(
+      ids(
+        evaluateGuardrailRules(response, DEFAULT_GUARDRAIL_RULES, {
+          mode: "build",
+        }),
+      ),
+    ).toEqual(["malformed_tag"]);
+  });
+
+  it("turns workflow tag restrictions into rules", () => {
+    const violations = evaluateGuardrailRules(
+      `<dyad-delete path="src/a.ts"></dyad-delete>`,
+      [],
+      { mode: "build", workflowStep: "review", allowedTags: ["dyad-write"] },
+    );
+    expect(ids(violations)).toEqual(["workflow_tag:dyad-delete"]);
+  });
+});
+
+describe("mergeGuardrailConfigs", () => {
+  it("lets later configs override and disable rules", () => {
+    const global = parseGuardrailConfig(
+      JSON.stringify({
+        rules: [
+          {
+            id: "no_console",
+            message: "Don't leave {match} in code",
+            when: {
+              type: "regex",
+              pattern: "console\\.log",
+              scope: "dyad-write-content",
+            },
+            action: "warn",
+          },
+        ],
+      }),
+    );
+    const app = parseGuardrailConfig(
+      JSON.stringify({ disabledRules: ["markdown_code_block"] }),
+    );
+    const rules = mergeGuardrailConfigs(global, app);
+
+    expect(rules.map((rule) => rule.id)).not.toContain("markdown_code_block");
+    const violations = evaluateGuardrailRules(
+      `\`\`\`js\n<dyad-write path="a.js">console.log(1)</dyad-write>`,
+      rules,
+      { mode: "build" },
+    );
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      ruleId: "no_console",
+      action: "warn",
+      message: "Don't leave console.log in code",
+    });
+  });
+
+  it("rejects rules with invalid regular expressions", () => {
+    const parse = (when: object) =>
+      parseGuardrailConfig(
+        JSON.stringify({ rules: [{ id: "x", message: "x", when }] }),
+      );
+    expect(() => parse({ type: "regex", pattern: "(unclosed" })).toThrow(
+      /Invalid regular expression/,
+    );
+    expect(() => parse({ type: "regex", pattern: "a", flags: "q" })).toThrow(
+      /Invalid flags/,
+    );
+    expect(() =>
+      parse({ type: "regex", pattern: "a+", flags: "i" }),
+    ).not.toThrow();
+  });
+
+  it("rejects rules with unknown predicate types", () => {
+    expect(() =>
+      parseGuardrailConfig(
+        JSON.stringify({
+          rules: [{ id: "x", message: "x", when: { type: "ast" } }],
+        }),
+      ),
+    ).toThrow();
+  });
+});
+
+describe("globToRegExp", () => {
+  it("supports globstars and alternatives", () => {
+    const glob = globToRegExp("{docs/**/*.md,README.md}");
+    expect(glob.test("docs/a.md")).toBe(true);
+    expect(glob.test("docs/nested/a.md")).toBe(true);
+    expect(glob.test("README.md")).toBe(true);
+    expect(glob.test("src/README.md")).toBe(false);
+    expect(glob.test("docs/a.ts")).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import ts from "typescript";
+import {
+  buildImportGraph,
+  describeExpansionReason,
+  expandContextFiles,
+  findMentionedFiles,
+  parseImportReferences,
+} from "../ipc/utils/import_graph";
+
+describe("parseImportReferences", () => {
+  it("finds static, dynamic and type-only imports", () => {
+    const source = `
+import React from "react";
+import type { User } from "@/types/user";
+import { type Order, type Item } from "./orders";
+import { formatDate, type DateFormat } from "./dates";
+import "./styles.css";
+export { Button } from "./Button";
+export type { Theme } from "./theme";
+const Chart = React.lazy(() => import("./Chart"));
+const config = require("./config");
+let settings: import("./settings").Settings;
+`;
+    expect(parseImportReferences(ts, "src/App.tsx", source)).toEqual([
+      { specifier: "react", typeOnly: false },
+      { specifier: "@/types/user", typeOnly: true },
+      { specifier: "./orders", typeOnly: true },
+      { specifier: "./dates", typeOnly: false },
+      { specifier: "./styles.css", typeOnly: false },
+      { specifier: "./Button", typeOnly: false },
+      { specifier: "./theme", typeOnly: true },
+      { specifier: "./Chart", typeOnly: false },
+      { specifier: "./config", typeOnly: false },
+      { specifier: "./settings", typeOnly: true },
+    ]);
+  });
+});
+
+describe("expandContextFiles", () => {
+  // App -> Page -> Card -> Avatar, with Card typed by types/user.ts, which
+  // in turn uses types/id.ts
+  const graph = buildImportGraph(
+    [
+      {
+        path: "src/App.tsx",
+        references: [{ specifier: "Page", typeOnly: false }],
+      },
+      {
+        path: "src/Page.tsx",
+        references: [{ specifier: "Card", typeOnly: false }],
+      },
+      {
+        path: "src/Card.tsx",
+        references: [
+          { specifier: "Avatar", typeOnly: false },
+          { specifier: "react", typeOnly: false },
+          { specifier: "types/user", typeOnly: true },
+        ],
+      },
+      { path: "src/Avatar.tsx", references: [] },
+      {
+        path: "src/types/user.ts",
+        references: [{ specifier: "types/id", typeOnly: true }],
+      },
+      { path: "src/types/id.ts", references: [] },
+      { path: "src/Unrelated.tsx", references: [] },
+    ],
+    (specifier) =>
+      specifier === "react"
+        ? null
+        : specifier.startsWith("types/")
+          ? `src/${specifier}.ts`
+          : `src/${specifier}.tsx`,
+  );
+
+  it("adds dependencies, their types and dependents with reasons", () => {
+    const expanded = expandContextFiles(graph, [
+      { path: "src/Card.tsx", reason: "selected" },
+    ]);
+    expect(
+      expanded.map((file) => [file.path, describeExpansionReason(file)]),
+    ).toEqual([
+      ["src/Card.tsx", "Selected component"],
+      ["src/Avatar.tsx", "Imported by src/Card.tsx"],
+      ["src/types/user.ts", "Types used by src/Card.tsx"],
+      ["src/types/id.ts", "Types used by src/types/user.ts"],
+      ["src/Page.tsx", "Imports src/Card.tsx"],
+      ["src/App.tsx", "Imports src/Page.tsx (2 hops away)"],
+    ]);
+  });
+
+  it("stops at the hop and file limits", () => {
+    expect(
+      expandContextFiles(
+        graph,
+        [{ path: "src/Card.tsx", reason: "selected" }],
+        { dependentHops: 1, maxFiles: 5 },
+      ).map((file) => file.path),
+    ).toEqual([
+      "src/Card.tsx",
+      "src/Avatar.tsx",
+      "src/types/user.ts",
+      "src/types/id.ts",
+      "src/Page.tsx",
+    ]);
+  });
+});
+
+describe("findMentionedFiles", () => {
+  const paths = [
+    "src/components/Navbar.tsx",
+    "src/pages/Index.tsx",
+    "src/components/Index.tsx",
+  ];
+
+  it("matches full paths and unambiguous file names", () => {
+    expect(
+      findMentionedFiles(
+        "Make Navbar.tsx sticky like in ./src/pages/Index.tsx, not Index.tsx",
+        paths,
+      ),
+    ).toEqual(["src/components/Navbar.tsx", "src/pages/Index.tsx"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  type MarkupFramework,
+  tagMarkup,
+} from "../../packages/@dyad-sh/react-vite-component-tagger/src/markup";
+
+function tag(source: string, framework: MarkupFramework) {
+  return tagMarkup(source, framework, "src/App.vue")?.toString() ?? null;
+}
+
+// The data-dyad-id of each tagged element, in source order
+function ids(source: string, framework: MarkupFramework) {
+  return [
+    ...(tag(source, framework) ?? "").matchAll(/data-dyad-id="([^"]*)"/g),
+  ].map((match) => match[1]);
+}
+
+describe("tagMarkup for Vue", () => {
+  it("tags the template's elements with their line and column", () => {
+    const source = `<template>
+  <div class="app">
+    <p>Hi</p>
+  </div>
+</template>`;
+    expect(tag(source, "vue")).toBe(`<template>
+  <div data-dyad-id="src/App.vue:2:2" data-dyad-name="div" class="app">
+    <p data-dyad-id="src/App.vue:3:4" data-dyad-name="p">Hi</p>
+  </div>
+</template>`);
+  });
+
+  it("skips components and elements that don't render a node", () => {
+    const source = `<template>
+  <Transition><MyCard /><my-list /></Transition>
+  <template v-if="ok"><span /></template>
+</template>`;
+    expect(ids(source, "vue")).toEqual([
+      "src/App.vue:2:24",
+      "src/App.vue:3:22",
+    ]);
+  });
+
+  it("ignores markup in quotes, interpolations, comments and blocks", () => {
+    const source = `<script setup>
+const html = "<div>";
+</script>
+<template>
+  <!-- <section> -->
+  <a title="<b>" :href="a > b ? '<i>' : ''">{{ a < b ? "<em>" : "" }}</a>
+</template>
+<style>
+a::before { content: "<p>"; }
+</style>`;
+    expect(ids(source, "vue")).toEqual(["src/App.vue:6:2"]);
+  });
+
+  it("leaves templates in other languages alone", () => {
+    expect(tag(`<template lang="pug">\ndiv.app\n</template>`, "vue")).toBe(
+      null,
+    );
+  });
+});
+
+describe("tagMarkup for Svelte", () => {
+  it("skips components, braces and the children of svelte:head", () => {
+    const source = `<script>
+  let html = "<div>";
+</script>
+<svelte:head><title>App</title></svelte:head>
+<Card title={"<b>"} />
+<p class={a > b ? "x" : "y"}>{a < b ? "<em>" : ""}</p>
+<svelte:element this="h1"><span /></svelte:element>`;
+    expect(ids(source, "svelte")).toEqual([
+      "src/App.vue:6:0",
+      "src/App.vue:7:26",
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { ModelHealthRegistry } from "../ipc/utils/model_health";
+
+const claude = { provider: "anthropic.messages", modelId: "claude" };
+const gpt = { provider: "openai.chat", modelId: "gpt" };
+const local = { provider: "ollama.chat", modelId: "llama" };
+
+function createRegistry() {
+  let now = 1_000_000;
+  const registry = new ModelHealthRegistry({}, { now: () => now });
+  return {
+    registry,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+function serverError() {
+  return Object.assign(new Error("overloaded"), { statusCode: 503 });
+}
+
+describe("ModelHealthRegistry", () => {
+  it("opens the circuit after repeated failures", () => {
+    const { registry } = createRegistry();
+    registry.recordFailure(claude, serverError());
+    registry.recordFailure(claude, serverError());
+    expect(registry.getState(claude)).toBe("closed");
+    registry.recordFailure(claude, serverError());
+    expect(registry.getState(claude)).toBe("open");
+  });
+
+  it("opens immediately on an auth error", () => {
+    const { registry } = createRegistry();
+    registry.recordFailure(
+      claude,
+      Object.assign(new Error("invalid x-api-key"), { statusCode: 401 }),
+    );
+    expect(registry.getState(claude)).toBe("open");
+    expect(registry.list()[0].lastError).toBe("401: invalid x-api-key");
+  });
+
+  it("goes half-open after the cooldown and closes on success", () => {
+    const { registry, advance } = createRegistry();
+    registry.recordFailure(
+      claude,
+      Object.assign(new Error("rate limited"), { statusCode: 429 }),
+    );
+    expect(registry.getState(claude)).toBe("open");
+    advance(61_000);
+    expect(registry.getState(claude)).toBe("half-open");
+    registry.recordSuccess(claude, 800);
+    expect(registry.getState(claude)).toBe("closed");
+  });
+
+  it("reopens with a longer cooldown when the half-open probe fails", () => {
+    const { registry, advance } = createRegistry();
+    for (let i = 0; i < 3; i++) registry.recordFailure(claude, serverError());
+    advance(31_000);
+    expect(registry.getState(claude)).toBe("half-open");
+    registry.recordFailure(claude, serverError());
+    expect(registry.getState(claude)).toBe("open");
+    advance(31_000);
+    expect(registry.getState(claude)).toBe("open");
+    advance(30_000);
+    expect(registry.getState(claude)).toBe("half-open");
+  });
+
+  it("skips open circuits and tries recovering models last", () => {
+    const { registry, advance } = createRegistry();
+    for (let i = 0; i < 3; i++) registry.recordFailure(gpt, serverError());
+    advance(31_000);
+    for (let i = 0; i < 3; i++) registry.recordFailure(claude, serverError());
+    // gpt is half-open, claude is open
+    expect(registry.getAttemptOrder([claude, gpt, local])).toEqual([2, 1]);
+  });
+
+  it("still tries the model that recovers first when every circuit is open", () => {
+    const { registry, advance } = createRegistry();
+    for (let i = 0; i < 3; i++) registry.recordFailure(claude, serverError());
+    advance(10_000);
+    for (let i = 0; i < 3; i++) registry.recordFailure(gpt, serverError());
+    expect(registry.getAttemptOrder([gpt, claude])).toEqual([1]);
+  });
+
+  it("reports error rate and latency and survives a round trip", () => {
+    const { registry } = createRegistry();
+    registry.recordSuccess(local, 1000);
+    registry.recordSuccess(local, 2000);
+    registry.recordFailure(local, serverError());
+    registry.recordSuccess(local, 3000);
+
+    const restored = new ModelHealthRegistry(
+      JSON.parse(JSON.stringify(registry.toJSON())),
+      { now: () => 1_000_000 },
+    );
+    const [health] = restored.list();
+    expect(health).toMatchObject({
+      key: "ollama.chat:llama",
+      state: "closed",
+      errorRate: 0.25,
+      sampleCount: 4,
+      avgLatencyMs: 2000,
+    });
+  });
+});
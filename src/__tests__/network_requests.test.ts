@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import type { NetworkRequestEntry } from "@/ipc/ipc_types";
+import {
+  formatNetworkRequestForPrompt,
+  isFailedNetworkRequest,
+  upsertNetworkRequest,
+} from "@/ipc/shared/network_requests";
+
+function request(overrides: Partial<NetworkRequestEntry>): NetworkRequestEntry {
+  return {
+    id: "1",
+    kind: "fetch",
+    method: "GET",
+    url: "http://localhost:32100/api/todos",
+    status: null,
+    startTime: 0,
+    durationMs: null,
+    ...overrides,
+  };
+}
+
+describe("upsertNetworkRequest", () => {
+  it("replaces the pending report when the request completes", () => {
+    const pending = request({});
+    const other = request({ id: "2" });
+    const completed = request({ status: 200, durationMs: 12 });
+    expect(upsertNetworkRequest([pending, other], completed)).toEqual([
+      completed,
+      other,
+    ]);
+  });
+
+  it("drops the oldest requests past the limit", () => {
+    const requests = ["1", "2", "3"].map((id) => request({ id }));
+    expect(
+      upsertNetworkRequest(requests, request({ id: "4" }), 3).map(
+        (entry) => entry.id,
+      ),
+    ).toEqual(["2", "3", "4"]);
+  });
+});
+
+describe("isFailedNetworkRequest", () => {
+  it("treats error statuses and network errors as failures", () => {
+    expect(isFailedNetworkRequest(request({ status: 404 }))).toBe(true);
+    expect(isFailedNetworkRequest(request({ error: "Failed to fetch" }))).toBe(
+      true,
+    );
+    expect(isFailedNetworkRequest(request({ status: 204 }))).toBe(false);
+    expect(isFailedNetworkRequest(request({}))).toBe(false);
+  });
+});
+
+describe("formatNetworkRequestForPrompt", () => {
+  it("includes the request and the response", () => {
+    expect(
+      formatNetworkRequestForPrompt(
+        request({
+          method: "POST",
+          status: 500,
+          statusText: "Internal Server Error",
+          durationMs: 48,
+          requestHeaders: { "content-type": "application/json" },
+          requestBody: '{"title":"Buy milk"}',
+          responseHeaders: {},
+          responseBody: '{"error":"relation \\"todos\\" does not exist"}',
+        }),
+      ),
+    ).toBe(`POST http://localhost:32100/api/todos (fetch)
+Status: 500 Internal Server Error
+Duration: 48ms
+Request headers:
+content-type: application/json
+Request body:
+{"title":"Buy milk"}
+Response headers:
+(none)
+Response body:
+{"error":"relation \\"todos\\" does not exist"}`);
+  });
+
+  it("masks credentials in the headers", () => {
+    const prompt = formatNetworkRequestForPrompt(
+      request({
+        status: 200,
+        requestHeaders: {
+          Authorization: "Bearer secret-token",
+          Cookie: "session=abc",
+          apikey: "anon-key",
+          "X-API-Key": "key-123",
+          accept: "application/json",
+        },
+        responseHeaders: {
+          "set-cookie": "session=def",
+          "x-api-key": "key-456",
+        },
+      }),
+    );
+    expect(prompt).toContain(`Request headers:
+Authorization: [masked]
+Cookie: [masked]
+apikey: [masked]
+X-API-Key: [masked]
+accept: application/json`);
+    expect(prompt).toContain(`Response headers:
+set-cookie: [masked]
+x-api-key: [masked]`);
+    expect(prompt).not.toMatch(/secret-token|session=|anon-key|key-\d/);
+  });
+});
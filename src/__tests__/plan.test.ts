@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPlanStepPrompt,
+  getDyadPlanContent,
+  getNextPlanStep,
+  mergePlanSteps,
+  parsePlanSteps,
+} from "../ipc/shared/plan";
+import type { PlanStep } from "../ipc/ipc_types";
+
+const response = `Here's the approach.
+
+<dyad-plan>
+<step files="src/lib/theme.ts, src/App.tsx" risk="low">Add a theme context &amp; provider.</step>
+<step files="src/components/Header.tsx" risk="HIGH">Add a toggle to the header.</step>
+<step risk="extreme">Enable dark mode in CSS.</step>
+<step files="src/unused.ts"> </step>
+</dyad-plan>
+
+Let me know what you think.`;
+
+function parse(): PlanStep[] {
+  return parsePlanSteps(getDyadPlanContent(response)!);
+}
+
+describe("parsePlanSteps", () => {
+  it("parses ordered steps with files, intent and risk", () => {
+    expect(parse()).toEqual([
+      {
+        id: "step-1",
+        intent: "Add a theme context & provider.",
+        files: ["src/lib/theme.ts", "src/App.tsx"],
+        risk: "low",
+        status: "pending",
+        commitHash: null,
+      },
+      {
+        id: "step-2",
+        intent: "Add a toggle to the header.",
+        files: ["src/components/Header.tsx"],
+        risk: "high",
+        status: "pending",
+        commitHash: null,
+      },
+      {
+        id: "step-3",
+        intent: "Enable dark mode in CSS.",
+        files: [],
+        risk: "medium",
+        status: "pending",
+        commitHash: null,
+      },
+    ]);
+  });
+
+  it("returns null without a complete plan", () => {
+    expect(getDyadPlanContent("<dyad-plan><step>Half")).toBeNull();
+  });
+});
+
+describe("mergePlanSteps", () => {
+  it("applies reordering, edits and skips to steps that haven't run", () => {
+    const [first, second, third] = parse();
+    const current = [{ ...first, status: "done" as const }, second, third];
+
+    const merged = mergePlanSteps(current, [
+      { ...first, intent: "Changed after it ran" },
+      { ...third, intent: "  Enable dark mode everywhere. ", risk: "high" },
+      { ...second, status: "skipped" },
+    ]);
+
+    expect(merged.map((step) => [step.id, step.status, step.intent])).toEqual([
+      ["step-1", "done", "Add a theme context & provider."],
+      ["step-3", "pending", "Enable dark mode everywhere."],
+      ["step-2", "skipped", "Add a toggle to the header."],
+    ]);
+    expect(merged[1].risk).toBe("high");
+    expect(getNextPlanStep(merged)?.id).toBe("step-3");
+  });
+
+  it("rejects added or removed steps", () => {
+    const steps = parse();
+    expect(() => mergePlanSteps(steps, steps.slice(1))).toThrow();
+    expect(() =>
+      mergePlanSteps(steps, [...steps.slice(1), { ...steps[1], id: "new" }]),
+    ).toThrow();
+  });
+});
+
+describe("buildPlanStepPrompt", () => {
+  it("numbers the step among the steps that will run", () => {
+    const [first, second, third] = parse();
+    const steps = [{ ...first, status: "skipped" as const }, second, third];
+
+    const prompt = buildPlanStepPrompt(steps, second);
+
+    expect(prompt).toContain("step 1 of 2");
+    expect(prompt).toContain("Files: src/components/Header.tsx");
+    expect(prompt).toContain("1. [skipped] Add a theme context & provider.");
+    expect(prompt).toContain("2. [this step] Add a toggle to the header.");
+  });
+});
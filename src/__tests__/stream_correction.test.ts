@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatCorrectionMarker,
+  getResumePoint,
+  removeCorrectionTags,
+} from "../ipc/utils/stream_correction";
+
+describe("getResumePoint", () => {
+  it("keeps everything before a violation outside tags", () => {
+    const response = `<dyad-write path="a.ts">a</dyad-write>\nNow \`\`\`tsx`;
+    const index = response.indexOf("```");
+    expect(getResumePoint(response, index)).toBe(index);
+  });
+
+  it("drops a file that was half written at the violation", () => {
+    const response = `Intro\n<dyad-write path="a.ts">a</dyad-write>\n<dyad-write path="b.ts">\nconst b = ""; /* bad */`;
+    const index = response.indexOf("/* bad */");
+    expect(response.slice(0, getResumePoint(response, index))).toBe(
+      `Intro\n<dyad-write path="a.ts">a</dyad-write>\n`,
+    );
+  });
+});
+
+describe("correction markers", () => {
+  it("escapes dyad tags in the instruction and can be removed", () => {
+    const marker = formatCorrectionMarker({
+      ruleId: "markdown_code_block",
+      instruction: `Use <dyad-write path="a.ts"> instead`,
+    });
+    expect(marker).toContain(`<dyad-correction rule="markdown_code_block">`);
+    expect(marker).not.toContain("<dyad-write");
+    expect(removeCorrectionTags(`before${marker}after`)).toBe(
+      "before\n\nafter",
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyByKeywords,
+  classifyFromFilePaths,
+} from "../ipc/utils/task_detector";
+
+describe("classifyByKeywords", () => {
+  it("routes error reports to debugging and explains why", () => {
+    const result = classifyByKeywords({
+      userPrompt: "The login form throws an error on submit",
+    });
+    expect(result.taskType).toBe("debugging");
+    expect(result.classifier).toBe("keyword");
+    expect(result.explanation).toContain('"error"');
+  });
+
+  it("matches whole words only", () => {
+    // "suits" must not count as "ui"
+    const result = classifyByKeywords({
+      userPrompt: "Add a page that lists suits",
+    });
+    expect(result.taskType).toBe("frontend");
+    expect(result.explanation).toContain('"page"');
+    expect(result.explanation).not.toContain('"ui"');
+  });
+
+  it("matches plural keywords", () => {
+    const result = classifyByKeywords({
+      userPrompt: "The components show errors after the update",
+    });
+    expect(result.taskType).toBe("debugging");
+    expect(result.explanation).toContain('"error"');
+
+    const frontend = classifyByKeywords({
+      userPrompt: "Restyle the buttons and cards",
+    });
+    expect(frontend.taskType).toBe("frontend");
+    expect(frontend.explanation).toContain('"button", "card"');
+  });
+
+  it("uses the selected component's extension", () => {
+    const result = classifyByKeywords({
+      userPrompt: "Make it faster",
+      selectedComponent: { relativePath: "src/components/List.tsx" },
+    });
+    expect(result.taskType).toBe("frontend");
+    expect(result.explanation).toContain(".tsx");
+  });
+
+  it("falls back to general without any signal", () => {
+    const result = classifyByKeywords({ userPrompt: "Hello there" });
+    expect(result.taskType).toBe("general");
+    expect(result.ultrathink).toBe(false);
+  });
+
+  it("detects ultrathink", () => {
+    expect(
+      classifyByKeywords({ userPrompt: "ultrathink about the architecture" })
+        .ultrathink,
+    ).toBe(true);
+  });
+});
+
+describe("classifyFromFilePaths", () => {
+  it("weighs the selected component over recent files", () => {
+    const result = classifyFromFilePaths({
+      selectedComponentPath: "src/components/Header.tsx",
+      recentFiles: ["src/api/users.ts", "supabase/functions/send/index.ts"],
+    });
+    expect(result?.taskType).toBe("frontend");
+    expect(result?.classifier).toBe("context");
+  });
+
+  it("uses recently touched files", () => {
+    const result = classifyFromFilePaths({
+      recentFiles: [
+        "src/server/routes.ts",
+        "supabase/migrations/0001_init.sql",
+        "src/pages/Index.tsx",
+      ],
+    });
+    expect(result?.taskType).toBe("backend");
+    expect(result?.explanation).toContain("1 frontend and 2 backend files");
+  });
+
+  it("returns null when there is no signal", () => {
+    expect(
+      classifyFromFilePaths({ recentFiles: ["README.md", "package.json"] }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../main/settings", () => ({
+  readSettings: () => ({
+    selectedModel: { name: "claude-sonnet-4", provider: "anthropic" },
+  }),
+}));
+vi.mock("../ipc/utils/findLanguageModel", () => ({
+  findLanguageModel: async () => undefined,
+}));
+
+import { BpeTokenizer, CL100K_PATTERN } from "../ipc/utils/bpe_tokenizer";
+import {
+  countMessageTokens,
+  getTokenizer,
+  type Tokenizer,
+} from "../ipc/utils/tokenizer_registry";
+import { fitMessagesToTokenBudget } from "../ipc/utils/token_utils";
+
+describe("BpeTokenizer", () => {
+  it("merges byte pairs by rank", () => {
+    const ranks = new Map(
+      ["h", "e", "l", "o", " ", "he", "ll", "hell", "hello", " w"].map(
+        (token, rank) => [token, rank] as [string, number],
+      ),
+    );
+    const tokenizer = new BpeTokenizer("test", ranks, CL100K_PATTERN);
+    // " hel" has no ranked " h", so it merges into " ", "he", "l"
+    expect(tokenizer.count("hello")).toBe(1);
+    expect(tokenizer.count(" hel")).toBe(3);
+  });
+});
+
+describe("getTokenizer", () => {
+  it("picks the tokenizer by model family", () => {
+    expect(
+      getTokenizer({ name: "gpt-4o-mini", provider: "openai" }).id,
+    ).toMatch(/^o200k_base/);
+    expect(
+      getTokenizer({ name: "openai/gpt-4-turbo", provider: "openrouter" }).id,
+    ).toMatch(/^cl100k_base/);
+    expect(
+      getTokenizer({ name: "gemini-2.5-pro", provider: "google" }).id,
+    ).toBe("google");
+    expect(getTokenizer({ name: "qwen3-coder", provider: "ollama" }).id).toBe(
+      "generic",
+    );
+  });
+
+  it.each([
+    ["openai/gpt-4-turbo", "cl100k_base", [2, 20, 13]],
+    ["gpt-4o-mini", "o200k_base", [2, 20, 11]],
+  ])(
+    "counts %s's tokens exactly with the bundled %s vocabulary",
+    (name, encoding, counts) => {
+      const tokenizer = getTokenizer({ name, provider: "openai" });
+      expect(tokenizer.id).toBe(encoding);
+      expect(
+        [
+          "hello world",
+          "export function add(a: number, b: number): number {\n    return a + b;\n}\n",
+          "Tokenizers split 東京 and naïve café text differently!",
+        ].map((text) => tokenizer.count(text)),
+      ).toEqual(counts);
+    },
+  );
+
+  it("counts code as denser than four characters per token", () => {
+    const code = `export function add(a: number, b: number): number {\n    return a + b;\n}\n`;
+    const tokenizer = getTokenizer({
+      name: "claude-sonnet-4",
+      provider: "anthropic",
+    });
+    expect(tokenizer.count(code)).toBeGreaterThan(Math.ceil(code.length / 4));
+  });
+});
+
+describe("countMessageTokens", () => {
+  it("caches counts per message until the content changes", () => {
+    const count = vi.fn((text: string) => text.length);
+    const tokenizer: Tokenizer = { id: "counting", count };
+    expect(countMessageTokens(tokenizer, { id: 1, content: "abc" })).toBe(3);
+    expect(countMessageTokens(tokenizer, { id: 1, content: "abc" })).toBe(3);
+    expect(countMessageTokens(tokenizer, { id: 1, content: "abcd" })).toBe(4);
+    expect(count).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("fitMessagesToTokenBudget", () => {
+  it("drops the oldest turns and keeps the history starting with a user", () => {
+    const messages = [
+      { id: 101, role: "user", content: "first question ".repeat(20) },
+      { id: 102, role: "assistant", content: "first answer ".repeat(20) },
+      { id: 103, role: "user", content: "second question" },
+      { id: 104, role: "assistant", content: "second answer" },
+      { id: 105, role: "user", content: "third question" },
+    ];
+    const fitted = fitMessagesToTokenBudget(messages, 30);
+    expect(fitted.map((message) => message.id)).toEqual([103, 104, 105]);
+    expect(fitMessagesToTokenBudget(messages, 0).map((m) => m.id)).toEqual([
+      105,
+    ]);
+  });
+});
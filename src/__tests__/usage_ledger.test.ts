@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../db", () => ({ db: {} }));
+vi.mock("../main/settings", () => ({
+  readSettings: () => ({ modelPrices: [] }),
+}));
+vi.mock("../ipc/utils/findLanguageModel", () => ({
+  findLanguageModel: async () => undefined,
+}));
+
+import { computeCost, getModelPrice } from "../ipc/shared/model_prices";
+import {
+  getBudgetStatus,
+  normalizeUsage,
+  summarizeUsage,
+  type UsageRow,
+} from "../ipc/utils/usage_ledger";
+
+function usageRow(overrides: Partial<UsageRow>): UsageRow {
+  return {
+    appId: 1,
+    appName: "shop",
+    chatId: 10,
+    chatTitle: "Checkout page",
+    kind: "chat",
+    provider: "openai",
+    model: "gpt-5",
+    inputTokens: 1_000,
+    outputTokens: 100,
+    cachedInputTokens: 0,
+    reasoningTokens: 0,
+    cost: 0.01,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("model prices", () => {
+  it("charges cached input at its discounted price", () => {
+    const price = getModelPrice("openai", "gpt-5")!;
+    const cost = computeCost(
+      {
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+        cachedInputTokens: 400_000,
+        reasoningTokens: 50_000,
+      },
+      price,
+    );
+    // 600k input at $1.25, 400k cached at $0.125, 100k output at $10
+    expect(cost).toBeCloseTo(0.75 + 0.05 + 1);
+  });
+
+  it("prefers the user's price and knows nothing of custom models", () => {
+    expect(getModelPrice("my-provider", "my-model")).toBeUndefined();
+    expect(
+      getModelPrice("openai", "gpt-5", [
+        {
+          provider: "openai",
+          model: "gpt-5",
+          inputPerMillion: 2,
+          outputPerMillion: 4,
+        },
+      ]),
+    ).toMatchObject({ inputPerMillion: 2, outputPerMillion: 4 });
+  });
+});
+
+describe("normalizeUsage", () => {
+  const usage = {
+    inputTokens: 100,
+    outputTokens: 50,
+    totalTokens: 150,
+    cachedInputTokens: 30,
+    reasoningTokens: 20,
+  };
+
+  it("adds Anthropic's cache reads to the input", () => {
+    expect(normalizeUsage("anthropic", usage)).toMatchObject({
+      inputTokens: 130,
+      outputTokens: 50,
+    });
+  });
+
+  it("adds Google's thinking to the output", () => {
+    expect(normalizeUsage("google", usage)).toMatchObject({
+      inputTokens: 100,
+      outputTokens: 70,
+    });
+  });
+
+  it("keeps OpenAI's counts, which already include both", () => {
+    expect(normalizeUsage("openai", usage)).toMatchObject({
+      inputTokens: 100,
+      outputTokens: 50,
+    });
+  });
+});
+
+describe("getBudgetStatus", () => {
+  it("reports the strictest limit reached", () => {
+    expect(getBudgetStatus(5, 10, 20).status).toBe("ok");
+    expect(getBudgetStatus(12, 10, 20)).toEqual({
+      status: "soft-limit",
+      limit: 10,
+    });
+    expect(getBudgetStatus(25, 10, 20)).toEqual({
+      status: "hard-limit",
+      limit: 20,
+    });
+    expect(getBudgetStatus(25, null, null).status).toBe("ok");
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("totals cost by app, model and day, leaving unpriced requests out", () => {
+    const startDate = new Date();
+    startDate.setHours(0, 0, 0, 0);
+    startDate.setDate(startDate.getDate() - 6);
+
+    const summary = summarizeUsage(
+      [
+        usageRow({ cost: 0.02 }),
+        usageRow({ kind: "router", model: "gpt-5-nano", cost: 0.001 }),
+        usageRow({
+          appId: 2,
+          appName: "blog",
+          chatId: 20,
+          provider: "custom",
+          model: "local-llama",
+          cost: null,
+        }),
+      ],
+      startDate,
+    );
+
+    expect(summary.totals.requests).toBe(3);
+    expect(summary.totals.cost).toBeCloseTo(0.021);
+    expect(summary.totals.unpricedRequests).toBe(1);
+    expect(summary.daily).toHaveLength(7);
+    expect(summary.daily[6].cost).toBeCloseTo(0.021);
+    expect(summary.byApp.map((row) => [row.label, row.requests])).toEqual([
+      ["shop", 2],
+      ["blog", 1],
+    ]);
+    expect(summary.byModel[0].key).toBe("openai/gpt-5");
+    expect(summary.byKind.map((row) => row.key)).toEqual(["chat", "router"]);
+  });
+});
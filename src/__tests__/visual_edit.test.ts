@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import ts from "typescript";
+import { applyVisualEdit, inspectJsxElement } from "../ipc/utils/visual_edit";
+
+const source = `export function Hero({ title }: { title: string }) {
+  return (
+    <section className="py-12">
+      <h1 className="text-4xl font-bold">
+        Welcome to the app
+      </h1>
+      <p>{title}</p>
+      <button className={cn("px-4", title && "py-2")}>Go</button>
+      <span></span>
+    </section>
+  );
+}
+`;
+
+// Locations as in the data-dyad-id of the component tagger
+const at = (line: number, column: number) => ({
+  fileName: "src/components/Hero.tsx",
+  content: source,
+  line,
+  column,
+});
+
+describe("inspectJsxElement", () => {
+  it("reads the static class list and text of the element", () => {
+    expect(inspectJsxElement(ts, at(4, 6))).toEqual({
+      tagName: "h1",
+      className: "text-4xl font-bold",
+      text: "Welcome to the app",
+    });
+    expect(inspectJsxElement(ts, at(7, 6))).toEqual({
+      tagName: "p",
+      className: "",
+      text: null,
+    });
+    expect(inspectJsxElement(ts, at(8, 6))).toEqual({
+      tagName: "button",
+      className: null,
+      text: "Go",
+    });
+  });
+
+  it("fails when no element starts at the location", () => {
+    expect(() => inspectJsxElement(ts, at(5, 8))).toThrow(/No element found/);
+  });
+});
+
+describe("applyVisualEdit", () => {
+  it("rewrites only the edited class list and text", () => {
+    const result = applyVisualEdit(ts, at(4, 6), {
+      className: " text-5xl  font-bold ",
+      text: "Hello <world>",
+    });
+    expect(result).toContain(`<h1 className="text-5xl font-bold">
+        {"Hello <world>"}
+      </h1>`);
+    expect(result.replace(/<h1[\s\S]*<\/h1>/, "")).toEqual(
+      source.replace(/<h1[\s\S]*<\/h1>/, ""),
+    );
+  });
+
+  it("adds and removes the className attribute", () => {
+    expect(applyVisualEdit(ts, at(9, 6), { className: "block" })).toContain(
+      `<span className="block"></span>`,
+    );
+    expect(
+      applyVisualEdit(ts, at(3, 4), { className: "" }).split("\n")[2],
+    ).toEqual("    <section>");
+  });
+
+  it("refuses computed classes and non-text content", () => {
+    expect(() => applyVisualEdit(ts, at(8, 6), { className: "px-2" })).toThrow(
+      /computed/,
+    );
+    expect(() => applyVisualEdit(ts, at(7, 6), { text: "Hi" })).toThrow(
+      /plain text/,
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  mergeChecklists,
+  parseChecklistItems,
+} from "../ipc/workflow/workflow_checklist";
+
+describe("parseChecklistItems", () => {
+  it("extracts checked and unchecked items", () => {
+    expect(
+      parseChecklistItems(`Done with the UI.
+
+- [x] Built the login page
+* [X] Added form validation
+- [ ] Wire up the API
+- not a checklist item`),
+    ).toEqual([
+      { text: "Built the login page", checked: true },
+      { text: "Added form validation", checked: true },
+      { text: "Wire up the API", checked: false },
+    ]);
+  });
+
+  it("returns nothing when there is no checklist", () => {
+    expect(parseChecklistItems("Just some text")).toEqual([]);
+  });
+});
+
+describe("mergeChecklists", () => {
+  it("updates existing items and appends new ones", () => {
+    expect(
+      mergeChecklists(
+        [
+          { text: "Build page", checked: true },
+          { text: "Wire up API", checked: false },
+        ],
+        [
+          { text: "Wire up API", checked: true },
+          { text: "Add tests", checked: false },
+        ],
+      ),
+    ).toEqual([
+      { text: "Build page", checked: true },
+      { text: "Wire up API", checked: true },
+      { text: "Add tests", checked: false },
+    ]);
+  });
+});
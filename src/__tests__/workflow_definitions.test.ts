@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_WORKFLOW,
+  buildStepSystemPrompt,
+  getParallelSteps,
+  parseWorkflowDefinition,
+} from "../ipc/workflow/workflow_definitions";
+
+describe("parseWorkflowDefinition", () => {
+  it("parses YAML definitions and applies defaults", () => {
+    const definition = parseWorkflowDefinition(`
+name: API first
+steps:
+  - id: design
+    rolePrompt: Describe the data model.
+    allowedTags: []
+  - id: backend
+    rolePrompt: Implement the API.
+    taskType: backend
+`);
+    expect(definition).toEqual({
+      name: "API first",
+      steps: [
+        {
+          id: "design",
+          rolePrompt: "Describe the data model.",
+          taskType: "general",
+          allowedTags: [],
+          exitCriteria: [],
+          gates: [],
+        },
+        {
+          id: "backend",
+          rolePrompt: "Implement the API.",
+          taskType: "backend",
+          exitCriteria: [],
+          gates: [],
+        },
+      ],
+    });
+  });
+
+  it("parses JSON definitions", () => {
+    const definition = parseWorkflowDefinition(
+      JSON.stringify({
+        name: "Single",
+        steps: [{ id: "build", rolePrompt: "Build it." }],
+      }),
+    );
+    expect(definition.steps.map((s) => s.id)).toEqual(["build"]);
+  });
+
+  it("rejects duplicate step ids", () => {
+    expect(() =>
+      parseWorkflowDefinition(`
+name: Dupes
+steps:
+  - id: a
+    rolePrompt: x
+  - id: a
+    rolePrompt: y
+`),
+    ).toThrow(/unique/);
+  });
+
+  it("reports the path of invalid fields", () => {
+    expect(() =>
+      parseWorkflowDefinition(`
+name: Bad
+steps:
+  - id: Bad Step
+    rolePrompt: x
+`),
+    ).toThrow(/steps\.0\.id/);
+  });
+
+  it("parses step gates", () => {
+    const definition = parseWorkflowDefinition(`
+name: Gated
+steps:
+  - id: build
+    rolePrompt: Build it.
+    gates:
+      - type: tsc
+      - type: command
+        command: npm test
+      - type: files-exist
+        glob: "e2e/**/*.spec.ts"
+`);
+    expect(definition.steps[0].gates).toEqual([
+      { type: "tsc" },
+      { type: "command", command: "npm test" },
+      { type: "files-exist", glob: "e2e/**/*.spec.ts" },
+    ]);
+    expect(() =>
+      parseWorkflowDefinition(`
+name: Bad gate
+steps:
+  - id: build
+    rolePrompt: Build it.
+    gates:
+      - type: lint
+`),
+    ).toThrow(/steps\.0\.gates\.0/);
+  });
+
+  it("rejects parallel groups whose steps aren't next to each other", () => {
+    expect(() =>
+      parseWorkflowDefinition(`
+name: Split
+steps:
+  - id: a
+    rolePrompt: x
+    parallelGroup: build
+  - id: b
+    rolePrompt: y
+  - id: c
+    rolePrompt: z
+    parallelGroup: build
+`),
+    ).toThrow(/next to each other/);
+  });
+
+  it("rejects syntactically invalid input", () => {
+    expect(() => parseWorkflowDefinition("name: [unterminated")).toThrow(
+      /not valid JSON or YAML/,
+    );
+  });
+});
+
+describe("buildStepSystemPrompt", () => {
+  it("includes allowed tags, exit criteria and gates", () => {
+    const prompt = buildStepSystemPrompt({
+      id: "api-contract",
+      rolePrompt: "Write the API types.",
+      taskType: "backend",
+      allowedTags: ["dyad-write"],
+      exitCriteria: ["Every endpoint is typed"],
+      gates: [{ type: "files-exist", glob: "src/api/*.ts" }],
+    });
+    expect(prompt).toContain("# Workflow Step: API-CONTRACT");
+    expect(prompt).toContain("<dyad-write>");
+    expect(prompt).toContain("- Every endpoint is typed");
+    expect(prompt).toContain(
+      "- Files matching `src/api/*.ts` exist (checked automatically)",
+    );
+  });
+});
+
+describe("getParallelSteps", () => {
+  const definition = parseWorkflowDefinition(`
+name: Parallel
+steps:
+  - id: plan
+    rolePrompt: Plan it.
+  - id: frontend
+    rolePrompt: Build the UI.
+    parallelGroup: build
+    contextPaths: ["src/components/**"]
+  - id: backend
+    rolePrompt: Build the API.
+    parallelGroup: build
+`);
+
+  it("returns every step of the group, in order", () => {
+    expect(
+      getParallelSteps(definition, "backend").map((step) => step.id),
+    ).toEqual(["frontend", "backend"]);
+    expect(definition.steps[1].contextPaths).toEqual(["src/components/**"]);
+  });
+
+  it("returns a step without a group on its own", () => {
+    expect(getParallelSteps(definition, "plan").map((step) => step.id)).toEqual(
+      ["plan"],
+    );
+    expect(getParallelSteps(definition, "missing")).toEqual([]);
+  });
+
+  it("runs the default workflow one step at a time", () => {
+    for (const step of DEFAULT_WORKFLOW.steps) {
+      expect(getParallelSteps(DEFAULT_WORKFLOW, step.id)).toEqual([step]);
+    }
+  });
+});
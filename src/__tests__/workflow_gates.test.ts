@@ -0,0 +1,35 @@
+import os from "node:os";
+import { describe, expect, it, vi } from "vitest";
+import { runWorkflowGates } from "../ipc/workflow/workflow_gates";
+
+vi.mock("../main/settings", () => ({
+  readSettings: () => ({ runtimeMode2: "host" }),
+}));
+vi.mock("../ipc/processors/tsc", () => ({ generateProblemReport: vi.fn() }));
+
+const app = { id: 1, path: os.tmpdir(), commandPolicy: null };
+
+describe("runWorkflowGates", () => {
+  it("runs command gates through the app's command runner", async () => {
+    const [passing, failing] = await runWorkflowGates({
+      app,
+      gates: [
+        { type: "command", command: "echo checked" },
+        { type: "command", command: "echo broken >&2 && exit 3" },
+      ],
+    });
+    expect(passing).toMatchObject({ passed: true, output: "checked" });
+    expect(failing).toMatchObject({ passed: false, output: "broken" });
+  });
+
+  it("fails command gates the app's policy denies without running them", async () => {
+    const [result] = await runWorkflowGates({
+      app: { ...app, commandPolicy: { allow: [], deny: ["echo *"] } },
+      gates: [{ type: "command", command: "echo checked" }],
+    });
+    expect(result).toMatchObject({
+      passed: false,
+      output: "`echo checked` is blocked by the app's deny rule `echo *`.",
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { execSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({ appPath: "" }));
+
+vi.mock("electron", () => ({
+  app: { getPath: () => state.appPath, isPackaged: false },
+}));
+vi.mock("../main/settings", () => ({ readSettings: () => ({}) }));
+vi.mock("../paths/paths", () => ({
+  getUserDataPath: () => path.join(state.appPath, ".user-data"),
+}));
+vi.mock("../db", () => ({ db: {} }));
+
+import { runParallelWorkflowSteps } from "../ipc/workflow/workflow_subagents";
+import { parseWorkflowDefinition } from "../ipc/workflow/workflow_definitions";
+import type { UserSettings } from "../lib/schemas";
+
+const { steps } = parseWorkflowDefinition(`
+name: Parallel
+steps:
+  - id: frontend
+    rolePrompt: Build the UI.
+    parallelGroup: build
+  - id: backend
+    rolePrompt: Build the API.
+    parallelGroup: build
+`);
+
+describe("runParallelWorkflowSteps", () => {
+  beforeEach(() => {
+    state.appPath = fs.mkdtempSync(path.join(os.tmpdir(), "subagents-"));
+    fs.writeFileSync(path.join(state.appPath, "README.md"), "# App\n");
+    execSync(
+      "git init -q && git add -A && git -c user.name=test -c user.email=test@example.com commit -qm init",
+      { cwd: state.appPath },
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(state.appPath, { recursive: true, force: true });
+  });
+
+  it("refuses to start while the app has uncommitted changes", async () => {
+    fs.writeFileSync(path.join(state.appPath, "README.md"), "# Edited\n");
+    fs.writeFileSync(path.join(state.appPath, "notes.md"), "draft\n");
+    const onProgress = vi.fn();
+
+    await expect(
+      runParallelWorkflowSteps({
+        chatId: 1,
+        appId: 1,
+        appPath: state.appPath,
+        chatContext: {
+          contextPaths: [],
+          smartContextAutoIncludes: [],
+        },
+        steps,
+        prompt: "Build it.",
+        settings: {} as UserSettings,
+        abortSignal: new AbortController().signal,
+        onProgress,
+      }),
+    ).rejects.toThrow(
+      'The app has uncommitted changes in `README.md`, `notes.md`. Commit or discard them before running the "build" steps in parallel.',
+    );
+    expect(onProgress).not.toHaveBeenCalled();
+    expect(
+      execSync('git branch --list "dyad/*"', { cwd: state.appPath }).toString(),
+    ).toBe("");
+  });
+});
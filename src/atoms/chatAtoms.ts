@@ -1,4 +1,11 @@
-import type { Message, Chat } from "@/ipc/ipc_types";
+import type {
+  AgentCommandConsentRequest,
+  AgentLoopProgress,
+  Message,
+  Chat,
+  SubAgentLane,
+  TaskType,
+} from "@/ipc/ipc_types";
 import { atom } from "jotai";
 import type { ChatSummary } from "@/lib/schemas";
 
@@ -21,3 +28,21 @@ export const chatsLoadingAtom = atom<boolean>(false);
 // Used for scrolling to the bottom of the chat messages (per chat)
 export const chatStreamCountByIdAtom = atom<Map<number, number>>(new Map());
 export const recentStreamChatIdsAtom = atom<Set<number>>(new Set<number>());
+
+// Task type picked in the chat input; null lets the classifier decide.
+export const taskTypeOverrideAtom = atom<TaskType | null>(null);
+
+// Agent mode shell commands waiting for the user's approval
+export const agentCommandConsentRequestsAtom = atom<
+  AgentCommandConsentRequest[]
+>([]);
+
+// Where agent mode's verify-and-fix loop is, per chat
+export const agentLoopProgressByIdAtom = atom<Map<number, AgentLoopProgress>>(
+  new Map(),
+);
+
+// Lanes of the sub-agents running a parallel workflow group, per chat
+export const subAgentLanesByIdAtom = atom<Map<number, SubAgentLane[]>>(
+  new Map(),
+);
@@ -1,6 +1,19 @@
-import { ComponentSelection } from "@/ipc/ipc_types";
+import { ComponentSelection, NetworkRequestEntry } from "@/ipc/ipc_types";
 import { atom } from "jotai";
 
-export const selectedComponentPreviewAtom = atom<ComponentSelection | null>(
+// Components picked in the preview, in the order they were selected
+export const selectedComponentsPreviewAtom = atom<ComponentSelection[]>([]);
+
+// Screenshot of the preview waiting to be attached to the next message
+export const previewScreenshotAtom = atom<File | null>(null);
+
+// Whether a selected component opens the visual edit inspector
+export const visualEditModeAtom = atom(false);
+
+// Requests made by the app in the preview, shown in the Network tab
+export const networkRequestsAtom = atom<NetworkRequestEntry[]>([]);
+
+// Request the user sent to the chat, attached to the next message
+export const attachedNetworkRequestAtom = atom<NetworkRequestEntry | null>(
   null,
 );
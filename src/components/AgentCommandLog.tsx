@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAgentCommandRuns } from "@/hooks/useAgentCommandRuns";
+import type { AgentCommandRun } from "@/ipc/ipc_types";
+
+// Runs shown before "Show all"
+const COLLAPSED_RUN_COUNT = 5;
+
+const STATUS_STYLES: Record<AgentCommandRun["status"], string> = {
+  allowed: "text-gray-600 dark:text-gray-300",
+  approved: "text-emerald-600 dark:text-emerald-400",
+  declined: "text-amber-600 dark:text-amber-400",
+  denied: "text-red-600 dark:text-red-400",
+};
+
+function formatOutcome(run: AgentCommandRun): string {
+  if (run.exitCode === null) {
+    return "not run";
+  }
+  const duration =
+    run.durationMs === null ? "" : ` · ${(run.durationMs / 1000).toFixed(1)}s`;
+  return `${run.timedOut ? "timed out" : `exit ${run.exitCode}`}${duration}`;
+}
+
+// Audit log of the shell commands agent mode tried to run in the app
+export function AgentCommandLog({ appId }: { appId: number }) {
+  const { runs, refreshRuns } = useAgentCommandRuns(appId);
+  const [showAll, setShowAll] = useState(false);
+
+  if (runs.length === 0) {
+    return null;
+  }
+  const shownRuns = showAll ? runs : runs.slice(0, COLLAPSED_RUN_COUNT);
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-medium">Agent commands</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Shell commands the agent ran or tried to run in this app.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => refreshRuns()}
+          title="Refresh"
+        >
+          <RefreshCw className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <div className="divide-y divide-border">
+        {shownRuns.map((run) => (
+          <div key={run.id} className="py-1.5 text-xs space-y-0.5">
+            <code className="block truncate" title={run.command}>
+              {run.command}
+            </code>
+            <div className="flex gap-2 text-gray-500 dark:text-gray-400">
+              <span className={STATUS_STYLES[run.status]}>{run.status}</span>
+              <span>{run.category}</span>
+              <span>{formatOutcome(run)}</span>
+              <span className="ml-auto">
+                {new Date(run.createdAt).toLocaleString()}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+      {runs.length > COLLAPSED_RUN_COUNT && (
+        <Button
+          size="sm"
+          variant="link"
+          className="px-0"
+          onClick={() => setShowAll((v) => !v)}
+        >
+          {showAll ? "Show less" : `Show all ${runs.length}`}
+        </Button>
+      )}
+    </div>
+  );
+}
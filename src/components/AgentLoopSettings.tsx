@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { useSettings } from "@/hooks/useSettings";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { DEFAULT_AGENT_LOOP_SETTINGS } from "@/ipc/shared/agent_loop";
+import type { AgentLoopSettings as AgentLoopSettingsValue } from "@/lib/schemas";
+
+export function AgentLoopSettings() {
+  const { settings, updateSettings } = useSettings();
+  const agentLoop: AgentLoopSettingsValue = {
+    ...DEFAULT_AGENT_LOOP_SETTINGS,
+    ...settings?.agentLoop,
+  };
+  const [maxIterations, setMaxIterations] = useState(
+    String(agentLoop.maxIterations),
+  );
+  const [tokenBudget, setTokenBudget] = useState(String(agentLoop.tokenBudget));
+
+  useEffect(() => {
+    setMaxIterations(String(agentLoop.maxIterations));
+  }, [agentLoop.maxIterations]);
+  useEffect(() => {
+    setTokenBudget(String(agentLoop.tokenBudget));
+  }, [agentLoop.tokenBudget]);
+
+  const update = (patch: Partial<AgentLoopSettingsValue>) => {
+    updateSettings({ agentLoop: { ...agentLoop, ...patch } });
+  };
+
+  // Invalid values go back to the saved one
+  const commitNumber = (
+    value: string,
+    key: "maxIterations" | "tokenBudget",
+    max: number,
+  ) => {
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isInteger(parsed) && parsed > 0 && parsed <= max) {
+      if (parsed !== agentLoop[key]) {
+        update({ [key]: parsed });
+      }
+      return;
+    }
+    const saved = String(agentLoop[key]);
+    if (key === "maxIterations") {
+      setMaxIterations(saved);
+    } else {
+      setTokenBudget(saved);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="agent-loop-enabled"
+          checked={agentLoop.enabled}
+          onCheckedChange={(checked) => update({ enabled: checked })}
+        />
+        <Label htmlFor="agent-loop-enabled">Verify and fix in agent mode</Label>
+      </div>
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        After agent mode changes the app, its TypeScript problems, tests and
+        preview errors are checked, and failures are sent back as another turn
+        until the checks pass or a limit is reached.
+      </div>
+      {agentLoop.enabled && (
+        <div className="space-y-2 pl-1">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="agent-loop-iterations" className="text-sm">
+                Max iterations
+              </Label>
+              <Input
+                id="agent-loop-iterations"
+                type="number"
+                min={1}
+                max={10}
+                className="w-20"
+                value={maxIterations}
+                onChange={(e) => setMaxIterations(e.target.value)}
+                onBlur={() => commitNumber(maxIterations, "maxIterations", 10)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="agent-loop-budget" className="text-sm">
+                Token budget
+              </Label>
+              <Input
+                id="agent-loop-budget"
+                type="number"
+                min={1}
+                step={10000}
+                className="w-32"
+                value={tokenBudget}
+                onChange={(e) => setTokenBudget(e.target.value)}
+                onBlur={() =>
+                  commitNumber(
+                    tokenBudget,
+                    "tokenBudget",
+                    Number.MAX_SAFE_INTEGER,
+                  )
+                }
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="agent-loop-tests"
+              checked={agentLoop.runTests}
+              onCheckedChange={(checked) => update({ runTests: checked })}
+            />
+            <Label htmlFor="agent-loop-tests">Run the app's tests</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="agent-loop-runtime-errors"
+              checked={agentLoop.checkRuntimeErrors}
+              onCheckedChange={(checked) =>
+                update({ checkRuntimeErrors: checked })
+              }
+            />
+            <Label htmlFor="agent-loop-runtime-errors">
+              Check the preview for runtime errors (needs auto-approve)
+            </Label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,11 +5,15 @@ import { ChatModeSelector } from "./ChatModeSelector";
 import { McpToolsPicker } from "@/components/McpToolsPicker";
 import { useSettings } from "@/hooks/useSettings";
 import { CompactContextButton } from "./CompactContextButton";
+import { WorkflowPicker } from "./chat/WorkflowPicker";
+import { TaskTypeSelector } from "./TaskTypeSelector";
 
 export function ChatInputControls({
   showContextFilesPicker = false,
+  chatId,
 }: {
   showContextFilesPicker?: boolean;
+  chatId?: number;
 }) {
   const { settings } = useSettings();
 
@@ -22,6 +26,18 @@ export function ChatInputControls({
           <McpToolsPicker />
         </>
       )}
+      {chatId !== undefined && (
+        <>
+          <div className="w-1.5"></div>
+          <WorkflowPicker chatId={chatId} />
+        </>
+      )}
+      {settings?.taskModels?.useTaskBasedSwitching && (
+        <>
+          <div className="w-1.5"></div>
+          <TaskTypeSelector />
+        </>
+      )}
       <div className="w-1.5"></div>
       <ModelPicker />
       <div className="w-1.5"></div>
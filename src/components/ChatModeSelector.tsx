@@ -32,6 +32,8 @@ export function ChatModeSelector() {
         return "Ask";
       case "agent":
         return "Agent";
+      case "plan":
+        return "Plan";
       default:
         return "Build";
     }
@@ -89,6 +91,14 @@ export function ChatModeSelector() {
             </span>
           </div>
         </SelectItem>
+        <SelectItem value="plan">
+          <div className="flex flex-col items-start">
+            <span className="font-medium">Plan</span>
+            <span className="text-xs text-muted-foreground">
+              Review a step-by-step plan before any code changes
+            </span>
+          </div>
+        </SelectItem>
       </SelectContent>
     </Select>
   );
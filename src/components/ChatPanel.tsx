@@ -12,18 +12,21 @@ import { ChatHeader } from "./chat/ChatHeader";
 import { MessagesList } from "./chat/MessagesList";
 import { ChatInput } from "./chat/ChatInput";
 import { VersionPane } from "./chat/VersionPane";
+import { WorkflowTimelinePane } from "./chat/WorkflowTimelinePane";
 import { ChatError } from "./chat/ChatError";
 import { Button } from "@/components/ui/button";
 import { ArrowDown } from "lucide-react";
 
 interface ChatPanelProps {
   chatId?: number;
+  messageId?: number;
   isPreviewOpen: boolean;
   onTogglePreview: () => void;
 }
 
 export function ChatPanel({
   chatId,
+  messageId,
   isPreviewOpen,
   onTogglePreview,
 }: ChatPanelProps) {
@@ -31,6 +34,7 @@ export function ChatPanel({
   const setMessagesById = useSetAtom(chatMessagesByIdAtom);
   const setChatMetadataById = useSetAtom(chatMetadataByIdAtom);
   const [isVersionPaneOpen, setIsVersionPaneOpen] = useState(false);
+  const [isWorkflowTimelineOpen, setIsWorkflowTimelineOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const streamCountById = useAtomValue(chatStreamCountByIdAtom);
   const isStreamingById = useAtomValue(isStreamingByIdAtom);
@@ -142,6 +146,24 @@ export function ChatPanel({
   const messages = chatId ? (messagesById.get(chatId) ?? []) : [];
   const isStreaming = chatId ? (isStreamingById.get(chatId) ?? false) : false;
 
+  // Jump to a linked message (e.g. from guardrail insights) once it's loaded
+  const scrolledToMessageIdRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (
+      !messageId ||
+      scrolledToMessageIdRef.current === messageId ||
+      !messages.some((message) => message.id === messageId)
+    ) {
+      return;
+    }
+    scrolledToMessageIdRef.current = messageId;
+    requestAnimationFrame(() => {
+      messagesContainerRef.current
+        ?.querySelector(`[data-message-id="${messageId}"]`)
+        ?.scrollIntoView({ block: "center" });
+    });
+  }, [messageId, messages]);
+
   // Auto-scroll effect when messages change during streaming
   useEffect(() => {
     if (
@@ -165,10 +187,17 @@ export function ChatPanel({
         isVersionPaneOpen={isVersionPaneOpen}
         isPreviewOpen={isPreviewOpen}
         onTogglePreview={onTogglePreview}
-        onVersionClick={() => setIsVersionPaneOpen(!isVersionPaneOpen)}
+        onVersionClick={() => {
+          setIsWorkflowTimelineOpen(false);
+          setIsVersionPaneOpen(!isVersionPaneOpen);
+        }}
+        onWorkflowTimelineClick={() => {
+          setIsVersionPaneOpen(false);
+          setIsWorkflowTimelineOpen(!isWorkflowTimelineOpen);
+        }}
       />
       <div className="flex flex-1 overflow-hidden">
-        {!isVersionPaneOpen && (
+        {!isVersionPaneOpen && !isWorkflowTimelineOpen && (
           <div className="flex-1 flex flex-col min-w-0">
             <div className="flex-1 relative overflow-hidden">
               <MessagesList
@@ -201,6 +230,11 @@ export function ChatPanel({
           isVisible={isVersionPaneOpen}
           onClose={() => setIsVersionPaneOpen(false)}
         />
+        <WorkflowTimelinePane
+          chatId={chatId}
+          isVisible={isWorkflowTimelineOpen}
+          onClose={() => setIsWorkflowTimelineOpen(false)}
+        />
       </div>
     </div>
   );
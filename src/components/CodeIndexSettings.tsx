@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { useSettings } from "@/hooks/useSettings";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEFAULT_EMBEDDING_MODELS } from "@/ipc/shared/language_model_constants";
+import type { CodeIndexSettings as CodeIndexSettingsValue } from "@/lib/schemas";
+
+const BACKEND_OPTIONS: {
+  value: CodeIndexSettingsValue["embeddingBackend"];
+  label: string;
+}[] = [
+  { value: "bm25", label: "Keywords only (offline)" },
+  { value: "ollama", label: "Ollama embeddings" },
+  { value: "lmstudio", label: "LM Studio embeddings" },
+];
+
+export function CodeIndexSettings() {
+  const { settings, updateSettings } = useSettings();
+  const codeIndex: CodeIndexSettingsValue = settings?.codeIndex ?? {
+    enabled: false,
+    embeddingBackend: "bm25",
+  };
+  const [model, setModel] = useState(codeIndex.embeddingModel ?? "");
+
+  useEffect(() => {
+    setModel(codeIndex.embeddingModel ?? "");
+  }, [codeIndex.embeddingModel]);
+
+  const update = (patch: Partial<CodeIndexSettingsValue>) => {
+    updateSettings({ codeIndex: { ...codeIndex, ...patch } });
+  };
+
+  const { embeddingBackend } = codeIndex;
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="code-index-enabled"
+          checked={codeIndex.enabled}
+          onCheckedChange={(checked) => update({ enabled: checked })}
+        />
+        <Label htmlFor="code-index-enabled">Rank files by relevance</Label>
+      </div>
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        Keeps a local index of each app's code, updated after every change. When
+        the codebase doesn't fit in the model's context, the files most relevant
+        to your prompt are sent in full and the rest by name only.
+      </div>
+      {codeIndex.enabled && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={embeddingBackend}
+            onValueChange={(value) =>
+              update({
+                embeddingBackend:
+                  value as CodeIndexSettingsValue["embeddingBackend"],
+                embeddingModel: undefined,
+              })
+            }
+          >
+            <SelectTrigger className="w-[220px]" id="code-index-backend">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BACKEND_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {embeddingBackend !== "bm25" && (
+            <Input
+              className="w-[280px]"
+              placeholder={DEFAULT_EMBEDDING_MODELS[embeddingBackend]}
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              onBlur={() => {
+                const embeddingModel = model.trim() || undefined;
+                if (embeddingModel !== codeIndex.embeddingModel) {
+                  update({ embeddingModel });
+                }
+              }}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
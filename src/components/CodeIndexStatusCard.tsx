@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSettings } from "@/hooks/useSettings";
+import { IpcClient } from "@/ipc/ipc_client";
+import { showSuccess } from "@/lib/toast";
+
+export function CodeIndexStatusCard({ appId }: { appId: number }) {
+  const { settings } = useSettings();
+  const queryClient = useQueryClient();
+  const isEnabled = !!settings?.codeIndex?.enabled;
+
+  const { data: status } = useQuery({
+    queryKey: ["code-index-status", appId],
+    queryFn: () => IpcClient.getInstance().getCodeIndexStatus(appId),
+    enabled: isEnabled,
+    meta: { showErrorToast: true },
+  });
+
+  const rebuildMutation = useMutation({
+    mutationFn: () => IpcClient.getInstance().rebuildCodeIndex(appId),
+    onSuccess: (newStatus) => {
+      queryClient.setQueryData(["code-index-status", appId], newStatus);
+      showSuccess("Code index rebuilt");
+    },
+    meta: { showErrorToast: true },
+  });
+
+  if (!isEnabled) {
+    return null;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-medium">Code index</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {!status?.exists
+              ? "Not built yet. It's built the next time you chat or make a change."
+              : `${status.fileCount} files, ${status.symbolCount} symbols, ${status.chunkCount} chunks · ${
+                  status.embeddingModel
+                    ? `${status.embeddedFileCount} files embedded with ${status.embeddingModel}`
+                    : "keywords only"
+                }`}
+          </p>
+          {status?.updatedAt && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Updated {new Date(status.updatedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => rebuildMutation.mutate()}
+          disabled={rebuildMutation.isPending}
+        >
+          {rebuildMutation.isPending && (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          )}
+          Rebuild
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCommandPolicy } from "@/hooks/useCommandPolicy";
+import {
+  DEFAULT_AGENT_COMMAND_CONSENTS,
+  DEFAULT_COMMAND_TIMEOUT_SECONDS,
+} from "@/ipc/shared/command_policy";
+import type { CommandCategory } from "@/ipc/ipc_types";
+import type { AgentCommandConsents, CommandPolicy } from "@/lib/schemas";
+import { showSuccess } from "@/lib/toast";
+
+const FOLLOW_RUNTIME_SETTING = "default";
+
+const AGENT_CONSENT_CATEGORIES: { category: CommandCategory; label: string }[] =
+  [
+    { category: "read-only", label: "Read-only (ls, cat, git status)" },
+    { category: "package-install", label: "Package installs" },
+    { category: "network", label: "Network (curl, wget, git push)" },
+    { category: "destructive", label: "Destructive (rm -rf, git reset)" },
+    { category: "other", label: "Other commands" },
+  ];
+
+const AGENT_CONSENT_LABELS = {
+  always: "Always allow",
+  ask: "Ask",
+  denied: "Deny",
+} as const;
+
+function toLines(patterns: string[] | undefined): string {
+  return (patterns ?? []).join("\n");
+}
+
+function fromLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function CommandPolicySettings({ appId }: { appId: number }) {
+  const { policy, isLoading } = useCommandPolicy(appId);
+
+  if (isLoading) {
+    return null;
+  }
+  // Remount the form when the saved policy changes
+  return (
+    <CommandPolicyForm
+      key={JSON.stringify(policy)}
+      appId={appId}
+      policy={policy ?? null}
+    />
+  );
+}
+
+function CommandPolicyForm({
+  appId,
+  policy,
+}: {
+  appId: number;
+  policy: CommandPolicy | null;
+}) {
+  const { setPolicy, isSaving } = useCommandPolicy(appId);
+  const [allow, setAllow] = useState(toLines(policy?.allow));
+  const [deny, setDeny] = useState(toLines(policy?.deny));
+  const [runtime, setRuntime] = useState<string>(
+    policy?.runtime ?? FOLLOW_RUNTIME_SETTING,
+  );
+  const [timeoutText, setTimeoutText] = useState(
+    policy?.timeoutSeconds ? String(policy.timeoutSeconds) : "",
+  );
+  const [agentConsents, setAgentConsents] = useState<AgentCommandConsents>(
+    policy?.agentConsents ?? {},
+  );
+
+  const timeoutSeconds =
+    timeoutText.trim() === "" ? undefined : Number(timeoutText);
+  const isTimeoutValid =
+    timeoutSeconds === undefined ||
+    (Number.isInteger(timeoutSeconds) &&
+      timeoutSeconds > 0 &&
+      timeoutSeconds <= 3600);
+
+  const handleSave = async () => {
+    const next: CommandPolicy = {
+      allow: fromLines(allow),
+      deny: fromLines(deny),
+      runtime:
+        runtime === FOLLOW_RUNTIME_SETTING
+          ? undefined
+          : (runtime as CommandPolicy["runtime"]),
+      timeoutSeconds,
+      agentConsents:
+        Object.keys(agentConsents).length > 0 ? agentConsents : undefined,
+    };
+    const isDefault =
+      next.allow.length === 0 &&
+      next.deny.length === 0 &&
+      !next.runtime &&
+      !next.timeoutSeconds &&
+      !next.agentConsents;
+    await setPolicy(isDefault ? null : next);
+    showSuccess("Command policy saved");
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4 space-y-3">
+      <div>
+        <h3 className="font-medium">Terminal commands</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Rules for the commands the assistant runs in this app. One glob
+          pattern per line, matched against each command in a chain, e.g.{" "}
+          <code>npm run *</code> or <code>git push*</code>. Deny rules win over
+          allow rules; destructive commands always ask unless allowed here.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="command-policy-allow" className="text-xs">
+            Always allow
+          </Label>
+          <Textarea
+            id="command-policy-allow"
+            className="font-mono text-xs"
+            placeholder={"npm run lint\nnpx tsc *"}
+            value={allow}
+            onChange={(e) => setAllow(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="command-policy-deny" className="text-xs">
+            Never allow
+          </Label>
+          <Textarea
+            id="command-policy-deny"
+            className="font-mono text-xs"
+            placeholder={"git push*\ncurl *"}
+            value={deny}
+            onChange={(e) => setDeny(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Run commands on</Label>
+          <Select value={runtime} onValueChange={setRuntime}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FOLLOW_RUNTIME_SETTING}>
+                Runtime setting
+              </SelectItem>
+              <SelectItem value="host">Host</SelectItem>
+              <SelectItem value="docker">Docker container</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="command-policy-timeout" className="text-xs">
+            Timeout (seconds)
+          </Label>
+          <Input
+            id="command-policy-timeout"
+            type="number"
+            min={1}
+            max={3600}
+            className="h-8 text-xs"
+            placeholder={String(DEFAULT_COMMAND_TIMEOUT_SECONDS)}
+            value={timeoutText}
+            onChange={(e) => setTimeoutText(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div>
+          <Label className="text-xs">Agent mode</Label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            What happens when the agent runs a shell command that the rules
+            above don't decide.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+          {AGENT_CONSENT_CATEGORIES.map(({ category, label }) => (
+            <div
+              key={category}
+              className="flex items-center justify-between gap-2"
+            >
+              <span className="text-xs">{label}</span>
+              <Select
+                value={
+                  agentConsents[category] ??
+                  DEFAULT_AGENT_COMMAND_CONSENTS[category]
+                }
+                onValueChange={(value) =>
+                  setAgentConsents((prev) => ({
+                    ...prev,
+                    [category]: value as keyof typeof AGENT_CONSENT_LABELS,
+                  }))
+                }
+              >
+                <SelectTrigger className="h-7 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AGENT_CONSENT_LABELS).map(([value, text]) => (
+                    <SelectItem key={value} value={value}>
+                      {text}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={isSaving || !isTimeoutValid}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
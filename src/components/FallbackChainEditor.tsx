@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ModelPicker } from "@/components/ModelPicker";
+import { useSettings } from "@/hooks/useSettings";
+import type {
+  FallbackChain,
+  FallbackErrorClass,
+  LargeLanguageModel,
+} from "@/lib/schemas";
+import type { TaskType } from "@/ipc/ipc_types";
+
+// Keep in sync with DEFAULT_FALLBACK_ON in fallback_ai_model.ts
+const DEFAULT_FALLBACK_ON: FallbackErrorClass[] = [
+  "rate-limit",
+  "server",
+  "network",
+];
+
+const ERROR_CLASS_LABELS: Record<FallbackErrorClass, string> = {
+  auth: "Invalid API key",
+  "rate-limit": "Rate limited",
+  server: "Provider errors",
+  network: "Network errors",
+  "context-length": "Context too long",
+};
+
+export function FallbackChainEditor({ taskType }: { taskType: TaskType }) {
+  const { settings, updateSettings } = useSettings();
+  const [showPicker, setShowPicker] = useState(false);
+
+  const chain = settings?.taskModels?.fallbacks?.[taskType];
+  const models = chain?.models ?? [];
+  const fallbackOn = chain?.fallbackOn ?? DEFAULT_FALLBACK_ON;
+
+  const updateChain = (next: FallbackChain | undefined) => {
+    updateSettings({
+      taskModels: {
+        ...settings?.taskModels,
+        fallbacks: {
+          ...settings?.taskModels?.fallbacks,
+          [taskType]: next,
+        },
+      },
+    });
+  };
+
+  const addModel = (model: LargeLanguageModel) => {
+    setShowPicker(false);
+    if (
+      models.some((m) => m.provider === model.provider && m.name === model.name)
+    ) {
+      return;
+    }
+    updateChain({ models: [...models, model], fallbackOn });
+  };
+
+  const removeModel = (index: number) => {
+    const nextModels = models.filter((_, i) => i !== index);
+    updateChain(
+      nextModels.length > 0 ? { models: nextModels, fallbackOn } : undefined,
+    );
+  };
+
+  const toggleErrorClass = (errorClass: FallbackErrorClass, on: boolean) => {
+    updateChain({
+      models,
+      fallbackOn: on
+        ? [...fallbackOn, errorClass]
+        : fallbackOn.filter((c) => c !== errorClass),
+    });
+  };
+
+  return (
+    <div className="space-y-2 pl-3 border-l">
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        <span className="text-gray-500 dark:text-gray-400">Fallbacks:</span>
+        {models.length === 0 && (
+          <span className="text-gray-500 dark:text-gray-400">none</span>
+        )}
+        {models.map((model, index) => (
+          <span
+            key={`${model.provider}/${model.name}`}
+            className="flex items-center gap-1 rounded border px-1.5 py-0.5 font-mono"
+          >
+            {index + 1}. {model.provider}/{model.name}
+            <button
+              onClick={() => removeModel(index)}
+              className="hover:text-red-500"
+              aria-label={`Remove ${model.name} from fallbacks`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-1.5 text-xs"
+          onClick={() => setShowPicker(!showPicker)}
+        >
+          <Plus className="h-3 w-3" /> Add
+        </Button>
+      </div>
+      {showPicker && (
+        <div className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-900">
+          <ModelPicker onModelSelect={addModel} />
+        </div>
+      )}
+      {models.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <span className="text-gray-500 dark:text-gray-400">
+            Fall back on:
+          </span>
+          {(Object.keys(ERROR_CLASS_LABELS) as FallbackErrorClass[]).map(
+            (errorClass) => (
+              <div key={errorClass} className="flex items-center gap-1">
+                <Checkbox
+                  id={`fallback-${taskType}-${errorClass}`}
+                  checked={fallbackOn.includes(errorClass)}
+                  onCheckedChange={(checked) =>
+                    toggleErrorClass(errorClass, checked === true)
+                  }
+                />
+                <Label
+                  htmlFor={`fallback-${taskType}-${errorClass}`}
+                  className="text-xs font-normal"
+                >
+                  {ERROR_CLASS_LABELS[errorClass]}
+                </Label>
+              </div>
+            ),
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
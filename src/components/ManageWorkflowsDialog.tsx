@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Edit2, Plus, Save, Trash2 } from "lucide-react";
+import { useWorkflows } from "@/hooks/useWorkflows";
+import type { WorkflowDto } from "@/ipc/ipc_types";
+
+const WORKFLOW_TEMPLATE = `name: API first
+description: Agree on the API before building either side.
+steps:
+  - id: design
+    rolePrompt: You are a Software Architect. Describe the data model and user flows. Do not write code yet.
+    taskType: general
+    allowedTags: []
+    exitCriteria:
+      - The data model and user flows are described
+  - id: api-contract
+    rolePrompt: You are an API designer. Write the API contract as TypeScript types in src/api/.
+    taskType: backend
+    allowedTags: [dyad-write]
+    exitCriteria:
+      - Every endpoint has request and response types
+    gates:
+      - type: files-exist
+        glob: "src/api/**/*.ts"
+  - id: backend
+    rolePrompt: You are a Backend Developer. Implement the API contract.
+    taskType: backend
+    gates:
+      - type: tsc
+  - id: frontend
+    rolePrompt: You are a Frontend Developer. Build the UI against the API contract.
+    taskType: frontend
+    gates:
+      - type: tsc
+  - id: e2e
+    rolePrompt: You are a QA Engineer. Write end-to-end tests for the main user flows and fix any failures.
+    taskType: debugging
+    gates:
+      - type: command
+        command: npm test
+`;
+
+export function ManageWorkflowsDialog({
+  appId,
+  open,
+  onOpenChange,
+}: {
+  appId: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { workflows, createWorkflow, updateWorkflow, deleteWorkflow } =
+    useWorkflows(appId);
+  const [editing, setEditing] = useState<WorkflowDto | "new" | null>(null);
+  const [source, setSource] = useState("");
+  const [appOnly, setAppOnly] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setEditing(null);
+    }
+  }, [open]);
+
+  const startEditing = (workflow: WorkflowDto | "new") => {
+    setEditing(workflow);
+    if (workflow === "new") {
+      setSource(WORKFLOW_TEMPLATE);
+      setAppOnly(appId !== null);
+    } else {
+      setSource(workflow.source);
+      setAppOnly(workflow.appId !== null);
+    }
+  };
+
+  const onSave = async () => {
+    if (!editing) return;
+    const scopedAppId = appOnly ? appId : null;
+    if (editing === "new") {
+      await createWorkflow({ appId: scopedAppId, source });
+    } else {
+      await updateWorkflow({ id: editing.id, appId: scopedAppId, source });
+    }
+    setEditing(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Workflows</DialogTitle>
+          <DialogDescription>
+            Define your own multi-step pipelines in JSON or YAML. Each step has
+            a role prompt, a task type used for model routing, the dyad tags it
+            may use, its exit criteria and gates that must pass before the
+            workflow moves on.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-3">
+            <Textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="font-mono text-xs h-80 resize-none overflow-y-auto"
+              spellCheck={false}
+              data-testid="workflow-source-input"
+            />
+            {appId !== null && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="workflow-app-only"
+                  checked={appOnly}
+                  onCheckedChange={setAppOnly}
+                />
+                <Label htmlFor="workflow-app-only">Only for this app</Label>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {workflows.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No custom workflows yet. Chats use the default workflow
+                (planning → docs → frontend → backend → testing).
+              </p>
+            )}
+            {workflows.map((workflow) => (
+              <div
+                key={workflow.id}
+                className="flex items-center justify-between border rounded-md px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {workflow.name}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {workflow.appId === null ? "All apps" : "This app"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {workflow.definition.steps.map((s) => s.id).join(" → ")}
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => startEditing(workflow)}
+                    title="Edit workflow"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteWorkflow(workflow.id)}
+                    title="Delete workflow"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {editing ? (
+            <>
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button onClick={onSave} disabled={!source.trim()}>
+                <Save className="mr-2 h-4 w-4" /> Save
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => startEditing("new")}>
+              <Plus className="mr-2 h-4 w-4" /> New Workflow
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
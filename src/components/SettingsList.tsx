@@ -10,6 +10,9 @@ const SETTINGS_SECTIONS = [
   { id: "workflow-settings", label: "Workflow" },
   { id: "ai-settings", label: "AI" },
   { id: "provider-settings", label: "Model Providers" },
+  { id: "model-health", label: "Model Health" },
+  { id: "guardrail-insights", label: "Guardrail Insights" },
+  { id: "usage-costs", label: "Usage & Costs" },
   { id: "telemetry", label: "Telemetry" },
   { id: "integrations", label: "Integrations" },
   { id: "tools-mcp", label: "Tools (MCP)" },
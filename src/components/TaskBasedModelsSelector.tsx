@@ -5,7 +5,17 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { X } from "lucide-react";
 import { ModelPicker } from "@/components/ModelPicker";
-import type { LargeLanguageModel } from "@/lib/schemas";
+import { FallbackChainEditor } from "@/components/FallbackChainEditor";
+import type { LargeLanguageModel, UserSettings } from "@/lib/schemas";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+
+type TaskClassifierId = NonNullable<UserSettings["taskClassifier"]>;
 
 export function TaskBasedModelsSelector() {
     const { settings, updateSettings } = useSettings();
@@ -14,6 +24,10 @@ export function TaskBasedModelsSelector() {
     const [showDebuggingPicker, setShowDebuggingPicker] = useState(false);
 
     const isEnabled = settings?.taskModels?.useTaskBasedSwitching ?? false;
+    // Mirrors getConfiguredTaskClassifierId in the main process.
+    const classifier: TaskClassifierId =
+        settings?.taskClassifier ??
+        (settings?.enableAIRouter && settings?.routerModel ? "router" : "keyword");
 
     const handleToggle = (checked: boolean) => {
         updateSettings({
@@ -86,6 +100,35 @@ export function TaskBasedModelsSelector() {
                         </p>
                     </div>
 
+                    {/* Task Classifier */}
+                    <div className="space-y-2">
+                        <div>
+                            <Label className="text-sm font-medium">Task Classifier</Label>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                How prompts are sorted into frontend, backend and debugging tasks
+                            </p>
+                        </div>
+                        <Select
+                            value={classifier}
+                            onValueChange={(value) =>
+                                updateSettings({ taskClassifier: value as TaskClassifierId })
+                            }
+                        >
+                            <SelectTrigger className="w-72" data-testid="task-classifier-select">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="keyword">Keywords in the prompt</SelectItem>
+                                <SelectItem value="router" disabled={!settings?.routerModel}>
+                                    Router model{!settings?.routerModel && " (not configured)"}
+                                </SelectItem>
+                                <SelectItem value="context">
+                                    Selected component and recent commits
+                                </SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+
                     {/* Frontend Model */}
                     <div className="space-y-2">
                         <div className="flex items-center justify-between">
@@ -123,6 +166,7 @@ export function TaskBasedModelsSelector() {
                                 />
                             </div>
                         )}
+                        <FallbackChainEditor taskType="frontend" />
                     </div>
 
                     {/* Backend Model */}
@@ -162,6 +206,7 @@ export function TaskBasedModelsSelector() {
                                 />
                             </div>
                         )}
+                        <FallbackChainEditor taskType="backend" />
                     </div>
 
                     {/* Debugging Model */}
@@ -203,6 +248,18 @@ export function TaskBasedModelsSelector() {
                                 />
                             </div>
                         )}
+                        <FallbackChainEditor taskType="debugging" />
+                    </div>
+
+                    {/* General tasks use the main selected model */}
+                    <div className="space-y-2">
+                        <div>
+                            <Label className="text-sm font-medium">General Tasks</Label>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                Use your main selected model
+                            </p>
+                        </div>
+                        <FallbackChainEditor taskType="general" />
                     </div>
                 </div>
             )}
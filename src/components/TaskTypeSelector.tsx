@@ -0,0 +1,72 @@
+import { useAtom } from "jotai";
+import {
+  MiniSelectTrigger,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { taskTypeOverrideAtom } from "@/atoms/chatAtoms";
+import type { TaskType } from "@/ipc/ipc_types";
+import { cn } from "@/lib/utils";
+
+const AUTO_VALUE = "auto";
+
+const TASK_TYPE_LABELS: Record<TaskType, string> = {
+  frontend: "Frontend",
+  backend: "Backend",
+  debugging: "Debugging",
+  general: "General",
+};
+
+export function TaskTypeSelector() {
+  const [override, setOverride] = useAtom(taskTypeOverrideAtom);
+
+  const handleChange = (value: string) => {
+    setOverride(value === AUTO_VALUE ? null : (value as TaskType));
+  };
+
+  return (
+    <Select value={override ?? AUTO_VALUE} onValueChange={handleChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <MiniSelectTrigger
+            data-testid="task-type-selector"
+            className={cn(
+              "h-6 w-fit px-1.5 py-0 text-xs-sm font-medium shadow-none gap-0.5",
+              override
+                ? "bg-primary/10 hover:bg-primary/20 focus:bg-primary/20 text-primary border-primary/20 dark:bg-primary/20 dark:hover:bg-primary/30 dark:focus:bg-primary/30"
+                : "bg-background hover:bg-muted/50 focus:bg-muted/50",
+            )}
+            size="sm"
+          >
+            <SelectValue>
+              {override ? TASK_TYPE_LABELS[override] : "Auto task"}
+            </SelectValue>
+          </MiniSelectTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Task type used to pick the model</TooltipContent>
+      </Tooltip>
+      <SelectContent align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+        <SelectItem value={AUTO_VALUE}>
+          <div className="flex flex-col items-start">
+            <span className="font-medium">Auto</span>
+            <span className="text-xs text-muted-foreground">
+              Let the task classifier decide
+            </span>
+          </div>
+        </SelectItem>
+        {(Object.keys(TASK_TYPE_LABELS) as TaskType[]).map((taskType) => (
+          <SelectItem key={taskType} value={taskType}>
+            {TASK_TYPE_LABELS[taskType]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,101 @@
+import { useAtom } from "jotai";
+import { ShieldAlert } from "lucide-react";
+import { agentCommandConsentRequestsAtom } from "@/atoms/chatAtoms";
+import { Button } from "@/components/ui/button";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  AgentCommandConsentRequest,
+  CommandCategory,
+} from "@/ipc/ipc_types";
+
+type Decision = "accept-once" | "accept-always" | "decline";
+
+const CATEGORY_LABELS: Record<CommandCategory, string> = {
+  "read-only": "Read-only",
+  "package-install": "Package install",
+  network: "Network",
+  destructive: "Destructive",
+  other: "Command",
+};
+
+// Shell commands agent mode wants to run in this chat, waiting for approval
+export function AgentCommandConsents({ chatId }: { chatId?: number }) {
+  const [requests, setRequests] = useAtom(agentCommandConsentRequestsAtom);
+  const chatRequests = requests.filter((request) => request.chatId === chatId);
+
+  if (chatRequests.length === 0) {
+    return null;
+  }
+
+  const handleDecision = (requestId: string, decision: Decision) => {
+    IpcClient.getInstance().respondToAgentCommandConsent(requestId, decision);
+    setRequests((prev) =>
+      prev.filter((request) => request.requestId !== requestId),
+    );
+  };
+
+  return (
+    <div className="p-2 pb-1 space-y-2">
+      {chatRequests.map((request) => (
+        <AgentCommandConsentCard
+          key={request.requestId}
+          request={request}
+          onDecision={(decision) => handleDecision(request.requestId, decision)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function AgentCommandConsentCard({
+  request,
+  onDecision,
+}: {
+  request: AgentCommandConsentRequest;
+  onDecision: (decision: Decision) => void;
+}) {
+  return (
+    <div
+      className="rounded-lg border border-amber-200 dark:border-slate-600 bg-amber-50/95 dark:bg-slate-800/95 p-3 space-y-2 text-sm"
+      data-testid="agent-command-consent"
+    >
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+        <span className="font-semibold text-amber-900 dark:text-amber-100">
+          The agent wants to run a command
+        </span>
+        <span className="ml-auto text-xs px-2 py-0.5 rounded-full border border-amber-300 dark:border-slate-600 text-amber-800 dark:text-amber-200">
+          {CATEGORY_LABELS[request.category]}
+        </span>
+      </div>
+      <pre className="bg-amber-100/60 dark:bg-slate-700/60 p-2 rounded text-xs whitespace-pre-wrap break-all max-h-40 overflow-auto">
+        {request.command}
+      </pre>
+      <div className="text-xs text-muted-foreground break-all">
+        in <code>{request.cwd}</code>
+        {request.runtime === "docker" && " (Docker container)"}
+      </div>
+      <p className="text-xs text-muted-foreground">{request.reason}</p>
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={() => onDecision("accept-once")}>
+          Allow once
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => onDecision("accept-always")}
+          title="Add this exact command to the app's allow rules"
+        >
+          Always allow
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onDecision("decline")}
+        >
+          Decline
+        </Button>
+      </div>
+    </div>
+  );
+}
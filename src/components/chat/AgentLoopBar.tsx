@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { useAtom, useAtomValue } from "jotai";
+import { RefreshCw } from "lucide-react";
+import {
+  agentLoopProgressByIdAtom,
+  isStreamingByIdAtom,
+} from "@/atoms/chatAtoms";
+import { Button } from "@/components/ui/button";
+import { IpcClient } from "@/ipc/ipc_client";
+
+/**
+ * Shows where agent mode's verify-and-fix loop is. Stopping it keeps the
+ * changes made so far, unlike cancelling the response.
+ */
+export function AgentLoopBar({ chatId }: { chatId?: number }) {
+  const [progressById, setProgressById] = useAtom(agentLoopProgressByIdAtom);
+  const isStreaming =
+    useAtomValue(isStreamingByIdAtom).get(chatId ?? -1) ?? false;
+  const [stopRequested, setStopRequested] = useState(false);
+  const progress = chatId !== undefined ? progressById.get(chatId) : undefined;
+
+  useEffect(() => {
+    if (chatId === undefined || isStreaming) {
+      return;
+    }
+    setStopRequested(false);
+    setProgressById((prev) => {
+      if (!prev.has(chatId)) {
+        return prev;
+      }
+      const next = new Map(prev);
+      next.delete(chatId);
+      return next;
+    });
+  }, [chatId, isStreaming, setProgressById]);
+
+  if (chatId === undefined || !progress || !isStreaming) {
+    return null;
+  }
+
+  const stop = async () => {
+    setStopRequested(true);
+    await IpcClient.getInstance().stopAgentLoop(chatId);
+  };
+
+  return (
+    <div className="px-2 pt-2">
+      <div className="flex items-center gap-2 rounded-md border border-border bg-(--background-lightest) px-3 py-1.5 text-xs">
+        <RefreshCw className="h-3.5 w-3.5 text-muted-foreground shrink-0 animate-spin" />
+        <span className="truncate">
+          {stopRequested
+            ? "Stopping after this turn"
+            : `Agent loop ${progress.iteration} of ${progress.maxIterations}: ${
+                progress.phase === "verifying"
+                  ? "checking problems, tests and the preview"
+                  : "fixing what the checks found"
+              }`}
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto h-6 px-2 text-xs"
+          disabled={stopRequested}
+          onClick={stop}
+          title="Stop looping and keep the changes made so far"
+        >
+          Stop loop
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { attachedNetworkRequestAtom } from "@/atoms/previewAtoms";
+import { useAtom } from "jotai";
+import { Network, X } from "lucide-react";
+
+export function AttachedNetworkRequestDisplay() {
+  const [request, setRequest] = useAtom(attachedNetworkRequestAtom);
+
+  if (!request) {
+    return null;
+  }
+
+  const status = request.error ? "failed" : (request.status ?? "pending");
+  return (
+    <div className="p-2 pb-1" data-testid="attached-network-request-display">
+      <div className="flex items-center justify-between rounded-md bg-red-600/10 px-2 py-1 text-sm">
+        <div className="flex items-center gap-2 overflow-hidden">
+          <Network
+            size={16}
+            className="flex-shrink-0 text-red-600 dark:text-red-400"
+          />
+          <div className="flex flex-col overflow-hidden">
+            <span className="truncate font-medium text-red-800 dark:text-red-300">
+              {request.method} {status}
+            </span>
+            <span
+              className="truncate text-xs text-red-600/80 dark:text-red-400/80"
+              title={request.url}
+            >
+              {request.url}
+            </span>
+          </div>
+        </div>
+        <button
+          onClick={() => setRequest(null)}
+          className="ml-2 flex-shrink-0 rounded-full p-0.5 hover:bg-red-600/20"
+          title="Remove request"
+        >
+          <X size={18} className="text-red-600 dark:text-red-400" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import {
   PlusCircle,
   GitBranch,
   Info,
+  ListTree,
   X,
 } from "lucide-react";
 import { PanelRightClose } from "lucide-react";
@@ -27,6 +28,7 @@ import { useStreamChat } from "@/hooks/useStreamChat";
 import { useCurrentBranch } from "@/hooks/useCurrentBranch";
 import { useCheckoutVersion } from "@/hooks/useCheckoutVersion";
 import { useRenameBranch } from "@/hooks/useRenameBranch";
+import { useWorkflowRuns } from "@/hooks/useWorkflowRuns";
 import { isAnyCheckoutVersionInProgressAtom } from "@/store/appAtoms";
 import { LoadingBar } from "../ui/LoadingBar";
 import { motion, AnimatePresence } from "framer-motion";
@@ -36,6 +38,7 @@ interface ChatHeaderProps {
   isPreviewOpen: boolean;
   onTogglePreview: () => void;
   onVersionClick: () => void;
+  onWorkflowTimelineClick: () => void;
 }
 
 export function ChatHeader({
@@ -43,6 +46,7 @@ export function ChatHeader({
   isPreviewOpen,
   onTogglePreview,
   onVersionClick,
+  onWorkflowTimelineClick,
 }: ChatHeaderProps) {
   const appId = useAtomValue(selectedAppIdAtom);
   const { versions, loading: versionsLoading } = useVersions(appId);
@@ -67,6 +71,7 @@ export function ChatHeader({
   const chat = selectedChatId ? chatMetadataById.get(selectedChatId) : null;
   const workflowStatus = chat?.workflowStatus;
   const workflowStep = chat?.workflowStep;
+  const { runs: workflowRuns } = useWorkflowRuns(selectedChatId);
 
   const handleWorkflowAction = (action: "next" | "stop") => {
      if (!selectedChatId) return;
@@ -255,6 +260,17 @@ export function ChatHeader({
               ? "..."
               : `Version ${versions.length}${versionPostfix}`}
           </Button>
+          {(workflowRuns.length > 0 || workflowStatus === "active") && (
+            <Button
+              onClick={onWorkflowTimelineClick}
+              variant="ghost"
+              className="hidden @6xs:flex cursor-pointer items-center gap-1 text-sm px-2 py-1 rounded-md"
+              data-testid="workflow-timeline-button"
+            >
+              <ListTree size={16} />
+              Workflow
+            </Button>
+          )}
         </div>
 
         <button
@@ -62,8 +62,17 @@ import { FileAttachmentDropdown } from "./FileAttachmentDropdown";
 import { showError, showExtraFilesToast } from "@/lib/toast";
 import { ChatInputControls } from "../ChatInputControls";
 import { ChatErrorBox } from "./ChatErrorBox";
-import { selectedComponentPreviewAtom } from "@/atoms/previewAtoms";
+import {
+  attachedNetworkRequestAtom,
+  previewScreenshotAtom,
+  selectedComponentsPreviewAtom,
+} from "@/atoms/previewAtoms";
 import { SelectedComponentDisplay } from "./SelectedComponentDisplay";
+import { AgentCommandConsents } from "./AgentCommandConsentCard";
+import { PlanExecutionBar } from "./PlanExecutionBar";
+import { AgentLoopBar } from "./AgentLoopBar";
+import { SubAgentLanes } from "./SubAgentLanes";
+import { AttachedNetworkRequestDisplay } from "./AttachedNetworkRequestDisplay";
 import { useCheckProblems } from "@/hooks/useCheckProblems";
 import { LexicalChatInput } from "./LexicalChatInput";
 import { useChatModeToggle } from "@/hooks/useChatModeToggle";
@@ -85,8 +94,14 @@ export function ChatInput({ chatId }: { chatId?: number }) {
   const setMessagesById = useSetAtom(chatMessagesByIdAtom);
   const setIsPreviewOpen = useSetAtom(isPreviewOpenAtom);
   const [showTokenBar, setShowTokenBar] = useAtom(showTokenBarAtom);
-  const [selectedComponent, setSelectedComponent] = useAtom(
-    selectedComponentPreviewAtom,
+  const [selectedComponents, setSelectedComponents] = useAtom(
+    selectedComponentsPreviewAtom,
+  );
+  const [previewScreenshot, setPreviewScreenshot] = useAtom(
+    previewScreenshotAtom,
+  );
+  const [attachedNetworkRequest, setAttachedNetworkRequest] = useAtom(
+    attachedNetworkRequestAtom,
   );
   const { checkProblems } = useCheckProblems(appId);
   const chatMetadataById = useAtomValue(chatMetadataByIdAtom);
@@ -104,9 +119,18 @@ export function ChatInput({ chatId }: { chatId?: number }) {
     handleDragLeave,
     handleDrop,
     clearAttachments,
+    addAttachments,
     handlePaste,
   } = useAttachments();
 
+  // Screenshots taken in the preview become regular image attachments
+  useEffect(() => {
+    if (previewScreenshot) {
+      addAttachments([previewScreenshot]);
+      setPreviewScreenshot(null);
+    }
+  }, [previewScreenshot]);
+
   // Use the hook to fetch the proposal
   const {
     proposalResult,
@@ -154,7 +178,8 @@ export function ChatInput({ chatId }: { chatId?: number }) {
 
     const currentInput = inputValue;
     setInputValue("");
-    setSelectedComponent(null);
+    setSelectedComponents([]);
+    setAttachedNetworkRequest(null);
 
     // Send message with attachments and clear them after sending
     await streamMessage({
@@ -162,7 +187,8 @@ export function ChatInput({ chatId }: { chatId?: number }) {
       chatId,
       attachments,
       redo: false,
-      selectedComponent,
+      selectedComponents,
+      networkRequest: attachedNetworkRequest,
     });
     clearAttachments();
     posthog.capture("chat:submit");
@@ -276,7 +302,8 @@ export function ChatInput({ chatId }: { chatId?: number }) {
           {/* Only render ChatInputActions if proposal is loaded */}
           {proposal &&
             proposalResult?.chatId === chatId &&
-            settings.selectedChatMode !== "ask" && (
+            settings.selectedChatMode !== "ask" &&
+            settings.selectedChatMode !== "plan" && (
               <ChatInputActions
                 proposal={proposal}
                 onApprove={handleApprove}
@@ -294,7 +321,12 @@ export function ChatInput({ chatId }: { chatId?: number }) {
               />
             )}
 
+          <AgentCommandConsents chatId={chatId} />
+          <PlanExecutionBar chatId={chatId} />
+          <AgentLoopBar chatId={chatId} />
+          <SubAgentLanes chatId={chatId} />
           <SelectedComponentDisplay />
+          <AttachedNetworkRequestDisplay />
 
           {/* Use the AttachmentsList component */}
           <AttachmentsList
@@ -343,7 +375,10 @@ export function ChatInput({ chatId }: { chatId?: number }) {
           </div>
           <div className="pl-2 pr-1 flex items-center justify-between pb-2">
             <div className="flex items-center">
-              <ChatInputControls showContextFilesPicker={true} />
+              <ChatInputControls
+                showContextFilesPicker={true}
+                chatId={chatId ?? undefined}
+              />
               {/* File attachment dropdown */}
               <FileAttachmentDropdown
                 onFileSelect={handleFileSelect}
@@ -84,6 +84,7 @@ const ChatMessage = memo(({ message, isLastMessage }: ChatMessageProps) => {
 
   return (
     <motion.div
+      data-message-id={message.id}
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.3 }}
@@ -142,7 +143,10 @@ const ChatMessage = memo(({ message, isLastMessage }: ChatMessageProps) => {
             >
               {message.role === "assistant" ? (
                 <>
-                  <DyadMarkdownParser content={message.content} />
+                  <DyadMarkdownParser
+                    content={message.content}
+                    messageId={message.id}
+                  />
                   {isLastMessage && isStreaming && (
                     <div className="mt-4 ml-4 relative w-5 h-5 animate-spin">
                       <div className="absolute top-0 left-1/2 transform -translate-x-1/2 w-2 h-2 bg-(--primary) dark:bg-blue-500 rounded-full"></div>
@@ -219,9 +223,34 @@ const ChatMessage = memo(({ message, isLastMessage }: ChatMessageProps) => {
               <span>{formatTimestamp(message.createdAt)}</span>
             </div>
           {message.role === "assistant" && message.model && (
-              <div className="flex items-center space-x-1 bg-blue-50/50 dark:bg-blue-900/20 px-1.5 py-0.5 rounded text-[9px] font-mono text-blue-600 dark:text-blue-300 border border-blue-100 dark:border-blue-800/50 shadow-[0_0_8px_rgba(59,130,246,0.2)]">
-                 <span>{message.model}</span>
-              </div>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div className="flex items-center space-x-1 bg-blue-50/50 dark:bg-blue-900/20 px-1.5 py-0.5 rounded text-[9px] font-mono text-blue-600 dark:text-blue-300 border border-blue-100 dark:border-blue-800/50 shadow-[0_0_8px_rgba(59,130,246,0.2)]">
+                    <span>{message.model}</span>
+                  </div>
+                </TooltipTrigger>
+                {message.routing && (
+                  <TooltipContent className="max-w-80">
+                    <div className="flex flex-col">
+                      <span className="font-medium">
+                        {message.routing.ultrathink
+                          ? "Ultrathink"
+                          : `Task: ${message.routing.taskType}`}{" "}
+                        ({message.routing.classifier})
+                      </span>
+                      <span>{message.routing.explanation}</span>
+                      {message.routing.fallbacks?.map((fallback) => (
+                        <span
+                          key={fallback.model}
+                          className="text-gray-200 dark:text-gray-500"
+                        >
+                          Skipped {fallback.model}: {fallback.reason}
+                        </span>
+                      ))}
+                    </div>
+                  </TooltipContent>
+                )}
+              </Tooltip>
             )}
             {messageVersion && messageVersion.message && (
               <div className="flex items-center space-x-1">
@@ -306,6 +335,7 @@ const ChatMessage = memo(({ message, isLastMessage }: ChatMessageProps) => {
     if (nextProps.message.requestId !== prevProps.message.requestId) return false;
     if (nextProps.message.commitHash !== prevProps.message.commitHash) return false;
     if (nextProps.message.model !== prevProps.message.model) return false;
+    if (nextProps.message.routing !== prevProps.message.routing) return false;
     
     return true;
 });
@@ -0,0 +1,102 @@
+import type React from "react";
+import { useState } from "react";
+import {
+  CheckCircle2,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import type { AgentIterationStatus } from "@/ipc/ipc_types";
+
+interface DyadAgentIterationProps {
+  iteration?: string;
+  max?: string;
+  status?: string;
+  problems?: string;
+  tests?: string;
+  runtimeErrors?: string;
+  children?: string;
+}
+
+const STATUS_LABELS: Record<AgentIterationStatus, string> = {
+  passed: "Checks passed",
+  fixing: "Fixing",
+  "max-iterations": "Stopped at the iteration limit",
+  "over-budget": "Stopped at the token budget",
+  stopped: "Stopped",
+};
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// One round of agent mode's verify-and-fix loop, collapsed to its counts
+export const DyadAgentIteration: React.FC<DyadAgentIterationProps> = ({
+  iteration,
+  max,
+  status,
+  problems,
+  tests,
+  runtimeErrors,
+  children,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const passed = status === "passed";
+  const label = STATUS_LABELS[status as AgentIterationStatus] ?? status;
+  const details = children?.trim();
+  const Icon = passed
+    ? CheckCircle2
+    : status === "fixing"
+      ? RefreshCw
+      : XCircle;
+  const summary = [
+    plural(Number(problems ?? 0), "problem"),
+    tests === "skipped" ? "no tests" : `tests ${tests}`,
+    plural(Number(runtimeErrors ?? 0), "runtime error"),
+  ].join(" · ");
+
+  return (
+    <div
+      className={`bg-(--background-lightest) hover:bg-(--background-lighter) rounded-lg px-4 py-2 border my-2 ${
+        details ? "cursor-pointer" : ""
+      } ${passed ? "border-border" : "border-amber-400"}`}
+      onClick={() => details && setExpanded((v) => !v)}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon
+            size={16}
+            className={passed ? "text-emerald-600" : "text-amber-500"}
+          />
+          <div className="text-xs text-gray-600 font-medium">
+            Iteration {iteration} of {max}
+          </div>
+          <span className="text-gray-700 dark:text-gray-300 font-medium text-sm truncate">
+            {label}
+          </span>
+          <span className="text-xs text-muted-foreground truncate">
+            {summary}
+          </span>
+        </div>
+        {details && (
+          <div className="text-gray-500">
+            {expanded ? (
+              <ChevronsDownUp size={18} />
+            ) : (
+              <ChevronsUpDown size={18} />
+            )}
+          </div>
+        )}
+      </div>
+      {expanded && details && (
+        <pre
+          className="mt-2 max-h-80 overflow-auto whitespace-pre-wrap text-xs font-mono text-gray-700 dark:text-gray-300 cursor-text"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {details}
+        </pre>
+      )}
+    </div>
+  );
+};
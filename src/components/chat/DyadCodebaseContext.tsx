@@ -12,13 +12,33 @@ interface DyadCodebaseContextProps {
   };
 }
 
+// The body lists why each file was included, one `path: reason` per line
+function parseReasons(content: React.ReactNode): Map<string, string> {
+  const reasons = new Map<string, string>();
+  if (typeof content !== "string") {
+    return reasons;
+  }
+  for (const line of content.split("\n")) {
+    const separator = line.indexOf(": ");
+    if (separator > 0) {
+      reasons.set(
+        line.slice(0, separator).trim(),
+        line.slice(separator + 2).trim(),
+      );
+    }
+  }
+  return reasons;
+}
+
 export const DyadCodebaseContext: React.FC<DyadCodebaseContextProps> = ({
+  children,
   node,
 }) => {
   const state = node?.properties?.state as CustomTagState;
   const inProgress = state === "pending";
   const [isExpanded, setIsExpanded] = useState(inProgress);
   const files = node?.properties?.files?.split(",") || [];
+  const reasons = parseReasons(children);
 
   // Collapse when transitioning from in-progress to not-in-progress
   useEffect(() => {
@@ -105,6 +125,11 @@ export const DyadCodebaseContext: React.FC<DyadCodebaseContextProps> = ({
                         {pathPart}
                       </div>
                     )}
+                    {reasons.has(filePath) && (
+                      <div className="text-xs italic text-gray-500 dark:text-gray-400 ml-5">
+                        {reasons.get(filePath)}
+                      </div>
+                    )}
                   </div>
                 );
               })}
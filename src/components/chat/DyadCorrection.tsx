@@ -0,0 +1,38 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight, ShieldAlert } from "lucide-react";
+
+interface DyadCorrectionProps {
+  rule?: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * Marks where a guardrail stopped the response mid-stream and the model
+ * resumed with a corrective instruction.
+ */
+export const DyadCorrection: React.FC<DyadCorrectionProps> = ({
+  rule,
+  children,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="my-3">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex w-full items-center gap-2 text-xs text-amber-700 dark:text-amber-400"
+      >
+        <span className="h-px flex-1 bg-amber-300 dark:bg-amber-700" />
+        <ShieldAlert size={14} />
+        <span>Corrected mid-response{rule ? `: ${rule}` : ""}</span>
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <span className="h-px flex-1 bg-amber-300 dark:bg-amber-700" />
+      </button>
+      {isExpanded && (
+        <div className="mt-2 whitespace-pre-wrap rounded-md border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/10 px-3 py-2 text-xs text-gray-700 dark:text-gray-300">
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -25,9 +25,17 @@ import { DyadRead } from "./DyadRead";
 import { mapActionToButton } from "./ChatInput";
 import { SuggestedAction } from "@/lib/schemas";
 import { DyadRunCommand } from "./DyadRunCommand";
+import { DyadCorrection } from "./DyadCorrection";
+import { DyadPatch } from "./DyadPatch";
+import { DyadToolOutput } from "./DyadToolOutput";
+import { DyadPlan } from "./DyadPlan";
+import { DyadAgentIteration } from "./DyadAgentIteration";
+import { decodeDyadWriteContent } from "@/ipc/shared/dyad_write_content";
 
 interface DyadMarkdownParserProps {
   content: string;
+  // Message being rendered, for tags with state stored per message
+  messageId?: number;
 }
 
 type CustomTagInfo = {
@@ -79,6 +87,7 @@ export const VanillaMarkdownParser = ({ content }: { content: string }) => {
  */
 export const DyadMarkdownParser: React.FC<DyadMarkdownParserProps> = ({
   content,
+  messageId,
 }) => {
   const chatId = useAtomValue(selectedChatIdAtom);
   const isStreaming = useAtomValue(isStreamingByIdAtom).get(chatId!) ?? false;
@@ -102,7 +111,11 @@ export const DyadMarkdownParser: React.FC<DyadMarkdownParserProps> = ({
                 {piece.content}
               </ReactMarkdown>
             )
-            : renderCustomTag(piece.tagInfo, { isStreaming, chatId })}
+            : renderCustomTag(piece.tagInfo, {
+                isStreaming,
+                chatId,
+                messageId,
+              })}
         </React.Fragment>
       ))}
     </>
@@ -130,6 +143,7 @@ function preprocessUnclosedTags(content: string): {
     "dyad-problem-report",
     "dyad-chat-summary",
     "dyad-edit",
+    "dyad-patch",
     "dyad-codebase-context",
     "dyad-web-search-result",
     "dyad-web-search",
@@ -139,6 +153,10 @@ function preprocessUnclosedTags(content: string): {
     "dyad-run-command",
     "dyad-mcp-tool-call",
     "dyad-mcp-tool-result",
+    "dyad-tool-output",
+    "dyad-plan",
+    "dyad-agent-iteration",
+    "dyad-correction",
   ];
 
   let processedContent = content;
@@ -203,6 +221,7 @@ function parseCustomTags(content: string): ContentPiece[] {
     "dyad-problem-report",
     "dyad-chat-summary",
     "dyad-edit",
+    "dyad-patch",
     "dyad-codebase-context",
     "dyad-web-search-result",
     "dyad-web-search",
@@ -212,6 +231,10 @@ function parseCustomTags(content: string): ContentPiece[] {
     "dyad-run-command",
     "dyad-mcp-tool-call",
     "dyad-mcp-tool-result",
+    "dyad-tool-output",
+    "dyad-plan",
+    "dyad-agent-iteration",
+    "dyad-correction",
   ];
 
   const tagPattern = new RegExp(
@@ -292,7 +315,11 @@ function getState({
  */
 function renderCustomTag(
   tagInfo: CustomTagInfo,
-  { isStreaming, chatId }: { isStreaming: boolean; chatId?: number | null },
+  {
+    isStreaming,
+    chatId,
+    messageId,
+  }: { isStreaming: boolean; chatId?: number | null; messageId?: number },
 ): React.ReactNode {
   const { tag, attributes, content, inProgress } = tagInfo;
 
@@ -354,7 +381,7 @@ function renderCustomTag(
             },
           }}
         >
-          {content}
+          {decodeDyadWriteContent(content, attributes.encoding)}
         </DyadWrite>
       );
 
@@ -440,6 +467,21 @@ function renderCustomTag(
         </DyadEdit>
       );
 
+    case "dyad-patch":
+      return (
+        <DyadPatch
+          node={{
+            properties: {
+              path: attributes.path || "",
+              description: attributes.description || "",
+              state: getState({ isStreaming, inProgress }),
+            },
+          }}
+        >
+          {content}
+        </DyadPatch>
+      );
+
     case "dyad-codebase-context":
       return (
         <DyadCodebaseContext
@@ -481,6 +523,40 @@ function renderCustomTag(
           {content}
         </DyadMcpToolResult>
       );
+
+    case "dyad-tool-output":
+      return (
+        <DyadToolOutput
+          tool={attributes.tool || ""}
+          summary={attributes.summary}
+          isError={attributes.error === "true"}
+        >
+          {content}
+        </DyadToolOutput>
+      );
+    case "dyad-agent-iteration":
+      return (
+        <DyadAgentIteration
+          iteration={attributes.iteration}
+          max={attributes.max}
+          status={attributes.status}
+          problems={attributes.problems}
+          tests={attributes.tests}
+          runtimeErrors={attributes.errors}
+        >
+          {content}
+        </DyadAgentIteration>
+      );
+    case "dyad-plan":
+      return (
+        <DyadPlan
+          chatId={chatId}
+          messageId={messageId}
+          state={getState({ isStreaming, inProgress })}
+        >
+          {content}
+        </DyadPlan>
+      );
     case "dyad-output":
       return (
         <DyadOutput
@@ -502,6 +578,11 @@ function renderCustomTag(
       // Don't render anything for dyad-chat-summary
       return null;
 
+    case "dyad-correction":
+      return (
+        <DyadCorrection rule={attributes.rule}>{content.trim()}</DyadCorrection>
+      );
+
     case "dyad-command":
       if (attributes.type) {
         const action = {
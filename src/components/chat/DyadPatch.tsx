@@ -0,0 +1,174 @@
+import type React from "react";
+import { useState } from "react";
+import {
+  ChevronsDownUp,
+  ChevronsUpDown,
+  CircleX,
+  FileDiff,
+  Loader,
+} from "lucide-react";
+import { parsePatchHunks, type PatchHunk } from "@/shared/dyad_patch";
+import { CustomTagState } from "./stateTypes";
+
+interface DyadPatchProps {
+  children?: string;
+  node?: any;
+}
+
+interface DiffLine {
+  type: "context" | "removed" | "added";
+  text: string;
+}
+
+// Lines shared by the start and end of SEARCH and REPLACE are shown as
+// context, the rest as removed and added lines.
+function toDiffLines({ search, replace }: PatchHunk): DiffLine[] {
+  const removed = search === "" ? [] : search.split("\n");
+  const added = replace === "" ? [] : replace.split("\n");
+  let prefix = 0;
+  while (
+    prefix < removed.length &&
+    prefix < added.length &&
+    removed[prefix] === added[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < removed.length - prefix &&
+    suffix < added.length - prefix &&
+    removed[removed.length - 1 - suffix] === added[added.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const context = (text: string): DiffLine => ({ type: "context", text });
+  return [
+    ...removed.slice(0, prefix).map(context),
+    ...removed
+      .slice(prefix, removed.length - suffix)
+      .map((text): DiffLine => ({ type: "removed", text })),
+    ...added
+      .slice(prefix, added.length - suffix)
+      .map((text): DiffLine => ({ type: "added", text })),
+    ...removed.slice(removed.length - suffix).map(context),
+  ];
+}
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  context: "text-gray-600 dark:text-gray-400",
+  removed: "bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300",
+  added: "bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300",
+};
+
+const LINE_PREFIXES: Record<DiffLine["type"], string> = {
+  context: " ",
+  removed: "-",
+  added: "+",
+};
+
+export const DyadPatch: React.FC<DyadPatchProps> = ({ children, node }) => {
+  const [isContentVisible, setIsContentVisible] = useState(false);
+
+  const path = node?.properties?.path || "";
+  const description = node?.properties?.description || "";
+  const state = node?.properties?.state as CustomTagState;
+  const inProgress = state === "pending";
+  const aborted = state === "aborted";
+  const fileName = path ? path.split("/").pop() : "";
+
+  // A patch that's still streaming may end mid-hunk; show what's complete.
+  const { hunks, errors } = parsePatchHunks(children ?? "");
+
+  return (
+    <div
+      className={`bg-(--background-lightest) hover:bg-(--background-lighter) rounded-lg px-4 py-2 border my-2 cursor-pointer ${
+        inProgress
+          ? "border-amber-500"
+          : aborted
+            ? "border-red-500"
+            : "border-border"
+      }`}
+      onClick={() => setIsContentVisible(!isContentVisible)}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileDiff size={16} />
+          {fileName && (
+            <span className="text-gray-700 dark:text-gray-300 font-medium text-sm">
+              {fileName}
+            </span>
+          )}
+          {hunks.length > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {hunks.length} {hunks.length === 1 ? "change" : "changes"}
+            </span>
+          )}
+          {inProgress && (
+            <div className="flex items-center text-amber-600 text-xs">
+              <Loader size={14} className="mr-1 animate-spin" />
+              <span>Patching...</span>
+            </div>
+          )}
+          {aborted && (
+            <div className="flex items-center text-red-600 text-xs">
+              <CircleX size={14} className="mr-1" />
+              <span>Did not finish</span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center">
+          {isContentVisible ? (
+            <ChevronsDownUp
+              size={20}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            />
+          ) : (
+            <ChevronsUpDown
+              size={20}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            />
+          )}
+        </div>
+      </div>
+      {path && (
+        <div className="text-xs text-gray-500 dark:text-gray-400 font-medium mb-1">
+          {path}
+        </div>
+      )}
+      {description && (
+        <div className="text-sm text-gray-600 dark:text-gray-300">
+          <span className="font-medium">Summary: </span>
+          {description}
+        </div>
+      )}
+      {isContentVisible && (
+        <div
+          className="text-xs cursor-text space-y-2 mt-2"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {hunks.map((hunk, index) => (
+            <pre
+              key={index}
+              className="font-mono border border-border rounded overflow-x-auto py-1"
+            >
+              {toDiffLines(hunk).map((line, lineIndex) => (
+                <div
+                  key={lineIndex}
+                  className={`px-2 whitespace-pre ${LINE_STYLES[line.type]}`}
+                >
+                  {LINE_PREFIXES[line.type]} {line.text}
+                </div>
+              ))}
+            </pre>
+          ))}
+          {!inProgress &&
+            errors.map((error) => (
+              <div key={error} className="text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
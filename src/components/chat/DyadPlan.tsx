@@ -0,0 +1,360 @@
+import type React from "react";
+import { useState } from "react";
+import { useAtomValue } from "jotai";
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  ListChecks,
+  Loader2,
+  Pencil,
+  XCircle,
+} from "lucide-react";
+import { isStreamingByIdAtom } from "@/atoms/chatAtoms";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useChatPlans } from "@/hooks/useChatPlans";
+import type { PlanStep, PlanStepRisk } from "@/ipc/ipc_types";
+import { PLAN_STEP_RISKS, parsePlanSteps } from "@/ipc/shared/plan";
+import { CustomTagState } from "./stateTypes";
+
+interface DyadPlanProps {
+  chatId?: number | null;
+  // Message with the plan; its stored plan is looked up by it
+  messageId?: number;
+  state: CustomTagState;
+  children?: string;
+}
+
+const RISK_STYLES: Record<PlanStepRisk, string> = {
+  low: "border-emerald-300 text-emerald-700 dark:border-emerald-700 dark:text-emerald-300",
+  medium:
+    "border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-300",
+  high: "border-red-300 text-red-700 dark:border-red-700 dark:text-red-300",
+};
+
+// Steps that already ran can't be edited or moved
+function isLockedStep(step: PlanStep) {
+  return step.status === "running" || step.status === "done";
+}
+
+// Plan written in plan mode, as a checklist the user edits and approves
+export const DyadPlan: React.FC<DyadPlanProps> = ({
+  chatId,
+  messageId,
+  state,
+  children,
+}) => {
+  const { plans, updatePlanSteps, setPlanStatus, isSaving } = useChatPlans(
+    chatId ?? undefined,
+  );
+  const isStreaming =
+    useAtomValue(isStreamingByIdAtom).get(chatId ?? -1) ?? false;
+  const [editingStepId, setEditingStepId] = useState<string | null>(null);
+
+  const plan = plans.find((p) => p.messageId === messageId);
+  // Until the response is saved, show the steps as written
+  const steps = plan?.steps ?? parsePlanSteps(children ?? "");
+  const isEditable = !!plan && plan.status !== "completed";
+  const doneCount = steps.filter((step) => step.status === "done").length;
+  const activeCount = steps.filter((step) => step.status !== "skipped").length;
+
+  const saveSteps = (next: PlanStep[]) => {
+    if (plan) {
+      updatePlanSteps({ planId: plan.id, steps: next });
+    }
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    saveSteps(next);
+  };
+
+  return (
+    <div
+      className="bg-(--background-lightest) rounded-lg px-4 py-3 border border-border my-2 not-prose"
+      data-testid="dyad-plan"
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <ListChecks size={16} className="text-gray-600" />
+        <span className="text-sm font-medium">Plan</span>
+        {state === "pending" && (
+          <Loader2 size={14} className="animate-spin text-gray-500" />
+        )}
+        {state === "aborted" && (
+          <span className="text-xs text-red-500">Incomplete</span>
+        )}
+        {plan && plan.status !== "draft" && (
+          <span className="ml-auto text-xs text-muted-foreground">
+            {doneCount} of {activeCount} done
+          </span>
+        )}
+      </div>
+      <ol className="space-y-1.5">
+        {steps.map((step, index) => (
+          <PlanStepRow
+            key={step.id}
+            step={step}
+            number={index + 1}
+            isEditable={isEditable && !isLockedStep(step)}
+            isEditing={editingStepId === step.id}
+            canMoveUp={index > 0 && !isLockedStep(steps[index - 1])}
+            canMoveDown={
+              index < steps.length - 1 && !isLockedStep(steps[index + 1])
+            }
+            onEdit={() => setEditingStepId(step.id)}
+            onCancelEdit={() => setEditingStepId(null)}
+            onChange={(updated) => {
+              setEditingStepId(null);
+              saveSteps(steps.map((s) => (s.id === updated.id ? updated : s)));
+            }}
+            onMove={(offset) => moveStep(index, offset)}
+          />
+        ))}
+      </ol>
+      {plan && (
+        <div className="flex items-center gap-2 mt-3">
+          {plan.status === "draft" && (
+            <Button
+              size="sm"
+              disabled={isStreaming || isSaving || activeCount === 0}
+              onClick={() =>
+                setPlanStatus({ planId: plan.id, status: "executing" })
+              }
+            >
+              Approve and run
+            </Button>
+          )}
+          {plan.status === "executing" && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isSaving}
+              onClick={() =>
+                setPlanStatus({ planId: plan.id, status: "paused" })
+              }
+              title="Stop after the current step"
+            >
+              Pause
+            </Button>
+          )}
+          {plan.status === "paused" && (
+            <Button
+              size="sm"
+              disabled={isStreaming || isSaving}
+              onClick={() =>
+                setPlanStatus({ planId: plan.id, status: "executing" })
+              }
+            >
+              Resume
+            </Button>
+          )}
+          <span className="text-xs text-muted-foreground">
+            {plan.status === "draft" &&
+              "Edit, reorder or skip steps, then approve to run them one by one."}
+            {plan.status === "executing" &&
+              "Running as build turns. Steps that haven't started can still be edited."}
+            {plan.status === "paused" && "Paused."}
+            {plan.status === "completed" && "Plan completed."}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+function PlanStepRow({
+  step,
+  number,
+  isEditable,
+  isEditing,
+  canMoveUp,
+  canMoveDown,
+  onEdit,
+  onCancelEdit,
+  onChange,
+  onMove,
+}: {
+  step: PlanStep;
+  number: number;
+  isEditable: boolean;
+  isEditing: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onEdit: () => void;
+  onCancelEdit: () => void;
+  onChange: (step: PlanStep) => void;
+  onMove: (offset: -1 | 1) => void;
+}) {
+  if (isEditing) {
+    return (
+      <li>
+        <PlanStepEditor step={step} onSave={onChange} onCancel={onCancelEdit} />
+      </li>
+    );
+  }
+
+  const isSkipped = step.status === "skipped";
+  return (
+    <li className="group flex items-start gap-2 text-sm">
+      <div className="pt-0.5 w-4 shrink-0">
+        {step.status === "done" && (
+          <CheckCircle2 size={16} className="text-emerald-600" />
+        )}
+        {step.status === "running" && (
+          <Loader2 size={16} className="animate-spin text-blue-500" />
+        )}
+        {step.status === "failed" && (
+          <XCircle size={16} className="text-red-500" />
+        )}
+        {(step.status === "pending" || isSkipped) && (
+          <Checkbox
+            checked={!isSkipped}
+            disabled={!isEditable}
+            onCheckedChange={(checked) =>
+              onChange({ ...step, status: checked ? "pending" : "skipped" })
+            }
+            title={isSkipped ? "Include this step" : "Skip this step"}
+          />
+        )}
+      </div>
+      <div className={`flex-1 min-w-0 ${isSkipped ? "opacity-50" : ""}`}>
+        <div className={isSkipped ? "line-through" : ""}>
+          <span className="text-muted-foreground mr-1">{number}.</span>
+          {step.intent}
+        </div>
+        <div className="flex flex-wrap items-center gap-1.5 mt-0.5 text-xs text-muted-foreground">
+          <span
+            className={`px-1.5 rounded-full border ${RISK_STYLES[step.risk]}`}
+          >
+            {step.risk} risk
+          </span>
+          {step.files.map((file) => (
+            <code key={file} className="truncate">
+              {file}
+            </code>
+          ))}
+          {step.status === "failed" && (
+            <span className="text-red-500">Failed; retried on resume</span>
+          )}
+          {step.commitHash && (
+            <code title={step.commitHash}>{step.commitHash.slice(0, 7)}</code>
+          )}
+        </div>
+      </div>
+      {isEditable && (
+        <div className="flex shrink-0 opacity-0 group-hover:opacity-100">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            disabled={!canMoveUp}
+            onClick={() => onMove(-1)}
+            title="Move up"
+          >
+            <ArrowUp className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            disabled={!canMoveDown}
+            onClick={() => onMove(1)}
+            title="Move down"
+          >
+            <ArrowDown className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={onEdit}
+            title="Edit step"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+function PlanStepEditor({
+  step,
+  onSave,
+  onCancel,
+}: {
+  step: PlanStep;
+  onSave: (step: PlanStep) => void;
+  onCancel: () => void;
+}) {
+  const [intent, setIntent] = useState(step.intent);
+  const [files, setFiles] = useState(step.files.join(", "));
+  const [risk, setRisk] = useState<PlanStepRisk>(step.risk);
+
+  return (
+    <div className="space-y-2 rounded-md border border-border p-2">
+      <Textarea
+        value={intent}
+        onChange={(e) => setIntent(e.target.value)}
+        rows={3}
+        className="text-sm"
+      />
+      <div className="flex gap-2">
+        <Input
+          value={files}
+          onChange={(e) => setFiles(e.target.value)}
+          placeholder="Files, comma-separated"
+          className="h-8 text-xs"
+        />
+        <Select
+          value={risk}
+          onValueChange={(value) => setRisk(value as PlanStepRisk)}
+        >
+          <SelectTrigger className="h-8 w-28 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAN_STEP_RISKS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value} risk
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          disabled={!intent.trim()}
+          onClick={() =>
+            onSave({
+              ...step,
+              intent: intent.trim(),
+              files: files
+                .split(",")
+                .map((file) => file.trim())
+                .filter(Boolean),
+              risk,
+            })
+          }
+        >
+          Save
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { useAtomValue } from "jotai";
+import { useQuery } from "@tanstack/react-query";
+import { v4 as uuidv4 } from "uuid";
 import { selectedAppIdAtom } from "@/atoms/appAtoms";
 import { useSettings } from "@/hooks/useSettings";
 import { Button } from "@/components/ui/button";
 import { IpcClient } from "@/ipc/ipc_client";
+import type { CommandPolicyDecision } from "@/ipc/ipc_types";
 import { showError, showWarning } from "@/lib/toast";
 
 interface DyadRunCommandProps {
@@ -14,6 +17,14 @@ interface DyadRunCommandProps {
   chatId?: number | null;
 }
 
+const CATEGORY_LABELS: Record<CommandPolicyDecision["category"], string> = {
+  "read-only": "Read-only",
+  "package-install": "Package install",
+  network: "Network",
+  destructive: "Destructive",
+  other: "Command",
+};
+
 export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
   command,
   autorun = false,
@@ -27,18 +38,36 @@ export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
     stdout: string;
     stderr: string;
   } | null>(null);
+  const runIdRef = useRef<string | null>(null);
 
   const trimmedCommand = command.trim();
   const normalizedCommand = trimmedCommand.replace(/\s+/g, " ");
 
-  // Determine if this is an ephemeral command that should use execCommand
-  // instead of runAppCommand (which spawns a long-running process)
-  const isEphemeral = isEphemeralCommand(normalizedCommand);
+  // Dev servers keep running, so they go through runAppCommand like the app
+  // itself; everything else runs to completion with its output streamed.
+  const isLongRunning = isLongRunningCommand(normalizedCommand);
+
+  const { data: decision } = useQuery({
+    queryKey: [
+      "command-policy-decision",
+      appId,
+      normalizedCommand,
+      autorun,
+      !!settings?.autoApproveTerminalCommands,
+      settings?.runtimeMode2,
+    ],
+    queryFn: () =>
+      IpcClient.getInstance().evaluateCommand({
+        appId: appId!,
+        command: normalizedCommand,
+        autorun,
+      }),
+    enabled: !!appId && !!normalizedCommand,
+    meta: { showErrorToast: true },
+  });
 
-  // Check if auto-run is allowed based on props OR global settings
-  const isAutoAllowed =
-    (autorun && isSafeFlutterCommand(normalizedCommand)) ||
-    (!!settings?.autoApproveTerminalCommands && isEphemeral);
+  const isAutoAllowed = decision?.action === "allow";
+  const isDenied = decision?.action === "deny";
 
   const handleRun = async () => {
     if (!normalizedCommand) {
@@ -50,9 +79,13 @@ export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
       return;
     }
 
+    if (!decision || isDenied) {
+      return;
+    }
+
     if (!isAutoAllowed) {
       const confirmed = window.confirm(
-        `Run "${normalizedCommand}" inside your app workspace?`,
+        `Run "${normalizedCommand}" inside your app workspace?\n\n${decision.reason}`,
       );
       if (!confirmed) {
         return;
@@ -63,11 +96,23 @@ export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
     setCommandOutput(null);
 
     try {
-      if (isEphemeral) {
-        // Use execCommand for ephemeral commands to capture output
+      if (!isLongRunning) {
+        const runId = uuidv4();
+        runIdRef.current = runId;
+        setCommandOutput({ stdout: "", stderr: "" });
         const result = await IpcClient.getInstance().execCommand(
-          appId,
-          normalizedCommand,
+          {
+            appId,
+            command: normalizedCommand,
+            runId,
+            approved: true,
+          },
+          ({ type, data }) => {
+            setCommandOutput((prev) => ({
+              stdout: (prev?.stdout ?? "") + (type === "stdout" ? data : ""),
+              stderr: (prev?.stderr ?? "") + (type === "stderr" ? data : ""),
+            }));
+          },
         );
 
         setCommandOutput({
@@ -77,25 +122,29 @@ export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
 
         // If we have a chatId, send the output back to the chat context
         // so the AI can see it.
-        if (chatId) {
-          const outputContent = (result.stdout || result.stderr) 
+        if (chatId && !result.cancelled) {
+          const outputContent = (result.stdout || result.stderr)
             ? `\`\`\`\n${result.stdout ? result.stdout + "\n" : ""}${result.stderr ? "STDERR:\n" + result.stderr : ""}\`\`\``
             : "(no output)";
-            
-          const outputMessage = `Command \`${normalizedCommand}\` output:\n${outputContent}`;
+          const status = result.timedOut
+            ? " (timed out)"
+            : result.exitCode !== 0
+              ? ` (exit code ${result.exitCode})`
+              : "";
+
+          const outputMessage = `Command \`${normalizedCommand}\` output${status}:\n${outputContent}`;
 
           // We use streamMessage to inject this into the chat flow
           // Note: This will trigger the AI to respond to the output
           IpcClient.getInstance().streamMessage(outputMessage, {
             chatId,
-            selectedComponent: null, // No component context needed for command output
+            selectedComponents: [], // No component context needed for command output
             onUpdate: () => { }, // We don't need to track the response here
             onEnd: () => { },
             onError: () => { },
           });
         }
       } else {
-        // Use runAppCommand for long-running processes or those needing PTY
         await IpcClient.getInstance().runAppCommand({
           appId,
           command: normalizedCommand,
@@ -112,10 +161,17 @@ export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
           : "Failed to run the requested command.",
       );
     } finally {
+      runIdRef.current = null;
       setIsRunning(false);
     }
   };
 
+  const handleCancel = () => {
+    if (runIdRef.current) {
+      IpcClient.getInstance().cancelCommand(runIdRef.current);
+    }
+  };
+
   React.useEffect(() => {
     if (
       isAutoAllowed &&
@@ -134,16 +190,36 @@ export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
         <p className="text-xs text-muted-foreground">
           Command suggested by the assistant:
         </p>
-        {isAutoAllowed && (
-          <span className="text-[10px] bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100 px-1.5 py-0.5 rounded">
-            Auto-run
-          </span>
-        )}
+        <div className="flex items-center gap-1">
+          {decision && (
+            <span
+              className={`text-[10px] px-1.5 py-0.5 rounded ${
+                decision.category === "destructive"
+                  ? "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-100"
+                  : "bg-muted text-muted-foreground"
+              }`}
+            >
+              {CATEGORY_LABELS[decision.category]}
+              {decision.runtime === "docker" && " · Docker"}
+            </span>
+          )}
+          {isAutoAllowed && (
+            <span className="text-[10px] bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100 px-1.5 py-0.5 rounded">
+              Auto-run
+            </span>
+          )}
+        </div>
       </div>
       <pre className="mb-3 overflow-x-auto rounded bg-background px-3 py-2 text-xs font-mono">
         {normalizedCommand}
       </pre>
 
+      {isDenied && (
+        <p className="mb-3 text-xs text-red-600 dark:text-red-400">
+          {decision.reason}
+        </p>
+      )}
+
       {commandOutput && (
         <div className="mb-3">
           <p className="text-xs text-muted-foreground mb-1">Output:</p>
@@ -158,52 +234,46 @@ export const DyadRunCommand: React.FC<DyadRunCommandProps> = ({
         </div>
       )}
 
-      <Button
-        size="sm"
-        onClick={handleRun}
-        disabled={!normalizedCommand || isRunning || (isAutoAllowed && hasAutoRun)}
-      >
-        {isRunning
-          ? "Running..."
-          : isAutoAllowed && hasAutoRun
-            ? "Ran automatically"
-            : "Run command"}
-      </Button>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={handleRun}
+          disabled={
+            !normalizedCommand ||
+            !decision ||
+            isDenied ||
+            isRunning ||
+            (isAutoAllowed && hasAutoRun)
+          }
+        >
+          {isDenied
+            ? "Blocked by app policy"
+            : isRunning
+              ? "Running..."
+              : isAutoAllowed && hasAutoRun
+                ? "Ran automatically"
+                : "Run command"}
+        </Button>
+        {isRunning && !isLongRunning && (
+          <Button size="sm" variant="outline" onClick={handleCancel}>
+            Stop
+          </Button>
+        )}
+      </div>
     </div>
   );
 };
 
-function isSafeFlutterCommand(command: string): boolean {
-  // We expand this to include common JS/TS commands for "Turbo" experience
-  return (
-    command.startsWith("flutter create") ||
-    command.startsWith("flutter pub get") ||
-    command.startsWith("flutter run") ||
-    command.startsWith("npm install") ||
-    command.startsWith("npm i") ||
-    command.startsWith("npm run build") ||
-    command.startsWith("yarn install") ||
-    command.startsWith("yarn add") ||
-    command.startsWith("pnpm install") ||
-    command.startsWith("pnpm add") ||
-    command.startsWith("bun install") ||
-    command.startsWith("bun add") ||
-    isEphemeralCommand(command)
-  );
-}
-
-function isEphemeralCommand(command: string): boolean {
+function isLongRunningCommand(command: string): boolean {
   const cmd = command.trim();
-  const safePrefixes = [
-    "ls", "pwd", "cat", "find", "grep", "echo", "dir", "whoami", "date",
-    "git status", "git log", "git diff", "git show", "git branch",
-    "node -v", "npm -v", "npm list", "flutter --version", "dart --version",
-    "tree", "head", "tail", "wc", "du", "df", "ps", "who", "id", "uname", "uptime",
-    "printenv", "env",
-    "curl", "wget",
-    "npm test", "npm run test", "npm audit", "npm outdated",
-    "flutter doctor", "flutter analyze", "flutter test", "flutter pub outdated"
+  const devServerPrefixes = [
+    "flutter run",
+    "npm run dev", "npm start", "npm run start",
+    "pnpm dev", "pnpm run dev", "pnpm start",
+    "yarn dev", "yarn start",
+    "bun dev", "bun run dev",
+    "npx vite", "vite",
   ];
-  
-  return safePrefixes.some(prefix => cmd.startsWith(prefix));
+
+  return devServerPrefixes.some(prefix => cmd === prefix || cmd.startsWith(prefix + " "));
 }
@@ -0,0 +1,89 @@
+import type React from "react";
+import { useState, type ReactNode } from "react";
+import {
+  ChevronsDownUp,
+  ChevronsUpDown,
+  FlaskConical,
+  FolderOpen,
+  Search,
+  TriangleAlert,
+  Wrench,
+} from "lucide-react";
+
+interface DyadToolOutputProps {
+  tool: string;
+  summary?: string;
+  isError?: boolean;
+  children?: ReactNode;
+}
+
+const TOOL_LABELS: Record<string, { label: string; icon: typeof Wrench }> = {
+  list_dir: { label: "List", icon: FolderOpen },
+  glob: { label: "Find files", icon: Search },
+  grep: { label: "Search", icon: Search },
+  get_problems: { label: "Problems", icon: TriangleAlert },
+  run_tests: { label: "Tests", icon: FlaskConical },
+};
+
+// Attribute values are XML-escaped by the main process
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+// Output of an agent mode tool, collapsed to its summary
+export const DyadToolOutput: React.FC<DyadToolOutputProps> = ({
+  tool,
+  summary,
+  isError,
+  children,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const { label, icon: Icon } = TOOL_LABELS[tool] ?? {
+    label: tool,
+    icon: Wrench,
+  };
+  const content = typeof children === "string" ? children.trim() : children;
+
+  return (
+    <div
+      className={`bg-(--background-lightest) hover:bg-(--background-lighter) rounded-lg px-4 py-2 border my-2 cursor-pointer ${
+        isError ? "border-red-500" : "border-border"
+      }`}
+      onClick={() => setExpanded((v) => !v)}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon
+            size={16}
+            className={isError ? "text-red-500" : "text-gray-600"}
+          />
+          <div className="text-xs text-gray-600 font-medium">{label}</div>
+          {summary && (
+            <span className="text-gray-700 dark:text-gray-300 font-medium text-sm truncate">
+              {decodeAttribute(summary)}
+            </span>
+          )}
+        </div>
+        <div className="text-gray-500">
+          {expanded ? (
+            <ChevronsDownUp size={18} />
+          ) : (
+            <ChevronsUpDown size={18} />
+          )}
+        </div>
+      </div>
+      {expanded && content && (
+        <pre
+          className="mt-2 max-h-80 overflow-auto whitespace-pre-wrap text-xs font-mono text-gray-700 dark:text-gray-300 cursor-text"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {content}
+        </pre>
+      )}
+    </div>
+  );
+};
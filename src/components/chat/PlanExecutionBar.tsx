@@ -0,0 +1,88 @@
+import { useEffect, useRef } from "react";
+import { ListChecks } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useChatPlans } from "@/hooks/useChatPlans";
+import { useStreamChat } from "@/hooks/useStreamChat";
+import { buildPlanStepPrompt, getNextPlanStep } from "@/ipc/shared/plan";
+
+/**
+ * Runs the chat's approved plan: each step is sent as its own build-mode
+ * turn once the previous one has finished, so edits to the remaining steps
+ * apply to the next turn.
+ */
+export function PlanExecutionBar({ chatId }: { chatId?: number }) {
+  const { plans, setPlanStatus } = useChatPlans(chatId);
+  const { streamMessage, isStreaming, error } = useStreamChat();
+  // The last step sent, so a refetch before the turn starts doesn't send it
+  // again
+  const sentStepRef = useRef<string | null>(null);
+
+  const plan = plans.find((p) => p.status === "executing");
+  const runningStep = plan?.steps.find((step) => step.status === "running");
+  const nextStep = plan && getNextPlanStep(plan.steps);
+
+  useEffect(() => {
+    if (!plan || !chatId || isStreaming || runningStep || !nextStep) {
+      return;
+    }
+    const key = `${plan.id}:${nextStep.id}`;
+    if (sentStepRef.current === key) {
+      // The step was sent but never started, e.g. over the app's spending
+      // limit; don't keep the plan running
+      if (error) {
+        setPlanStatus({ planId: plan.id, status: "paused" });
+      }
+      return;
+    }
+    sentStepRef.current = key;
+    streamMessage({
+      prompt: buildPlanStepPrompt(plan.steps, nextStep),
+      chatId,
+      planStep: { planId: plan.id, stepId: nextStep.id },
+    });
+  }, [
+    plan,
+    chatId,
+    isStreaming,
+    runningStep,
+    nextStep,
+    error,
+    streamMessage,
+    setPlanStatus,
+  ]);
+
+  useEffect(() => {
+    // A paused plan can resend the step it stopped at
+    if (!plan) {
+      sentStepRef.current = null;
+    }
+  }, [plan]);
+
+  if (!plan) {
+    return null;
+  }
+  const activeSteps = plan.steps.filter((step) => step.status !== "skipped");
+  const currentStep = runningStep ?? nextStep;
+
+  return (
+    <div className="px-2 pt-2">
+      <div className="flex items-center gap-2 rounded-md border border-border bg-(--background-lightest) px-3 py-1.5 text-xs">
+        <ListChecks className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+        <span className="truncate">
+          {currentStep
+            ? `Plan step ${activeSteps.findIndex((s) => s.id === currentStep.id) + 1} of ${activeSteps.length}: ${currentStep.intent}`
+            : "Finishing plan"}
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto h-6 px-2 text-xs"
+          onClick={() => setPlanStatus({ planId: plan.id, status: "paused" })}
+          title="Stop after the current step"
+        >
+          Pause
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect } from "react";
+import { useAtom, useAtomValue } from "jotai";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Circle,
+  GitMerge,
+  Loader2,
+  MinusCircle,
+  XCircle,
+} from "lucide-react";
+import { isStreamingByIdAtom, subAgentLanesByIdAtom } from "@/atoms/chatAtoms";
+import type { SubAgentLane } from "@/ipc/ipc_types";
+
+const STATUS_LABELS: Record<SubAgentLane["status"], string> = {
+  queued: "Queued",
+  running: "Writing",
+  merging: "Waiting to merge",
+  merged: "Merged",
+  "no-changes": "No changes",
+  conflict: "Conflict",
+  failed: "Failed",
+  stopped: "Stopped",
+};
+
+function LaneIcon({ status }: { status: SubAgentLane["status"] }) {
+  const className = "h-3.5 w-3.5 shrink-0";
+  switch (status) {
+    case "queued":
+      return <Circle className={`${className} text-muted-foreground`} />;
+    case "running":
+      return (
+        <Loader2
+          className={`${className} text-muted-foreground animate-spin`}
+        />
+      );
+    case "merging":
+      return <GitMerge className={`${className} text-muted-foreground`} />;
+    case "merged":
+      return <CheckCircle2 className={`${className} text-emerald-600`} />;
+    case "no-changes":
+    case "stopped":
+      return <MinusCircle className={`${className} text-muted-foreground`} />;
+    case "conflict":
+      return <AlertTriangle className={`${className} text-amber-500`} />;
+    case "failed":
+      return <XCircle className={`${className} text-red-500`} />;
+  }
+}
+
+function describeLane(lane: SubAgentLane) {
+  if (lane.status === "conflict") {
+    return `Conflicts in ${lane.conflictFiles.join(", ")}`;
+  }
+  if (lane.status === "failed") {
+    return lane.error ?? "";
+  }
+  const parts = [`${lane.outputChars.toLocaleString()} chars`];
+  if (lane.changedFiles.length > 0) {
+    parts.push(
+      `${lane.changedFiles.length} file${lane.changedFiles.length === 1 ? "" : "s"}`,
+    );
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * One lane per sub-agent while a parallel workflow group runs, from writing
+ * its response to merging its branch back into the app.
+ */
+export function SubAgentLanes({ chatId }: { chatId?: number }) {
+  const [lanesById, setLanesById] = useAtom(subAgentLanesByIdAtom);
+  const isStreaming =
+    useAtomValue(isStreamingByIdAtom).get(chatId ?? -1) ?? false;
+  const lanes = chatId !== undefined ? lanesById.get(chatId) : undefined;
+
+  // The response summarizes the lanes once it's done
+  useEffect(() => {
+    if (chatId === undefined || isStreaming) {
+      return;
+    }
+    setLanesById((prev) => {
+      if (!prev.has(chatId)) {
+        return prev;
+      }
+      const next = new Map(prev);
+      next.delete(chatId);
+      return next;
+    });
+  }, [chatId, isStreaming, setLanesById]);
+
+  if (chatId === undefined || !lanes || !isStreaming) {
+    return null;
+  }
+
+  return (
+    <div className="px-2 pt-2">
+      <div className="space-y-1 rounded-md border border-border bg-(--background-lightest) px-3 py-1.5 text-xs">
+        {lanes.map((lane) => (
+          <div key={lane.step} className="flex items-center gap-2 min-w-0">
+            <LaneIcon status={lane.status} />
+            <span className="font-medium shrink-0">{lane.name}</span>
+            <span className="text-muted-foreground truncate">{lane.model}</span>
+            <span className="ml-auto shrink-0">
+              {STATUS_LABELS[lane.status]}
+            </span>
+            <span
+              className="text-muted-foreground truncate max-w-[40%]"
+              title={describeLane(lane)}
+            >
+              {describeLane(lane)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useAtomValue } from "jotai";
+import {
+  MiniSelectTrigger,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectValue,
+} from "@/components/ui/select";
+import { selectedAppIdAtom } from "@/atoms/appAtoms";
+import { chatMetadataByIdAtom } from "@/atoms/chatAtoms";
+import { useWorkflows } from "@/hooks/useWorkflows";
+import { ManageWorkflowsDialog } from "@/components/ManageWorkflowsDialog";
+
+const DEFAULT_VALUE = "default";
+const MANAGE_VALUE = "manage";
+
+export function WorkflowPicker({ chatId }: { chatId: number }) {
+  const appId = useAtomValue(selectedAppIdAtom);
+  const chatMetadataById = useAtomValue(chatMetadataByIdAtom);
+  const { workflows, setChatWorkflow } = useWorkflows(appId);
+  const [isManageOpen, setIsManageOpen] = useState(false);
+
+  const workflowId = chatMetadataById.get(chatId)?.workflowId ?? null;
+  const selectedWorkflow = workflows.find((w) => w.id === workflowId);
+  const selectedValue = selectedWorkflow
+    ? String(selectedWorkflow.id)
+    : DEFAULT_VALUE;
+
+  const handleChange = (value: string) => {
+    if (value === MANAGE_VALUE) {
+      setIsManageOpen(true);
+      return;
+    }
+    setChatWorkflow({
+      chatId,
+      workflowId: value === DEFAULT_VALUE ? null : Number(value),
+    });
+  };
+
+  return (
+    <>
+      <Select value={selectedValue} onValueChange={handleChange}>
+        <MiniSelectTrigger
+          data-testid="workflow-picker"
+          className="h-6 w-fit px-1.5 py-0 text-xs-sm font-medium shadow-none gap-0.5 bg-background hover:bg-muted/50 focus:bg-muted/50"
+          size="sm"
+        >
+          <SelectValue>
+            {selectedWorkflow ? selectedWorkflow.name : "Default workflow"}
+          </SelectValue>
+        </MiniSelectTrigger>
+        <SelectContent
+          align="start"
+          onCloseAutoFocus={(e) => e.preventDefault()}
+        >
+          <SelectItem value={DEFAULT_VALUE}>Default workflow</SelectItem>
+          {workflows.map((workflow) => (
+            <SelectItem key={workflow.id} value={String(workflow.id)}>
+              {workflow.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={MANAGE_VALUE}>Manage workflows...</SelectItem>
+        </SelectContent>
+      </Select>
+      <ManageWorkflowsDialog
+        appId={appId}
+        open={isManageOpen}
+        onOpenChange={setIsManageOpen}
+      />
+    </>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useRef } from "react";
+import { useAtom, useAtomValue } from "jotai";
+import { formatDistanceToNow } from "date-fns";
+import {
+  CheckSquare,
+  Eye,
+  GitBranch,
+  Loader2,
+  RotateCcw,
+  Square,
+  X,
+} from "lucide-react";
+import { selectedAppIdAtom, selectedVersionIdAtom } from "@/atoms/appAtoms";
+import { chatStreamCountByIdAtom } from "@/atoms/chatAtoms";
+import { useWorkflowRuns } from "@/hooks/useWorkflowRuns";
+import { useVersions } from "@/hooks/useVersions";
+import { useCheckoutVersion } from "@/hooks/useCheckoutVersion";
+import type {
+  WorkflowRun,
+  WorkflowStepRun,
+  WorkflowSubAgentStatus,
+} from "@/ipc/ipc_types";
+import { cn } from "@/lib/utils";
+
+interface WorkflowTimelinePaneProps {
+  chatId?: number;
+  isVisible: boolean;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<WorkflowRun["status"], string> = {
+  active: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  completed:
+    "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  stopped: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400",
+};
+
+const SUB_AGENT_STATUS_STYLES: Record<WorkflowSubAgentStatus, string> = {
+  running: STATUS_STYLES.active,
+  merged: STATUS_STYLES.completed,
+  "no-changes": STATUS_STYLES.stopped,
+  conflict:
+    "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  stopped: STATUS_STYLES.stopped,
+};
+
+export function WorkflowTimelinePane({
+  chatId,
+  isVisible,
+  onClose,
+}: WorkflowTimelinePaneProps) {
+  const appId = useAtomValue(selectedAppIdAtom);
+  const streamCountById = useAtomValue(chatStreamCountByIdAtom);
+  const { runs, refreshRuns, restartFromStepRun, isRestarting } =
+    useWorkflowRuns(chatId ?? null);
+  const { revertVersion, isRevertingVersion } = useVersions(appId);
+  const { checkoutVersion, isCheckingOutVersion } = useCheckoutVersion();
+  const [selectedVersionId, setSelectedVersionId] = useAtom(
+    selectedVersionIdAtom,
+  );
+  const wasVisibleRef = useRef(false);
+  const streamCount = chatId ? (streamCountById.get(chatId) ?? 0) : 0;
+
+  useEffect(() => {
+    if (isVisible) {
+      refreshRuns();
+    }
+  }, [isVisible, streamCount, refreshRuns]);
+
+  useEffect(() => {
+    // Like the version pane, go back to main when closing after previewing
+    // a step's commit.
+    if (wasVisibleRef.current && !isVisible && selectedVersionId && appId) {
+      setSelectedVersionId(null);
+      checkoutVersion({ appId, versionId: "main" });
+    }
+    wasVisibleRef.current = isVisible;
+  }, [
+    isVisible,
+    selectedVersionId,
+    setSelectedVersionId,
+    appId,
+    checkoutVersion,
+  ]);
+
+  if (!isVisible) {
+    return null;
+  }
+
+  const handleViewStep = async (stepRun: WorkflowStepRun) => {
+    if (!appId || !stepRun.endCommitHash) return;
+    setSelectedVersionId(stepRun.endCommitHash);
+    try {
+      await checkoutVersion({ appId, versionId: stepRun.endCommitHash });
+    } catch (error) {
+      console.error("Could not checkout step commit", error);
+      setSelectedVersionId(null);
+    }
+  };
+
+  const handleRestartFromStep = async (stepRun: WorkflowStepRun) => {
+    if (!stepRun.endCommitHash) return;
+    await revertVersion({ versionId: stepRun.endCommitHash });
+    setSelectedVersionId(null);
+    await restartFromStepRun(stepRun.id);
+    onClose();
+  };
+
+  const isBusy = isCheckingOutVersion || isRevertingVersion || isRestarting;
+
+  return (
+    <div className="h-full border-t border-2 border-border w-full">
+      <div className="p-2 border-b border-border flex items-center justify-between">
+        <h2 className="text-base font-medium pl-2">Workflow Timeline</h2>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-(--background-lightest) rounded-md"
+          aria-label="Close workflow timeline"
+        >
+          <X size={20} />
+        </button>
+      </div>
+      <div className="overflow-y-auto h-[calc(100%-60px)]">
+        {runs.length === 0 ? (
+          <div className="p-4">
+            No workflow runs yet. Type /workflow to start one.
+          </div>
+        ) : (
+          runs.map((run) => (
+            <div key={run.id} className="border-b border-border pb-2">
+              <div className="px-4 pt-3 pb-1 flex items-center justify-between">
+                <span className="text-sm font-semibold">
+                  {run.workflowName}
+                </span>
+                <div className="flex items-center gap-2">
+                  <span
+                    className={cn(
+                      "px-1.5 py-0.5 text-[10px] font-medium rounded-md",
+                      STATUS_STYLES[run.status],
+                    )}
+                  >
+                    {run.status}
+                  </span>
+                  <span className="text-xs opacity-90">
+                    {formatDistanceToNow(new Date(run.startedAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                </div>
+              </div>
+              <ol className="ml-6 border-l border-border">
+                {run.stepRuns.map((stepRun) => (
+                  <li
+                    key={stepRun.id}
+                    className={cn(
+                      "pl-4 pr-4 py-2 relative",
+                      selectedVersionId &&
+                        selectedVersionId === stepRun.endCommitHash &&
+                        "bg-(--background-lightest)",
+                    )}
+                  >
+                    <span
+                      className={cn(
+                        "absolute -left-[5px] top-3.5 h-2 w-2 rounded-full",
+                        stepRun.status === "completed"
+                          ? "bg-green-500"
+                          : stepRun.status === "active"
+                            ? "bg-blue-500"
+                            : "bg-gray-400",
+                      )}
+                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <span className="text-xs font-medium uppercase tracking-wider">
+                          {stepRun.step}
+                        </span>
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {[
+                            stepRun.model,
+                            `${stepRun.messages.filter((m) => m.role === "assistant").length} responses`,
+                            stepRun.endCommitHash?.slice(0, 7),
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </span>
+                      </div>
+                      {stepRun.endCommitHash && (
+                        <div className="flex items-center gap-1 shrink-0">
+                          <button
+                            onClick={() => handleViewStep(stepRun)}
+                            disabled={isBusy}
+                            className="p-1 hover:bg-(--background-lightest) rounded-md disabled:opacity-50"
+                            title="View the app at the end of this step"
+                          >
+                            {isCheckingOutVersion &&
+                            selectedVersionId === stepRun.endCommitHash ? (
+                              <Loader2 size={14} className="animate-spin" />
+                            ) : (
+                              <Eye size={14} />
+                            )}
+                          </button>
+                          {stepRun.status === "completed" && (
+                            <button
+                              onClick={() => handleRestartFromStep(stepRun)}
+                              disabled={isBusy}
+                              className="p-1 hover:bg-(--background-lightest) rounded-md disabled:opacity-50"
+                              title="Restore this commit and restart the workflow from the next step"
+                            >
+                              <RotateCcw size={14} />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    {stepRun.subAgentRuns.length > 0 && (
+                      <div className="mt-1 space-y-0.5">
+                        {stepRun.subAgentRuns.map((subAgentRun) => (
+                          <div
+                            key={subAgentRun.id}
+                            className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                            title={
+                              subAgentRun.conflictFiles.length > 0
+                                ? `Conflicts in ${subAgentRun.conflictFiles.join(", ")}; kept on ${subAgentRun.branch}`
+                                : (subAgentRun.error ?? undefined)
+                            }
+                          >
+                            <GitBranch size={12} className="shrink-0" />
+                            <span className="font-medium">
+                              {subAgentRun.step}
+                            </span>
+                            <span className="truncate">
+                              {[
+                                subAgentRun.model,
+                                `${subAgentRun.changedFiles.length} files`,
+                              ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </span>
+                            <span
+                              className={cn(
+                                "ml-auto shrink-0 rounded px-1",
+                                SUB_AGENT_STATUS_STYLES[subAgentRun.status],
+                              )}
+                            >
+                              {subAgentRun.status}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {stepRun.checklist.length > 0 && (
+                      <ul className="mt-1 space-y-0.5">
+                        {stepRun.checklist.map((item) => (
+                          <li
+                            key={item.text}
+                            className="flex items-start gap-1.5 text-xs text-muted-foreground"
+                          >
+                            {item.checked ? (
+                              <CheckSquare
+                                size={12}
+                                className="mt-0.5 shrink-0 text-green-600"
+                              />
+                            ) : (
+                              <Square size={12} className="mt-0.5 shrink-0" />
+                            )}
+                            <span>{item.text}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, type ReactNode } from "react";
+import { useAtom, useSetAtom } from "jotai";
+import { ChevronDown, ChevronRight, MessageSquarePlus } from "lucide-react";
+import {
+  attachedNetworkRequestAtom,
+  networkRequestsAtom,
+} from "@/atoms/previewAtoms";
+import { Button } from "@/components/ui/button";
+import type { NetworkRequestEntry } from "@/ipc/ipc_types";
+import {
+  formatNetworkHeaders,
+  isFailedNetworkRequest,
+  isPendingNetworkRequest,
+} from "@/ipc/shared/network_requests";
+import { showSuccess } from "@/lib/toast";
+
+function getDisplayUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.origin === window.location.origin
+      ? `${parsed.pathname}${parsed.search}`
+      : `${parsed.host}${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+function getStatusLabel(request: NetworkRequestEntry): string {
+  if (request.error) return "failed";
+  if (request.status === null) return "pending";
+  return String(request.status);
+}
+
+function Details({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <div className="font-semibold text-muted-foreground">{title}</div>
+      <pre className="whitespace-pre-wrap break-all">{children}</pre>
+    </div>
+  );
+}
+
+const NetworkRequestRow = ({ request }: { request: NetworkRequestEntry }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const setAttachedRequest = useSetAtom(attachedNetworkRequestAtom);
+  const isFailed = isFailedNetworkRequest(request);
+
+  return (
+    <div className="border-b border-border">
+      <div
+        className="flex items-center gap-2 px-4 py-1 cursor-pointer hover:bg-[var(--background-darkest)]"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <span className="w-14 flex-shrink-0 font-semibold">
+          {request.kind === "websocket" ? "WS" : request.method}
+        </span>
+        <span
+          className={`w-14 flex-shrink-0 ${
+            isFailed
+              ? "text-red-500"
+              : isPendingNetworkRequest(request)
+                ? "text-muted-foreground"
+                : "text-green-600 dark:text-green-500"
+          }`}
+        >
+          {getStatusLabel(request)}
+        </span>
+        <span className="flex-1 truncate" title={request.url}>
+          {getDisplayUrl(request.url)}
+        </span>
+        <span className="flex-shrink-0 text-muted-foreground">
+          {request.durationMs !== null ? `${request.durationMs}ms` : ""}
+        </span>
+        {isFailed && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 px-1.5 text-xs"
+            title="Attach this request to your next message"
+            onClick={(e) => {
+              e.stopPropagation();
+              setAttachedRequest(request);
+              showSuccess("Request attached to your next message");
+            }}
+          >
+            <MessageSquarePlus size={12} />
+            Send to chat
+          </Button>
+        )}
+      </div>
+      {isExpanded && (
+        <div className="space-y-2 px-9 pb-2">
+          {request.error && <Details title="Error">{request.error}</Details>}
+          {request.kind === "websocket" ? (
+            <Details title={`Messages (${request.messages?.length ?? 0})`}>
+              {(request.messages ?? [])
+                .map(
+                  (message) =>
+                    `${message.direction === "sent" ? "↑" : "↓"} ${message.data}`,
+                )
+                .join("\n") || "(none)"}
+            </Details>
+          ) : (
+            <>
+              <Details title="Request headers">
+                {formatNetworkHeaders(request.requestHeaders)}
+              </Details>
+              {request.requestBody && (
+                <Details title="Request body">{request.requestBody}</Details>
+              )}
+              {request.status !== null && (
+                <>
+                  <Details title="Response headers">
+                    {formatNetworkHeaders(request.responseHeaders)}
+                  </Details>
+                  <Details title="Response body">
+                    {request.responseBody || "(empty)"}
+                  </Details>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Network component
+export const Network = () => {
+  const [requests, setRequests] = useAtom(networkRequestsAtom);
+
+  return (
+    <div className="font-mono text-xs h-full overflow-auto">
+      {requests.length === 0 ? (
+        <div className="px-4 py-2 text-muted-foreground">
+          No requests yet. Requests made by the app in the preview show up here.
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-end px-4 py-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-5 px-1.5 text-xs"
+              onClick={() => setRequests([])}
+            >
+              Clear
+            </Button>
+          </div>
+          {requests.map((request) => (
+            <NetworkRequestRow key={request.id} request={request} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
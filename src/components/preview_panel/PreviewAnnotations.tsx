@@ -0,0 +1,175 @@
+import { useRef, useState, type PointerEvent, type RefObject } from "react";
+import { useSetAtom } from "jotai";
+import { Camera } from "lucide-react";
+import { previewScreenshotAtom } from "@/atoms/previewAtoms";
+import { Button } from "@/components/ui/button";
+import { IpcClient } from "@/ipc/ipc_client";
+import { showError, showSuccess } from "@/lib/toast";
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Drags shorter than this are treated as clicks
+const MIN_BOX_SIZE = 6;
+
+// Boxes are lettered so they don't clash with the numbers of the selected
+// components
+function boxLabel(index: number): string {
+  return String.fromCharCode(65 + (index % 26));
+}
+
+function toBox(start: { x: number; y: number }, end: { x: number; y: number }) {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+function dataUrlToFile(dataUrl: string, name: string): File {
+  const [header, base64] = dataUrl.split(",");
+  const type = /^data:([^;]+)/.exec(header)?.[1] ?? "image/png";
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new File([bytes], name, { type });
+}
+
+const nextFrame = () =>
+  new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+/**
+ * Layer over the preview for drawing boxes on the app, then attaching a
+ * screenshot of the preview with the boxes and the selected components'
+ * highlights to the next message.
+ */
+export const PreviewAnnotations = ({
+  targetRef,
+  onClose,
+}: {
+  targetRef: RefObject<HTMLIFrameElement | null>;
+  onClose: () => void;
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [boxes, setBoxes] = useState<Box[]>([]);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(
+    null,
+  );
+  const [draft, setDraft] = useState<Box | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const setPreviewScreenshot = useSetAtom(previewScreenshotAtom);
+
+  const getPoint = (e: PointerEvent) => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(getPoint(e));
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragStart) {
+      setDraft(toBox(dragStart, getPoint(e)));
+    }
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (dragStart) {
+      const box = toBox(dragStart, getPoint(e));
+      if (box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) {
+        setBoxes((prev) => [...prev, box]);
+      }
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const handleAttachScreenshot = async () => {
+    const target = targetRef.current;
+    if (!target) return;
+    setIsCapturing(true);
+    try {
+      // Let the toolbar disappear before the window is captured
+      await nextFrame();
+      await nextFrame();
+      const rect = target.getBoundingClientRect();
+      const dataUrl = await IpcClient.getInstance().captureWindowRegion({
+        x: rect.left,
+        y: rect.top,
+        width: rect.width,
+        height: rect.height,
+      });
+      setPreviewScreenshot(
+        dataUrlToFile(dataUrl, `preview-screenshot-${Date.now()}.png`),
+      );
+      showSuccess("Screenshot attached to your next message");
+      onClose();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0 z-20 cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      data-testid="preview-annotations"
+    >
+      {[...boxes, ...(draft ? [draft] : [])].map((box, index) => (
+        <div
+          key={index}
+          className="absolute border-2 border-red-500 bg-red-500/10 pointer-events-none"
+          style={{
+            left: box.x,
+            top: box.y,
+            width: box.width,
+            height: box.height,
+          }}
+        >
+          <span className="absolute -top-2.5 -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-red-500 text-xs font-semibold text-white">
+            {boxLabel(index)}
+          </span>
+        </div>
+      ))}
+      {!isCapturing && (
+        <div
+          className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-md border border-border bg-background px-3 py-2 shadow-lg cursor-default"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <span className="text-xs text-muted-foreground">
+            Drag to draw boxes on the preview
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={boxes.length === 0}
+            onClick={() => setBoxes([])}
+          >
+            Clear
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleAttachScreenshot}>
+            <Camera size={14} />
+            Attach screenshot
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
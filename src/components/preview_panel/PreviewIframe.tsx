@@ -18,6 +18,8 @@ import {
   Lightbulb,
   ChevronRight,
   MousePointerClick,
+  Paintbrush,
+  Camera,
   Power,
   MonitorSmartphone,
   Monitor,
@@ -35,7 +37,13 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useStreamChat } from "@/hooks/useStreamChat";
-import { selectedComponentPreviewAtom } from "@/atoms/previewAtoms";
+import {
+  networkRequestsAtom,
+  selectedComponentsPreviewAtom,
+  visualEditModeAtom,
+} from "@/atoms/previewAtoms";
+import { upsertNetworkRequest } from "@/ipc/shared/network_requests";
+import type { NetworkRequestEntry } from "@/ipc/ipc_types";
 import { ComponentSelection } from "@/ipc/ipc_types";
 import {
   Tooltip,
@@ -52,6 +60,8 @@ import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useRunApp } from "@/hooks/useRunApp";
 import { useShortcut } from "@/hooks/useShortcut";
 import { cn } from "@/lib/utils";
+import { VisualEditPanel } from "./VisualEditPanel";
+import { PreviewAnnotations } from "./PreviewAnnotations";
 
 interface ErrorBannerProps {
   error: { message: string; source: "preview-app" | "dyad-app" } | undefined;
@@ -169,11 +179,19 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
   const [canGoForward, setCanGoForward] = useState(false);
   const [navigationHistory, setNavigationHistory] = useState<string[]>([]);
   const [currentHistoryPosition, setCurrentHistoryPosition] = useState(0);
-  const [selectedComponentPreview, setSelectedComponentPreview] = useAtom(
-    selectedComponentPreviewAtom,
+  const [selectedComponentsPreview, setSelectedComponentsPreview] = useAtom(
+    selectedComponentsPreviewAtom,
   );
+  const setNetworkRequests = useSetAtom(networkRequestsAtom);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const [isPicking, setIsPicking] = useState(false);
+  const [isVisualEditMode, setIsVisualEditMode] = useAtom(visualEditModeAtom);
+  const [isAnnotating, setIsAnnotating] = useState(false);
+
+  // Requests belong to the app that made them
+  useEffect(() => {
+    setNetworkRequests([]);
+  }, [selectedAppId, setNetworkRequests]);
 
   // Device mode state
   type DeviceMode = "desktop" | "tablet" | "mobile";
@@ -191,7 +209,7 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
 
   // Deactivate component selector when selection is cleared
   useEffect(() => {
-    if (!selectedComponentPreview) {
+    if (selectedComponentsPreview.length === 0) {
       if (iframeRef.current?.contentWindow) {
         iframeRef.current.contentWindow.postMessage(
           { type: "deactivate-dyad-component-selector" },
@@ -200,7 +218,19 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
       }
       setIsPicking(false);
     }
-  }, [selectedComponentPreview]);
+  }, [selectedComponentsPreview]);
+
+  // Highlight the selected components in the preview, numbered when there
+  // are several
+  useEffect(() => {
+    iframeRef.current?.contentWindow?.postMessage(
+      {
+        type: "dyad-selected-components",
+        ids: selectedComponentsPreview.map((component) => component.id),
+      },
+      "*",
+    );
+  }, [selectedComponentsPreview, isComponentSelectorInitialized]);
 
   // Add message listener for iframe errors and navigation events
   useEffect(() => {
@@ -215,9 +245,26 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
         return;
       }
 
+      if (event.data?.type === "network-request") {
+        const request = event.data.payload as NetworkRequestEntry;
+        setNetworkRequests((prev) => upsertNetworkRequest(prev, request));
+        return;
+      }
+
       if (event.data?.type === "dyad-component-selected") {
         console.log("Component picked:", event.data);
-        setSelectedComponentPreview(parseComponentSelection(event.data));
+        const component = parseComponentSelection(event.data);
+        // Shift+click adds to the selection and keeps the selector active
+        if (event.data.append) {
+          if (component) {
+            setSelectedComponentsPreview((prev) => [
+              ...prev.filter((selected) => selected.id !== component.id),
+              component,
+            ]);
+          }
+          return;
+        }
+        setSelectedComponentsPreview(component ? [component] : []);
         setIsPicking(false);
         return;
       }
@@ -254,6 +301,12 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
         }\nStack trace: ${stack}`;
         console.error("Iframe error:", errorMessage);
         setErrorMessage({ message: errorMessage, source: "preview-app" });
+        if (selectedAppId !== null) {
+          IpcClient.getInstance().reportPreviewRuntimeError({
+            appId: selectedAppId,
+            message: errorMessage,
+          });
+        }
         setAppOutput((prev) => [
           ...prev,
           {
@@ -267,6 +320,12 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
         console.debug(`Build error report: ${payload}`);
         const errorMessage = `${payload?.message} from file ${payload?.file}.\n\nSource code:\n${payload?.frame}`;
         setErrorMessage({ message: errorMessage, source: "preview-app" });
+        if (selectedAppId !== null) {
+          IpcClient.getInstance().reportPreviewRuntimeError({
+            appId: selectedAppId,
+            message: errorMessage,
+          });
+        }
         setAppOutput((prev) => [
           ...prev,
           {
@@ -306,7 +365,7 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
     errorMessage,
     setErrorMessage,
     setIsComponentSelectorInitialized,
-    setSelectedComponentPreview,
+    setSelectedComponentsPreview,
   ]);
 
   useEffect(() => {
@@ -341,6 +400,15 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
     }
   };
 
+  // Visual edit mode starts by picking the element to edit
+  const handleToggleVisualEditMode = () => {
+    const newIsVisualEditMode = !isVisualEditMode;
+    setIsVisualEditMode(newIsVisualEditMode);
+    if (newIsVisualEditMode !== isPicking) {
+      handleActivateComponentSelector();
+    }
+  };
+
   // Activate component selector using a shortcut
   useShortcut(
     "c",
@@ -482,9 +550,58 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
                     ? "Deactivate component selector"
                     : "Select component"}
                 </p>
+                <p>Shift + click to select several</p>
                 <p>{isMac ? "⌘ + ⇧ + C" : "Ctrl + ⇧ + C"}</p>
               </TooltipContent>
             </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={handleToggleVisualEditMode}
+                  className={`p-1 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                    isVisualEditMode
+                      ? "bg-purple-500 text-white hover:bg-purple-600 dark:bg-purple-600 dark:hover:bg-purple-700"
+                      : " text-purple-700 hover:bg-purple-200  dark:text-purple-300 dark:hover:bg-purple-900"
+                  }`}
+                  disabled={
+                    loading || !selectedAppId || !isComponentSelectorInitialized
+                  }
+                  data-testid="preview-visual-edit-button"
+                >
+                  <Paintbrush size={16} />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>
+                  {isVisualEditMode
+                    ? "Exit visual edit mode"
+                    : "Edit text and classes of a component"}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => setIsAnnotating(!isAnnotating)}
+                  className={`p-1 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                    isAnnotating
+                      ? "bg-purple-500 text-white hover:bg-purple-600 dark:bg-purple-600 dark:hover:bg-purple-700"
+                      : " text-purple-700 hover:bg-purple-200  dark:text-purple-300 dark:hover:bg-purple-900"
+                  }`}
+                  disabled={loading || !selectedAppId || !appUrl}
+                  data-testid="preview-annotate-button"
+                >
+                  <Camera size={16} />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>
+                  {isAnnotating
+                    ? "Stop annotating"
+                    : "Annotate and attach a screenshot"}
+                </p>
+              </TooltipContent>
+            </Tooltip>
           </TooltipProvider>
           <button
             className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed dark:text-gray-300"
@@ -664,6 +781,14 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
           }}
         />
 
+        {isVisualEditMode && !isAnnotating && <VisualEditPanel />}
+        {isAnnotating && appUrl && (
+          <PreviewAnnotations
+            targetRef={iframeRef}
+            onClose={() => setIsAnnotating(false)}
+          />
+        )}
+
         {!appUrl ? (
           <div className="absolute inset-0 flex flex-col items-center justify-center space-y-4 bg-gray-50 dark:bg-gray-950">
             <Loader2 className="w-8 h-8 animate-spin text-gray-400 dark:text-gray-500" />
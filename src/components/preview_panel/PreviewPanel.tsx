@@ -10,17 +10,25 @@ import { CodeView } from "./CodeView";
 import { PreviewIframe } from "./PreviewIframe";
 import { Problems } from "./Problems";
 import { ConfigurePanel } from "./ConfigurePanel";
-import { ChevronDown, ChevronUp, Logs } from "lucide-react";
+import { ChevronDown, ChevronUp, Logs, Network } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import { PanelGroup, Panel, PanelResizeHandle } from "react-resizable-panels";
 import { Console } from "./Console";
+import { Network as NetworkRequests } from "./Network";
+import { networkRequestsAtom } from "@/atoms/previewAtoms";
+import { isFailedNetworkRequest } from "@/ipc/shared/network_requests";
 import { useRunApp } from "@/hooks/useRunApp";
 import { PublishPanel } from "./PublishPanel";
 
+type BottomTab = "console" | "network";
+
 interface ConsoleHeaderProps {
   isOpen: boolean;
   onToggle: () => void;
   latestMessage?: string;
+  activeTab: BottomTab;
+  onSelectTab: (tab: BottomTab) => void;
+  failedRequestCount: number;
 }
 
 // Console header component
@@ -28,30 +36,67 @@ const ConsoleHeader = ({
   isOpen,
   onToggle,
   latestMessage,
-}: ConsoleHeaderProps) => (
-  <div
-    onClick={onToggle}
-    className="flex items-start gap-2 px-4 py-1.5 border-t border-border cursor-pointer hover:bg-[var(--background-darkest)] transition-colors"
-  >
-    <Logs size={16} className="mt-0.5" />
-    <div className="flex flex-col">
-      <span className="text-sm font-medium">System Messages</span>
-      {!isOpen && latestMessage && (
-        <span className="text-xs text-gray-500 truncate max-w-[200px] md:max-w-[400px]">
-          {latestMessage}
-        </span>
-      )}
+  activeTab,
+  onSelectTab,
+  failedRequestCount,
+}: ConsoleHeaderProps) => {
+  const tabClassName = (tab: BottomTab) =>
+    `flex items-center gap-1.5 text-sm font-medium ${
+      isOpen && activeTab !== tab ? "text-muted-foreground" : ""
+    }`;
+  return (
+    <div
+      onClick={onToggle}
+      className="flex items-start gap-4 px-4 py-1.5 border-t border-border cursor-pointer hover:bg-[var(--background-darkest)] transition-colors"
+    >
+      <div className="flex flex-col">
+        <button
+          className={tabClassName("console")}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelectTab("console");
+          }}
+        >
+          <Logs size={16} />
+          System Messages
+        </button>
+        {!isOpen && latestMessage && (
+          <span className="text-xs text-gray-500 truncate max-w-[200px] md:max-w-[400px]">
+            {latestMessage}
+          </span>
+        )}
+      </div>
+      <button
+        className={tabClassName("network")}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSelectTab("network");
+        }}
+      >
+        <Network size={16} />
+        Network
+        {failedRequestCount > 0 && (
+          <span className="rounded bg-red-500/15 px-1 text-xs text-red-600 dark:text-red-400">
+            {failedRequestCount} failed
+          </span>
+        )}
+      </button>
+      <div className="flex-1" />
+      {isOpen ? <ChevronDown size={16} /> : <ChevronUp size={16} />}
     </div>
-    <div className="flex-1" />
-    {isOpen ? <ChevronDown size={16} /> : <ChevronUp size={16} />}
-  </div>
-);
+  );
+};
 
 // Main PreviewPanel component
 export function PreviewPanel() {
   const [previewMode] = useAtom(previewModeAtom);
   const selectedAppId = useAtomValue(selectedAppIdAtom);
   const [isConsoleOpen, setIsConsoleOpen] = useState(false);
+  const [bottomTab, setBottomTab] = useState<BottomTab>("console");
+  const networkRequests = useAtomValue(networkRequestsAtom);
+  const failedRequestCount = networkRequests.filter(
+    isFailedNetworkRequest,
+  ).length;
   const { runApp, stopApp, loading, app } = useRunApp();
   const runningAppIdRef = useRef<number | null>(null);
   const key = useAtomValue(previewPanelKeyAtom);
@@ -133,8 +178,11 @@ export function PreviewPanel() {
                     isOpen={true}
                     onToggle={() => setIsConsoleOpen(false)}
                     latestMessage={latestMessage}
+                    activeTab={bottomTab}
+                    onSelectTab={setBottomTab}
+                    failedRequestCount={failedRequestCount}
                   />
-                  <Console />
+                  {bottomTab === "console" ? <Console /> : <NetworkRequests />}
                 </div>
               </Panel>
             </>
@@ -146,6 +194,12 @@ export function PreviewPanel() {
           isOpen={false}
           onToggle={() => setIsConsoleOpen(true)}
           latestMessage={latestMessage}
+          activeTab={bottomTab}
+          onSelectTab={(tab) => {
+            setBottomTab(tab);
+            setIsConsoleOpen(true);
+          }}
+          failedRequestCount={failedRequestCount}
         />
       )}
     </div>
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { useAtom, useAtomValue } from "jotai";
+import { Loader2, X } from "lucide-react";
+import { selectedAppIdAtom } from "@/atoms/appAtoms";
+import { selectedComponentsPreviewAtom } from "@/atoms/previewAtoms";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useVisualEdit } from "@/hooks/useVisualEdit";
+import { showInfo, showSuccess } from "@/lib/toast";
+
+// Inspector for the element selected in visual edit mode. Edits are written
+// straight to the source and committed, without asking the AI.
+export const VisualEditPanel = () => {
+  const appId = useAtomValue(selectedAppIdAtom);
+  const [selectedComponents, setSelectedComponents] = useAtom(
+    selectedComponentsPreviewAtom,
+  );
+  // Edits apply to the most recently selected component
+  const component = selectedComponents.at(-1) ?? null;
+  const { element, isLoading, error, applyEdit, isApplying } = useVisualEdit(
+    appId,
+    component,
+  );
+  const [text, setText] = useState("");
+  const [className, setClassName] = useState("");
+
+  useEffect(() => {
+    setText(element?.text ?? "");
+    setClassName(element?.className ?? "");
+  }, [element]);
+
+  if (!component) {
+    return null;
+  }
+
+  const isTextEditable = element?.text !== null && element?.text !== undefined;
+  const isClassNameEditable =
+    element?.className !== null && element?.className !== undefined;
+  const hasChanges =
+    (isTextEditable && text !== element.text) ||
+    (isClassNameEditable && className !== element.className);
+
+  const handleApply = () => {
+    applyEdit(
+      {
+        text: isTextEditable ? text : undefined,
+        className: isClassNameEditable ? className : undefined,
+      },
+      {
+        onSuccess: ({ commitHash }) => {
+          if (commitHash) {
+            showSuccess("Change applied and committed");
+          } else {
+            showInfo("Change applied");
+          }
+        },
+      },
+    );
+  };
+
+  return (
+    <div
+      className="absolute top-2 right-2 z-10 w-72 rounded-md border border-border bg-background shadow-lg"
+      data-testid="visual-edit-panel"
+    >
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <div className="min-w-0">
+          <div className="text-sm font-semibold truncate">
+            {element ? `<${element.tagName}>` : component.name}
+          </div>
+          <div
+            className="text-xs text-muted-foreground truncate"
+            title={component.id}
+          >
+            {component.relativePath}:{component.lineNumber}
+          </div>
+        </div>
+        <button
+          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+          onClick={() => setSelectedComponents([])}
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="space-y-3 p-3">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 size={14} className="animate-spin" />
+            Reading the element...
+          </div>
+        ) : error ? (
+          <div className="text-sm text-red-500">{error.message}</div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="visual-edit-text">Text</Label>
+              {isTextEditable ? (
+                <Textarea
+                  id="visual-edit-text"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  rows={3}
+                />
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  The content isn't plain text. Ask the AI to change it.
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="visual-edit-classes">Tailwind classes</Label>
+              {isClassNameEditable ? (
+                <Input
+                  id="visual-edit-classes"
+                  className="font-mono text-xs"
+                  value={className}
+                  onChange={(e) => setClassName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && hasChanges && !isApplying) {
+                      handleApply();
+                    }
+                  }}
+                />
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  The classes are computed in code. Ask the AI to change them.
+                </p>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!hasChanges || isApplying}
+                onClick={() => {
+                  setText(element?.text ?? "");
+                  setClassName(element?.className ?? "");
+                }}
+              >
+                Reset
+              </Button>
+              <Button
+                size="sm"
+                disabled={!hasChanges || isApplying}
+                onClick={handleApply}
+              >
+                {isApplying && <Loader2 size={14} className="animate-spin" />}
+                Apply
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
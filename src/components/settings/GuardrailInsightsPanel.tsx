@@ -0,0 +1,402 @@
+import { useState } from "react";
+import { Download, ExternalLink, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useGuardrailAnalytics } from "@/hooks/useGuardrailAnalytics";
+import { useSelectChat } from "@/hooks/useSelectChat";
+import { useSettings } from "@/hooks/useSettings";
+import type {
+  GuardrailAnalytics,
+  GuardrailViolationEntry,
+} from "@/ipc/ipc_types";
+import { showSuccess } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+
+const RANGE_OPTIONS = [7, 30, 90];
+const RETENTION_OPTIONS = [7, 30, 90, 365];
+
+const TYPE_COLORS = [
+  "bg-red-500",
+  "bg-orange-400",
+  "bg-yellow-400",
+  "bg-purple-500",
+  "bg-blue-500",
+  "bg-teal-500",
+  "bg-pink-500",
+  "bg-gray-400",
+];
+
+type Dimension = "type" | "mode" | "model" | "provider" | "date";
+
+interface Filter {
+  dimension: Dimension;
+  value: string;
+}
+
+function getModeKey(entry: GuardrailViolationEntry): string {
+  return entry.workflowStep
+    ? `${entry.mode}:${entry.workflowStep}`
+    : entry.mode;
+}
+
+function matchesFilter(entry: GuardrailViolationEntry, filter: Filter | null) {
+  if (!filter) {
+    return true;
+  }
+  switch (filter.dimension) {
+    case "type":
+      return entry.violationType === filter.value;
+    case "mode":
+      return getModeKey(entry) === filter.value;
+    case "model":
+      return entry.model === filter.value;
+    case "provider":
+      return entry.provider === filter.value;
+    case "date":
+      return entry.timestamp.startsWith(filter.value);
+  }
+}
+
+export function GuardrailInsightsPanel() {
+  const [days, setDays] = useState(30);
+  const [filter, setFilter] = useState<Filter | null>(null);
+  const { settings, updateSettings } = useSettings();
+  const { analytics, isLoading, exportCsv, isExporting, pruneLogs } =
+    useGuardrailAnalytics(days);
+
+  if (isLoading || !analytics) {
+    return <div className="text-sm text-gray-500">Loading...</div>;
+  }
+
+  const types = Object.keys(analytics.byType).sort();
+  const getTypeColor = (type: string) =>
+    TYPE_COLORS[types.indexOf(type) % TYPE_COLORS.length];
+  const toggleFilter = (dimension: Dimension, value: string) =>
+    setFilter(
+      filter?.dimension === dimension && filter.value === value
+        ? null
+        : { dimension, value },
+    );
+
+  const handleExport = async () => {
+    const filePath = await exportCsv();
+    if (filePath) {
+      showSuccess(`Exported violations to ${filePath}`);
+    }
+  };
+
+  const handleRetentionChange = (value: string) => {
+    const retentionDays = Number(value);
+    updateSettings({ guardrailLogRetentionDays: retentionDays });
+    pruneLogs(retentionDays);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Responses that broke a guardrail rule. Use this to spot models that
+          misbehave too often to keep in your task routing.
+        </p>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(days)}
+            onValueChange={(value) => {
+              setDays(Number(value));
+              setFilter(null);
+            }}
+          >
+            <SelectTrigger className="w-[130px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting || analytics.total === 0}
+          >
+            <Download className="h-3 w-3" /> Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {analytics.total === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          No guardrail violations in the last {days} days.
+        </div>
+      ) : (
+        <>
+          <DailyChart
+            analytics={analytics}
+            getTypeColor={getTypeColor}
+            selectedDate={filter?.dimension === "date" ? filter.value : null}
+            onSelectDate={(date) => toggleFilter("date", date)}
+          />
+          <div className="flex flex-wrap gap-3 text-xs">
+            {types.map((type) => (
+              <span key={type} className="flex items-center gap-1">
+                <span
+                  className={cn("h-2 w-2 rounded-sm", getTypeColor(type))}
+                />
+                {type}
+              </span>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Breakdown
+              title="By rule"
+              counts={analytics.byType}
+              dimension="type"
+              filter={filter}
+              onSelect={toggleFilter}
+            />
+            <Breakdown
+              title="By mode"
+              counts={analytics.byMode}
+              dimension="mode"
+              filter={filter}
+              onSelect={toggleFilter}
+            />
+            <Breakdown
+              title="By model"
+              counts={analytics.byModel}
+              dimension="model"
+              filter={filter}
+              onSelect={toggleFilter}
+            />
+            <Breakdown
+              title="By provider"
+              counts={analytics.byProvider}
+              dimension="provider"
+              filter={filter}
+              onSelect={toggleFilter}
+            />
+          </div>
+          <ViolationList
+            entries={analytics.entries.filter((entry) =>
+              matchesFilter(entry, filter),
+            )}
+            filter={filter}
+            onClearFilter={() => setFilter(null)}
+          />
+        </>
+      )}
+
+      <div className="flex items-center gap-2 text-sm">
+        <label
+          htmlFor="guardrail-log-retention"
+          className="font-medium text-gray-700 dark:text-gray-300"
+        >
+          Keep violation logs for
+        </label>
+        <Select
+          value={String(
+            settings?.guardrailLogRetentionDays ?? analytics.retentionDays,
+          )}
+          onValueChange={handleRetentionChange}
+        >
+          <SelectTrigger
+            className="w-[110px] h-8 text-xs"
+            id="guardrail-log-retention"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RETENTION_OPTIONS.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+function DailyChart({
+  analytics,
+  getTypeColor,
+  selectedDate,
+  onSelectDate,
+}: {
+  analytics: GuardrailAnalytics;
+  getTypeColor: (type: string) => string;
+  selectedDate: string | null;
+  onSelectDate: (date: string) => void;
+}) {
+  const max = Math.max(1, ...analytics.daily.map((day) => day.total));
+  return (
+    <div className="flex items-end gap-px h-32 border-b">
+      {analytics.daily.map((day) => (
+        <Tooltip key={day.date}>
+          <TooltipTrigger asChild>
+            <button
+              className={cn(
+                "flex-1 h-full flex flex-col justify-end min-w-0 hover:bg-gray-100 dark:hover:bg-gray-700",
+                selectedDate === day.date && "bg-gray-100 dark:bg-gray-700",
+              )}
+              onClick={() => day.total > 0 && onSelectDate(day.date)}
+              aria-label={`${day.date}: ${day.total} violations`}
+            >
+              {Object.entries(day.byType).map(([type, count]) => (
+                <div
+                  key={type}
+                  className={getTypeColor(type)}
+                  style={{ height: `${(count / max) * 100}%` }}
+                />
+              ))}
+            </button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <div className="font-medium">
+              {day.date}: {day.total}
+            </div>
+            {Object.entries(day.byType).map(([type, count]) => (
+              <div key={type}>
+                {type}: {count}
+              </div>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
+
+function Breakdown({
+  title,
+  counts,
+  dimension,
+  filter,
+  onSelect,
+}: {
+  title: string;
+  counts: Record<string, number>;
+  dimension: Dimension;
+  filter: Filter | null;
+  onSelect: (dimension: Dimension, value: string) => void;
+}) {
+  const rows = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const max = rows[0]?.[1] ?? 1;
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">{title}</h3>
+      <div className="space-y-1">
+        {rows.map(([value, count]) => (
+          <button
+            key={value}
+            onClick={() => onSelect(dimension, value)}
+            className={cn(
+              "w-full flex items-center gap-2 text-xs rounded px-1 py-0.5 hover:bg-gray-100 dark:hover:bg-gray-700",
+              filter?.dimension === dimension &&
+                filter.value === value &&
+                "bg-gray-100 dark:bg-gray-700",
+            )}
+          >
+            <span className="w-40 truncate text-left font-mono">{value}</span>
+            <span className="flex-1 h-2 bg-gray-100 dark:bg-gray-900 rounded">
+              <span
+                className="block h-2 bg-red-400 rounded"
+                style={{ width: `${(count / max) * 100}%` }}
+              />
+            </span>
+            <span className="w-8 text-right">{count}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ViolationList({
+  entries,
+  filter,
+  onClearFilter,
+}: {
+  entries: GuardrailViolationEntry[];
+  filter: Filter | null;
+  onClearFilter: () => void;
+}) {
+  const { selectChat } = useSelectChat();
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1">
+        <h3 className="text-sm font-medium">Violations</h3>
+        {filter && (
+          <span className="flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs">
+            {filter.dimension}: {filter.value}
+            <button onClick={onClearFilter} aria-label="Clear filter">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        )}
+      </div>
+      <div className="border rounded-md divide-y divide-border max-h-80 overflow-y-auto">
+        {entries.map((entry, index) => (
+          <div
+            key={`${entry.timestamp}-${index}`}
+            className="flex items-center justify-between gap-2 px-3 py-2 text-xs"
+          >
+            <div className="min-w-0 space-y-0.5">
+              <div className="flex items-center gap-2">
+                <span className="font-mono">{entry.violationType}</span>
+                {entry.action && (
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {entry.action}
+                  </span>
+                )}
+                <span className="text-gray-500 dark:text-gray-400">
+                  {new Date(entry.timestamp).toLocaleString()} ·{" "}
+                  {getModeKey(entry)} · {entry.provider}/{entry.model}
+                </span>
+              </div>
+              <div className="truncate font-mono text-gray-500 dark:text-gray-400">
+                {entry.context}
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-1.5 text-xs shrink-0"
+              disabled={entry.appId === null}
+              onClick={() =>
+                selectChat({
+                  chatId: entry.chatId,
+                  appId: entry.appId!,
+                  messageId: entry.messageId ?? undefined,
+                })
+              }
+              title={
+                entry.appId === null
+                  ? "Logged before chats were linked"
+                  : "Open the chat at this message"
+              }
+            >
+              <ExternalLink className="h-3 w-3" /> Open chat
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
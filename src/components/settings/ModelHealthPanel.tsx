@@ -0,0 +1,137 @@
+import { formatDistanceToNow } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useModelHealth } from "@/hooks/useModelHealth";
+import type { CircuitState, ModelHealth } from "@/ipc/ipc_types";
+import { cn } from "@/lib/utils";
+
+const STATE_LABELS: Record<CircuitState, string> = {
+  closed: "Healthy",
+  "half-open": "Recovering",
+  open: "Skipped",
+};
+
+const STATE_STYLES: Record<CircuitState, string> = {
+  closed:
+    "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  "half-open":
+    "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300",
+  open: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+};
+
+// AI SDK provider ids look like "openai.chat" or "anthropic.messages".
+function getProviderName(provider: string): string {
+  return provider.split(".")[0];
+}
+
+function groupByProvider(models: ModelHealth[]) {
+  const groups = new Map<string, ModelHealth[]>();
+  for (const model of models) {
+    const provider = getProviderName(model.provider);
+    groups.set(provider, [...(groups.get(provider) ?? []), model]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+export function ModelHealthPanel() {
+  const { models, isLoading, resetModelHealth, isResetting } = useModelHealth();
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Loading...</div>;
+  }
+
+  if (models.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        No requests recorded yet. Model health appears here after you chat.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Models that keep failing are skipped in fallback chains until they
+          cool down, then retried with a single request.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resetModelHealth(undefined)}
+          disabled={isResetting}
+        >
+          Reset all
+        </Button>
+      </div>
+      {groupByProvider(models).map(([provider, providerModels]) => (
+        <div key={provider}>
+          <h3 className="text-sm font-medium mb-1 capitalize">{provider}</h3>
+          <div className="border rounded-md divide-y divide-border">
+            {providerModels.map((model) => (
+              <div
+                key={model.key}
+                className="flex items-center justify-between gap-2 px-3 py-2 text-xs"
+              >
+                <div className="min-w-0 flex items-center gap-2">
+                  <span className="font-mono truncate">{model.modelId}</span>
+                  <span
+                    className={cn(
+                      "px-1.5 py-0.5 text-[10px] font-medium rounded-md shrink-0",
+                      STATE_STYLES[model.state],
+                    )}
+                  >
+                    {STATE_LABELS[model.state]}
+                    {model.openUntil &&
+                      ` until ${new Date(model.openUntil).toLocaleTimeString()}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3 shrink-0 text-gray-500 dark:text-gray-400">
+                  <span>
+                    {Math.round(model.errorRate * 100)}% errors of{" "}
+                    {model.sampleCount}
+                  </span>
+                  <span>
+                    {model.avgLatencyMs !== null
+                      ? `${(model.avgLatencyMs / 1000).toFixed(1)}s to first token`
+                      : "no latency yet"}
+                  </span>
+                  {model.lastFailureAt && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <span className="underline decoration-dotted">
+                          failed{" "}
+                          {formatDistanceToNow(new Date(model.lastFailureAt), {
+                            addSuffix: true,
+                          })}
+                        </span>
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-80">
+                        {model.lastError}
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => resetModelHealth(model.key)}
+                    disabled={isResetting}
+                    title="Forget this model's failures"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
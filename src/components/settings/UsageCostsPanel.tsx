@@ -0,0 +1,468 @@
+import { useState } from "react";
+import { ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useSelectChat } from "@/hooks/useSelectChat";
+import { useSettings } from "@/hooks/useSettings";
+import { useUsageAnalytics } from "@/hooks/useUsageAnalytics";
+import type {
+  AppBudget,
+  UsageAnalytics,
+  UsageBreakdownRow,
+} from "@/ipc/ipc_types";
+import { getModelPrice } from "@/ipc/shared/model_prices";
+import type { ModelPriceOverride } from "@/lib/schemas";
+import { cn } from "@/lib/utils";
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
+// An empty field clears the limit or price.
+function parseAmount(value: string): number | null {
+  const amount = Number(value);
+  return value.trim() === "" || !Number.isFinite(amount) || amount < 0
+    ? null
+    : amount;
+}
+
+export function UsageCostsPanel() {
+  const [days, setDays] = useState(30);
+  const { analytics, isLoading, setAppBudget } = useUsageAnalytics(days);
+
+  if (isLoading || !analytics) {
+    return <div className="text-sm text-gray-500">Loading...</div>;
+  }
+
+  const { totals } = analytics;
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Tokens and cost of every request to your model providers, priced
+          locally with each model's list price.
+        </p>
+        <Select
+          value={String(days)}
+          onValueChange={(value) => setDays(Number(value))}
+        >
+          <SelectTrigger className="w-[130px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                Last {option} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {totals.requests === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          No requests in the last {days} days.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Stat label="Cost" value={formatCost(totals.cost)} />
+            <Stat label="Requests" value={String(totals.requests)} />
+            <Stat
+              label="Input tokens"
+              value={formatTokens(totals.inputTokens)}
+              detail={`${formatTokens(totals.cachedInputTokens)} cached`}
+            />
+            <Stat
+              label="Output tokens"
+              value={formatTokens(totals.outputTokens)}
+              detail={`${formatTokens(totals.reasoningTokens)} reasoning`}
+            />
+          </div>
+          {totals.unpricedRequests > 0 && (
+            <div className="text-xs text-amber-600 dark:text-amber-400">
+              {totals.unpricedRequests} requests used models without a known
+              price and aren't included in the cost. Set their prices below.
+            </div>
+          )}
+          <DailyChart analytics={analytics} />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Breakdown title="By app" rows={analytics.byApp} />
+            <Breakdown title="By model" rows={analytics.byModel} />
+            <Breakdown title="By request" rows={analytics.byKind} />
+            <Breakdown title="Top chats" rows={analytics.byChat} linkToChat />
+          </div>
+        </>
+      )}
+
+      <BudgetList budgets={analytics.budgets} onSave={setAppBudget} />
+      <ModelPriceList models={analytics.byModel} />
+    </div>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: string;
+  detail?: string;
+}) {
+  return (
+    <div className="rounded-md border px-3 py-2">
+      <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+      <div className="text-lg font-medium">{value}</div>
+      {detail && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">{detail}</div>
+      )}
+    </div>
+  );
+}
+
+function DailyChart({ analytics }: { analytics: UsageAnalytics }) {
+  const max = Math.max(0.01, ...analytics.daily.map((day) => day.cost));
+  return (
+    <div className="flex items-end gap-px h-32 border-b">
+      {analytics.daily.map((day) => (
+        <Tooltip key={day.date}>
+          <TooltipTrigger asChild>
+            <div
+              className="flex-1 h-full flex flex-col justify-end min-w-0 hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label={`${day.date}: ${formatCost(day.cost)}`}
+            >
+              <div
+                className="bg-emerald-500"
+                style={{ height: `${(day.cost / max) * 100}%` }}
+              />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent>
+            <div className="font-medium">
+              {day.date}: {formatCost(day.cost)}
+            </div>
+            <div>{formatTokens(day.tokens)} tokens</div>
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
+
+function Breakdown({
+  title,
+  rows,
+  linkToChat = false,
+}: {
+  title: string;
+  rows: UsageBreakdownRow[];
+  linkToChat?: boolean;
+}) {
+  const { selectChat } = useSelectChat();
+  const max = Math.max(0.01, rows[0]?.cost ?? 0);
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">{title}</h3>
+      <div className="space-y-1">
+        {rows.map((row) => (
+          <div
+            key={row.key}
+            className="flex items-center gap-2 text-xs px-1 py-0.5"
+            title={`${row.requests} requests · ${formatTokens(row.inputTokens)} in · ${formatTokens(row.outputTokens)} out`}
+          >
+            <span className="w-40 truncate font-mono">{row.label}</span>
+            <span className="flex-1 h-2 bg-gray-100 dark:bg-gray-900 rounded">
+              <span
+                className="block h-2 bg-emerald-400 rounded"
+                style={{ width: `${(row.cost / max) * 100}%` }}
+              />
+            </span>
+            <span
+              className={cn(
+                "w-14 text-right",
+                row.unpricedRequests > 0 &&
+                  "text-amber-600 dark:text-amber-400",
+              )}
+            >
+              {formatCost(row.cost)}
+              {row.unpricedRequests > 0 && "*"}
+            </span>
+            {linkToChat && row.chatId !== null && row.appId !== null && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-5 px-1"
+                onClick={() =>
+                  selectChat({ chatId: row.chatId!, appId: row.appId! })
+                }
+                title="Open chat"
+              >
+                <ExternalLink className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BudgetList({
+  budgets,
+  onSave,
+}: {
+  budgets: AppBudget[];
+  onSave: (params: {
+    appId: number;
+    monthlySoftLimit: number | null;
+    monthlyHardLimit: number | null;
+  }) => void;
+}) {
+  if (budgets.length === 0) {
+    return null;
+  }
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">Monthly spending limits</h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Past the soft limit you're asked before each message is sent; past the
+        hard limit messages are blocked until the next month. Leave empty for no
+        limit.
+      </p>
+      <div className="border rounded-md divide-y divide-border max-h-80 overflow-y-auto">
+        {budgets.map((budget) => (
+          <div
+            key={budget.appId}
+            className="flex items-center gap-2 px-3 py-2 text-xs"
+          >
+            <span className="flex-1 truncate">{budget.appName}</span>
+            <span
+              className={cn(
+                "w-20 text-right",
+                budget.monthlyHardLimit !== null &&
+                  budget.spentThisMonth >= budget.monthlyHardLimit
+                  ? "text-red-600 dark:text-red-400"
+                  : budget.monthlySoftLimit !== null &&
+                      budget.spentThisMonth >= budget.monthlySoftLimit &&
+                      "text-amber-600 dark:text-amber-400",
+              )}
+            >
+              {formatCost(budget.spentThisMonth)}
+            </span>
+            <LimitInput
+              label="Soft"
+              value={budget.monthlySoftLimit}
+              onChange={(monthlySoftLimit) =>
+                onSave({
+                  appId: budget.appId,
+                  monthlySoftLimit,
+                  monthlyHardLimit: budget.monthlyHardLimit,
+                })
+              }
+            />
+            <LimitInput
+              label="Hard"
+              value={budget.monthlyHardLimit}
+              onChange={(monthlyHardLimit) =>
+                onSave({
+                  appId: budget.appId,
+                  monthlySoftLimit: budget.monthlySoftLimit,
+                  monthlyHardLimit,
+                })
+              }
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Saves when the field loses focus, so a half typed amount isn't applied.
+function AmountInput({
+  value,
+  onChange,
+  placeholder,
+  ariaLabel,
+}: {
+  value: number | null | undefined;
+  onChange: (value: number | null) => void;
+  placeholder: string;
+  ariaLabel: string;
+}) {
+  return (
+    <Input
+      key={value ?? ""}
+      type="number"
+      min={0}
+      step="0.01"
+      defaultValue={value ?? ""}
+      placeholder={placeholder}
+      aria-label={ariaLabel}
+      className="h-7 w-24 text-xs"
+      onBlur={(e) => {
+        const amount = parseAmount(e.target.value);
+        if (amount !== (value ?? null)) {
+          onChange(amount);
+        }
+      }}
+    />
+  );
+}
+
+function LimitInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1">
+      <span className="text-gray-500 dark:text-gray-400">{label} $</span>
+      <AmountInput
+        value={value}
+        onChange={onChange}
+        placeholder="No limit"
+        ariaLabel={`${label} limit`}
+      />
+    </label>
+  );
+}
+
+function ModelPriceList({ models }: { models: UsageBreakdownRow[] }) {
+  const { settings, updateSettings } = useSettings();
+  const overrides = settings?.modelPrices ?? [];
+  // Models that were used without a price, and those already given one
+  const rows = [
+    ...overrides.map(({ provider, model }) => ({ provider, model })),
+    ...models
+      .filter((row) => row.unpricedRequests > 0)
+      .map((row) => {
+        const [provider, ...model] = row.key.split("/");
+        return { provider, model: model.join("/") };
+      })
+      .filter(
+        ({ provider, model }) =>
+          !overrides.some(
+            (entry) => entry.provider === provider && entry.model === model,
+          ),
+      ),
+  ];
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const setPrice = (
+    provider: string,
+    model: string,
+    change: Partial<ModelPriceOverride>,
+  ) => {
+    const current = getModelPrice(provider, model, overrides) ?? {
+      inputPerMillion: 0,
+      outputPerMillion: 0,
+    };
+    const others = overrides.filter(
+      (entry) => entry.provider !== provider || entry.model !== model,
+    );
+    updateSettings({
+      modelPrices: [...others, { ...current, ...change, provider, model }],
+    });
+  };
+  const removePrice = (provider: string, model: string) =>
+    updateSettings({
+      modelPrices: overrides.filter(
+        (entry) => entry.provider !== provider || entry.model !== model,
+      ),
+    });
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">Model prices</h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        USD per million tokens, for models without a built-in price such as
+        custom models. New requests are priced with these; earlier ones keep
+        their cost.
+      </p>
+      <div className="border rounded-md divide-y divide-border">
+        {rows.map(({ provider, model }) => {
+          const override = overrides.find(
+            (entry) => entry.provider === provider && entry.model === model,
+          );
+          return (
+            <div
+              key={`${provider}/${model}`}
+              className="flex items-center gap-2 px-3 py-2 text-xs"
+            >
+              <span className="flex-1 truncate font-mono">
+                {provider}/{model}
+              </span>
+              <label className="flex items-center gap-1">
+                <span className="text-gray-500 dark:text-gray-400">In $</span>
+                <AmountInput
+                  value={override?.inputPerMillion}
+                  onChange={(inputPerMillion) =>
+                    setPrice(provider, model, {
+                      inputPerMillion: inputPerMillion ?? 0,
+                    })
+                  }
+                  placeholder="Unknown"
+                  ariaLabel={`Input price of ${model}`}
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                <span className="text-gray-500 dark:text-gray-400">Out $</span>
+                <AmountInput
+                  value={override?.outputPerMillion}
+                  onChange={(outputPerMillion) =>
+                    setPrice(provider, model, {
+                      outputPerMillion: outputPerMillion ?? 0,
+                    })
+                  }
+                  placeholder="Unknown"
+                  ariaLabel={`Output price of ${model}`}
+                />
+              </label>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-1.5 text-xs"
+                disabled={!override}
+                onClick={() => removePrice(provider, model)}
+              >
+                Clear
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
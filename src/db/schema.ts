@@ -1,6 +1,18 @@
 import { sql } from "drizzle-orm";
-import { integer, sqliteTable, text, unique } from "drizzle-orm/sqlite-core";
+import {
+  integer,
+  real,
+  sqliteTable,
+  text,
+  unique,
+} from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
+import type { CommandPolicy, WorkflowDefinition } from "../lib/schemas";
+import type {
+  MessageRouting,
+  PlanStep,
+  WorkflowChecklistItem,
+} from "../ipc/ipc_types";
 
 export const prompts = sqliteTable("prompts", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -48,6 +60,34 @@ export const apps = sqliteTable("apps", {
   isFavorite: integer("is_favorite", { mode: "boolean" })
     .notNull()
     .default(sql`0`),
+  // Spending limits in USD per calendar month. Past the soft limit the user
+  // is warned before sending; past the hard limit requests are blocked.
+  monthlySoftLimit: real("monthly_soft_limit"),
+  monthlyHardLimit: real("monthly_hard_limit"),
+  // Allow/deny rules for terminal commands run in the app. Null uses the
+  // defaults.
+  commandPolicy: text("command_policy", {
+    mode: "json",
+  }).$type<CommandPolicy>(),
+});
+
+// User-defined workflow pipelines. `source` is the JSON/YAML text as the
+// user wrote it; `definition` is the parsed and validated form.
+export const workflows = sqliteTable("workflows", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  // Null means the workflow is available to every app.
+  appId: integer("app_id").references(() => apps.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  source: text("source").notNull(),
+  definition: text("definition", { mode: "json" })
+    .$type<WorkflowDefinition>()
+    .notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
 });
 
 export const chats = sqliteTable("chats", {
@@ -60,14 +100,116 @@ export const chats = sqliteTable("chats", {
   workflowStatus: text("workflow_status", {
     enum: ["idle", "active", "paused"],
   }).default("idle"),
-  workflowStep: text("workflow_step", {
-    enum: ["planning", "docs", "frontend", "backend", "testing"],
+  // Which workflow definition the chat runs. Null means the built-in default.
+  workflowId: integer("workflow_id").references(() => workflows.id, {
+    onDelete: "set null",
   }),
+  // Step id from the chat's workflow definition.
+  workflowStep: text("workflow_step"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
 });
 
+// Audit log of workflow gate checks and step transitions for each chat.
+export const workflowHistory = sqliteTable("workflow_history", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  chatId: integer("chat_id")
+    .notNull()
+    .references(() => chats.id, { onDelete: "cascade" }),
+  workflowId: integer("workflow_id").references(() => workflows.id, {
+    onDelete: "set null",
+  }),
+  kind: text("kind", { enum: ["gate", "transition"] }).notNull(),
+  // Step the chat was on when the entry was recorded.
+  step: text("step").notNull(),
+  // For transitions, the step moved to (null when the workflow finished).
+  toStep: text("to_step"),
+  // For gates, a human readable description of the check.
+  gate: text("gate"),
+  passed: integer("passed", { mode: "boolean" }).notNull(),
+  output: text("output"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// One execution of a workflow in a chat, from /workflow until it finishes or
+// is stopped.
+export const workflowRuns = sqliteTable("workflow_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  chatId: integer("chat_id")
+    .notNull()
+    .references(() => chats.id, { onDelete: "cascade" }),
+  workflowId: integer("workflow_id").references(() => workflows.id, {
+    onDelete: "set null",
+  }),
+  // Copied from the definition so the run stays readable if the workflow is
+  // edited or deleted.
+  workflowName: text("workflow_name").notNull(),
+  status: text("status", {
+    enum: ["active", "completed", "stopped"],
+  }).notNull(),
+  startedAt: integer("started_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  finishedAt: integer("finished_at", { mode: "timestamp" }),
+});
+
+export const workflowStepRuns = sqliteTable("workflow_step_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  runId: integer("run_id")
+    .notNull()
+    .references(() => workflowRuns.id, { onDelete: "cascade" }),
+  step: text("step").notNull(),
+  status: text("status", {
+    enum: ["active", "completed", "stopped"],
+  }).notNull(),
+  // Name of the model that produced the last response in this step.
+  model: text("model"),
+  startCommitHash: text("start_commit_hash"),
+  endCommitHash: text("end_commit_hash"),
+  checklist: text("checklist", { mode: "json" })
+    .$type<WorkflowChecklistItem[]>()
+    .notNull()
+    .$defaultFn(() => []),
+  startedAt: integer("started_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  finishedAt: integer("finished_at", { mode: "timestamp" }),
+});
+
+// A step of a parallel group, run by a sub-agent on its own branch and
+// merged into the app when the group finishes.
+export const workflowSubAgentRuns = sqliteTable("workflow_subagent_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  // The group's step run in the chat's timeline
+  stepRunId: integer("step_run_id")
+    .notNull()
+    .references(() => workflowStepRuns.id, { onDelete: "cascade" }),
+  step: text("step").notNull(),
+  model: text("model"),
+  branch: text("branch").notNull(),
+  status: text("status", {
+    enum: ["running", "merged", "no-changes", "conflict", "failed", "stopped"],
+  }).notNull(),
+  // Commit on the branch with the sub-agent's changes
+  commitHash: text("commit_hash"),
+  changedFiles: text("changed_files", { mode: "json" })
+    .$type<string[]>()
+    .notNull()
+    .$defaultFn(() => []),
+  conflictFiles: text("conflict_files", { mode: "json" })
+    .$type<string[]>()
+    .notNull()
+    .$defaultFn(() => []),
+  error: text("error"),
+  startedAt: integer("started_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  finishedAt: integer("finished_at", { mode: "timestamp" }),
+});
+
 export const messages = sqliteTable("messages", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   chatId: integer("chat_id")
@@ -81,11 +223,104 @@ export const messages = sqliteTable("messages", {
   commitHash: text("commit_hash"),
   requestId: text("request_id"),
   model: text("model"),
+  // Why the model was chosen (task type, classifier and its explanation).
+  routing: text("routing", { mode: "json" }).$type<MessageRouting>(),
+  // Workflow step the message was sent in, if a workflow was active.
+  workflowStepRunId: integer("workflow_step_run_id").references(
+    () => workflowStepRuns.id,
+    { onDelete: "set null" },
+  ),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Tokens and cost of each provider request, as reported by the provider.
+export const usageRecords = sqliteTable("usage_records", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  // Null for requests made outside an app.
+  appId: integer("app_id").references(() => apps.id, { onDelete: "cascade" }),
+  // Kept when the chat is deleted so the app's spending stays accurate.
+  chatId: integer("chat_id").references(() => chats.id, {
+    onDelete: "set null",
+  }),
+  messageId: integer("message_id").references(() => messages.id, {
+    onDelete: "set null",
+  }),
+  kind: text("kind", {
+    enum: ["chat", "correction", "router", "summarization", "web-search"],
+  }).notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  // Includes cached input tokens.
+  inputTokens: integer("input_tokens").notNull(),
+  // Includes reasoning tokens.
+  outputTokens: integer("output_tokens").notNull(),
+  cachedInputTokens: integer("cached_input_tokens").notNull().default(0),
+  reasoningTokens: integer("reasoning_tokens").notNull().default(0),
+  // USD; null when the model has no known price.
+  cost: real("cost"),
+  // Counted locally because the request was stopped before the provider
+  // reported its usage.
+  estimated: integer("estimated", { mode: "boolean" })
+    .notNull()
+    .default(sql`0`),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
 });
 
+// Every shell command agent mode tried to run, whether or not it ran.
+export const agentCommandRuns = sqliteTable("agent_command_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  appId: integer("app_id")
+    .notNull()
+    .references(() => apps.id, { onDelete: "cascade" }),
+  chatId: integer("chat_id").references(() => chats.id, {
+    onDelete: "set null",
+  }),
+  command: text("command").notNull(),
+  cwd: text("cwd").notNull(),
+  category: text("category", {
+    enum: ["read-only", "package-install", "network", "destructive", "other"],
+  }).notNull(),
+  status: text("status", {
+    enum: ["allowed", "approved", "declined", "denied"],
+  }).notNull(),
+  // Null when the command didn't run.
+  exitCode: integer("exit_code"),
+  durationMs: integer("duration_ms"),
+  timedOut: integer("timed_out", { mode: "boolean" })
+    .notNull()
+    .default(sql`0`),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Plan written in plan mode, executed step by step once approved.
+export const chatPlans = sqliteTable("chat_plans", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  chatId: integer("chat_id")
+    .notNull()
+    .references(() => chats.id, { onDelete: "cascade" }),
+  // Assistant message with the <dyad-plan>
+  messageId: integer("message_id")
+    .notNull()
+    .unique()
+    .references(() => messages.id, { onDelete: "cascade" }),
+  status: text("status", {
+    enum: ["draft", "executing", "paused", "completed"],
+  }).notNull(),
+  steps: text("steps", { mode: "json" }).$type<PlanStep[]>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
 export const versions = sqliteTable(
   "versions",
   {
@@ -120,13 +355,54 @@ export const chatsRelations = relations(chats, ({ many, one }) => ({
     fields: [chats.appId],
     references: [apps.id],
   }),
+  workflow: one(workflows, {
+    fields: [chats.workflowId],
+    references: [workflows.id],
+  }),
 }));
 
+export const workflowRunsRelations = relations(
+  workflowRuns,
+  ({ many, one }) => ({
+    chat: one(chats, {
+      fields: [workflowRuns.chatId],
+      references: [chats.id],
+    }),
+    stepRuns: many(workflowStepRuns),
+  }),
+);
+
+export const workflowStepRunsRelations = relations(
+  workflowStepRuns,
+  ({ many, one }) => ({
+    run: one(workflowRuns, {
+      fields: [workflowStepRuns.runId],
+      references: [workflowRuns.id],
+    }),
+    messages: many(messages),
+    subAgentRuns: many(workflowSubAgentRuns),
+  }),
+);
+
+export const workflowSubAgentRunsRelations = relations(
+  workflowSubAgentRuns,
+  ({ one }) => ({
+    stepRun: one(workflowStepRuns, {
+      fields: [workflowSubAgentRuns.stepRunId],
+      references: [workflowStepRuns.id],
+    }),
+  }),
+);
+
 export const messagesRelations = relations(messages, ({ one }) => ({
   chat: one(chats, {
     fields: [messages.chatId],
     references: [chats.id],
   }),
+  workflowStepRun: one(workflowStepRuns, {
+    fields: [messages.workflowStepRunId],
+    references: [workflowStepRuns.id],
+  }),
 }));
 
 export const language_model_providers = sqliteTable(
@@ -183,6 +459,17 @@ export const languageModelsRelations = relations(
   }),
 );
 
+export const usageRecordsRelations = relations(usageRecords, ({ one }) => ({
+  app: one(apps, {
+    fields: [usageRecords.appId],
+    references: [apps.id],
+  }),
+  chat: one(chats, {
+    fields: [usageRecords.chatId],
+    references: [chats.id],
+  }),
+}));
+
 export const versionsRelations = relations(versions, ({ one }) => ({
   app: one(apps, {
     fields: [versions.appId],
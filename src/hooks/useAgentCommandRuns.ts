@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { AgentCommandRun } from "@/ipc/ipc_types";
+
+export function useAgentCommandRuns(appId: number) {
+  const runsQuery = useQuery({
+    queryKey: ["agent-command-runs", appId],
+    queryFn: async (): Promise<AgentCommandRun[]> => {
+      return IpcClient.getInstance().listAgentCommandRuns(appId);
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    runs: runsQuery.data ?? [],
+    isLoading: runsQuery.isLoading,
+    refreshRuns: runsQuery.refetch,
+  };
+}
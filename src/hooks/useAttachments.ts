@@ -132,6 +132,7 @@ export function useAttachments() {
     handleDragLeave,
     handleDrop,
     clearAttachments,
+    addAttachments,
     handlePaste,
   };
 }
@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  ChatPlan,
+  SetPlanStatusParams,
+  UpdatePlanStepsParams,
+} from "@/ipc/ipc_types";
+
+export function useChatPlans(chatId: number | undefined) {
+  const queryClient = useQueryClient();
+
+  const plansQuery = useQuery({
+    queryKey: ["chat-plans", chatId],
+    queryFn: async (): Promise<ChatPlan[]> => {
+      return IpcClient.getInstance().listChatPlans(chatId!);
+    },
+    enabled: chatId !== undefined,
+    meta: { showErrorToast: true },
+  });
+
+  // Swaps in the saved plan so edits show without waiting for a refetch
+  const setSavedPlan = (saved: ChatPlan) => {
+    queryClient.setQueryData<ChatPlan[]>(["chat-plans", chatId], (plans) =>
+      plans?.map((plan) => (plan.id === saved.id ? saved : plan)),
+    );
+  };
+
+  const updateStepsMutation = useMutation({
+    mutationFn: async (params: UpdatePlanStepsParams) => {
+      return IpcClient.getInstance().updatePlanSteps(params);
+    },
+    onSuccess: setSavedPlan,
+    meta: { showErrorToast: true },
+  });
+
+  const setStatusMutation = useMutation({
+    mutationFn: async (params: SetPlanStatusParams) => {
+      return IpcClient.getInstance().setPlanStatus(params);
+    },
+    onSuccess: async () => {
+      // Approving a plan can pause another one in the chat
+      await queryClient.invalidateQueries({
+        queryKey: ["chat-plans", chatId],
+      });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    plans: plansQuery.data ?? [],
+    isLoading: plansQuery.isLoading,
+    refreshPlans: plansQuery.refetch,
+    updatePlanSteps: updateStepsMutation.mutate,
+    setPlanStatus: setStatusMutation.mutate,
+    isSaving: updateStepsMutation.isPending || setStatusMutation.isPending,
+  };
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { CommandPolicy } from "@/lib/schemas";
+
+export function useCommandPolicy(appId: number) {
+  const queryClient = useQueryClient();
+
+  const policyQuery = useQuery({
+    queryKey: ["command-policy", appId],
+    queryFn: async (): Promise<CommandPolicy | null> => {
+      return IpcClient.getInstance().getAppCommandPolicy(appId);
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const setPolicyMutation = useMutation({
+    mutationFn: async (policy: CommandPolicy | null) => {
+      return IpcClient.getInstance().setAppCommandPolicy({ appId, policy });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["command-policy", appId] });
+      queryClient.invalidateQueries({
+        queryKey: ["command-policy-decision", appId],
+      });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    policy: policyQuery.data,
+    isLoading: policyQuery.isLoading,
+    setPolicy: setPolicyMutation.mutateAsync,
+    isSaving: setPolicyMutation.isPending,
+  };
+}
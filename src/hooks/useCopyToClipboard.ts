@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
 import { getLanguage } from "@/utils/get_language";
+import { decodeDyadWriteContent } from "@/ipc/shared/dyad_write_content";
 
 const CUSTOM_TAG_NAMES = [
   "dyad-write",
@@ -12,6 +13,7 @@ const CUSTOM_TAG_NAMES = [
   "dyad-problem-report",
   "dyad-chat-summary",
   "dyad-edit",
+  "dyad-patch",
   "dyad-codebase-context",
   "think",
   "dyad-command",
@@ -93,7 +95,7 @@ export const useCopyToClipboard = () => {
         if (writeDesc && writeDesc !== writePath) {
           writeResult += `${writeDesc}\n\n`;
         }
-        writeResult += `\`\`\`${language}\n${content}\n\`\`\`\n\n`;
+        writeResult += `\`\`\`${language}\n${decodeDyadWriteContent(content, attributes.encoding)}\n\`\`\`\n\n`;
         return writeResult;
       }
 
@@ -110,6 +112,18 @@ export const useCopyToClipboard = () => {
         return editResult;
       }
 
+      case "dyad-patch": {
+        const patchPath = attributes.path || "file";
+        const patchDesc = attributes.description || "";
+
+        let patchResult = `### Patch: ${patchPath}\n\n`;
+        if (patchDesc && patchDesc !== patchPath) {
+          patchResult += `${patchDesc}\n\n`;
+        }
+        patchResult += `\`\`\`diff\n${content}\n\`\`\`\n\n`;
+        return patchResult;
+      }
+
       case "dyad-rename": {
         const from = attributes.from || "";
         const to = attributes.to || "";
@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { GuardrailAnalytics } from "@/ipc/ipc_types";
+
+export function useGuardrailAnalytics(days: number) {
+  const queryClient = useQueryClient();
+
+  const analyticsQuery = useQuery({
+    queryKey: ["guardrail-analytics", days],
+    queryFn: async (): Promise<GuardrailAnalytics> => {
+      return IpcClient.getInstance().getGuardrailAnalytics(days);
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      return IpcClient.getInstance().exportGuardrailViolationsCsv(days);
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const pruneMutation = useMutation({
+    mutationFn: async (retentionDays: number) => {
+      return IpcClient.getInstance().pruneGuardrailLogs(retentionDays);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["guardrail-analytics"] });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    analytics: analyticsQuery.data,
+    isLoading: analyticsQuery.isLoading,
+    exportCsv: exportMutation.mutateAsync,
+    isExporting: exportMutation.isPending,
+    pruneLogs: pruneMutation.mutate,
+  };
+}
@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { ModelHealth } from "@/ipc/ipc_types";
+
+export function useModelHealth() {
+  const queryClient = useQueryClient();
+
+  const healthQuery = useQuery({
+    queryKey: ["model-health"],
+    queryFn: async (): Promise<ModelHealth[]> => {
+      return IpcClient.getInstance().getModelHealth();
+    },
+    // Circuits move to half-open on their own once the cooldown passes.
+    refetchInterval: 15_000,
+    meta: { showErrorToast: true },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (key?: string) => {
+      await IpcClient.getInstance().resetModelHealth(key);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["model-health"] });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    models: healthQuery.data ?? [],
+    isLoading: healthQuery.isLoading,
+    resetModelHealth: resetMutation.mutate,
+    isResetting: resetMutation.isPending,
+  };
+}
@@ -9,12 +9,20 @@ export function useSelectChat() {
   const navigate = useNavigate();
 
   return {
-    selectChat: ({ chatId, appId }: { chatId: number; appId: number }) => {
+    selectChat: ({
+      chatId,
+      appId,
+      messageId,
+    }: {
+      chatId: number;
+      appId: number;
+      messageId?: number;
+    }) => {
       setSelectedChatId(chatId);
       setSelectedAppId(appId);
       navigate({
         to: "/chat",
-        search: { id: chatId },
+        search: { id: chatId, messageId },
       });
     },
   };
@@ -1,8 +1,11 @@
 import { useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import type {
   ComponentSelection,
+  NetworkRequestEntry,
   Message,
   FileAttachment,
+  PlanStepRef,
 } from "@/ipc/ipc_types";
 import { useAtom, useAtomValue, useSetAtom } from "jotai";
 import {
@@ -12,6 +15,7 @@ import {
   isStreamingByIdAtom,
   recentStreamChatIdsAtom,
   chatMetadataByIdAtom,
+  taskTypeOverrideAtom,
 } from "@/atoms/chatAtoms";
 import { IpcClient } from "@/ipc/ipc_client";
 import { isPreviewOpenAtom } from "@/atoms/viewAtoms";
@@ -56,7 +60,9 @@ export function useStreamChat({
   const { checkProblems } = useCheckProblems(selectedAppId);
   const { settings } = useSettings();
   const setRecentStreamChatIds = useSetAtom(recentStreamChatIdsAtom);
+  const taskTypeOverride = useAtomValue(taskTypeOverrideAtom);
   const posthog = usePostHog();
+  const queryClient = useQueryClient();
   let chatId: number | undefined;
 
   if (hasChatId) {
@@ -71,13 +77,17 @@ export function useStreamChat({
       chatId,
       redo,
       attachments,
-      selectedComponent,
+      selectedComponents,
+      networkRequest,
+      planStep,
     }: {
       prompt: string;
       chatId: number;
       redo?: boolean;
       attachments?: FileAttachment[];
-      selectedComponent?: ComponentSelection | null;
+      selectedComponents?: ComponentSelection[];
+      networkRequest?: NetworkRequestEntry | null;
+      planStep?: PlanStepRef;
     }) => {
       if (
         (!prompt.trim() && (!attachments || attachments.length === 0)) ||
@@ -86,6 +96,22 @@ export function useStreamChat({
         return;
       }
 
+      // Past the app's soft spending limit, ask before sending. The hard
+      // limit is enforced by the stream handler, which reports the error.
+      try {
+        const budget = await IpcClient.getInstance().checkChatBudget(chatId);
+        if (
+          budget.status === "soft-limit" &&
+          !window.confirm(
+            `${budget.appName} has spent $${budget.spentThisMonth.toFixed(2)} this month, past its $${budget.limit?.toFixed(2)} soft limit. Send anyway?`,
+          )
+        ) {
+          return;
+        }
+      } catch (error) {
+        console.error("[CHAT] Failed to check the app's budget:", error);
+      }
+
       setRecentStreamChatIds((prev) => {
         const next = new Set(prev);
         next.add(chatId);
@@ -106,10 +132,13 @@ export function useStreamChat({
       let hasIncrementedStreamCount = false;
       try {
         IpcClient.getInstance().streamMessage(prompt, {
-          selectedComponent: selectedComponent ?? null,
+          selectedComponents: selectedComponents ?? [],
+          networkRequest: networkRequest ?? null,
           chatId,
           redo,
           attachments,
+          taskTypeOverride,
+          planStep,
           onUpdate: (updatedMessages: Message[]) => {
             if (!hasIncrementedStreamCount) {
               setStreamCountById((prev) => {
@@ -160,6 +189,8 @@ export function useStreamChat({
               });
             }
             refreshProposal(chatId);
+            // Plan-mode turns save a plan, plan steps update theirs
+            queryClient.invalidateQueries({ queryKey: ["chat-plans", chatId] });
 
             refetchUserBudget();
 
@@ -190,6 +221,7 @@ export function useStreamChat({
             refreshApp();
             refreshVersions();
             countTokens(chatId, "");
+            queryClient.invalidateQueries({ queryKey: ["chat-plans", chatId] });
           },
         });
       } catch (error) {
@@ -228,7 +260,9 @@ export function useStreamChat({
       refreshVersions,
       refreshAppIframe,
       countTokens,
-      posthog
+      posthog,
+      taskTypeOverride,
+      queryClient,
     ],
   );
 
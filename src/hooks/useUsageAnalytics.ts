@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { SetAppBudgetParams, UsageAnalytics } from "@/ipc/ipc_types";
+
+export function useUsageAnalytics(days: number) {
+  const queryClient = useQueryClient();
+
+  const analyticsQuery = useQuery({
+    queryKey: ["usage-analytics", days],
+    queryFn: async (): Promise<UsageAnalytics> => {
+      return IpcClient.getInstance().getUsageAnalytics(days);
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const setBudgetMutation = useMutation({
+    mutationFn: async (params: SetAppBudgetParams) => {
+      return IpcClient.getInstance().setAppBudget(params);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["usage-analytics"] });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    analytics: analyticsQuery.data,
+    isLoading: analyticsQuery.isLoading,
+    setAppBudget: setBudgetMutation.mutate,
+  };
+}
@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  ApplyVisualEditParams,
+  ComponentSelection,
+  VisualEditElement,
+} from "@/ipc/ipc_types";
+
+export function useVisualEdit(
+  appId: number | null,
+  component: ComponentSelection | null,
+) {
+  const queryClient = useQueryClient();
+  const queryKey = ["visual-edit", appId, component?.id];
+
+  const elementQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<VisualEditElement> => {
+      return IpcClient.getInstance().inspectVisualEditElement({
+        appId: appId!,
+        relativePath: component!.relativePath,
+        lineNumber: component!.lineNumber,
+        columnNumber: component!.columnNumber,
+      });
+    },
+    enabled: appId !== null && component !== null,
+    // No error toast: the panel shows why an element can't be edited
+    retry: false,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (
+      changes: Pick<ApplyVisualEditParams, "className" | "text">,
+    ) => {
+      return IpcClient.getInstance().applyVisualEdit({
+        appId: appId!,
+        relativePath: component!.relativePath,
+        lineNumber: component!.lineNumber,
+        columnNumber: component!.columnNumber,
+        ...changes,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["versions", appId] });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    element: elementQuery.data,
+    isLoading: elementQuery.isLoading,
+    error: elementQuery.error,
+    applyEdit: applyMutation.mutate,
+    isApplying: applyMutation.isPending,
+  };
+}
@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSetAtom } from "jotai";
+import { IpcClient } from "@/ipc/ipc_client";
+import { chatMetadataByIdAtom } from "@/atoms/chatAtoms";
+import type { WorkflowRun } from "@/ipc/ipc_types";
+
+export function useWorkflowRuns(chatId: number | null) {
+  const queryClient = useQueryClient();
+  const setChatMetadataById = useSetAtom(chatMetadataByIdAtom);
+
+  const runsQuery = useQuery({
+    queryKey: ["workflow-runs", chatId],
+    queryFn: async (): Promise<WorkflowRun[]> => {
+      if (chatId === null) {
+        return [];
+      }
+      return IpcClient.getInstance().listWorkflowRuns(chatId);
+    },
+    enabled: chatId !== null,
+    meta: { showErrorToast: true },
+  });
+
+  const restartMutation = useMutation({
+    mutationFn: async (stepRunId: number): Promise<{ step: string }> => {
+      return IpcClient.getInstance().restartWorkflowFromStepRun(stepRunId);
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({
+        queryKey: ["workflow-runs", chatId],
+      });
+      if (chatId !== null) {
+        // Refresh the chat so the workflow banner shows the new step.
+        const chat = await IpcClient.getInstance().getChat(chatId);
+        setChatMetadataById((prev) => {
+          const next = new Map(prev);
+          next.set(chatId, chat);
+          return next;
+        });
+      }
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    runs: runsQuery.data ?? [],
+    isLoading: runsQuery.isLoading,
+    refreshRuns: runsQuery.refetch,
+    restartFromStepRun: restartMutation.mutateAsync,
+    isRestarting: restartMutation.isPending,
+  };
+}
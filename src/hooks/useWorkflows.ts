@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSetAtom } from "jotai";
+import { IpcClient } from "@/ipc/ipc_client";
+import { chatMetadataByIdAtom } from "@/atoms/chatAtoms";
+import type {
+  CreateWorkflowParams,
+  UpdateWorkflowParams,
+  WorkflowDto,
+} from "@/ipc/ipc_types";
+
+export function useWorkflows(appId: number | null) {
+  const queryClient = useQueryClient();
+  const setChatMetadataById = useSetAtom(chatMetadataByIdAtom);
+
+  const listQuery = useQuery({
+    queryKey: ["workflows", appId],
+    queryFn: async (): Promise<WorkflowDto[]> => {
+      return IpcClient.getInstance().listWorkflows(appId ?? undefined);
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["workflows"] });
+
+  const createMutation = useMutation({
+    mutationFn: async (params: CreateWorkflowParams): Promise<WorkflowDto> => {
+      return IpcClient.getInstance().createWorkflow(params);
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (params: UpdateWorkflowParams): Promise<WorkflowDto> => {
+      return IpcClient.getInstance().updateWorkflow(params);
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number): Promise<void> => {
+      return IpcClient.getInstance().deleteWorkflow(id);
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  const setChatWorkflowMutation = useMutation({
+    mutationFn: async ({
+      chatId,
+      workflowId,
+    }: {
+      chatId: number;
+      workflowId: number | null;
+    }): Promise<void> => {
+      const ipc = IpcClient.getInstance();
+      await ipc.setChatWorkflow({ chatId, workflowId });
+      // Refresh the chat so the header and input pick up the new workflow.
+      const chat = await ipc.getChat(chatId);
+      setChatMetadataById((prev) => {
+        const next = new Map(prev);
+        next.set(chatId, chat);
+        return next;
+      });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    workflows: listQuery.data ?? [],
+    isLoading: listQuery.isLoading,
+    createWorkflow: createMutation.mutateAsync,
+    updateWorkflow: updateMutation.mutateAsync,
+    deleteWorkflow: deleteMutation.mutateAsync,
+    setChatWorkflow: setChatWorkflowMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,29 @@
+import { IpcMainInvokeEvent } from "electron";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import type { PreviewRuntimeError } from "../ipc_types";
+import { recordRuntimeError, requestAgentLoopStop } from "../utils/agent_loop";
+
+const logger = log.scope("agent_loop_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerAgentLoopHandlers() {
+  // Stops the loop, cutting short a fix turn that is streaming, and keeps
+  // the changes made so far, unlike cancelling the stream
+  handle(
+    "agent-loop:stop",
+    async (_e: IpcMainInvokeEvent, chatId: number): Promise<void> => {
+      requestAgentLoopStop(chatId);
+    },
+  );
+
+  handle(
+    "agent-loop:report-runtime-error",
+    async (
+      _e: IpcMainInvokeEvent,
+      { appId, message }: PreviewRuntimeError,
+    ): Promise<void> => {
+      recordRuntimeError(appId, message);
+    },
+  );
+}
@@ -47,6 +47,7 @@ import { Worker } from "worker_threads";
 import { createFromTemplate } from "./createFromTemplate";
 import { gitCommit } from "../utils/git_utils";
 import { safeSend } from "../utils/safe_sender";
+import { evaluateCommandPolicy } from "../shared/command_policy";
 import { normalizePath } from "../../../shared/normalizePath";
 import { isServerFunction } from "@/supabase_admin/supabase_utils";
 import { getVercelTeamSlug } from "../utils/vercel_utils";
@@ -1482,6 +1483,18 @@ export function registerAppHandlers() {
           throw new Error("App not found");
         }
 
+        const decision = evaluateCommandPolicy(
+          trimmedCommand,
+          app.commandPolicy,
+          {
+            autoApprove: false,
+            defaultRuntime: readSettings().runtimeMode2 ?? "host",
+          },
+        );
+        if (decision.action === "deny") {
+          throw new Error(decision.reason);
+        }
+
         const existingProcess = runningApps.get(appId);
         if (existingProcess) {
           logger.log(
@@ -17,7 +17,6 @@ import { and, eq, isNull } from "drizzle-orm";
 import {
   constructSystemPrompt,
   readAiRules,
-  ROUTER_SYSTEM_PROMPT,
 } from "../../prompts/system_prompt";
 import {
   SUPABASE_AVAILABLE_SYSTEM_PROMPT,
@@ -25,16 +24,34 @@ import {
 } from "../../prompts/supabase_prompt";
 import { getDyadAppPath } from "../../paths/paths";
 import { readSettings } from "../../main/settings";
-import type { ChatResponseEnd, ChatStreamParams } from "../ipc_types";
+import type {
+  AgentIterationStatus,
+  AgentLoopProgress,
+  ChatResponseEnd,
+  ChatStreamParams,
+  ComponentSelection,
+  MessageRouting,
+  SubAgentProgress,
+  UsageKind,
+} from "../ipc_types";
 import {
   CodebaseFile,
   extractCodebase,
   readFileWithCache,
 } from "../../utils/codebase";
-import { processFullResponseActions } from "../processors/response_processor";
+import {
+  processFullResponseActions,
+  rollbackStagedWrites,
+  stageDyadWriteTag,
+} from "../processors/response_processor";
 import { streamTestResponse } from "./testing_chat_handlers";
 import { getTestResponse } from "./testing_chat_handlers";
-import { getModelClient, ModelClient } from "../utils/get_model_client";
+import {
+  getFallbackChainModelClient,
+  getModelClient,
+  ModelClient,
+} from "../utils/get_model_client";
+import { FallbackModel } from "../utils/fallback_ai_model";
 import log from "electron-log";
 import {
   getSupabaseContext,
@@ -46,11 +63,13 @@ import * as path from "path";
 import * as os from "os";
 import * as crypto from "crypto";
 import { readFile, writeFile, unlink } from "fs/promises";
-import { exec } from "node:child_process";
-import { promisify } from "node:util";
-
-const execAsync = promisify(exec);
-import { getMaxTokens, getTemperature } from "../utils/token_utils";
+import {
+  countTokens,
+  fitMessagesToTokenBudget,
+  getContextWindow,
+  getMaxTokens,
+  getTemperature,
+} from "../utils/token_utils";
 import { MAX_CHAT_TURNS_IN_CONTEXT } from "@/constants/settings_constants";
 import { validateChatContext } from "../utils/context_paths_utils";
 import { GoogleGenerativeAIProviderOptions } from "@ai-sdk/google";
@@ -58,7 +77,11 @@ import { mcpServers } from "../../db/schema";
 import { requireMcpToolConsent } from "../utils/mcp_consent";
 
 import { getExtraProviderOptions } from "../utils/thinking_utils";
-import type { UserSettings } from "../../lib/schemas";
+import type {
+  ChatMode,
+  LargeLanguageModel,
+  UserSettings,
+} from "../../lib/schemas";
 
 import { safeSend } from "../utils/safe_sender";
 import { cleanFullResponse } from "../utils/cleanFullResponse";
@@ -70,7 +93,9 @@ import {
   getDyadWriteTags,
   getDyadDeleteTags,
   getDyadRenameTags,
+  toDyadWriteTag,
 } from "../utils/dyad_tag_parser";
+import { DyadTagStreamParser } from "../utils/dyad_tag_stream_parser";
 import { fileExists } from "../utils/file_utils";
 import { FileUploadsState } from "../utils/file_uploads_state";
 import { OpenAIResponsesProviderOptions } from "@ai-sdk/openai";
@@ -82,10 +107,62 @@ import { replacePromptReference } from "../utils/replacePromptReference";
 import { mcpManager } from "../utils/mcp_manager";
 import z from "zod";
 import { maybeRunGeminiWebSearch } from "../utils/gemini_web_search";
-import { detectTaskType } from "../utils/task_detector";
-import { WorkflowManager, WorkflowStep } from "../workflow/workflow_manager";
+import { classifyTask } from "../utils/task_classifiers";
+import { WorkflowManager } from "../workflow/workflow_manager";
+import { buildGateFailurePrompt } from "../workflow/workflow_gates";
+import { WorkflowRunManager } from "../workflow/workflow_runs";
+import { getParallelSteps } from "../workflow/workflow_definitions";
+import { runParallelWorkflowSteps } from "../workflow/workflow_subagents";
 import { StreamingMonitor } from "../utils/streaming_monitor";
-import { FastMonitor } from "../utils/fast_monitor";
+import { FastMonitor, type ViolationResult } from "../utils/fast_monitor";
+import {
+  buildContinuationPrompt,
+  formatCorrectionMarker,
+  getResumePoint,
+  removeCorrectionTags,
+} from "../utils/stream_correction";
+import { loadGuardrailRules } from "../utils/guardrail_config";
+import { logViolation } from "../utils/guardrail_logger";
+import {
+  checkChatBudget,
+  estimateUsage,
+  formatBudgetError,
+  normalizeUsage,
+  recordUsage,
+} from "../utils/usage_ledger";
+import {
+  isCodeIndexEnabled,
+  rankFilesForPrompt,
+} from "../utils/code_index_store";
+import { expandContextForPrompt } from "../utils/import_graph_store";
+import {
+  AGENT_TOOL_NAMES,
+  createAgentTools,
+  stripModelToolAttributes,
+} from "../utils/agent_tools";
+import { runAgentCommand } from "../utils/agent_command";
+import {
+  finishPlanStep,
+  savePlanFromResponse,
+  startPlanStep,
+} from "../utils/chat_plans";
+import {
+  finishAgentLoop,
+  startAgentLoop,
+  verifyAgentResponse,
+} from "../utils/agent_loop";
+import {
+  DEFAULT_AGENT_LOOP_SETTINGS,
+  createAgentFixPrompt,
+  formatIterationTag,
+  isVerificationPassing,
+} from "../shared/agent_loop";
+import { formatNetworkRequestForPrompt } from "../shared/network_requests";
+import { escapeDyadTags, escapeRegExp, escapeXml } from "../shared/escape";
+import {
+  formatContextExpansion,
+  type ExpandedContextFile,
+} from "../utils/import_graph";
 
 type AsyncIterableStream<T> = AsyncIterable<T> & ReadableStream<T>;
 
@@ -97,6 +174,14 @@ const activeStreams = new Map<number, AbortController>();
 // Track partial responses for cancelled streams
 const partialResponses = new Map<number, string>();
 
+// Tokens kept free for the response when the model doesn't declare its
+// maximum output
+const DEFAULT_RESPONSE_TOKENS = 8_000;
+
+// Share of the context window left after the response that the codebase
+// may fill when the code index picks files
+const CODEBASE_CONTEXT_SHARE = 0.6;
+
 // Directory for storing temporary files
 const TEMP_DIR = path.join(os.tmpdir(), "dyad-attachments");
 
@@ -112,7 +197,7 @@ const TEXT_FILE_EXTENSIONS = [
   ".css",
 ];
 
-function getChatMockSystemPrompt(appPath: string, chatMode: "build" | "ask" | "agent" = "build"): string {
+function getChatMockSystemPrompt(appPath: string, chatMode: ChatMode = "build"): string {
   // In agent mode, Codex should use MCP tools, not dyad tags
   if (chatMode === "agent") {
     return `
@@ -182,6 +267,7 @@ Full file content here
 \`\`\`
 
 - **\`<dyad-write>\`** - Create or update files (FULL FILE CONTENT)
+- **\`<dyad-patch path="file.tsx">\`** - Change parts of an existing file with SEARCH/REPLACE blocks
 - **\`<dyad-rename from="old.tsx" to="new.tsx">\`** - Rename/move files
 - **\`<dyad-delete path="file.tsx">\`** - Delete files
 
@@ -202,9 +288,9 @@ Dyad needs to track ALL file changes through its tag system so:
 - Turbo Edits can optimize file operations
 
 ## If You're Confused
-- If you think you should use \`apply_patch\` → Use \`<dyad-write>\` instead
+- If you think you should use \`apply_patch\` → Use \`<dyad-patch>\` instead
 - If you think you should use \`turbo_edit\` → Use \`<dyad-write>\` instead
-- If you want to edit a file → Use \`<dyad-write>\` with FULL file content
+- If you want to edit a file → Use \`<dyad-write>\` with FULL file content, or \`<dyad-patch>\` for a few changes to a large file
 - If you want to run a command → Use \`<dyad-run-command>\`
 
 ## ❌ DO NOT USE WEB SEARCH FOR LOCAL OPERATIONS
@@ -231,19 +317,44 @@ Dyad needs to track ALL file changes through its tag system so:
 `;
 }
 
+// Lines around the selected component's opening tag, with the tag's line
+// marked for the AI
+async function readComponentSnippet(
+  appPath: string,
+  component: ComponentSelection,
+): Promise<string> {
+  try {
+    const componentFileContent = await readFile(
+      path.join(appPath, component.relativePath),
+      "utf8",
+    );
+    const lines = componentFileContent.split("\n");
+    const selectedIndex = component.lineNumber - 1;
+
+    // Let's get one line before and three after for context.
+    const startIndex = Math.max(0, selectedIndex - 1);
+    const endIndex = Math.min(lines.length, selectedIndex + 4);
+
+    const snippetLines = lines.slice(startIndex, endIndex);
+    const selectedLineInSnippetIndex = selectedIndex - startIndex;
+
+    if (snippetLines[selectedLineInSnippetIndex]) {
+      snippetLines[selectedLineInSnippetIndex] =
+        `${snippetLines[selectedLineInSnippetIndex]} // <-- EDIT HERE`;
+    }
+
+    return snippetLines.join("\n");
+  } catch (err) {
+    logger.error(`Error reading selected component file content: ${err}`);
+    return "[component snippet not available]";
+  }
+}
+
 async function isTextFile(filePath: string): Promise<boolean> {
   const ext = path.extname(filePath).toLowerCase();
   return TEXT_FILE_EXTENSIONS.includes(ext);
 }
 
-function escapeXml(unsafe: string): string {
-  return unsafe
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;");
-}
-
 // Safely parse an MCP tool key that combines server and tool names.
 // We split on the LAST occurrence of "__" to avoid ambiguity if either
 // side contains "__" as part of its sanitized name.
@@ -278,7 +389,8 @@ async function processStreamChunks({
   processResponseChunkUpdate,
   isCodexCli = false,
   monitor = null,
-  settings,
+  renderToolResult,
+  toolMarkup = [],
 }: {
   fullStream: AsyncIterableStream<TextStreamPart<ToolSet>>;
   fullResponse: string;
@@ -288,8 +400,11 @@ async function processStreamChunks({
     fullResponse: string;
   }) => Promise<string>;
   isCodexCli?: boolean;
-  monitor?: StreamingMonitor | FastMonitor | null;
-  settings?: UserSettings;
+  monitor?: FastMonitor | null;
+  // Chat markup for the results of the agent mode tools
+  renderToolResult?: (toolCallId: string) => string | undefined;
+  // Collects that markup, across the turns of a response
+  toolMarkup?: string[];
 }): Promise<{ fullResponse: string; incrementalResponse: string }> {
   let incrementalResponse = "";
   let inThinkingBlock = false;
@@ -318,29 +433,28 @@ async function processStreamChunks({
       chunk += part.text;
 
       // INSTANT monitoring - check EVERY chunk, no delays
-      if (monitor && settings?.enableFastCorrection) {
-        const result = (monitor as any).checkChunk(fullResponse + chunk);
+      if (monitor) {
+        const result = monitor.checkChunk(fullResponse + chunk);
 
         // INSTANT ABORT on violation
-        if (result.hasViolation && result.correction) {
+        if (result.hasViolation) {
           logger.warn(`⚡ Instant abort: ${result.violationType}`);
-
-          // Store correction
-          (abortController as any)._correctionNeeded = result.correction;
-          (abortController as any)._violationType = result.violationType;
+          (abortController as any)._violation = result;
+
+          // Keep the valid prefix, the caller resumes the stream from there
+          const response = fullResponse + chunk;
+          fullResponse = await processResponseChunkUpdate({
+            fullResponse: response.slice(
+              0,
+              getResumePoint(response, result.index ?? fullResponse.length),
+            ),
+          });
 
           // STOP NOW
           abortController.abort();
           break;
         }
       }
-
-      // Legacy monitor (slower, async)
-      if (monitor && settings?.enableRealtimeMonitoring && !(monitor instanceof FastMonitor)) {
-        monitor.analyzeChunk(chunk).catch((error: Error) => {
-          logger.error("Monitor error:", error);
-        });
-      }
     } else if (part.type === "reasoning-delta") {
       if (!inThinkingBlock) {
         chunk = "<think>";
@@ -354,14 +468,23 @@ async function processStreamChunks({
         codexExecInputs.set(toolCallId, parsedInput);
         continue;
       }
+      // Agent tools are shown once, with their result
+      if (renderToolResult && AGENT_TOOL_NAMES.includes(part.toolName)) {
+        continue;
+      }
       const { serverName, toolName } = parseMcpToolKey(part.toolName);
       const content = escapeDyadTags(JSON.stringify(part.input));
       chunk = `<dyad-mcp-tool-call server="${serverName}" tool="${toolName}">\n${content}\n</dyad-mcp-tool-call>\n`;
     } else if (part.type === "tool-result") {
       // Cast to any because the TypeScript definition for ToolResultPart might be incomplete regarding 'result'
       const toolResult = (part as any).result;
+      const agentToolMarkup =
+        renderToolResult && toolCallId ? renderToolResult(toolCallId) : undefined;
 
-      if (isCodexCli && part.toolName === "patch") {
+      if (agentToolMarkup) {
+        chunk = agentToolMarkup;
+        toolMarkup.push(agentToolMarkup);
+      } else if (isCodexCli && part.toolName === "patch") {
         const writeTags = codexPatchToDyadWrites(toolResult);
         if (writeTags.length > 0) {
           chunk = writeTags.join("\n") + "\n";
@@ -438,6 +561,7 @@ async function processStreamChunks({
     fullResponse += chunk;
     incrementalResponse += chunk;
     fullResponse = cleanFullResponse(fullResponse);
+    fullResponse = stripModelToolAttributes(fullResponse, toolMarkup);
     fullResponse = await processResponseChunkUpdate({
       fullResponse,
     });
@@ -556,6 +680,22 @@ export function registerChatStreamHandlers() {
         throw new Error(`Chat not found: ${req.chatId}`);
       }
 
+      // The renderer asks before sending past the soft limit; the hard limit
+      // is enforced here too.
+      const budget = await checkChatBudget(req.chatId);
+      if (budget.status === "hard-limit") {
+        safeSend(event.sender, "chat:response:error", {
+          chatId: req.chatId,
+          error: formatBudgetError(budget),
+        });
+        activeStreams.delete(req.chatId);
+        return "error";
+      }
+
+      if (req.planStep) {
+        await startPlanStep(req.planStep);
+      }
+
       // Handle redo option: remove the most recent messages if needed
       if (req.redo) {
         // Get the most recent messages
@@ -666,45 +806,47 @@ export function registerChatStreamHandlers() {
       } catch (e) {
         logger.error("Failed to inline referenced prompts:", e);
       }
-      if (req.selectedComponent) {
-        let componentSnippet = "[component snippet not available]";
-        try {
-          const componentFileContent = await readFile(
-            path.join(
-              getDyadAppPath(chat.app.path),
-              req.selectedComponent.relativePath,
-            ),
-            "utf8",
-          );
-          const lines = componentFileContent.split("\n");
-          const selectedIndex = req.selectedComponent.lineNumber - 1;
-
-          // Let's get one line before and three after for context.
-          const startIndex = Math.max(0, selectedIndex - 1);
-          const endIndex = Math.min(lines.length, selectedIndex + 4);
-
-          const snippetLines = lines.slice(startIndex, endIndex);
-          const selectedLineInSnippetIndex = selectedIndex - startIndex;
-
-          if (snippetLines[selectedLineInSnippetIndex]) {
-            snippetLines[selectedLineInSnippetIndex] =
-              `${snippetLines[selectedLineInSnippetIndex]} // <-- EDIT HERE`;
-          }
-
-          componentSnippet = snippetLines.join("\n");
-        } catch (err) {
-          logger.error(`Error reading selected component file content: ${err}`);
-        }
+      const selectedComponents = req.selectedComponents ?? [];
+      if (selectedComponents.length === 1) {
+        const [component] = selectedComponents;
+        const componentSnippet = await readComponentSnippet(
+          getDyadAppPath(chat.app.path),
+          component,
+        );
+        userPrompt += `\n\nSelected component: ${component.name} (file: ${component.relativePath})
 
-        userPrompt += `\n\nSelected component: ${req.selectedComponent.name} (file: ${req.selectedComponent.relativePath})
+Snippet:
+\`\`\`
+${componentSnippet}
+\`\`\`
+`;
+      } else if (selectedComponents.length > 1) {
+        // Numbered like the selection labels in the preview, so the prompt
+        // and an attached screenshot can refer to them by number
+        userPrompt += "\n\nSelected components:\n";
+        for (const [index, component] of selectedComponents.entries()) {
+          const componentSnippet = await readComponentSnippet(
+            getDyadAppPath(chat.app.path),
+            component,
+          );
+          userPrompt += `
+${index + 1}. ${component.name} (file: ${component.relativePath}:${component.lineNumber})
 
 Snippet:
 \`\`\`
 ${componentSnippet}
 \`\`\`
 `;
+        }
       }
-      await db
+      if (req.networkRequest) {
+        userPrompt += `\n\nNetwork request from the app preview:
+\`\`\`
+${formatNetworkRequestForPrompt(req.networkRequest)}
+\`\`\`
+`;
+      }
+      const [userMessage] = await db
         .insert(messages)
         .values({
           chatId: req.chatId,
@@ -713,6 +855,13 @@ ${componentSnippet}
         })
         .returning();
       const settings = readSettings();
+      // Steps of an approved plan are carried out in build mode, whatever
+      // mode the chat is in.
+      const chatMode: ChatMode = req.planStep
+        ? "build"
+        : (settings.selectedChatMode ?? "build");
+      // Modes that never change the app's files
+      const isReadOnlyMode = chatMode === "ask" || chatMode === "plan";
       // Only Dyad Pro requests have request ids.
       if (settings.enableDyadPro) {
         // Generate requestId early so it can be saved with the message
@@ -757,6 +906,61 @@ ${componentSnippet}
       const testResponse = getTestResponse(req.prompt);
 
       let targetModel = settings.selectedModel;
+      // Why this model was picked, saved with the response.
+      let routing: MessageRouting | undefined;
+      // Set when a fallback chain answered with a model other than the first.
+      let answeredModelName: string | undefined;
+
+      let cleanedPrompt = req.prompt;
+      // The step this prompt moved the workflow into, if any
+      let enteredWorkflowStep: string | null = null;
+
+      // Check for workflow commands
+      if (req.prompt.trim().startsWith("/workflow stop")) {
+        await WorkflowManager.stopWorkflow(req.chatId);
+        cleanedPrompt = "Workflow stopped.";
+        logger.info("Workflow stopped by user");
+      } else if (req.prompt.trim().startsWith("/workflow")) {
+        const step = await WorkflowManager.startWorkflow(req.chatId);
+        enteredWorkflowStep = step;
+        // Update the prompt for the AI context (the user still sees the original command in history)
+        cleanedPrompt =
+          req.prompt.replace("/workflow", "").trim() || "Start planning.";
+        logger.info(`Starting workflow: ${step}`);
+      } else if (req.prompt.trim().startsWith("/next")) {
+        const result = await WorkflowManager.advanceStep(req.chatId, {
+          app: {
+            id: updatedChat.app.id,
+            path: getDyadAppPath(updatedChat.app.path),
+            commandPolicy: updatedChat.app.commandPolicy,
+          },
+        });
+        if (result.status === "advanced") {
+          enteredWorkflowStep = result.step;
+          cleanedPrompt = `Proceed to the next step: ${result.step}.`;
+          logger.info(`Advancing workflow to: ${result.step}`);
+        } else if (result.status === "blocked") {
+          // Stay on the current step and send the model back with the
+          // failing gate output.
+          cleanedPrompt = buildGateFailurePrompt(
+            result.step,
+            result.failures,
+          );
+          logger.info(`Workflow step ${result.step} blocked by its gates`);
+        } else if (result.status === "completed") {
+          cleanedPrompt = "Workflow completed.";
+          logger.info("Workflow completed");
+        }
+      }
+      // Entering a parallel group runs its steps as sub-agents instead of a
+      // single response. Later prompts on the step, e.g. to fix its gates,
+      // are answered as usual.
+      const parallelSteps = enteredWorkflowStep
+        ? getParallelSteps(
+            await WorkflowManager.getDefinitionForChat(req.chatId),
+            enteredWorkflowStep,
+          )
+        : [];
 
       if (testResponse) {
         // For test prompts, use the dedicated function
@@ -767,46 +971,71 @@ ${componentSnippet}
           abortController,
           updatedChat,
         );
+      } else if (parallelSteps.length > 1) {
+        const result = await runParallelWorkflowSteps({
+          chatId: req.chatId,
+          appId: updatedChat.app.id,
+          appPath: getDyadAppPath(updatedChat.app.path),
+          chatContext: validateChatContext(updatedChat.app.chatContext),
+          steps: parallelSteps,
+          prompt: cleanedPrompt,
+          settings,
+          abortSignal: abortController.signal,
+          onProgress: (lanes) => {
+            safeSend(event.sender, "workflow:subagent-progress", {
+              chatId: req.chatId,
+              lanes,
+            } satisfies SubAgentProgress);
+          },
+        });
+        fullResponse = result.summary;
+        answeredModelName = [
+          ...new Set(result.lanes.map((lane) => lane.model)),
+        ].join(", ");
+        routing = {
+          taskType: "general",
+          classifier: "workflow",
+          explanation: `Workflow steps ${parallelSteps
+            .map((step) => `"${step.id}"`)
+            .join(", ")} ran as parallel sub-agents`,
+        };
+        // The sub-agents' changes are already merged, so the summary has
+        // nothing left to apply
+        await db
+          .update(messages)
+          .set({ commitHash: result.commitHash, approvalState: "approved" })
+          .where(eq(messages.id, placeholderAssistantMessage.id));
       } else {
         // Normal AI processing for non-test prompts
 
         // Extract codebase first for task detection
         const appPath = getDyadAppPath(updatedChat.app.path);
         const chatContext = validateChatContext(updatedChat.app.chatContext);
-        const { formattedOutput: codebaseInfo, files } = await extractCodebase({
+        // Files around the selected component and the files the prompt
+        // mentions, followed through the import graph
+        let contextExpansion: ExpandedContextFile[] = [];
+        try {
+          contextExpansion = await expandContextForPrompt(appPath, {
+            prompt: req.prompt,
+            selectedPaths: selectedComponents.map(
+              (component) => component.relativePath,
+            ),
+          });
+        } catch (error) {
+          logger.error("Failed to expand context with the import graph:", error);
+        }
+        const expandedPaths = contextExpansion.map((file) => file.path);
+        let { formattedOutput: codebaseInfo, files } = await extractCodebase({
           appPath,
           chatContext,
+          expandedPaths,
         });
 
         // AI Router: Use a model to classify the prompt and select target model
         targetModel = settings.selectedModel;
         let effectiveTaskType: any = undefined;
-        let cleanedPrompt = req.prompt;
-        let routerClassification: string | null = null;
         let systemPromptSuffix = "";
 
-        // Check for workflow commands
-        if (req.prompt.trim().startsWith("/workflow stop")) {
-          await WorkflowManager.stopWorkflow(req.chatId);
-          cleanedPrompt = "Workflow stopped.";
-          logger.info("Workflow stopped by user");
-        } else if (req.prompt.trim().startsWith("/workflow")) {
-          const step = await WorkflowManager.startWorkflow(req.chatId);
-          // Update the prompt for the AI context (the user still sees the original command in history)
-          cleanedPrompt =
-            req.prompt.replace("/workflow", "").trim() || "Start planning.";
-          logger.info(`Starting workflow: ${step}`);
-        } else if (req.prompt.trim().startsWith("/next")) {
-          const step = await WorkflowManager.advanceStep(req.chatId);
-          if (step) {
-            cleanedPrompt = `Proceed to the next step: ${step}.`;
-            logger.info(`Advancing workflow to: ${step}`);
-          } else {
-            cleanedPrompt = "Workflow completed.";
-            logger.info("Workflow completed");
-          }
-        }
-
         // Fetch the latest chat state (including workflow updates)
         const chatState = await WorkflowManager.getChatState(req.chatId);
         const isWorkflowActive = chatState?.workflowStatus === "active";
@@ -834,47 +1063,49 @@ ${componentSnippet}
           });
         }
 
-        // AI Router: Classify prompt if enabled
-        if (settings.enableAIRouter && settings.routerModel) {
-          try {
-            logger.log("AI Router enabled. Calling router model to classify prompt...");
-            const { modelClient: routerClient } = await getModelClient(
-              settings.routerModel,
-              settings,
-              appPath,
-            );
-
-            const routerMessages: ModelMessage[] = [
-              { role: "user", content: req.prompt }
-            ];
-
-            let routerResponse = "";
-            const routerStream = await streamText({
-              model: routerClient.model,
-              system: ROUTER_SYSTEM_PROMPT,
-              messages: routerMessages,
-            });
-
-            for await (const chunk of routerStream.textStream) {
-              routerResponse += chunk;
-            }
-
-            routerClassification = routerResponse.trim().toLowerCase();
-            logger.log(`Router classified prompt as: "${routerClassification}"`);
-          } catch (error) {
-            logger.error("Router failed, will fall back to other methods:", error);
-          }
-        }
+        const classification = await classifyTask({
+          params: {
+            userPrompt: req.prompt,
+            // Task detection looks at the first selected component
+            selectedComponent: selectedComponents[0],
+            codebaseFiles: files,
+            appPath,
+          },
+          settings,
+          override: req.taskTypeOverride,
+          chatId: req.chatId,
+        });
 
         if (isWorkflowActive && chatState?.workflowStep) {
-          // Check if we should override workflow with debugging
-          if (routerClassification === "debugging" && settings.taskModels?.debugging) {
+          // Check if we should override workflow with debugging. Only trust
+          // the router model and the user here, keyword matches are too noisy
+          // to take a step off its role.
+          const canOverrideStep =
+            classification.classifier === "router" ||
+            classification.classifier === "override";
+          if (
+            canOverrideStep &&
+            classification.taskType === "debugging" &&
+            settings.taskModels?.debugging
+          ) {
             targetModel = settings.taskModels.debugging;
             effectiveTaskType = "debugging";
-            logger.log("Workflow active but Router detected Debugging: Overriding model");
+            routing = classification;
+            logger.log("Workflow active but classifier detected Debugging: Overriding model");
           } else {
-            const step = chatState.workflowStep as WorkflowStep;
-            const taskType = WorkflowManager.getTaskTypeForStep(step);
+            const step = chatState.workflowStep;
+            const workflowDefinition = await WorkflowManager.getDefinition(
+              chatState.workflowId,
+            );
+            const taskType = WorkflowManager.getTaskTypeForStep(
+              workflowDefinition,
+              step,
+            );
+            routing = {
+              taskType,
+              classifier: "workflow",
+              explanation: `Workflow step "${step}" runs as a ${taskType} task`,
+            };
 
             // Override effectiveTaskType for model selection
             if (settings.taskModels?.useTaskBasedSwitching) {
@@ -892,68 +1123,111 @@ ${componentSnippet}
             }
 
             // Add step-specific system prompt
-            systemPromptSuffix += WorkflowManager.getSystemPromptForStep(step);
+            systemPromptSuffix += WorkflowManager.getSystemPromptForStep(
+              workflowDefinition,
+              step,
+            );
             logger.info(
               `Workflow active: step=${step}, taskType=${taskType}, model=${targetModel.name}`,
             );
           }
-        } else if (routerClassification) {
-          // Use classification to select model
-          if (routerClassification === "ultrathink" && settings.ultrathinkModel) {
+        } else {
+          routing = classification;
+          if (classification.ultrathink) {
+            cleanedPrompt = cleanedPrompt.replace(/\bultrathink\b/gi, "").trim();
+          }
+          if (classification.ultrathink && settings.ultrathinkModel) {
             targetModel = settings.ultrathinkModel;
-            cleanedPrompt = req.prompt.replace(/\bultrathink\b/gi, "").trim();
-            logger.log("Router selected Ultrathink model");
+            logger.log(`${classification.classifier} classifier selected Ultrathink model`);
           } else if (settings.taskModels?.useTaskBasedSwitching) {
-            // Map router classification to task type
-            if (routerClassification === "frontend" && settings.taskModels.frontend) {
-              targetModel = settings.taskModels.frontend;
-              logger.log("Router selected Frontend model");
-            } else if (routerClassification === "backend" && settings.taskModels.backend) {
-              targetModel = settings.taskModels.backend;
-              logger.log("Router selected Backend model");
-            } else if (routerClassification === "debugging" && settings.taskModels.debugging) {
-              targetModel = settings.taskModels.debugging;
-              logger.log("Router selected Debugging model");
+            effectiveTaskType = classification.taskType;
+            const taskModel =
+              classification.taskType !== "general"
+                ? settings.taskModels[classification.taskType]
+                : undefined;
+            if (taskModel) {
+              targetModel = taskModel;
             }
           }
-        } else {
-          // Fallback: use keyword detection if router is disabled or failed
-          const isUltrathink = req.prompt.toLowerCase().includes("ultrathink");
-          if (isUltrathink) {
-            cleanedPrompt = req.prompt.replace(/\bultrathink\b/gi, "").trim();
-            if (settings.ultrathinkModel) {
-              targetModel = settings.ultrathinkModel;
-              logger.log("Keyword detection: Ultrathink detected");
-            }
-          } else {
-            effectiveTaskType = settings.taskModels?.useTaskBasedSwitching
-              ? detectTaskType({
-                userPrompt: req.prompt,
-                selectedComponent: req.selectedComponent || undefined,
-                codebaseFiles: files,
-              })
-              : undefined;
-          }
         }
 
         logger.log(`Final model selection: ${targetModel.name}, Task type: ${effectiveTaskType || "none"}`);
 
+        // Ordered fallbacks configured for the task type, tried when the
+        // chosen model fails with one of the chain's error classes.
+        const fallbackChain =
+          settings.taskModels?.useTaskBasedSwitching &&
+          routing &&
+          !routing.ultrathink
+            ? settings.taskModels.fallbacks?.[routing.taskType]
+            : undefined;
+        const fallbackModels = (fallbackChain?.models ?? []).filter(
+          (model) =>
+            model.provider !== targetModel.provider ||
+            model.name !== targetModel.name,
+        );
+        let modelChain: LargeLanguageModel[] = [targetModel];
         const { modelClient, isEngineEnabled, isSmartContextEnabled } =
-          await getModelClient(
-            targetModel,
-            settings,
-            appPath,
-            effectiveTaskType,
-          );
+          fallbackModels.length > 0
+            ? await getFallbackChainModelClient(
+                [targetModel, ...fallbackModels],
+                settings,
+                { appPath, fallbackOn: fallbackChain?.fallbackOn },
+              ).then((result) => {
+                modelChain = result.chain;
+                return result;
+              })
+            : await getModelClient(
+                targetModel,
+                settings,
+                appPath,
+                effectiveTaskType,
+              );
         const isChatMock =
           modelClient.builtinProviderId === "chatmock";
 
-        // For smart context and selected component, we will mark the selected component's file as focused.
+        // With the code index on, a codebase too large for its share of the
+        // context window keeps only the files most relevant to the prompt.
+        if (!isEngineEnabled && isCodeIndexEnabled()) {
+          const tokenBudget = Math.floor(
+            ((await getContextWindow(targetModel)) -
+              ((await getMaxTokens(targetModel)) ?? DEFAULT_RESPONSE_TOKENS)) *
+              CODEBASE_CONTEXT_SHARE,
+          );
+          if (countTokens(codebaseInfo, targetModel) > tokenBudget) {
+            try {
+              const scores = await rankFilesForPrompt(appPath, req.prompt);
+              ({ formattedOutput: codebaseInfo, files } = await extractCodebase({
+                appPath,
+                chatContext,
+                expandedPaths,
+                relevance: {
+                  scores,
+                  tokenBudget,
+                  model: targetModel,
+                  focusedPaths: selectedComponents.map(
+                    (component) => component.relativePath,
+                  ),
+                },
+              }));
+            } catch (error) {
+              logger.error("Failed to rank files with the code index:", error);
+            }
+          }
+        }
+
+        // For smart context and selected components, we will mark the selected components' files as focused.
         // This means that we don't do the regular smart context handling, but we'll allow fetching
         // additional files through <dyad-read> as needed.
-        if (isSmartContextEnabled && req.selectedComponent) {
+        // The files expanded around it through the import graph are focused too.
+        if (isSmartContextEnabled && selectedComponents.length > 0) {
           for (const file of files) {
-            if (file.path === req.selectedComponent.relativePath) {
+            if (
+              selectedComponents.some(
+                (component) => component.relativePath === file.path,
+              ) ||
+              expandedPaths.includes(file.path)
+            ) {
               file.focused = true;
             }
           }
@@ -986,15 +1260,22 @@ ${componentSnippet}
         }
 
         logger.log(`Extracted codebase information from ${appPath}`);
+        // Show which files were added and why. Smart context reports the
+        // files it picked itself.
+        if (contextExpansion.length > 0 && !isSmartContextEnabled) {
+          fullResponse = formatContextExpansion(contextExpansion);
+        }
+        const codebaseTokens = countTokens(codebaseInfo, targetModel);
         logger.log(
           "codebaseInfo: length",
           codebaseInfo.length,
-          "estimated tokens",
-          codebaseInfo.length / 4,
+          "tokens",
+          codebaseTokens,
         );
 
         // Prepare message history for the AI
         const messageHistory = updatedChat.messages.map((message) => ({
+          id: message.id,
           role: message.role as "user" | "assistant" | "system",
           content: message.content,
         }));
@@ -1050,12 +1331,9 @@ ${componentSnippet}
 
         let systemPrompt = constructSystemPrompt({
           aiRules: await readAiRules(getDyadAppPath(updatedChat.app.path)),
-          chatMode:
-            settings.selectedChatMode === "agent"
-              ? "build"
-              : settings.selectedChatMode,
+          chatMode: chatMode === "agent" ? "build" : chatMode,
           enableThinking: isThinkingProvider,
-          taskType: effectiveTaskType || routerClassification || undefined,
+          taskType: effectiveTaskType || undefined,
         });
 
         if (systemPromptSuffix) {
@@ -1084,7 +1362,7 @@ ${componentSnippet}
 `;
 
         if (isChatMock) {
-          systemPrompt += getChatMockSystemPrompt(appPath, settings.selectedChatMode);
+          systemPrompt += getChatMockSystemPrompt(appPath, chatMode);
         }
 
         // Add information about mentioned apps if any
@@ -1194,13 +1472,34 @@ This conversation includes one or more image attachments. When the user uploads
             ] as const)
             : [];
 
+        // Drop the oldest turns that don't fit in the model's context window
+        // next to the system prompt, codebase and the response.
+        const contextWindow = await getContextWindow(targetModel);
+        const historyBudget =
+          contextWindow -
+          ((await getMaxTokens(targetModel)) ?? DEFAULT_RESPONSE_TOKENS) -
+          countTokens(systemPrompt, targetModel) -
+          (isEngineEnabled ? 0 : codebaseTokens) -
+          countTokens(otherAppsCodebaseInfo, targetModel);
+        const fittedMessageHistory = fitMessagesToTokenBudget(
+          limitedMessageHistory,
+          historyBudget,
+          targetModel,
+        );
+        if (fittedMessageHistory.length < limitedMessageHistory.length) {
+          logger.log(
+            `Dropped ${limitedMessageHistory.length - fittedMessageHistory.length} messages to fit the ${contextWindow} token context window`,
+          );
+          limitedMessageHistory = fittedMessageHistory;
+        }
+
         const limitedHistoryChatMessages = limitedMessageHistory.map((msg) => ({
           role: msg.role as "user" | "assistant" | "system",
           // Why remove thinking tags?
           // Thinking tags are generally not critical for the context
           // and eats up extra tokens.
           content:
-            settings.selectedChatMode === "ask"
+            chatMode === "ask"
               ? removeDyadTags(removeNonEssentialTags(msg.content))
               : removeNonEssentialTags(msg.content),
         }));
@@ -1214,6 +1513,7 @@ This conversation includes one or more image attachments. When the user uploads
         const webSearchTools = createWebSearchTool({
           settings,
           abortSignal: abortController.signal,
+          chatId: req.chatId,
         });
 
         // Check if the last message should include attachments
@@ -1248,6 +1548,9 @@ This conversation includes one or more image attachments. When the user uploads
             } satisfies ModelMessage,
           ];
         }
+        // Tokens of every turn streamed for this response, which is what the
+        // agent loop's budget limits
+        let tokensStreamed = 0;
         const simpleStreamText = async ({
           chatMessages,
           modelClient,
@@ -1255,6 +1558,8 @@ This conversation includes one or more image attachments. When the user uploads
           systemPromptOverride = systemPrompt,
           dyadDisableFiles = false,
           files,
+          usageKind = isSummarizeIntent ? "summarization" : "chat",
+          abortSignal = abortController.signal,
         }: {
           chatMessages: ModelMessage[];
           modelClient: ModelClient;
@@ -1262,6 +1567,8 @@ This conversation includes one or more image attachments. When the user uploads
           tools?: ToolSet;
           systemPromptOverride?: string;
           dyadDisableFiles?: boolean;
+          usageKind?: UsageKind;
+          abortSignal?: AbortSignal;
         }) => {
           if (isEngineEnabled) {
             logger.log(
@@ -1342,6 +1649,18 @@ This conversation includes one or more image attachments. When the user uploads
             providerOptions.google = googleOptions;
           }
 
+          // A fallback chain reports the id of the model that answered.
+          const getUsageModel = () => {
+            const modelId = modelClient.model.modelId;
+            const model =
+              modelChain.find((model) => model.name === modelId) ??
+              targetModel;
+            return { provider: model.provider, model: modelId };
+          };
+          const messagesToSend = chatMessages.filter((m) => m.content);
+          // Kept to estimate the usage if the stream is stopped early
+          let streamedText = "";
+
           return streamText({
             headers: isAnthropic
               ? {
@@ -1356,7 +1675,50 @@ This conversation includes one or more image attachments. When the user uploads
             providerOptions,
             system: systemPromptOverride,
             tools,
-            messages: chatMessages.filter((m) => m.content),
+            messages: messagesToSend,
+            onChunk: ({ chunk }) => {
+              if (
+                chunk.type === "text-delta" ||
+                chunk.type === "reasoning-delta"
+              ) {
+                streamedText += chunk.text;
+              }
+            },
+            onFinish: async ({ totalUsage }) => {
+              const { provider, model } = getUsageModel();
+              const usage = normalizeUsage(provider, totalUsage);
+              tokensStreamed += usage.inputTokens + usage.outputTokens;
+              await recordUsage({
+                kind: usageKind,
+                provider,
+                model,
+                usage,
+                appId: updatedChat.app.id,
+                chatId: req.chatId,
+                messageId: placeholderAssistantMessage.id,
+              });
+            },
+            // Stopped by the user or a guardrail before the provider
+            // reported usage, which is still billed.
+            onAbort: async () => {
+              const { provider, model } = getUsageModel();
+              const usage = estimateUsage(targetModel, {
+                system: systemPromptOverride,
+                messages: messagesToSend,
+                output: streamedText,
+              });
+              tokensStreamed += usage.inputTokens + usage.outputTokens;
+              await recordUsage({
+                kind: usageKind,
+                provider,
+                model,
+                usage,
+                appId: updatedChat.app.id,
+                chatId: req.chatId,
+                messageId: placeholderAssistantMessage.id,
+                estimated: true,
+              });
+            },
             onError: (error: any) => {
               logger.error("Error streaming text:", error);
               let errorMessage = (error as any)?.error?.message;
@@ -1375,12 +1737,20 @@ This conversation includes one or more image attachments. When the user uploads
               // Clean up the abort controller
               activeStreams.delete(req.chatId);
             },
-            abortSignal: abortController.signal,
+            abortSignal,
           });
         };
 
         let lastDbSaveAt = 0;
 
+        // Files are only written ahead of the full response when they would be
+        // applied automatically at the end anyway.
+        // Plan steps are applied as soon as they finish; approving the plan
+        // approved them.
+        const shouldStageWrites =
+          (settings.autoApproveChanges || !!req.planStep) && !isReadOnlyMode;
+        const tagStreamParser = new DyadTagStreamParser();
+
         const processResponseChunkUpdate = async ({
           fullResponse,
         }: {
@@ -1398,6 +1768,27 @@ This conversation includes one or more image attachments. When the user uploads
               supabaseClientCode,
             );
           }
+          for (const tagEvent of tagStreamParser.sync(fullResponse)) {
+            if (
+              shouldStageWrites &&
+              tagEvent.type === "close" &&
+              tagEvent.tag === "dyad-write"
+            ) {
+              const writeTag = toDyadWriteTag(tagEvent);
+              if (!writeTag) continue;
+              try {
+                await stageDyadWriteTag({
+                  chatId: req.chatId,
+                  appPath,
+                  tag: writeTag,
+                });
+              } catch (error) {
+                // Not fatal: the file is written again once the response is
+                // complete, which reports the error properly.
+                logger.warn(`Failed to stage ${writeTag.path}:`, error);
+              }
+            }
+          }
           // Store the current partial response
           partialResponses.set(req.chatId, fullResponse);
           // Save to DB (in case user is switching chats during the stream)
@@ -1428,66 +1819,52 @@ This conversation includes one or more image attachments. When the user uploads
           return fullResponse;
         };
 
-        if (settings.selectedChatMode === "agent") {
-          const tools = await getMcpTools(event);
+        // Markup rendered for the agent tools' results in this response
+        const toolMarkup: string[] = [];
+        // Agent mode's tools; each turn gets its own session, so the fix
+        // turns of the verify loop start from the files as they are then
+        const createAgentToolSet = async () => {
+          const agentTools = createAgentTools({
+            appId: updatedChat.app.id,
+            appPath: getDyadAppPath(updatedChat.app.path),
+            commandPolicy: updatedChat.app.commandPolicy,
+          });
+          const tools = combineToolSets(
+            await getMcpTools(event),
+            agentTools.tools,
+            {
+              "execute_command": {
+                description:
+                  "Run a shell command in the app directory. Prefer the file, search and test tools; use this for anything they don't cover, e.g. installing packages.",
+                inputSchema: z.object({
+                  command: z.string().describe("The shell command to execute"),
+                }),
+                // Checked against the app's command policy, which may ask
+                // the user first, and recorded in the app's audit log
+                execute: async ({ command }, { abortSignal }) =>
+                  runAgentCommand({
+                    sender: event.sender,
+                    appId: updatedChat.app.id,
+                    chatId: req.chatId,
+                    command,
+                    abortSignal,
+                  }),
+              },
+            },
+            webSearchTools,
+          );
+          return { agentTools, tools };
+        };
+
+        // Agent mode's tools write its changes, so it has no build pass: the
+        // pass's dyad-writes could replace what the tools wrote
+        if (chatMode === "agent") {
+          const { agentTools, tools } = await createAgentToolSet();
 
           const { fullStream } = await simpleStreamText({
             chatMessages: limitedHistoryChatMessages,
             modelClient,
-            tools: combineToolSets(
-              tools,
-              {
-                "generate-code": {
-                  description:
-                    "ALWAYS use this tool whenever generating or editing code for the codebase.",
-                  inputSchema: z.object({}),
-                  execute: async () => "",
-                },
-                "execute_command": {
-                  description:
-                    "Run a shell command on the local machine. Use this for listing files, reading files, running tests, etc.",
-                  inputSchema: z.object({
-                    command: z.string().describe("The shell command to execute"),
-                  }),
-                  execute: async ({ command }) => {
-                    try {
-                      const { stdout, stderr } = await execAsync(command, {
-                        cwd: getDyadAppPath(updatedChat.app.path),
-                      });
-                      return JSON.stringify({ stdout, stderr });
-                    } catch (error: any) {
-                      return JSON.stringify({
-                        stdout: error.stdout || "",
-                        stderr: error.stderr || error.message,
-                        error: error.message,
-                      });
-                    }
-                  },
-                },
-                "exec": {
-                  description:
-                    "Alias for execute_command. Run a shell command on the local machine.",
-                  inputSchema: z.object({
-                    command: z.string().describe("The shell command to execute"),
-                  }),
-                  execute: async ({ command }) => {
-                    try {
-                      const { stdout, stderr } = await execAsync(command, {
-                        cwd: getDyadAppPath(updatedChat.app.path),
-                      });
-                      return JSON.stringify({ stdout, stderr });
-                    } catch (error: any) {
-                      return JSON.stringify({
-                        stdout: error.stdout || "",
-                        stderr: error.stderr || error.message,
-                        error: error.message,
-                      });
-                    }
-                  },
-                },
-              },
-              webSearchTools,
-            ),
+            tools,
             systemPromptOverride: constructSystemPrompt({
               aiRules: await readAiRules(getDyadAppPath(updatedChat.app.path)),
               chatMode: "agent",
@@ -1504,50 +1881,59 @@ This conversation includes one or more image attachments. When the user uploads
             chatId: req.chatId,
             processResponseChunkUpdate,
             isCodexCli: false,
+            renderToolResult: agentTools.renderToolResult,
+            toolMarkup,
           });
           fullResponse = result.fullResponse;
-          chatMessages.push({
-            role: "assistant",
-            content: fullResponse,
-          });
-          chatMessages.push({
-            role: "user",
-            content: "OK.",
+        } else {
+          // When calling streamText, the messages need to be properly formatted for mixed content
+          let { fullStream } = await simpleStreamText({
+            chatMessages,
+            modelClient,
+            files: files,
+            tools: combineToolSets(webSearchTools),
           });
-        }
 
-        // When calling streamText, the messages need to be properly formatted for mixed content
-        let { fullStream } = await simpleStreamText({
-          chatMessages,
-          modelClient,
-          files: files,
-          tools: combineToolSets(webSearchTools),
-        });
-
-        // Process the stream as before
-        // Process the stream with support for stop-correct-resume
-        let correctionAttempts = 0;
-        const MAX_CORRECTION_ATTEMPTS = settings.maxCorrectionAttempts || 2;
+          // Process the stream as before
+          // Process the stream with support for stop-correct-resume
+          let correctionAttempts = 0;
+          const MAX_CORRECTION_ATTEMPTS = settings.maxCorrectionAttempts || 2;
+
+          // The monitors check the same guardrail rules as the validator that
+          // runs once the response is complete.
+          const guardrailStep =
+            isWorkflowActive && chatState?.workflowStep
+              ? chatState.workflowStep
+              : null;
+          const guardrailOptions = {
+            mode: chatMode,
+            workflowStep: guardrailStep,
+            allowedTags: guardrailStep
+              ? WorkflowManager.getAllowedTagsForStep(
+                  await WorkflowManager.getDefinition(chatState!.workflowId),
+                  guardrailStep,
+                )
+              : null,
+            rules: loadGuardrailRules(getDyadAppPath(chat.app.path)),
+          };
 
-        while (true) {
-          try {
-            // Initialize monitor if enabled
-            let monitor: StreamingMonitor | FastMonitor | null = null;
-            if (settings.enableFastCorrection) {
-              monitor = new FastMonitor({
-                mode: settings.selectedChatMode || 'build',
-                workflowStep: (chat as any).workflowStep,
-              });
-            } else if (settings.enableRealtimeMonitoring && settings.routerModel) {
-              monitor = new StreamingMonitor({
-                routerModel: settings.routerModel,
-                settings,
-                appPath: getDyadAppPath(chat.app.path),
-                mode: settings.selectedChatMode || 'build',
-                workflowStep: (chat as any).workflowStep,
-              });
-            }
+          // Router-written corrections when the router is set up for it,
+          // otherwise the rules' canned corrections.
+          let monitor: FastMonitor | null = null;
+          if (settings.enableRealtimeMonitoring && settings.routerModel) {
+            monitor = new StreamingMonitor({
+              ...guardrailOptions,
+              routerModel: settings.routerModel,
+              settings,
+              appPath: getDyadAppPath(chat.app.path),
+              chatId: req.chatId,
+              userPrompt: req.prompt,
+            });
+          } else if (settings.enableFastCorrection) {
+            monitor = new FastMonitor(guardrailOptions);
+          }
 
+          while (true) {
             const result = await processStreamChunks({
               fullStream,
               fullResponse,
@@ -1555,63 +1941,114 @@ This conversation includes one or more image attachments. When the user uploads
               chatId: req.chatId,
               processResponseChunkUpdate,
               isCodexCli: false,
-              monitor,
-              settings,
+              // The last attempt isn't interrupted; the validator checks the
+              // complete response instead.
+              monitor:
+                correctionAttempts < MAX_CORRECTION_ATTEMPTS ? monitor : null,
             });
             fullResponse = result.fullResponse;
 
-            // Check if stream was aborted for correction
-            if (abortController.signal.aborted && (abortController as any)._correctionNeeded) {
-              if (correctionAttempts >= MAX_CORRECTION_ATTEMPTS) {
-                logger.warn("Max correction attempts reached, stopping correction loop");
-                break;
-              }
-
-              const correctionMessage = (abortController as any)._correctionNeeded;
-              const violationType = (abortController as any)._violationType;
-              logger.info(`Resuming stream with correction: ${violationType}`);
+            const violation: ViolationResult | undefined = (
+              abortController as any
+            )._violation;
+            if (!violation || !monitor) {
+              break;
+            }
 
-              // 1. Inject correction into database (Skipped to keep invisible and avoid schema issues)
-              // System messages are not supported in messages table and we want this to be invisible in history anyway.
+            logViolation({
+              timestamp: new Date(),
+              chatId: req.chatId,
+              appId: chat.appId,
+              messageId: placeholderAssistantMessage.id,
+              violationType: violation.violationType ?? "unknown",
+              action: violation.action,
+              mode: guardrailOptions.mode,
+              workflowStep: guardrailStep ?? undefined,
+              model: targetModel.name,
+              provider: targetModel.provider,
+              context: violation.context ?? "",
+            });
 
-              // 2. Update chat messages for next stream
-              chatMessages.push({
-                role: "assistant",
-                content: fullResponse, // Keep what was generated so far
-              });
-              chatMessages.push({
-                role: "system",
-                content: correctionMessage,
+            // A rule with the "abort" action ends the response; it's rolled
+            // back like a cancelled one.
+            if (violation.action === "abort") {
+              logger.warn(`Stream aborted by guardrail: ${violation.violationType}`);
+              safeSend(event.sender, "chat:response:error", {
+                chatId: req.chatId,
+                error: `Response stopped by guardrail "${violation.violationType}": ${violation.message}`,
               });
+              break;
+            }
 
-              // 3. Reset for resume
-              correctionAttempts++;
-              abortController = new AbortController(); // Reset controller
-              activeStreams.set(req.chatId, abortController); // Update active stream map
+            const instruction = await monitor.getCorrection(violation, {
+              partialResponse: fullResponse,
+            });
+            // The user cancelled while the correction was being written
+            if (activeStreams.get(req.chatId) !== abortController) {
+              break;
+            }
+            logger.info(`Resuming stream with correction: ${violation.violationType}`);
+
+            // Mark the correction in the assistant message, then splice the
+            // resumed output in right after it.
+            fullResponse = await processResponseChunkUpdate({
+              fullResponse:
+                fullResponse +
+                formatCorrectionMarker({
+                  ruleId: violation.violationType ?? "unknown",
+                  instruction,
+                }),
+            });
 
-              // 4. Restart stream with new context
-              const streamResult = await simpleStreamText({
-                chatMessages,
-                modelClient,
-                files: files,
-                tools: combineToolSets(webSearchTools),
-              });
-              fullStream = streamResult.fullStream;
+            correctionAttempts++;
+            abortController = new AbortController();
+            activeStreams.set(req.chatId, abortController);
 
-              // Loop continues to process new stream
-              continue;
-            }
+            const streamResult = await simpleStreamText({
+              chatMessages: [
+                ...chatMessages,
+                {
+                  role: "assistant",
+                  content: removeCorrectionTags(fullResponse),
+                },
+                { role: "user", content: buildContinuationPrompt(instruction) },
+              ],
+              modelClient,
+              files: files,
+              tools: combineToolSets(webSearchTools),
+            });
+            fullStream = streamResult.fullStream;
+          }
+        }
 
-            // If normal finish or aborted without correction, break loop
-            break;
-          } catch (error) {
-            throw error;
+        if (modelClient.model instanceof FallbackModel) {
+          // Record which model of the chain answered and why the ones before
+          // it were passed over. Chains built inside getModelClient (e.g. the
+          // free models) aren't in modelChain, so fall back to the model ids.
+          const report = modelClient.model.getLastReport();
+          const getName = (index: number, modelId: string) =>
+            modelChain.length > 1 ? modelChain[index].name : modelId;
+          if (report && report.answeredIndex !== null) {
+            answeredModelName = getName(
+              report.answeredIndex,
+              modelClient.model.modelId,
+            );
+          }
+          if (report && routing && report.skipped.length > 0) {
+            routing = {
+              ...routing,
+              fallbacks: report.skipped.map((skip) => ({
+                model: getName(skip.index, skip.modelId),
+                reason: skip.reason,
+              })),
+            };
           }
         }
 
         if (
           !abortController.signal.aborted &&
-          settings.selectedChatMode !== "ask" &&
+          !isReadOnlyMode &&
+          chatMode !== "agent" &&
           hasUnclosedDyadWrite(fullResponse)
         ) {
           let continuationAttempts = 0;
@@ -1629,7 +2066,10 @@ This conversation includes one or more image attachments. When the user uploads
               // Build messages: replay history then pre-fill assistant with current partial.
               chatMessages: [
                 ...chatMessages,
-                { role: "assistant", content: fullResponse },
+                {
+                  role: "assistant",
+                  content: removeCorrectionTags(fullResponse),
+                },
               ],
               modelClient,
               files: files,
@@ -1643,21 +2083,152 @@ This conversation includes one or more image attachments. When the user uploads
               if (part.type !== "text-delta") continue; // ignore reasoning for continuation
               fullResponse += part.text;
               fullResponse = cleanFullResponse(fullResponse);
+              fullResponse = stripModelToolAttributes(fullResponse, []);
               fullResponse = await processResponseChunkUpdate({
                 fullResponse,
               });
             }
           }
         }
+        // Agent mode checks its edits and sends what fails back as another
+        // turn, until the checks pass or a limit is reached
+        const agentLoop = {
+          ...DEFAULT_AGENT_LOOP_SETTINGS,
+          ...settings.agentLoop,
+        };
+        const runAgentLoop =
+          chatMode === "agent" &&
+          agentLoop.enabled &&
+          !abortController.signal.aborted;
+        if (runAgentLoop) {
+          const loopController = startAgentLoop(
+            req.chatId,
+            abortController.signal,
+          );
+          const sendProgress = (
+            iteration: number,
+            phase: AgentLoopProgress["phase"],
+          ) => {
+            safeSend(event.sender, "agent-loop:progress", {
+              chatId: req.chatId,
+              iteration,
+              maxIterations: agentLoop.maxIterations,
+              phase,
+            } satisfies AgentLoopProgress);
+          };
+          const originalFullResponse = fullResponse;
+          const previousAttempts: ModelMessage[] = [];
+          try {
+            // Stopping skips any check or fix turn that hasn't started yet
+            for (
+              let iteration = 1;
+              !loopController.signal.aborted;
+              iteration++
+            ) {
+              sendProgress(iteration, "verifying");
+              const verification = await verifyAgentResponse({
+                appId: updatedChat.app.id,
+                appPath,
+                commandPolicy: updatedChat.app.commandPolicy,
+                fullResponse,
+                runTests: agentLoop.runTests,
+                // The preview only shows the edits once they're on disk
+                checkRuntimeErrors:
+                  agentLoop.checkRuntimeErrors && shouldStageWrites,
+              });
+              if (abortController.signal.aborted) {
+                break;
+              }
+              let status: AgentIterationStatus = "fixing";
+              if (isVerificationPassing(verification)) {
+                status = "passed";
+              } else if (iteration >= agentLoop.maxIterations) {
+                status = "max-iterations";
+              } else if (tokensStreamed >= agentLoop.tokenBudget) {
+                status = "over-budget";
+              } else if (loopController.signal.aborted) {
+                status = "stopped";
+              }
+              fullResponse = await processResponseChunkUpdate({
+                fullResponse:
+                  fullResponse +
+                  formatIterationTag({
+                    iteration,
+                    maxIterations: agentLoop.maxIterations,
+                    status,
+                    verification,
+                  }),
+              });
+              if (status !== "fixing" || loopController.signal.aborted) {
+                break;
+              }
+
+              logger.info(
+                `Agent loop for chat ${req.chatId}: fix turn ${iteration}`,
+              );
+              sendProgress(iteration, "fixing");
+              const fixPrompt = createAgentFixPrompt(verification);
+              const { agentTools, tools } = await createAgentToolSet();
+              // Edits that aren't on disk yet are read from the response
+              for (const tag of getDyadWriteTags(fullResponse)) {
+                agentTools.pendingWrites.set(tag.path, tag.content);
+              }
+              const streamResult = await simpleStreamText({
+                chatMessages: [
+                  ...limitedHistoryChatMessages,
+                  {
+                    role: "assistant",
+                    content: removeNonEssentialTags(originalFullResponse),
+                  },
+                  ...previousAttempts,
+                  { role: "user", content: fixPrompt },
+                ],
+                modelClient,
+                tools,
+                systemPromptOverride: constructSystemPrompt({
+                  aiRules: await readAiRules(appPath),
+                  chatMode: "agent",
+                  enableThinking: isThinkingProvider,
+                }),
+                files,
+                dyadDisableFiles: true,
+                abortSignal: loopController.signal,
+              });
+              previousAttempts.push({ role: "user", content: fixPrompt });
+              const result = await processStreamChunks({
+                fullStream: streamResult.fullStream,
+                fullResponse,
+                abortController: loopController,
+                chatId: req.chatId,
+                processResponseChunkUpdate,
+                isCodexCli: false,
+                renderToolResult: agentTools.renderToolResult,
+                toolMarkup,
+              });
+              fullResponse = result.fullResponse;
+              previousAttempts.push({
+                role: "assistant",
+                content: removeNonEssentialTags(result.incrementalResponse),
+              });
+            }
+          } catch (error) {
+            logger.error("Error in the agent verify-and-fix loop:", error);
+          } finally {
+            finishAgentLoop(req.chatId, loopController);
+          }
+        }
+
         const addDependencies = getDyadAddDependencyTags(fullResponse);
         if (
           !abortController.signal.aborted &&
+          // Agent mode's loop already checked the response
+          !runAgentLoop &&
           // If there are dependencies, we don't want to auto-fix problems
           // because there's going to be type errors since the packages aren't
           // installed yet.
           addDependencies.length === 0 &&
           settings.enableAutoFixProblems &&
-          settings.selectedChatMode !== "ask"
+          !isReadOnlyMode
         ) {
           try {
             // IF auto-fix is enabled
@@ -1710,6 +2281,7 @@ ${problemReport.problems
                   appPath,
                   chatContext,
                   virtualFileSystem,
+                  expandedPaths,
                 });
               const { modelClient } = await getModelClient(
                 settings.selectedModel,
@@ -1795,13 +2367,27 @@ ${problemReport.problems
           .update(messages)
           .set({
             content: fullResponse,
-            model: targetModel?.name
+            model: answeredModelName ?? targetModel?.name,
+            routing,
           })
           .where(eq(messages.id, placeholderAssistantMessage.id));
+        await WorkflowRunManager.recordExchange({
+          chatId: req.chatId,
+          messageIds: [userMessage.id, placeholderAssistantMessage.id],
+          model: answeredModelName ?? targetModel?.name ?? null,
+          response: fullResponse,
+        });
+        if (chatMode === "plan") {
+          await savePlanFromResponse({
+            chatId: req.chatId,
+            messageId: placeholderAssistantMessage.id,
+            response: fullResponse,
+          });
+        }
         const settings = readSettings();
         if (
-          settings.autoApproveChanges &&
-          settings.selectedChatMode !== "ask"
+          (settings.autoApproveChanges || req.planStep) &&
+          !isReadOnlyMode
         ) {
           const status = await processFullResponseActions(
             fullResponse,
@@ -1809,8 +2395,16 @@ ${problemReport.problems
             {
               chatSummary,
               messageId: placeholderAssistantMessage.id,
+              chatMode,
             }, // Use placeholder ID
           );
+          if (req.planStep) {
+            await finishPlanStep(
+              req.planStep,
+              status.error ? "failed" : "done",
+              placeholderAssistantMessage.id,
+            );
+          }
 
           const chat = await db.query.chats.findFirst({
             where: eq(chats.id, req.chatId),
@@ -1878,6 +2472,13 @@ ${problemReport.problems
             updatedFiles: false,
           } satisfies ChatResponseEnd);
         }
+      } else {
+        if (req.planStep) {
+          await finishPlanStep(
+            req.planStep,
+            abortController.signal.aborted ? "interrupted" : "failed",
+          );
+        }
       }
 
       // Clean up any temporary files
@@ -1907,6 +2508,9 @@ ${problemReport.problems
       // Check if this was an abort error
       if (abortController.signal.aborted) {
         const chatId = req.chatId;
+        if (req.planStep) {
+          await finishPlanStep(req.planStep, "interrupted");
+        }
         const partialResponse = partialResponses.get(req.chatId);
         // If we have a partial response, save it to the database
         if (partialResponse) {
@@ -1936,6 +2540,9 @@ ${problemReport.problems
       }
 
       logger.error("Error calling LLM:", error);
+      if (req.planStep) {
+        await finishPlanStep(req.planStep, "failed");
+      }
       safeSend(event.sender, "chat:response:error", {
         chatId: req.chatId,
         error: `Sorry, there was an error processing your request: ${error}`,
@@ -1945,6 +2552,11 @@ ${problemReport.problems
       // Clean up file uploads state on error
       FileUploadsState.getInstance().clear(req.chatId);
       return "error";
+    } finally {
+      // processFullResponseActions takes the files it committed out of the
+      // staged writes, so whatever is left was never applied: the response
+      // was aborted, failed or isn't auto-approved.
+      rollbackStagedWrites(req.chatId);
     }
   });
 
@@ -1956,6 +2568,7 @@ ${problemReport.problems
       // Abort the stream
       abortController.abort();
       activeStreams.delete(chatId);
+      rollbackStagedWrites(chatId);
       logger.log(`Aborted stream for chat ${chatId}`);
     } else {
       logger.warn(`No active stream found for chat ${chatId}`);
@@ -2017,7 +2630,7 @@ async function replaceTextAttachmentWithContent(
       const fullContent = await readFile(filePath, "utf-8");
 
       // Replace the placeholder tag with the full content
-      const escapedPath = filePath.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const escapedPath = escapeRegExp(filePath);
       const tagPattern = new RegExp(
         `<dyad-text-attachment filename="[^"]*" type="[^"]*" path="${escapedPath}">\\s*<\\/dyad-text-attachment>`,
         "g",
@@ -2102,7 +2715,13 @@ async function prepareMessageWithAttachments(
 }
 
 function removeNonEssentialTags(text: string): string {
-  return removeProblemReportTags(removeThinkingTags(text));
+  return removeCodebaseContextTags(
+    removeCorrectionTags(
+      removeAgentIterationTags(
+        removeProblemReportTags(removeThinkingTags(text)),
+      ),
+    ),
+  );
 }
 
 function removeThinkingTags(text: string): string {
@@ -2110,12 +2729,24 @@ function removeThinkingTags(text: string): string {
   return text.replace(thinkRegex, "").trim();
 }
 
+function removeAgentIterationTags(text: string): string {
+  const iterationRegex =
+    /<dyad-agent-iteration[^>]*>[\s\S]*?<\/dyad-agent-iteration>/g;
+  return text.replace(iterationRegex, "").trim();
+}
+
 export function removeProblemReportTags(text: string): string {
   const problemReportRegex =
     /<dyad-problem-report[^>]*>[\s\S]*?<\/dyad-problem-report>/g;
   return text.replace(problemReportRegex, "").trim();
 }
 
+function removeCodebaseContextTags(text: string): string {
+  const codebaseContextRegex =
+    /<dyad-codebase-context[^>]*>[\s\S]*?<\/dyad-codebase-context>/g;
+  return text.replace(codebaseContextRegex, "").trim();
+}
+
 export function removeDyadTags(text: string): string {
   const dyadRegex = /<dyad-[^>]*>[\s\S]*?<\/dyad-[^>]*>/g;
   return text.replace(dyadRegex, "").trim();
@@ -2143,35 +2774,6 @@ export function hasUnclosedDyadWrite(text: string): boolean {
   return !hasClosingTag;
 }
 
-function escapeDyadTags(text: unknown): string {
-  // Tool outputs can return structured objects. Convert them to strings
-  // before escaping so we do not crash while trying to call .replace.
-  let safeText: string;
-  if (typeof text === "string") {
-    safeText = text;
-  } else if (text === null || text === undefined) {
-    safeText = "";
-  } else if (typeof text === "object") {
-    try {
-      safeText = JSON.stringify(text, null, 2);
-    } catch {
-      safeText = String(text);
-    }
-  } else {
-    safeText = String(text);
-  }
-
-  // Escape dyad tags in reasoning content
-  // We are replacing the opening tag with a look-alike character
-  // to avoid issues where thinking content includes dyad tags
-  // and are mishandled by:
-  // 1. FE markdown parser
-  // 2. Main process response processor
-  return safeText
-    .replace(/<dyad/g, "＜dyad")
-    .replace(/<\/dyad/g, "＜/dyad");
-}
-
 const CODEBASE_PROMPT_PREFIX = "This is my codebase.";
 function createCodebasePrompt(codebaseInfo: string): string {
   return `${CODEBASE_PROMPT_PREFIX} ${codebaseInfo}`;
@@ -2212,8 +2814,10 @@ function getGeminiApiKeyFromSettings(
 function createWebSearchTool({
   settings,
   abortSignal,
+  chatId,
 }: {
   settings: UserSettings;
+  chatId: number;
   abortSignal: AbortSignal;
 }): ToolSet | undefined {
   if (!settings.enableProWebSearch) {
@@ -2249,6 +2853,7 @@ function createWebSearchTool({
           query: trimmedQuery,
           apiKey,
           abortSignal,
+          chatId,
         });
 
         if (!result) {
@@ -0,0 +1,44 @@
+import { eq } from "drizzle-orm";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import { getDyadAppPath } from "../../paths/paths";
+import type { CodeIndexStatus } from "../ipc_types";
+import {
+  deleteCodeIndex,
+  getCodeIndexStatus,
+  updateCodeIndex,
+} from "../utils/code_index_store";
+
+const logger = log.scope("code_index_handlers");
+const handle = createLoggedHandler(logger);
+
+async function getAppPath(appId: number): Promise<string> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, appId),
+  });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  return getDyadAppPath(app.path);
+}
+
+export function registerCodeIndexHandlers() {
+  handle(
+    "code-index:get-status",
+    async (_, { appId }: { appId: number }): Promise<CodeIndexStatus> => {
+      return getCodeIndexStatus(await getAppPath(appId));
+    },
+  );
+
+  handle(
+    "code-index:rebuild",
+    async (_, { appId }: { appId: number }): Promise<CodeIndexStatus> => {
+      const appPath = await getAppPath(appId);
+      await deleteCodeIndex(appPath);
+      await updateCodeIndex(appPath);
+      return getCodeIndexStatus(appPath);
+    },
+  );
+}
@@ -8,6 +8,7 @@ import { getModelClient } from "../utils/get_model_client";
 import { readSettings } from "../../main/settings";
 import { getDyadAppPath } from "../../paths/paths";
 import { SUMMARIZE_CHAT_SYSTEM_PROMPT } from "../../prompts/summarize_chat_system_prompt";
+import { normalizeUsage, recordUsage } from "../utils/usage_ledger";
 
 const logger = log.scope("compact_context_handlers");
 
@@ -110,6 +111,18 @@ ${conversationText}`;
                     summary += chunk;
                 }
 
+                await recordUsage({
+                    kind: "summarization",
+                    provider: settings.selectedModel.provider,
+                    model: settings.selectedModel.name,
+                    usage: normalizeUsage(
+                        settings.selectedModel.provider,
+                        await summaryStream.totalUsage
+                    ),
+                    appId: chat.appId,
+                    chatId,
+                });
+
                 logger.info("Generated summary:", summary);
 
                 // Delete the old messages from DB
@@ -7,7 +7,7 @@ import {
   AppChatContextSchema,
   ContextPathResults,
 } from "@/lib/schemas";
-import { estimateTokens } from "../utils/token_utils";
+import { countTokens } from "../utils/token_utils";
 import { createLoggedHandler } from "./safe_handle";
 import log from "electron-log";
 import { getDyadAppPath } from "@/paths/paths";
@@ -51,7 +51,7 @@ export function registerContextPathsHandlers() {
             smartContextAutoIncludes: [],
           },
         });
-        const totalTokens = estimateTokens(formattedOutput);
+        const totalTokens = countTokens(formattedOutput);
 
         results.contextPaths.push({
           ...contextPath,
@@ -68,7 +68,7 @@ export function registerContextPathsHandlers() {
             smartContextAutoIncludes: [],
           },
         });
-        const totalTokens = estimateTokens(formattedOutput);
+        const totalTokens = countTokens(formattedOutput);
 
         results.smartContextAutoIncludes.push({
           ...contextPath,
@@ -85,7 +85,7 @@ export function registerContextPathsHandlers() {
             smartContextAutoIncludes: [],
           },
         });
-        const totalTokens = estimateTokens(formattedOutput);
+        const totalTokens = countTokens(formattedOutput);
 
         results.excludePaths.push({
           ...excludePath,
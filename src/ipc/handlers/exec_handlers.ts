@@ -1,57 +1,162 @@
-import { exec } from "node:child_process";
 import log from "electron-log";
 import { createLoggedHandler } from "./safe_handle";
 import { db } from "../../db";
 import { apps } from "../../db/schema";
 import { eq } from "drizzle-orm";
 import { getDyadAppPath } from "../../paths/paths";
-import util from "util";
+import { readSettings } from "../../main/settings";
+import { CommandPolicySchema } from "../../lib/schemas";
+import { evaluateCommandPolicy } from "../shared/command_policy";
+import { safeSend } from "../utils/safe_sender";
+import {
+    runAppCommand,
+    stopCommand,
+    type RunningCommand,
+} from "../utils/command_runner";
+import { listAgentCommandRuns } from "../utils/agent_command";
+import { resolveConsent } from "../utils/mcp_consent";
+import type {
+    CommandPolicyDecision,
+    EvaluateCommandParams,
+    ExecCommandParams,
+    ExecCommandResult,
+    SetAppCommandPolicyParams,
+} from "../ipc_types";
+import type { ConsentDecision } from "../utils/mcp_consent";
 
-const execAsync = util.promisify(exec);
 const logger = log.scope("exec_handlers");
 const handle = createLoggedHandler(logger);
 
+const runningCommands = new Map<string, RunningCommand>();
+
+async function getApp(appId: number) {
+    const app = await db.query.apps.findFirst({
+        where: eq(apps.id, appId),
+    });
+    if (!app) {
+        throw new Error("App not found");
+    }
+    return app;
+}
+
+export async function evaluateAppCommand({
+    appId,
+    command,
+    autorun,
+}: EvaluateCommandParams): Promise<CommandPolicyDecision> {
+    const app = await getApp(appId);
+    const settings = readSettings();
+    return evaluateCommandPolicy(command, app.commandPolicy, {
+        autoApprove: !!settings.autoApproveTerminalCommands,
+        autorun,
+        defaultRuntime: settings.runtimeMode2 ?? "host",
+    });
+}
+
 export function registerExecHandlers() {
+    handle(
+        "exec-command:evaluate",
+        async (_event, params: EvaluateCommandParams) => {
+            if (!params.command?.trim()) {
+                throw new Error("No command provided.");
+            }
+            return evaluateAppCommand(params);
+        },
+    );
+
     handle(
         "exec-command",
         async (
-            _event,
-            { appId, command }: { appId: number; command: string },
-        ): Promise<{ stdout: string; stderr: string; exitCode: number }> => {
-            if (!command) {
+            event,
+            { appId, command, runId, approved }: ExecCommandParams,
+        ): Promise<ExecCommandResult> => {
+            if (!command?.trim()) {
                 throw new Error("No command provided.");
             }
+            if (runningCommands.has(runId)) {
+                throw new Error(`Command run ${runId} is already running.`);
+            }
 
-            const app = await db.query.apps.findFirst({
-                where: eq(apps.id, appId),
-            });
-
-            if (!app) {
-                throw new Error("App not found");
+            const app = await getApp(appId);
+            const decision = await evaluateAppCommand({ appId, command });
+            if (decision.action === "deny") {
+                throw new Error(decision.reason);
+            }
+            if (decision.action === "ask" && !approved) {
+                throw new Error(
+                    `Running \`${command}\` needs your confirmation. ${decision.reason}`,
+                );
             }
 
             const appPath = getDyadAppPath(app.path);
-            logger.log(`Executing command for app ${appId}: ${command}`);
+            logger.log(
+                `Executing ${decision.category} command for app ${appId} on ${decision.runtime}: ${command}`,
+            );
 
             try {
-                const { stdout, stderr } = await execAsync(command, {
-                    cwd: appPath,
-                    maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+                return await runAppCommand({
+                    appId,
+                    appPath,
+                    command,
+                    runId,
+                    decision,
+                    onStart: (running) => runningCommands.set(runId, running),
+                    onOutput: (type, data) =>
+                        safeSend(event.sender, "exec-command:output", {
+                            runId,
+                            type,
+                            data,
+                        }),
                 });
-
-                return {
-                    stdout: stdout.trim(),
-                    stderr: stderr.trim(),
-                    exitCode: 0,
-                };
-            } catch (error: any) {
-                // exec throws an error if exit code is non-zero
-                return {
-                    stdout: error.stdout?.toString().trim() || "",
-                    stderr: error.stderr?.toString().trim() || error.message,
-                    exitCode: error.code || 1,
-                };
+            } finally {
+                runningCommands.delete(runId);
             }
         },
     );
+
+    handle("exec-command:cancel", async (_event, runId: string) => {
+        const running = runningCommands.get(runId);
+        if (!running) {
+            return;
+        }
+        running.cancelled = true;
+        stopCommand(running);
+    });
+
+    handle(
+        "get-app-command-policy",
+        async (_event, { appId }: { appId: number }) => {
+            const app = await getApp(appId);
+            return app.commandPolicy ?? null;
+        },
+    );
+
+    handle(
+        "set-app-command-policy",
+        async (_event, { appId, policy }: SetAppCommandPolicyParams) => {
+            await getApp(appId);
+            const parsed = policy ? CommandPolicySchema.parse(policy) : null;
+            await db
+                .update(apps)
+                .set({ commandPolicy: parsed })
+                .where(eq(apps.id, appId));
+        },
+    );
+
+    handle(
+        "agent-command:consent-response",
+        async (
+            _event,
+            data: { requestId: string; decision: ConsentDecision },
+        ) => {
+            resolveConsent(data.requestId, data.decision);
+        },
+    );
+
+    handle(
+        "agent-command:list-runs",
+        async (_event, { appId }: { appId: number }) => {
+            return listAgentCommandRuns(appId);
+        },
+    );
 }
@@ -0,0 +1,68 @@
+import fs from "node:fs";
+import { dialog } from "electron";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import type { GuardrailAnalytics } from "../ipc_types";
+import { readSettings } from "../../main/settings";
+import {
+  DEFAULT_LOG_RETENTION_DAYS,
+  getViolationLogs,
+  pruneViolationLogs,
+  summarizeViolations,
+  violationsToCsv,
+} from "../utils/guardrail_logger";
+
+const logger = log.scope("guardrail_analytics_handlers");
+const handle = createLoggedHandler(logger);
+
+function getStartDate(days: number): Date {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return start;
+}
+
+export function registerGuardrailAnalyticsHandlers() {
+  handle(
+    "guardrail-analytics:get",
+    async (_, { days }: { days: number }): Promise<GuardrailAnalytics> => {
+      const retentionDays =
+        readSettings().guardrailLogRetentionDays ?? DEFAULT_LOG_RETENTION_DAYS;
+      pruneViolationLogs(retentionDays);
+      const startDate = getStartDate(days);
+      return {
+        ...summarizeViolations(getViolationLogs(startDate), startDate),
+        retentionDays,
+      };
+    },
+  );
+
+  handle(
+    "guardrail-analytics:export-csv",
+    async (_, { days }: { days: number }): Promise<string | null> => {
+      const { canceled, filePath } = await dialog.showSaveDialog({
+        title: "Export guardrail violations",
+        defaultPath: `guardrail-violations-${new Date().toISOString().split("T")[0]}.csv`,
+        filters: [{ name: "CSV", extensions: ["csv"] }],
+      });
+      if (canceled || !filePath) {
+        return null;
+      }
+      fs.writeFileSync(
+        filePath,
+        violationsToCsv(getViolationLogs(getStartDate(days))),
+      );
+      return filePath;
+    },
+  );
+
+  handle(
+    "guardrail-analytics:prune",
+    async (
+      _,
+      { retentionDays }: { retentionDays: number },
+    ): Promise<number> => {
+      return pruneViolationLogs(retentionDays);
+    },
+  );
+}
@@ -0,0 +1,17 @@
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import type { ModelHealth } from "../ipc_types";
+import { getModelHealthRegistry } from "../utils/model_health_store";
+
+const logger = log.scope("model_health_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerModelHealthHandlers() {
+  handle("model-health:list", async (): Promise<ModelHealth[]> => {
+    return getModelHealthRegistry().list();
+  });
+
+  handle("model-health:reset", async (_, key?: string): Promise<void> => {
+    getModelHealthRegistry().reset(key);
+  });
+}
@@ -0,0 +1,40 @@
+import { IpcMainInvokeEvent } from "electron";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import type {
+  ChatPlan,
+  SetPlanStatusParams,
+  UpdatePlanStepsParams,
+} from "../ipc_types";
+import {
+  listChatPlans,
+  setPlanStatus,
+  updatePlanSteps,
+} from "../utils/chat_plans";
+
+const logger = log.scope("plan_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerPlanHandlers() {
+  handle(
+    "plan:list",
+    async (_e: IpcMainInvokeEvent, chatId: number): Promise<ChatPlan[]> =>
+      listChatPlans(chatId),
+  );
+
+  handle(
+    "plan:update-steps",
+    async (
+      _e: IpcMainInvokeEvent,
+      { planId, steps }: UpdatePlanStepsParams,
+    ): Promise<ChatPlan> => updatePlanSteps(planId, steps),
+  );
+
+  handle(
+    "plan:set-status",
+    async (
+      _e: IpcMainInvokeEvent,
+      { planId, status }: SetPlanStatusParams,
+    ): Promise<ChatPlan> => setPlanStatus(planId, status),
+  );
+}
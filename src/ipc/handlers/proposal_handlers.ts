@@ -22,8 +22,8 @@ import {
 import log from "electron-log";
 import { isServerFunction } from "../../supabase_admin/supabase_utils";
 import {
-  estimateMessagesTokens,
-  estimateTokens,
+  countMessagesTokens,
+  countTokens,
   getContextWindow,
 } from "../utils/token_utils";
 import { extractCodebase } from "../../utils/codebase";
@@ -105,7 +105,7 @@ async function getCodebaseTokenCount(
       chatContext: validateChatContext(chatContext),
     })
   ).formattedOutput;
-  const tokenCount = estimateTokens(codebase);
+  const tokenCount = countTokens(codebase);
 
   // Store in cache
   codebaseTokenCache.set(chatId, {
@@ -279,7 +279,7 @@ const getProposalHandler = async (
 
       if (latestAssistantMessage && chat) {
         // Calculate total tokens from message history
-        const messagesTokenCount = estimateMessagesTokens(chat.messages);
+        const messagesTokenCount = countMessagesTokens(chat.messages);
 
         // Use cached token count or calculate new one
         const codebaseTokenCount = await getCodebaseTokenCount(
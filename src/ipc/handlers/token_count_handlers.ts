@@ -16,7 +16,11 @@ import { getSupabaseContext } from "../../supabase_admin/supabase_context";
 
 import { TokenCountParams } from "../ipc_types";
 import { TokenCountResult } from "../ipc_types";
-import { estimateTokens, getContextWindow } from "../utils/token_utils";
+import {
+  countMessagesTokens,
+  countTokens,
+  getContextWindow,
+} from "../utils/token_utils";
 import { createLoggedHandler } from "./safe_handle";
 import { validateChatContext } from "../utils/context_paths_utils";
 import { readSettings } from "@/main/settings";
@@ -45,16 +49,14 @@ export function registerTokenCountHandlers() {
         throw new Error(`Chat not found: ${req.chatId}`);
       }
 
-      // Prepare message history for token counting
-      const messageHistory = chat.messages
-        .map((message) => message.content)
-        .join("");
-      const messageHistoryTokens = estimateTokens(messageHistory);
+      const settings = readSettings();
+      const model = settings.selectedModel;
 
-      // Count input tokens
-      const inputTokens = estimateTokens(req.input);
+      // Count message history tokens; each message's count is cached
+      const messageHistoryTokens = countMessagesTokens(chat.messages, model);
 
-      const settings = readSettings();
+      // Count input tokens
+      const inputTokens = countTokens(req.input, model);
 
       // Parse app mentions from the input
       const mentionedAppNames = parseAppMentions(req.input);
@@ -78,7 +80,10 @@ export function registerTokenCountHandlers() {
         systemPrompt += "\n\n" + SUPABASE_NOT_AVAILABLE_SYSTEM_PROMPT;
       }
 
-      const systemPromptTokens = estimateTokens(systemPrompt + supabaseContext);
+      const systemPromptTokens = countTokens(
+        systemPrompt + supabaseContext,
+        model,
+      );
 
       // Extract codebase information if app is associated with the chat
       let codebaseInfo = "";
@@ -92,16 +97,17 @@ export function registerTokenCountHandlers() {
         });
         codebaseInfo = formattedOutput;
         if (settings.enableDyadPro && settings.enableProSmartFilesContextMode) {
-          codebaseTokens = estimateTokens(
+          codebaseTokens = countTokens(
             files
               // It doesn't need to be the exact format but it's just to get a token estimate
               .map(
                 (file) => `<dyad-file=${file.path}>${file.content}</dyad-file>`,
               )
               .join("\n\n"),
+            model,
           );
         } else {
-          codebaseTokens = estimateTokens(codebaseInfo);
+          codebaseTokens = countTokens(codebaseInfo, model);
         }
         logger.log(
           `Extracted codebase information from ${appPath}, tokens: ${codebaseTokens}`,
@@ -124,7 +130,7 @@ export function registerTokenCountHandlers() {
           )
           .join("");
 
-        mentionedAppsTokens = estimateTokens(mentionedAppsContent);
+        mentionedAppsTokens = countTokens(mentionedAppsContent, model);
 
         logger.log(
           `Extracted ${mentionedAppsCodebases.length} mentioned app codebases, tokens: ${mentionedAppsTokens}`,
@@ -146,7 +152,7 @@ export function registerTokenCountHandlers() {
         mentionedAppsTokens,
         inputTokens,
         systemPromptTokens,
-        contextWindow: await getContextWindow(),
+        contextWindow: await getContextWindow(model),
       };
     },
   );
@@ -0,0 +1,74 @@
+import { eq } from "drizzle-orm";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import type {
+  BudgetCheckResult,
+  SetAppBudgetParams,
+  UsageAnalytics,
+} from "../ipc_types";
+import {
+  checkChatBudget,
+  getAppBudgets,
+  getUsageRows,
+  summarizeUsage,
+} from "../utils/usage_ledger";
+
+const logger = log.scope("usage_handlers");
+const handle = createLoggedHandler(logger);
+
+function getStartDate(days: number): Date {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return start;
+}
+
+function validateLimit(limit: number | null, name: string) {
+  if (limit !== null && !(Number.isFinite(limit) && limit >= 0)) {
+    throw new Error(`The ${name} must be a positive amount in USD`);
+  }
+}
+
+export function registerUsageHandlers() {
+  handle(
+    "usage:get-analytics",
+    async (_, { days }: { days: number }): Promise<UsageAnalytics> => {
+      const startDate = getStartDate(days);
+      return {
+        ...summarizeUsage(await getUsageRows(startDate), startDate),
+        budgets: await getAppBudgets(),
+      };
+    },
+  );
+
+  handle(
+    "usage:set-app-budget",
+    async (
+      _,
+      { appId, monthlySoftLimit, monthlyHardLimit }: SetAppBudgetParams,
+    ): Promise<void> => {
+      validateLimit(monthlySoftLimit, "soft limit");
+      validateLimit(monthlyHardLimit, "hard limit");
+      if (
+        monthlySoftLimit !== null &&
+        monthlyHardLimit !== null &&
+        monthlySoftLimit > monthlyHardLimit
+      ) {
+        throw new Error("The soft limit can't be above the hard limit");
+      }
+      await db
+        .update(apps)
+        .set({ monthlySoftLimit, monthlyHardLimit })
+        .where(eq(apps.id, appId));
+    },
+  );
+
+  handle(
+    "usage:check-budget",
+    async (_, { chatId }: { chatId: number }): Promise<BudgetCheckResult> => {
+      return checkChatBudget(chatId);
+    },
+  );
+}
@@ -0,0 +1,97 @@
+import fs from "node:fs";
+import { promises as fsPromises } from "node:fs";
+import path from "node:path";
+import { eq } from "drizzle-orm";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import { getDyadAppPath } from "../../paths/paths";
+import type {
+  ApplyVisualEditParams,
+  ApplyVisualEditResult,
+  VisualEditElement,
+  VisualEditTarget,
+} from "../ipc_types";
+import { loadAppTypeScript } from "../utils/app_typescript";
+import { gitAdd, gitCommit } from "../utils/git_utils";
+import { storeDbTimestampAtCurrentVersion } from "../utils/neon_timestamp_utils";
+import {
+  applyVisualEdit,
+  inspectJsxElement,
+  type VisualEditLocation,
+} from "../utils/visual_edit";
+
+const logger = log.scope("visual_edit_handlers");
+const handle = createLoggedHandler(logger);
+
+async function resolveTarget(target: VisualEditTarget) {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, target.appId),
+  });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  const appPath = getDyadAppPath(app.path);
+  const fullPath = path.join(appPath, target.relativePath);
+  // Check if the path is within the app directory (security check)
+  if (!fullPath.startsWith(appPath + path.sep)) {
+    throw new Error("Invalid file path");
+  }
+  const ts = loadAppTypeScript(appPath);
+  if (!ts) {
+    throw new Error(
+      "Visual edits need the app's dependencies to be installed (TypeScript wasn't found)",
+    );
+  }
+  const location: VisualEditLocation = {
+    fileName: target.relativePath,
+    content: await fsPromises.readFile(fullPath, "utf-8"),
+    line: target.lineNumber,
+    column: target.columnNumber,
+  };
+  return { app, appPath, fullPath, ts, location };
+}
+
+export function registerVisualEditHandlers() {
+  handle(
+    "visual-edit:inspect",
+    async (_, target: VisualEditTarget): Promise<VisualEditElement> => {
+      const { ts, location } = await resolveTarget(target);
+      return inspectJsxElement(ts, location);
+    },
+  );
+
+  handle(
+    "visual-edit:apply",
+    async (
+      _,
+      { className, text, ...target }: ApplyVisualEditParams,
+    ): Promise<ApplyVisualEditResult> => {
+      const { app, appPath, fullPath, ts, location } =
+        await resolveTarget(target);
+      const content = applyVisualEdit(ts, location, { className, text });
+      if (content === location.content) {
+        return { commitHash: null };
+      }
+
+      if (app.neonProjectId && app.neonDevelopmentBranchId) {
+        await storeDbTimestampAtCurrentVersion({ appId: app.id });
+      }
+      // The dev server picks up the write and hot reloads the preview
+      await fsPromises.writeFile(fullPath, content, "utf-8");
+      logger.log(`Applied visual edit to ${target.relativePath}`);
+
+      if (!fs.existsSync(path.join(appPath, ".git"))) {
+        return { commitHash: null };
+      }
+      await gitAdd({ path: appPath, filepath: target.relativePath });
+      const { tagName } = inspectJsxElement(ts, { ...location, content });
+      const commitHash = await gitCommit({
+        path: appPath,
+        message: `Visual edit of <${tagName}> in ${target.relativePath}`,
+      });
+      return { commitHash };
+    },
+  );
+}
@@ -1,6 +1,7 @@
 import { BrowserWindow, ipcMain } from "electron";
 import log from "electron-log";
 import { platform } from "os";
+import type { CaptureRegion } from "../ipc_types";
 
 const logger = log.scope("window-handlers");
 
@@ -39,6 +40,24 @@ const handleClose = (event: Electron.IpcMainInvokeEvent) => {
   window.close();
 };
 
+// Handler for capturing part of the window as a PNG data URL, e.g. the app
+// preview. The region is in CSS pixels of the renderer.
+const handleCaptureRegion = async (
+  event: Electron.IpcMainInvokeEvent,
+  region: CaptureRegion,
+): Promise<string> => {
+  const image = await event.sender.capturePage({
+    x: Math.round(region.x),
+    y: Math.round(region.y),
+    width: Math.round(region.width),
+    height: Math.round(region.height),
+  });
+  if (image.isEmpty()) {
+    throw new Error("Failed to capture the window");
+  }
+  return image.toDataURL();
+};
+
 // Handler to get the current system platform
 const handleGetSystemPlatform = () => {
   return platform();
@@ -49,5 +68,6 @@ export function registerWindowHandlers() {
   ipcMain.handle("window:minimize", handleMinimize);
   ipcMain.handle("window:maximize", handleMaximize);
   ipcMain.handle("window:close", handleClose);
+  ipcMain.handle("window:capture-region", handleCaptureRegion);
   ipcMain.handle("get-system-platform", handleGetSystemPlatform);
 }
@@ -0,0 +1,157 @@
+import { IpcMainInvokeEvent } from "electron";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import { db } from "@/db";
+import { chats, workflows } from "@/db/schema";
+import { eq, isNull, or } from "drizzle-orm";
+import {
+  CreateWorkflowParams,
+  SetChatWorkflowParams,
+  UpdateWorkflowParams,
+  WorkflowDto,
+  WorkflowHistoryEntry,
+  WorkflowRun,
+} from "../ipc_types";
+import { parseWorkflowDefinition } from "../workflow/workflow_definitions";
+import { WorkflowManager } from "../workflow/workflow_manager";
+import { WorkflowRunManager } from "../workflow/workflow_runs";
+
+const logger = log.scope("workflow_handlers");
+const handle = createLoggedHandler(logger);
+
+function toWorkflowDto(row: typeof workflows.$inferSelect): WorkflowDto {
+  return {
+    id: row.id,
+    appId: row.appId ?? null,
+    name: row.name,
+    source: row.source,
+    definition: row.definition,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export function registerWorkflowHandlers() {
+  handle(
+    "workflow:list",
+    async (_e: IpcMainInvokeEvent, appId?: number): Promise<WorkflowDto[]> => {
+      // Global workflows plus the ones defined for this app.
+      const rows = db
+        .select()
+        .from(workflows)
+        .where(
+          appId
+            ? or(isNull(workflows.appId), eq(workflows.appId, appId))
+            : isNull(workflows.appId),
+        )
+        .all();
+      return rows.map(toWorkflowDto);
+    },
+  );
+
+  handle(
+    "workflow:create",
+    async (
+      _e: IpcMainInvokeEvent,
+      params: CreateWorkflowParams,
+    ): Promise<WorkflowDto> => {
+      const definition = parseWorkflowDefinition(params.source);
+      const result = db
+        .insert(workflows)
+        .values({
+          appId: params.appId,
+          name: definition.name,
+          source: params.source,
+          definition,
+        })
+        .run();
+
+      const id = Number(result.lastInsertRowid);
+      const row = db.select().from(workflows).where(eq(workflows.id, id)).get();
+      if (!row) throw new Error("Failed to fetch created workflow");
+      return toWorkflowDto(row);
+    },
+  );
+
+  handle(
+    "workflow:update",
+    async (
+      _e: IpcMainInvokeEvent,
+      params: UpdateWorkflowParams,
+    ): Promise<WorkflowDto> => {
+      if (!params.id) throw new Error("Workflow id is required");
+      const definition = parseWorkflowDefinition(params.source);
+      db.update(workflows)
+        .set({
+          appId: params.appId,
+          name: definition.name,
+          source: params.source,
+          definition,
+          updatedAt: new Date(),
+        })
+        .where(eq(workflows.id, params.id))
+        .run();
+
+      const row = db
+        .select()
+        .from(workflows)
+        .where(eq(workflows.id, params.id))
+        .get();
+      if (!row) throw new Error("Workflow not found");
+      return toWorkflowDto(row);
+    },
+  );
+
+  handle(
+    "workflow:delete",
+    async (_e: IpcMainInvokeEvent, id: number): Promise<void> => {
+      if (!id) throw new Error("Workflow id is required");
+      // Chats using this workflow fall back to the default one.
+      db.update(chats)
+        .set({ workflowId: null, workflowStatus: "idle", workflowStep: null })
+        .where(eq(chats.workflowId, id))
+        .run();
+      db.delete(workflows).where(eq(workflows.id, id)).run();
+    },
+  );
+
+  handle(
+    "workflow:set-chat-workflow",
+    async (
+      _e: IpcMainInvokeEvent,
+      { chatId, workflowId }: SetChatWorkflowParams,
+    ): Promise<void> => {
+      await WorkflowManager.setChatWorkflow(chatId, workflowId);
+    },
+  );
+
+  handle(
+    "workflow:get-history",
+    async (
+      _e: IpcMainInvokeEvent,
+      chatId: number,
+    ): Promise<WorkflowHistoryEntry[]> => {
+      if (!chatId) throw new Error("Chat id is required");
+      return WorkflowManager.getHistory(chatId);
+    },
+  );
+  handle(
+    "workflow:list-runs",
+    async (_e: IpcMainInvokeEvent, chatId: number): Promise<WorkflowRun[]> => {
+      if (!chatId) throw new Error("Chat id is required");
+      return WorkflowRunManager.listRuns(chatId);
+    },
+  );
+
+  handle(
+    "workflow:restart-from-step",
+    async (
+      _e: IpcMainInvokeEvent,
+      stepRunId: number,
+    ): Promise<{ step: string }> => {
+      if (!stepRunId) throw new Error("Step run id is required");
+      const step = await WorkflowManager.restartFromStepRun(stepRunId);
+      return { step };
+    },
+  );
+}
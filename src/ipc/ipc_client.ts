@@ -6,6 +6,7 @@ import {
   type ContextPathResults,
   ChatSearchResultsSchema,
   AppSearchResultsSchema,
+  type CommandPolicy,
 } from "../lib/schemas";
 import type {
   AppOutput,
@@ -37,6 +38,7 @@ import type {
   CopyAppParams,
   App,
   ComponentSelection,
+  NetworkRequestEntry,
   AppUpgrade,
   ProblemReport,
   EditAppFileReturnType,
@@ -64,6 +66,39 @@ import type {
   PromptDto,
   CreatePromptParamsDto,
   UpdatePromptParamsDto,
+  WorkflowDto,
+  CreateWorkflowParams,
+  UpdateWorkflowParams,
+  SetChatWorkflowParams,
+  WorkflowHistoryEntry,
+  WorkflowRun,
+  ModelHealth,
+  GuardrailAnalytics,
+  UsageAnalytics,
+  SetAppBudgetParams,
+  BudgetCheckResult,
+  CommandPolicyDecision,
+  EvaluateCommandParams,
+  ExecCommandOutput,
+  ExecCommandParams,
+  ExecCommandResult,
+  SetAppCommandPolicyParams,
+  AgentCommandConsentRequest,
+  AgentCommandRun,
+  CodeIndexStatus,
+  VisualEditTarget,
+  CaptureRegion,
+  VisualEditElement,
+  ApplyVisualEditParams,
+  ApplyVisualEditResult,
+  ChatPlan,
+  PlanStepRef,
+  UpdatePlanStepsParams,
+  SetPlanStatusParams,
+  AgentLoopProgress,
+  PreviewRuntimeError,
+  SubAgentProgress,
+  TaskType,
   McpServerUpdate,
   CreateMcpServer,
   CloneRepoParams,
@@ -115,6 +150,7 @@ export class IpcClient {
   private ipcRenderer: IpcRenderer;
   private chatStreams: Map<number, ChatStreamCallbacks>;
   private appStreams: Map<number, AppStreamCallbacks>;
+  private commandStreams: Map<string, (output: ExecCommandOutput) => void>;
   private helpStreams: Map<
     string,
     {
@@ -124,12 +160,18 @@ export class IpcClient {
     }
   >;
   private mcpConsentHandlers: Map<string, (payload: any) => void>;
+  private agentCommandConsentHandlers: {
+    onRequest?: (request: AgentCommandConsentRequest) => void;
+    onCancelled?: (requestId: string) => void;
+  };
   private constructor() {
     this.ipcRenderer = (window as any).electron.ipcRenderer as IpcRenderer;
     this.chatStreams = new Map();
     this.appStreams = new Map();
+    this.commandStreams = new Map();
     this.helpStreams = new Map();
     this.mcpConsentHandlers = new Map();
+    this.agentCommandConsentHandlers = {};
     // Set up listeners for stream events
     this.ipcRenderer.on("chat:response:chunk", (data) => {
       if (
@@ -175,6 +217,11 @@ export class IpcClient {
       }
     });
 
+    this.ipcRenderer.on("exec-command:output", (data) => {
+      const output = data as unknown as ExecCommandOutput;
+      this.commandStreams.get(output?.runId)?.(output);
+    });
+
     this.ipcRenderer.on("chat:response:end", (payload) => {
       const { chatId } = payload as unknown as ChatResponseEnd;
       const callbacks = this.chatStreams.get(chatId);
@@ -262,6 +309,17 @@ export class IpcClient {
       const handler = this.mcpConsentHandlers.get("consent");
       if (handler) handler(payload);
     });
+
+    // Agent mode shell command consent requests from main
+    this.ipcRenderer.on("agent-command:consent-request", (payload) => {
+      this.agentCommandConsentHandlers.onRequest?.(
+        payload as unknown as AgentCommandConsentRequest,
+      );
+    });
+    this.ipcRenderer.on("agent-command:consent-cancelled", (payload) => {
+      const { requestId } = payload as unknown as { requestId: string };
+      this.agentCommandConsentHandlers.onCancelled?.(requestId);
+    });
   }
 
   public static getInstance(): IpcClient {
@@ -387,10 +445,13 @@ export class IpcClient {
   public streamMessage(
     prompt: string,
     options: {
-      selectedComponent: ComponentSelection | null;
+      selectedComponents: ComponentSelection[];
+      networkRequest?: NetworkRequestEntry | null;
       chatId: number;
       redo?: boolean;
       attachments?: FileAttachment[];
+      taskTypeOverride?: TaskType | null;
+      planStep?: PlanStepRef | null;
       onUpdate: (messages: Message[]) => void;
       onEnd: (response: ChatResponseEnd) => void;
       onError: (error: string) => void;
@@ -401,7 +462,10 @@ export class IpcClient {
       chatId,
       redo,
       attachments,
-      selectedComponent,
+      selectedComponents,
+      networkRequest,
+      taskTypeOverride,
+      planStep,
       onUpdate,
       onEnd,
       onError,
@@ -441,7 +505,10 @@ export class IpcClient {
               prompt,
               chatId,
               redo,
-              selectedComponent,
+              selectedComponents,
+              networkRequest,
+              taskTypeOverride,
+              planStep,
               attachments: fileDataArray,
             })
             .catch((err) => {
@@ -462,7 +529,10 @@ export class IpcClient {
           prompt,
           chatId,
           redo,
-          selectedComponent,
+          selectedComponents,
+          networkRequest,
+          taskTypeOverride,
+          planStep,
         })
         .catch((err) => {
           showError(err);
@@ -563,18 +633,120 @@ export class IpcClient {
     }
   }
 
+  public async evaluateCommand(
+    params: EvaluateCommandParams,
+  ): Promise<CommandPolicyDecision> {
+    return this.ipcRenderer.invoke("exec-command:evaluate", params);
+  }
+
+  // Resolves when the command exits; output arrives through onOutput as it
+  // is written.
   public async execCommand(
-    appId: number,
-    command: string,
-  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+    params: ExecCommandParams,
+    onOutput?: (output: ExecCommandOutput) => void,
+  ): Promise<ExecCommandResult> {
+    if (onOutput) {
+      this.commandStreams.set(params.runId, onOutput);
+    }
     try {
-      return await this.ipcRenderer.invoke("exec-command", { appId, command });
+      return await this.ipcRenderer.invoke("exec-command", params);
     } catch (error) {
       showError(error);
       throw error;
+    } finally {
+      this.commandStreams.delete(params.runId);
     }
   }
 
+  public async cancelCommand(runId: string): Promise<void> {
+    await this.ipcRenderer.invoke("exec-command:cancel", runId);
+  }
+
+  public async getAppCommandPolicy(
+    appId: number,
+  ): Promise<CommandPolicy | null> {
+    return this.ipcRenderer.invoke("get-app-command-policy", { appId });
+  }
+
+  public async setAppCommandPolicy(
+    params: SetAppCommandPolicyParams,
+  ): Promise<void> {
+    await this.ipcRenderer.invoke("set-app-command-policy", params);
+  }
+
+  public onAgentCommandConsentRequest(handlers: {
+    onRequest: (request: AgentCommandConsentRequest) => void;
+    onCancelled: (requestId: string) => void;
+  }) {
+    this.agentCommandConsentHandlers = handlers;
+    return () => {
+      this.agentCommandConsentHandlers = {};
+    };
+  }
+
+  public respondToAgentCommandConsent(
+    requestId: string,
+    decision: "accept-once" | "accept-always" | "decline",
+  ) {
+    this.ipcRenderer.invoke("agent-command:consent-response", {
+      requestId,
+      decision,
+    });
+  }
+
+  public async listAgentCommandRuns(appId: number): Promise<AgentCommandRun[]> {
+    return this.ipcRenderer.invoke("agent-command:list-runs", { appId });
+  }
+
+  public async listChatPlans(chatId: number): Promise<ChatPlan[]> {
+    return this.ipcRenderer.invoke("plan:list", chatId);
+  }
+
+  public async updatePlanSteps(
+    params: UpdatePlanStepsParams,
+  ): Promise<ChatPlan> {
+    return this.ipcRenderer.invoke("plan:update-steps", params);
+  }
+
+  public async setPlanStatus(params: SetPlanStatusParams): Promise<ChatPlan> {
+    return this.ipcRenderer.invoke("plan:set-status", params);
+  }
+
+  public async stopAgentLoop(chatId: number): Promise<void> {
+    return this.ipcRenderer.invoke("agent-loop:stop", chatId);
+  }
+
+  // Errors the preview reports are checked by agent mode's loop
+  public reportPreviewRuntimeError(error: PreviewRuntimeError): void {
+    this.ipcRenderer
+      .invoke("agent-loop:report-runtime-error", error)
+      .catch((err) => console.error("Failed to report preview error", err));
+  }
+
+  public onAgentLoopProgress(
+    callback: (progress: AgentLoopProgress) => void,
+  ): () => void {
+    const listener = (payload: unknown) => {
+      callback(payload as unknown as AgentLoopProgress);
+    };
+    this.ipcRenderer.on("agent-loop:progress", listener);
+    return () => {
+      this.ipcRenderer.removeListener("agent-loop:progress", listener);
+    };
+  }
+
+  public onSubAgentProgress(
+    callback: (progress: SubAgentProgress) => void,
+  ): () => void {
+    const listener = (payload: unknown) => {
+      callback(payload as unknown as SubAgentProgress);
+    };
+    this.ipcRenderer.on("workflow:subagent-progress", listener);
+    return () => {
+      this.ipcRenderer.removeListener("workflow:subagent-progress", listener);
+    };
+  }
+
   // Get allow-listed environment variables
   public async getEnvVars(): Promise<Record<string, string | undefined>> {
     try {
@@ -1127,6 +1299,11 @@ export class IpcClient {
     }
   }
 
+  // Capture part of the window, e.g. the app preview, as a PNG data URL
+  public async captureWindowRegion(region: CaptureRegion): Promise<string> {
+    return this.ipcRenderer.invoke("window:capture-region", region);
+  }
+
   // Get system platform (win32, darwin, linux)
   public async getSystemPlatform(): Promise<string> {
     return this.ipcRenderer.invoke("get-system-platform");
@@ -1312,6 +1489,107 @@ export class IpcClient {
   public async deletePrompt(id: number): Promise<void> {
     await this.ipcRenderer.invoke("prompts:delete", id);
   }
+
+  // --- Workflows ---
+  public async listWorkflows(appId?: number): Promise<WorkflowDto[]> {
+    return this.ipcRenderer.invoke("workflow:list", appId);
+  }
+
+  public async createWorkflow(
+    params: CreateWorkflowParams,
+  ): Promise<WorkflowDto> {
+    return this.ipcRenderer.invoke("workflow:create", params);
+  }
+
+  public async updateWorkflow(
+    params: UpdateWorkflowParams,
+  ): Promise<WorkflowDto> {
+    return this.ipcRenderer.invoke("workflow:update", params);
+  }
+
+  public async deleteWorkflow(id: number): Promise<void> {
+    await this.ipcRenderer.invoke("workflow:delete", id);
+  }
+
+  public async setChatWorkflow(params: SetChatWorkflowParams): Promise<void> {
+    await this.ipcRenderer.invoke("workflow:set-chat-workflow", params);
+  }
+
+  public async getWorkflowHistory(
+    chatId: number,
+  ): Promise<WorkflowHistoryEntry[]> {
+    return this.ipcRenderer.invoke("workflow:get-history", chatId);
+  }
+
+  public async listWorkflowRuns(chatId: number): Promise<WorkflowRun[]> {
+    return this.ipcRenderer.invoke("workflow:list-runs", chatId);
+  }
+
+  public async restartWorkflowFromStepRun(
+    stepRunId: number,
+  ): Promise<{ step: string }> {
+    return this.ipcRenderer.invoke("workflow:restart-from-step", stepRunId);
+  }
+
+  public async getModelHealth(): Promise<ModelHealth[]> {
+    return this.ipcRenderer.invoke("model-health:list");
+  }
+
+  public async resetModelHealth(key?: string): Promise<void> {
+    await this.ipcRenderer.invoke("model-health:reset", key);
+  }
+
+  public async getGuardrailAnalytics(
+    days: number,
+  ): Promise<GuardrailAnalytics> {
+    return this.ipcRenderer.invoke("guardrail-analytics:get", { days });
+  }
+
+  // Returns the path the CSV was saved to, or null if the user canceled.
+  public async exportGuardrailViolationsCsv(
+    days: number,
+  ): Promise<string | null> {
+    return this.ipcRenderer.invoke("guardrail-analytics:export-csv", { days });
+  }
+
+  public async pruneGuardrailLogs(retentionDays: number): Promise<number> {
+    return this.ipcRenderer.invoke("guardrail-analytics:prune", {
+      retentionDays,
+    });
+  }
+
+  public async getUsageAnalytics(days: number): Promise<UsageAnalytics> {
+    return this.ipcRenderer.invoke("usage:get-analytics", { days });
+  }
+
+  public async setAppBudget(params: SetAppBudgetParams): Promise<void> {
+    await this.ipcRenderer.invoke("usage:set-app-budget", params);
+  }
+
+  public async checkChatBudget(chatId: number): Promise<BudgetCheckResult> {
+    return this.ipcRenderer.invoke("usage:check-budget", { chatId });
+  }
+
+  public async getCodeIndexStatus(appId: number): Promise<CodeIndexStatus> {
+    return this.ipcRenderer.invoke("code-index:get-status", { appId });
+  }
+
+  public async rebuildCodeIndex(appId: number): Promise<CodeIndexStatus> {
+    return this.ipcRenderer.invoke("code-index:rebuild", { appId });
+  }
+
+  public async inspectVisualEditElement(
+    target: VisualEditTarget,
+  ): Promise<VisualEditElement> {
+    return this.ipcRenderer.invoke("visual-edit:inspect", target);
+  }
+
+  public async applyVisualEdit(
+    params: ApplyVisualEditParams,
+  ): Promise<ApplyVisualEditResult> {
+    return this.ipcRenderer.invoke("visual-edit:apply", params);
+  }
+
   public async cloneRepoFromUrl(
     params: CloneRepoParams,
   ): Promise<{ app: App; hasAiRules: boolean } | { error: string }> {
@@ -33,6 +33,14 @@ import { registerHelpBotHandlers } from "./handlers/help_bot_handlers";
 import { registerMcpHandlers } from "./handlers/mcp_handlers";
 import { registerExecHandlers } from "./handlers/exec_handlers";
 import { registerCompactContextHandlers } from "./handlers/compact_context_handlers";
+import { registerWorkflowHandlers } from "./handlers/workflow_handlers";
+import { registerModelHealthHandlers } from "./handlers/model_health_handlers";
+import { registerGuardrailAnalyticsHandlers } from "./handlers/guardrail_analytics_handlers";
+import { registerUsageHandlers } from "./handlers/usage_handlers";
+import { registerCodeIndexHandlers } from "./handlers/code_index_handlers";
+import { registerVisualEditHandlers } from "./handlers/visual_edit_handlers";
+import { registerPlanHandlers } from "./handlers/plan_handlers";
+import { registerAgentLoopHandlers } from "./handlers/agent_loop_handlers";
 
 export function registerIpcHandlers() {
   // Register all IPC handlers by category
@@ -71,4 +79,12 @@ export function registerIpcHandlers() {
   registerMcpHandlers();
   registerExecHandlers();
   registerCompactContextHandlers();
+  registerWorkflowHandlers();
+  registerModelHealthHandlers();
+  registerGuardrailAnalyticsHandlers();
+  registerUsageHandlers();
+  registerCodeIndexHandlers();
+  registerVisualEditHandlers();
+  registerPlanHandlers();
+  registerAgentLoopHandlers();
 }
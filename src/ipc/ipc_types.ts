@@ -1,4 +1,9 @@
 import { z } from "zod";
+import type {
+  CommandPolicy,
+  RuntimeMode2,
+  WorkflowDefinition,
+} from "../lib/schemas";
 import type { ProblemReport, Problem } from "../../shared/tsc_types";
 export type { ProblemReport, Problem };
 
@@ -34,7 +39,14 @@ export interface ChatStreamParams {
     data: string; // Base64 encoded file data
     attachmentType: "upload-to-codebase" | "chat-context"; // FileAttachment type
   }>;
-  selectedComponent: ComponentSelection | null;
+  // Components picked in the preview, in the order they were selected
+  selectedComponents: ComponentSelection[];
+  // Task type picked by the user instead of the configured classifier.
+  taskTypeOverride?: TaskType | null;
+  // Request from the preview's Network tab the user sent to the chat
+  networkRequest?: NetworkRequestEntry | null;
+  // Step of an approved plan this turn carries out, in build mode
+  planStep?: PlanStepRef | null;
 }
 
 export interface ChatResponseEnd {
@@ -75,9 +87,22 @@ export interface Message {
   createdAt?: Date | string;
   requestId?: string | null;
   model?: string | null;
+  routing?: MessageRouting | null;
 }
 
-export type WorkflowStep = "planning" | "docs" | "frontend" | "backend" | "testing";
+export type TaskType = "frontend" | "backend" | "debugging" | "general";
+
+/**
+ * How the model for a response was chosen.
+ */
+export interface MessageRouting {
+  taskType: TaskType;
+  classifier: "keyword" | "router" | "context" | "override" | "workflow";
+  explanation: string;
+  ultrathink?: boolean;
+  // Models of the fallback chain that were passed over, and why.
+  fallbacks?: Array<{ model: string; reason: string }>;
+}
 
 export interface Chat {
   id: number;
@@ -85,8 +110,9 @@ export interface Chat {
   messages: Message[];
   initialCommitHash?: string | null;
   dbTimestamp?: string | null;
-  workflowStatus?: "active" | "idle" | null;
-  workflowStep?: WorkflowStep | null;
+  workflowStatus?: "active" | "idle" | "paused" | null;
+  workflowStep?: string | null;
+  workflowId?: number | null;
 }
 
 export interface App {
@@ -283,6 +309,33 @@ export interface ComponentSelection {
   columnNumber: number;
 }
 
+export interface NetworkWebSocketMessage {
+  direction: "sent" | "received";
+  data: string;
+  timestamp: number;
+}
+
+// A request made by the app in the preview, captured by the injected shim
+export interface NetworkRequestEntry {
+  id: string;
+  kind: "fetch" | "xhr" | "websocket";
+  method: string;
+  url: string;
+  // Null while pending or when the request failed before a response
+  status: number | null;
+  statusText?: string;
+  startTime: number;
+  durationMs: number | null;
+  requestHeaders?: Record<string, string>;
+  requestBody?: string;
+  responseHeaders?: Record<string, string>;
+  // Truncated by the shim
+  responseBody?: string;
+  error?: string;
+  messages?: NetworkWebSocketMessage[];
+  closeCode?: number;
+}
+
 export interface AppUpgrade {
   id: string;
   title: string;
@@ -392,6 +445,104 @@ export interface UpdatePromptParamsDto extends CreatePromptParamsDto {
   id: number;
 }
 
+// --- Workflows ---
+export interface WorkflowDto {
+  id: number;
+  appId: number | null;
+  name: string;
+  source: string;
+  definition: WorkflowDefinition;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWorkflowParams {
+  // Null makes the workflow available to every app.
+  appId: number | null;
+  source: string;
+}
+
+export interface UpdateWorkflowParams extends CreateWorkflowParams {
+  id: number;
+}
+
+export interface SetChatWorkflowParams {
+  chatId: number;
+  workflowId: number | null;
+}
+
+export interface WorkflowChecklistItem {
+  text: string;
+  checked: boolean;
+}
+
+export type WorkflowSubAgentStatus =
+  | "running"
+  | "merged"
+  | "no-changes"
+  | "conflict"
+  | "failed"
+  | "stopped";
+
+// A sub-agent that ran one step of a parallel group on its own branch
+export interface WorkflowSubAgentRun {
+  id: number;
+  step: string;
+  model: string | null;
+  branch: string;
+  status: WorkflowSubAgentStatus;
+  commitHash: string | null;
+  changedFiles: string[];
+  // Files that didn't merge cleanly; the branch is kept to resolve them
+  conflictFiles: string[];
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface WorkflowStepRun {
+  id: number;
+  step: string;
+  status: "active" | "completed" | "stopped";
+  model: string | null;
+  startCommitHash: string | null;
+  endCommitHash: string | null;
+  checklist: WorkflowChecklistItem[];
+  messages: {
+    id: number;
+    role: "user" | "assistant";
+    commitHash: string | null;
+  }[];
+  // Set when the step ran as a parallel group
+  subAgentRuns: WorkflowSubAgentRun[];
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface WorkflowRun {
+  id: number;
+  chatId: number;
+  workflowId: number | null;
+  workflowName: string;
+  status: "active" | "completed" | "stopped";
+  stepRuns: WorkflowStepRun[];
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface WorkflowHistoryEntry {
+  id: number;
+  chatId: number;
+  workflowId: number | null;
+  kind: "gate" | "transition";
+  step: string;
+  toStep: string | null;
+  gate: string | null;
+  passed: boolean;
+  output: string | null;
+  createdAt: Date;
+}
+
 export interface FileAttachment {
   file: File;
   type: "upload-to-codebase" | "chat-context";
@@ -542,3 +693,333 @@ export interface SelectNodeFolderResult {
   canceled?: boolean;
   selectedPath: string | null;
 }
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ModelHealth {
+  key: string;
+  provider: string;
+  modelId: string;
+  state: CircuitState;
+  // Share of failed requests among the recent ones (0-1).
+  errorRate: number;
+  sampleCount: number;
+  // Average time to the first streamed part of successful requests.
+  avgLatencyMs: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  openUntil: number | null;
+}
+
+export interface GuardrailViolationEntry {
+  timestamp: string;
+  chatId: number;
+  appId: number | null;
+  messageId: number | null;
+  violationType: string;
+  action: string | null;
+  mode: string;
+  workflowStep: string | null;
+  model: string;
+  provider: string;
+  context: string;
+}
+
+export interface GuardrailAnalytics {
+  total: number;
+  byType: Record<string, number>;
+  // Keyed by mode, or "mode:step" for workflow steps
+  byMode: Record<string, number>;
+  byModel: Record<string, number>;
+  byProvider: Record<string, number>;
+  daily: Array<{
+    date: string;
+    total: number;
+    byType: Record<string, number>;
+  }>;
+  // Newest first, capped for the drill-down table.
+  entries: GuardrailViolationEntry[];
+  retentionDays: number;
+}
+
+// What a provider request was made for.
+export type UsageKind =
+  | "chat"
+  | "correction"
+  | "router"
+  | "summarization"
+  | "web-search";
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  reasoningTokens: number;
+  cost: number;
+  // Requests whose model has no known price, left out of `cost`.
+  unpricedRequests: number;
+}
+
+export interface UsageBreakdownRow extends UsageTotals {
+  key: string;
+  label: string;
+  appId: number | null;
+  chatId: number | null;
+}
+
+export interface AppBudget {
+  appId: number;
+  appName: string;
+  monthlySoftLimit: number | null;
+  monthlyHardLimit: number | null;
+  spentThisMonth: number;
+}
+
+export interface UsageAnalytics {
+  totals: UsageTotals;
+  daily: Array<{ date: string; cost: number; tokens: number }>;
+  byApp: UsageBreakdownRow[];
+  byChat: UsageBreakdownRow[];
+  byModel: UsageBreakdownRow[];
+  byKind: UsageBreakdownRow[];
+  budgets: AppBudget[];
+}
+
+export interface SetAppBudgetParams {
+  appId: number;
+  monthlySoftLimit: number | null;
+  monthlyHardLimit: number | null;
+}
+
+export interface BudgetCheckResult {
+  status: "ok" | "soft-limit" | "hard-limit";
+  appName: string;
+  spentThisMonth: number;
+  limit: number | null;
+}
+
+export type CommandCategory =
+  | "read-only"
+  | "package-install"
+  | "network"
+  | "destructive"
+  | "other";
+
+export interface CommandPolicyDecision {
+  action: "allow" | "ask" | "deny";
+  category: CommandCategory;
+  reason: string;
+  // The allow or deny pattern that decided, if any.
+  matchedPattern: string | null;
+  runtime: RuntimeMode2;
+  timeoutSeconds: number;
+}
+
+export interface EvaluateCommandParams {
+  appId: number;
+  command: string;
+  // The assistant marked the command as safe to run without asking.
+  autorun?: boolean;
+}
+
+export interface ExecCommandParams {
+  appId: number;
+  command: string;
+  // Chosen by the renderer; tags the output events and allows cancelling.
+  runId: string;
+  // The user confirmed a command the policy asks about.
+  approved?: boolean;
+}
+
+export interface ExecCommandOutput {
+  runId: string;
+  type: "stdout" | "stderr";
+  data: string;
+}
+
+export interface ExecCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+  cancelled: boolean;
+  runtime: RuntimeMode2;
+  durationMs: number;
+}
+
+export interface SetAppCommandPolicyParams {
+  appId: number;
+  policy: CommandPolicy | null;
+}
+
+// Sent to the renderer when agent mode wants to run a command the app's
+// policy asks about
+export interface AgentCommandConsentRequest {
+  requestId: string;
+  appId: number;
+  chatId: number;
+  command: string;
+  // Where the command runs: the app directory, or /app in a container
+  cwd: string;
+  category: CommandCategory;
+  runtime: RuntimeMode2;
+  reason: string;
+}
+
+// "allowed" means the policy let it run without asking
+export type AgentCommandRunStatus =
+  | "allowed"
+  | "approved"
+  | "declined"
+  | "denied";
+
+export interface AgentCommandRun {
+  id: number;
+  appId: number;
+  chatId: number | null;
+  command: string;
+  cwd: string;
+  category: CommandCategory;
+  status: AgentCommandRunStatus;
+  // Null when the command didn't run
+  exitCode: number | null;
+  durationMs: number | null;
+  timedOut: boolean;
+  createdAt: Date;
+}
+
+export interface CodeIndexStatus {
+  exists: boolean;
+  // Backend and model of the embeddings; null for a keyword-only index
+  embeddingModel: string | null;
+  fileCount: number;
+  chunkCount: number;
+  embeddedFileCount: number;
+  symbolCount: number;
+  updatedAt: number | null;
+}
+
+// Element picked in the preview, located by its data-dyad-id
+export interface VisualEditTarget {
+  appId: number;
+  relativePath: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+export interface VisualEditElement {
+  tagName: string;
+  // null when the class list is computed in code
+  className: string | null;
+  // null when the element's content isn't plain text
+  text: string | null;
+}
+
+export interface ApplyVisualEditParams extends VisualEditTarget {
+  className?: string;
+  text?: string;
+}
+
+export interface ApplyVisualEditResult {
+  // null when nothing changed or the app isn't a git repository
+  commitHash: string | null;
+}
+
+export interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PlanStepRisk = "low" | "medium" | "high";
+
+export type PlanStepStatus =
+  | "pending"
+  | "running"
+  | "done"
+  | "skipped"
+  | "failed";
+
+export interface PlanStep {
+  // Stable across reordering and edits
+  id: string;
+  intent: string;
+  files: string[];
+  risk: PlanStepRisk;
+  status: PlanStepStatus;
+  // Commit of the step's changes, if it changed any files
+  commitHash: string | null;
+}
+
+// A draft waits for the user to approve it
+export type ChatPlanStatus = "draft" | "executing" | "paused" | "completed";
+
+// Plan written by the model in plan mode, one per <dyad-plan> message
+export interface ChatPlan {
+  id: number;
+  chatId: number;
+  messageId: number;
+  status: ChatPlanStatus;
+  steps: PlanStep[];
+}
+
+export interface PlanStepRef {
+  planId: number;
+  stepId: string;
+}
+
+export interface UpdatePlanStepsParams {
+  planId: number;
+  steps: PlanStep[];
+}
+
+export interface SetPlanStatusParams {
+  planId: number;
+  status: ChatPlanStatus;
+}
+
+// How an agent mode verify-and-fix iteration ended: "fixing" means another
+// turn was sent to fix what the checks found
+export type AgentIterationStatus =
+  | "passed"
+  | "fixing"
+  | "max-iterations"
+  | "over-budget"
+  | "stopped";
+
+// Sent to the renderer as the agent loop moves between checks and fix turns
+export interface AgentLoopProgress {
+  chatId: number;
+  iteration: number;
+  maxIterations: number;
+  phase: "verifying" | "fixing";
+}
+
+// An error the app's preview reported, e.g. an uncaught exception
+export interface PreviewRuntimeError {
+  appId: number;
+  message: string;
+}
+
+// Where a sub-agent of a parallel workflow group is, for its lane in the chat
+export interface SubAgentLane {
+  step: string;
+  name: string;
+  model: string;
+  // "queued" until it starts, "merging" while its branch is merged back
+  status: WorkflowSubAgentStatus | "queued" | "merging";
+  // Characters of response written so far
+  outputChars: number;
+  changedFiles: string[];
+  conflictFiles: string[];
+  error: string | null;
+}
+
+// Sent to the renderer whenever a lane of a parallel group changes
+export interface SubAgentProgress {
+  chatId: number;
+  lanes: SubAgentLane[];
+}
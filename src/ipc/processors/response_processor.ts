@@ -15,23 +15,35 @@ import {
   executeSupabaseSql,
 } from "../../supabase_admin/supabase_management_client";
 import { isServerFunction } from "../../supabase_admin/supabase_utils";
-import { UserSettings } from "../../lib/schemas";
+import { ChatMode, UserSettings } from "../../lib/schemas";
 import { gitCommit } from "../utils/git_utils";
 import { readSettings } from "@/main/settings";
 import { writeMigrationFile } from "../utils/file_utils";
 import {
   getDyadWriteTags,
+  getDyadPatchTags,
   getDyadRenameTags,
   getDyadDeleteTags,
   getDyadAddDependencyTags,
   getDyadExecuteSqlTags,
+  getMalformedDyadTags,
+  DyadWriteTag,
 } from "../utils/dyad_tag_parser";
+import { formatDyadTagPosition } from "../utils/dyad_tag_stream_parser";
+import {
+  applyPatchHunks,
+  formatPatchFailures,
+  formatPatchProblems,
+} from "../../shared/dyad_patch";
 import { storeDbTimestampAtCurrentVersion } from "../utils/neon_timestamp_utils";
 
 import { FileUploadsState } from "../utils/file_uploads_state";
 import { validateResponse, formatValidationErrors } from "../utils/response_validator";
 import { logViolation } from "../utils/guardrail_logger";
+import { loadGuardrailRules } from "../utils/guardrail_config";
+import { removeCorrectionTags } from "../utils/stream_correction";
 import { attemptCorrection } from "../utils/corrective_agent";
+import { WorkflowManager } from "../workflow/workflow_manager";
 
 const readFile = fs.promises.readFile;
 const logger = log.scope("response_processor");
@@ -53,15 +65,92 @@ async function readFileFromFunctionPath(input: string): Promise<string> {
   return readFile(input, "utf8");
 }
 
+// Files written while a response was still streaming, keyed by chat ID.
+// Maps each written path to its original contents (null if it didn't exist)
+// so the writes can be undone if the response is rejected or cancelled.
+const stagedWritesByChat = new Map<
+  number,
+  { appPath: string; originals: Map<string, Buffer | null> }
+>();
+
+/**
+ * Writes a <dyad-write> tag to disk as soon as its closing tag has streamed
+ * in, instead of waiting for the whole response. processFullResponseActions
+ * still writes and commits every file once the response is complete.
+ */
+export async function stageDyadWriteTag({
+  chatId,
+  appPath,
+  tag,
+}: {
+  chatId: number;
+  appPath: string;
+  tag: DyadWriteTag;
+}): Promise<void> {
+  const fullFilePath = safeJoin(appPath, tag.path);
+  let content: string | Buffer = tag.content;
+  const fileInfo = FileUploadsState.getInstance()
+    .getFileUploadsForChat(chatId)
+    .get(tag.content.trim());
+  if (fileInfo) {
+    content = await readFile(fileInfo.filePath);
+  }
+
+  let staged = stagedWritesByChat.get(chatId);
+  if (!staged) {
+    staged = { appPath, originals: new Map() };
+    stagedWritesByChat.set(chatId, staged);
+  }
+  if (!staged.originals.has(tag.path)) {
+    staged.originals.set(
+      tag.path,
+      fs.existsSync(fullFilePath) ? await readFile(fullFilePath) : null,
+    );
+  }
+
+  fs.mkdirSync(path.dirname(fullFilePath), { recursive: true });
+  fs.writeFileSync(fullFilePath, content);
+  logger.log(`Staged file while streaming: ${fullFilePath}`);
+}
+
+/**
+ * Restores every file staged by stageDyadWriteTag for this chat.
+ */
+export function rollbackStagedWrites(chatId: number): void {
+  const staged = stagedWritesByChat.get(chatId);
+  stagedWritesByChat.delete(chatId);
+  if (!staged) {
+    return;
+  }
+  for (const [filePath, original] of staged.originals) {
+    try {
+      const fullFilePath = safeJoin(staged.appPath, filePath);
+      if (original === null) {
+        if (fs.existsSync(fullFilePath)) {
+          fs.unlinkSync(fullFilePath);
+        }
+      } else {
+        fs.writeFileSync(fullFilePath, original);
+      }
+      logger.log(`Rolled back staged file: ${fullFilePath}`);
+    } catch (error) {
+      logger.warn(`Failed to roll back staged file ${filePath}:`, error);
+    }
+  }
+}
+
 export async function processFullResponseActions(
   fullResponse: string,
   chatId: number,
   {
     chatSummary,
     messageId,
+    chatMode,
   }: {
     chatSummary: string | undefined;
     messageId: number;
+    // Mode the response was written in, when it isn't the selected one
+    chatMode?: ChatMode;
   },
 ): Promise<{
   updatedFiles?: boolean;
@@ -106,6 +195,7 @@ export async function processFullResponseActions(
   }
 
   const settings: UserSettings = readSettings();
+  const mode = chatMode ?? settings.selectedChatMode ?? 'build';
   const appPath = getDyadAppPath(chatWithApp.app.path);
   const writtenFiles: string[] = [];
   const renamedFiles: string[] = [];
@@ -117,32 +207,50 @@ export async function processFullResponseActions(
 
   try {
     // Validate response for prohibited patterns
-    const validation = validateResponse(fullResponse, {
-      mode: (chatWithApp as any).workflowStep ? 'build' : (settings.selectedChatMode || 'build'),
+    const workflowStep =
+      chatWithApp.workflowStatus === "active" ? chatWithApp.workflowStep : null;
+    // Correction markers from mid-stream corrections aren't part of what
+    // the model wrote.
+    const validation = validateResponse(removeCorrectionTags(fullResponse), {
+      mode: (chatWithApp as any).workflowStep ? 'build' : mode,
       workflowStep: (chatWithApp as any).workflowStep || null,
+      allowedTags: workflowStep
+        ? WorkflowManager.getAllowedTagsForStep(
+            await WorkflowManager.getDefinition(chatWithApp.workflowId),
+            workflowStep,
+          )
+        : null,
       modelProvider: settings.selectedModel.provider,
+      rules: loadGuardrailRules(appPath),
     });
 
+    // Log violations and warnings for analytics
+    for (const violation of [...validation.violations, ...validation.warnings]) {
+      logViolation({
+        timestamp: new Date(),
+        chatId,
+        appId: chatWithApp.appId,
+        messageId,
+        violationType: violation.type,
+        action: violation.action,
+        mode,
+        workflowStep: (chatWithApp as any).workflowStep || undefined,
+        model: settings.selectedModel.name,
+        provider: settings.selectedModel.provider,
+        context: violation.context,
+      });
+    }
+
     if (!validation.isValid) {
       logger.error('Response validation failed:', validation.violations);
+      rollbackStagedWrites(chatId);
 
-      // Log violations for analytics
-      for (const violation of validation.violations) {
-        logViolation({
-          timestamp: new Date(),
-          chatId,
-          violationType: violation.type,
-          mode: settings.selectedChatMode || 'build',
-          workflowStep: (chatWithApp as any).workflowStep || undefined,
-          model: settings.selectedModel.name,
-          provider: settings.selectedModel.provider,
-          context: violation.context,
-        });
-      }
-
-      // Attempt correction if router model is available and enabled
+      // Attempt correction if a broken rule asks for it and the router
+      // model is available and enabled
       if (
+        validation.violations.some((v) => v.action === "correct") &&
         settings.enableCorrectiveAgent &&
+
         settings.enableAIRouter &&
         settings.routerModel
       ) {
@@ -187,8 +295,16 @@ export async function processFullResponseActions(
       logger.warn('Response validation warnings:', validation.warnings);
     }
 
+    for (const malformed of getMalformedDyadTags(fullResponse)) {
+      warnings.push({
+        message: `Malformed ${malformed.tag ?? "dyad"} tag at ${formatDyadTagPosition(malformed.position)}`,
+        error: malformed.reason,
+      });
+    }
+
     // Extract all tags
     const dyadWriteTags = getDyadWriteTags(fullResponse);
+    const dyadPatchTags = getDyadPatchTags(fullResponse);
     const dyadRenameTags = getDyadRenameTags(fullResponse);
     const dyadDeletePaths = getDyadDeleteTags(fullResponse);
     const dyadAddDependencyPackages = getDyadAddDependencyTags(fullResponse);
@@ -277,6 +393,7 @@ export async function processFullResponseActions(
     // 1. Deletes
     // 2. Renames
     // 3. Writes
+    // 4. Patches
     //
     // Why?
     // - Deleting first avoids path conflicts before the other operations.
@@ -443,6 +560,53 @@ export async function processFullResponseActions(
       }
     }
 
+    // Process all file patches. A patch is applied only if all of its hunks
+    // apply; otherwise the file is left alone and the failed hunks are
+    // reported, which the model sees in the next turn.
+    for (const tag of dyadPatchTags) {
+      const filePath = tag.path;
+      const fullFilePath = safeJoin(appPath, filePath);
+      const patchError = (error: string) =>
+        errors.push({
+          message: `Failed to apply dyad-patch to ${filePath}`,
+          error,
+        });
+
+      if (tag.errors.length > 0) {
+        patchError(formatPatchProblems(tag.errors));
+        continue;
+      }
+
+      const exists = fs.existsSync(fullFilePath);
+      const original = exists ? fs.readFileSync(fullFilePath, "utf8") : "";
+      const result = applyPatchHunks(original, tag.hunks);
+      if (result.failures.length > 0) {
+        patchError(formatPatchFailures(result.failures, tag.hunks.length));
+        continue;
+      }
+
+      fs.mkdirSync(path.dirname(fullFilePath), { recursive: true });
+      fs.writeFileSync(fullFilePath, result.content);
+      logger.log(
+        `Successfully patched file (${tag.hunks.length} hunk(s)): ${fullFilePath}`,
+      );
+      writtenFiles.push(filePath);
+      if (isServerFunction(filePath)) {
+        try {
+          await deploySupabaseFunctions({
+            supabaseProjectId: chatWithApp.app.supabaseProjectId!,
+            functionName: path.basename(path.dirname(filePath)),
+            content: result.content,
+          });
+        } catch (error) {
+          errors.push({
+            message: `Failed to deploy Supabase function: ${filePath}`,
+            error: error,
+          });
+        }
+      }
+    }
+
     // If we have any file changes, commit them all at once
     hasChanges =
       writtenFiles.length > 0 ||
@@ -487,6 +651,9 @@ export async function processFullResponseActions(
         message,
       });
       logger.log(`Successfully committed changes: ${changes.join(", ")}`);
+      // Files staged while streaming are part of this commit now, so they
+      // must survive the rollback once the stream ends
+      stagedWritesByChat.delete(chatId);
 
       // Check for any uncommitted changes after the commit
       const statusMatrix = await git.statusMatrix({ fs, dir: appPath });
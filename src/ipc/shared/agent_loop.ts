@@ -0,0 +1,100 @@
+import type { AgentLoopSettings } from "../../lib/schemas";
+import { createProblemFixPrompt } from "../../shared/problem_prompt";
+import type { AgentIterationStatus, ProblemReport } from "../ipc_types";
+import { escapeDyadTags } from "./escape";
+
+export const DEFAULT_AGENT_LOOP_SETTINGS: AgentLoopSettings = {
+  enabled: false,
+  maxIterations: 3,
+  tokenBudget: 200_000,
+  runTests: true,
+  checkRuntimeErrors: true,
+};
+
+const MAX_RUNTIME_ERRORS = 10;
+
+/** What the checks found after one round of edits. */
+export interface AgentVerification {
+  problems: ProblemReport;
+  // Null when the tests weren't run, e.g. the app has no test script
+  tests: { command: string; exitCode: number | null; output: string } | null;
+  // Null when the preview wasn't checked
+  runtimeErrors: string[] | null;
+}
+
+export function isVerificationPassing(verification: AgentVerification) {
+  return (
+    verification.problems.problems.length === 0 &&
+    (verification.tests === null || verification.tests.exitCode === 0) &&
+    (verification.runtimeErrors ?? []).length === 0
+  );
+}
+
+function describeTests(tests: AgentVerification["tests"]) {
+  if (!tests) {
+    return "skipped";
+  }
+  return tests.exitCode === 0 ? "passed" : "failed";
+}
+
+/**
+ * The chat's summary of one iteration, shown collapsed to its counts. The
+ * details are what the next turn is asked to fix.
+ */
+export function formatIterationTag({
+  iteration,
+  maxIterations,
+  status,
+  verification,
+}: {
+  iteration: number;
+  maxIterations: number;
+  status: AgentIterationStatus;
+  verification: AgentVerification;
+}): string {
+  const { problems, tests, runtimeErrors } = verification;
+  const details: string[] = [];
+  if (problems.problems.length > 0) {
+    details.push(
+      problems.problems
+        .map(
+          (problem) =>
+            `${problem.file}:${problem.line}:${problem.column} - ${problem.message} (TS${problem.code})`,
+        )
+        .join("\n"),
+    );
+  }
+  if (tests && tests.exitCode !== 0) {
+    details.push(`${tests.command}:\n${tests.output}`);
+  }
+  if (runtimeErrors && runtimeErrors.length > 0) {
+    details.push(runtimeErrors.join("\n\n"));
+  }
+  return `<dyad-agent-iteration iteration="${iteration}" max="${maxIterations}" status="${status}" problems="${problems.problems.length}" tests="${describeTests(tests)}" errors="${runtimeErrors?.length ?? 0}">
+${escapeDyadTags(details.join("\n\n"))}
+</dyad-agent-iteration>
+`;
+}
+
+/** The next turn's prompt: everything the checks found, in one message. */
+export function createAgentFixPrompt(verification: AgentVerification): string {
+  const { problems, tests, runtimeErrors } = verification;
+  const sections: string[] = [];
+  if (problems.problems.length > 0) {
+    sections.push(createProblemFixPrompt(problems));
+  }
+  if (tests && tests.exitCode !== 0) {
+    sections.push(
+      `\`${tests.command}\` ${tests.exitCode === null ? "timed out" : `failed with exit code ${tests.exitCode}`}:\n\`\`\`\n${tests.output}\n\`\`\``,
+    );
+  }
+  if (runtimeErrors && runtimeErrors.length > 0) {
+    const shown = runtimeErrors.slice(0, MAX_RUNTIME_ERRORS);
+    sections.push(
+      `The app's preview reported ${runtimeErrors.length} runtime error${runtimeErrors.length === 1 ? "" : "s"}:\n\n${shown
+        .map((error, index) => `${index + 1}. ${error}`)
+        .join("\n\n")}`,
+    );
+  }
+  return `Your changes don't pass the checks yet.\n\n${sections.join("\n\n")}\n\nFix these with your tools, then briefly summarize what you changed.`;
+}
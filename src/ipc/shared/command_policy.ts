@@ -0,0 +1,667 @@
+import type {
+  AgentCommandConsents,
+  CommandPolicy,
+  RuntimeMode2,
+} from "../../lib/schemas";
+import type { CommandCategory, CommandPolicyDecision } from "../ipc_types";
+
+export const DEFAULT_COMMAND_TIMEOUT_SECONDS = 120;
+
+// Commands the assistant may start without asking when it marks them
+// autorun, besides read-only commands and package installs.
+const AUTORUN_PATTERNS = ["flutter create*", "flutter run*", "npm run build*"];
+
+const READ_ONLY_COMMANDS = new Set([
+  "ls",
+  "pwd",
+  "cat",
+  "head",
+  "tail",
+  "wc",
+  "grep",
+  "rg",
+  "find",
+  "echo",
+  "tree",
+  "du",
+  "df",
+  "whoami",
+  "id",
+  "date",
+  "which",
+  "file",
+  "stat",
+  "uname",
+  "uptime",
+  "who",
+  "ps",
+  "env",
+  "printenv",
+  "dir",
+]);
+
+// Subcommands that only read, by tool
+const READ_ONLY_SUBCOMMANDS: Record<string, string[]> = {
+  git: ["status", "log", "diff", "show", "branch", "remote", "rev-parse"],
+  // Not audit: `npm audit fix` changes the lockfile and packages
+  npm: ["ls", "list", "-v", "--version"],
+  pnpm: ["ls", "list", "why", "-v", "--version"],
+  yarn: ["list", "why", "-v", "--version"],
+  node: ["-v", "--version"],
+  flutter: ["--version", "analyze", "devices"],
+  dart: ["--version", "analyze"],
+};
+
+// Options that make an otherwise read-only command run other programs or
+// write files, by program
+const UNSAFE_READ_OPTIONS: Record<string, RegExp> = {
+  // Runs every searched file through a command
+  rg: /^--pre(=|$)/,
+  // Writes the listing to a file
+  tree: /^-o$/,
+  // Runs the diff tool from the repo's config
+  git: /^--ext-diff$/,
+};
+
+// Writes the output to a file, e.g. `git log --output=<file>`
+const OUTPUT_OPTION = /^--output(=|$)/;
+
+// Options of `git branch` that only list branches. Names after them are
+// commits, and names after `--list` are patterns; any other name creates,
+// renames or deletes a branch.
+const GIT_BRANCH_LIST_OPTIONS = [
+  "-a",
+  "--all",
+  "-r",
+  "--remotes",
+  "-v",
+  "-vv",
+  "--verbose",
+  "--show-current",
+  "-i",
+  "--ignore-case",
+  "--color",
+  "--no-color",
+  "--column",
+  "--no-column",
+];
+const GIT_BRANCH_COMMIT_OPTIONS = [
+  "--contains",
+  "--no-contains",
+  "--merged",
+  "--no-merged",
+  "--points-at",
+];
+
+const PACKAGE_INSTALL_SUBCOMMANDS: Record<string, string[]> = {
+  npm: ["install", "i", "ci", "add"],
+  pnpm: ["install", "i", "add"],
+  yarn: ["install", "add"],
+  bun: ["install", "i", "add"],
+  pip: ["install"],
+  pip3: ["install"],
+  cargo: ["add", "fetch"],
+  flutter: ["pub"],
+  dart: ["pub"],
+};
+
+// Commands that reach other machines, by program or by subcommand
+const NETWORK_COMMANDS = new Set([
+  "curl",
+  "wget",
+  "http",
+  "https",
+  "ssh",
+  "scp",
+  "sftp",
+  "rsync",
+  "ftp",
+  "telnet",
+  "nc",
+  "ncat",
+  "netcat",
+  "ping",
+]);
+
+const NETWORK_SUBCOMMANDS: Record<string, string[]> = {
+  git: ["clone", "fetch", "pull", "push"],
+  // Ask the package registry
+  npm: ["view", "info", "show", "outdated", "search"],
+  pnpm: ["outdated", "view", "info"],
+  yarn: ["outdated", "info"],
+  // Checks the Flutter and Android download servers
+  flutter: ["doctor"],
+};
+
+interface WrapperSyntax {
+  // Options that take the next word as their value
+  valueOptions: string[];
+  flags: string[];
+  // Arguments before the wrapped command, e.g. timeout's duration
+  positional?: number;
+}
+
+// Programs that run the command that follows them. Options they don't know
+// are treated as unreadable, so the line is classified "other".
+const WRAPPER_COMMANDS: Record<string, WrapperSyntax> = {
+  env: {
+    valueOptions: ["-u", "--unset"],
+    flags: ["-i", "--ignore-environment", "-0", "--null", "-"],
+  },
+  xargs: {
+    valueOptions: [
+      "-n",
+      "--max-args",
+      "-L",
+      "--max-lines",
+      "-P",
+      "--max-procs",
+      "-I",
+      "-d",
+      "--delimiter",
+      "-s",
+      "--max-chars",
+      "-E",
+      "-a",
+      "--arg-file",
+    ],
+    flags: ["-0", "--null", "-r", "--no-run-if-empty", "-t", "--verbose"],
+  },
+  nice: { valueOptions: ["-n", "--adjustment"], flags: [] },
+  time: {
+    valueOptions: ["-f", "--format", "-o", "--output"],
+    flags: ["-p", "-a", "--append", "-v", "--verbose", "--portability"],
+  },
+  command: { valueOptions: [], flags: ["-p"] },
+  nohup: { valueOptions: [], flags: [] },
+  timeout: {
+    valueOptions: ["-s", "--signal", "-k", "--kill-after"],
+    flags: ["--preserve-status", "--foreground", "-v", "--verbose"],
+    positional: 1,
+  },
+};
+
+const VARIABLE_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+const DESTRUCTIVE_PATTERNS: RegExp[] = [
+  // rm -r, rm -rf, rm -f, rm --recursive, rm --force
+  /^rm\s+(.*\s)?(-[a-zA-Z]*[rRf][a-zA-Z]*|--recursive|--force)(\s|$)/,
+  /^git\s+push\s+(.*\s)?(-f|--force|--force-with-lease|--mirror|--delete)(\s|=|$)/,
+  /^git\s+push\s+(.*\s)?\+\S+/,
+  /^git\s+reset\s+(.*\s)?--hard(\s|$)/,
+  /^git\s+clean\s+(.*\s)?-[a-zA-Z]*f/,
+  /^git\s+checkout\s+(.*\s)?--\s+\.$/,
+  /^git\s+branch\s+(.*\s)?-D(\s|$)/,
+  /^(sudo|su|doas)(\s|$)/,
+  /^(dd|mkfs(\.\w+)?|shred|fdisk|format)(\s|$)/,
+  /^(chmod|chown)\s+(.*\s)?-[a-zA-Z]*R/,
+  /^find\s.*\s-(delete|exec|execdir|ok|okdir|fprint|fprint0|fprintf|fls)(\s|$)/,
+  /(^|\s)>\s*\/dev\/(sd|disk|nvme)/,
+  /\bdrop\s+(table|database|schema)\b/i,
+];
+
+// Glob to a full-match regex: "*" matches anything, "?" one character and
+// a backslash makes the next character literal.
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let escaped = false;
+  for (const char of pattern.trim().replace(/\s+/g, " ")) {
+    if (escaped) {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      escaped = false;
+    } else if (char === "\\") {
+      escaped = true;
+    } else if (char === "*") {
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  if (escaped) {
+    source += "\\\\";
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** A pattern that matches exactly `command`, globs included. */
+export function escapeGlob(command: string): string {
+  return command
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/[\\*?]/g, "\\$&");
+}
+
+function findMatchingPattern(
+  command: string,
+  patterns: string[],
+): string | null {
+  return (
+    patterns.find(
+      (pattern) => pattern.trim() && globToRegExp(pattern).test(command),
+    ) ?? null
+  );
+}
+
+/**
+ * Splits a shell command line into the commands it chains with `&&`, `||`,
+ * `;`, `|` or newlines, leaving quoted text alone.
+ */
+export function splitCommandChain(command: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  let quote: "'" | '"' | null = null;
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      current += char;
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\\" && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      }
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      quote = char;
+      current += char;
+    } else if (char === "\\" && i + 1 < command.length) {
+      current += char + command[++i];
+    } else if (
+      char === "&" &&
+      (command[i - 1] === ">" || command[i + 1] === ">")
+    ) {
+      // Part of a redirection such as 2>&1 or &>file
+      current += char;
+    } else if (char === ";" || char === "\n" || char === "|" || char === "&") {
+      // A lone "&" backgrounds the command; it still ends it.
+      if ((char === "|" || char === "&") && command[i + 1] === char) {
+        i++;
+      }
+      segments.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  return segments
+    .map((segment) => segment.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+}
+
+// Strips quoted text so operators inside strings aren't mistaken for
+// redirections or substitutions.
+function withoutQuotedText(segment: string): string {
+  return segment.replace(/'[^']*'|"(?:\\.|[^"\\])*"/g, "''");
+}
+
+function writesToFile(segment: string): boolean {
+  const unquoted = withoutQuotedText(segment)
+    .replace(/\d?>&\d/g, "")
+    .replace(/\d?>\s*\/dev\/null/g, "");
+  return unquoted.includes(">");
+}
+
+/**
+ * The commands a segment runs through `$(...)`, backticks, `<(...)` and
+ * `>(...)`. Nested substitutions are left in the returned commands.
+ */
+function substitutedCommands(segment: string): string[] {
+  // Single quotes don't expand, double quotes do.
+  const unquoted = segment.replace(/'[^']*'/g, "''");
+  const commands: string[] = [];
+  for (let i = 0; i < unquoted.length; i++) {
+    if (unquoted[i] === "`") {
+      const end = unquoted.indexOf("`", i + 1);
+      commands.push(unquoted.slice(i + 1, end === -1 ? undefined : end));
+      i = end === -1 ? unquoted.length : end;
+    } else if ("$<>".includes(unquoted[i]) && unquoted[i + 1] === "(") {
+      let depth = 1;
+      let end = i + 2;
+      for (; end < unquoted.length && depth > 0; end++) {
+        if (unquoted[end] === "(") {
+          depth++;
+        } else if (unquoted[end] === ")") {
+          depth--;
+        }
+      }
+      commands.push(unquoted.slice(i + 2, depth === 0 ? end - 1 : end));
+      i = end - 1;
+    }
+  }
+  return commands;
+}
+
+// Whether a read-only program's arguments keep it read-only
+function onlyReads(words: string[]): boolean {
+  // The shell removes the quotes before the program sees its options
+  const args = words.slice(1).map((word) => word.replace(/['"]/g, ""));
+  const unsafeOption = UNSAFE_READ_OPTIONS[words[0]];
+  if (
+    args.some(
+      (arg) => OUTPUT_OPTION.test(arg) || unsafeOption?.test(arg) === true,
+    )
+  ) {
+    return false;
+  }
+  if (words[0] !== "git") {
+    return true;
+  }
+  const [subcommand, ...rest] = args;
+  if (subcommand === "remote") {
+    return (
+      rest.every((arg) => arg === "-v" || arg === "--verbose") ||
+      rest[0] === "get-url"
+    );
+  }
+  if (subcommand === "branch") {
+    const listsPatterns = rest.includes("-l") || rest.includes("--list");
+    return rest.every(
+      (arg, index) =>
+        arg === "-l" ||
+        arg === "--list" ||
+        GIT_BRANCH_LIST_OPTIONS.includes(arg) ||
+        GIT_BRANCH_COMMIT_OPTIONS.includes(arg.split("=")[0]) ||
+        /^--(sort|format)=/.test(arg) ||
+        (!arg.startsWith("-") &&
+          (listsPatterns ||
+            GIT_BRANCH_COMMIT_OPTIONS.includes(rest[index - 1]))),
+    );
+  }
+  return true;
+}
+
+/**
+ * The command a wrapper such as `env` or `xargs` runs: "" when it runs
+ * none, or null when its options can't be read.
+ */
+function unwrapCommand(words: string[], syntax: WrapperSyntax): string | null {
+  let positional = syntax.positional ?? 0;
+  let index = 1;
+  for (; index < words.length; index++) {
+    const word = words[index];
+    const [name, value] = word.split("=", 2);
+    if (syntax.flags.includes(word)) {
+      continue;
+    }
+    if (syntax.valueOptions.includes(word)) {
+      index++;
+    } else if (
+      name.startsWith("--") &&
+      value !== undefined &&
+      syntax.valueOptions.includes(name)
+    ) {
+      continue;
+    } else if (words[0] === "env" && VARIABLE_ASSIGNMENT.test(word)) {
+      continue;
+    } else if (word.startsWith("-")) {
+      return null;
+    } else if (positional > 0) {
+      positional--;
+    } else {
+      break;
+    }
+  }
+  return words.slice(index).join(" ");
+}
+
+export function classifySegment(segment: string): CommandCategory {
+  // `FOO=1 rm -rf dist` runs rm, and `env rm -rf dist` too
+  const words = segment.split(" ");
+  const commandStart = words.findIndex(
+    (word) => !VARIABLE_ASSIGNMENT.test(word),
+  );
+  if (commandStart === -1) {
+    return "other";
+  }
+  if (commandStart > 0) {
+    return classifySegment(words.slice(commandStart).join(" "));
+  }
+  if (Object.prototype.hasOwnProperty.call(WRAPPER_COMMANDS, words[0])) {
+    const wrapped = unwrapCommand(words, WRAPPER_COMMANDS[words[0]]);
+    if (wrapped === null) {
+      return "other";
+    }
+    if (wrapped) {
+      return classifySegment(wrapped);
+    }
+  }
+  if (DESTRUCTIVE_PATTERNS.some((pattern) => pattern.test(segment))) {
+    return "destructive";
+  }
+  const [program = "", subcommand = ""] = segment.split(" ");
+  if (
+    NETWORK_COMMANDS.has(program) ||
+    NETWORK_SUBCOMMANDS[program]?.includes(subcommand)
+  ) {
+    return "network";
+  }
+  const substituted = substitutedCommands(segment);
+  if (substituted.length > 0) {
+    return worstCategory(["other", ...substituted.map(classifyCommand)]);
+  }
+  if (writesToFile(segment)) {
+    return "other";
+  }
+  if (PACKAGE_INSTALL_SUBCOMMANDS[program]?.includes(subcommand)) {
+    return "package-install";
+  }
+  if (
+    (READ_ONLY_COMMANDS.has(program) ||
+      READ_ONLY_SUBCOMMANDS[program]?.includes(subcommand)) &&
+    onlyReads(words)
+  ) {
+    return "read-only";
+  }
+  return "other";
+}
+
+const CATEGORY_SEVERITY: CommandCategory[] = [
+  "read-only",
+  "package-install",
+  "other",
+  "network",
+  "destructive",
+];
+
+function worstCategory(categories: CommandCategory[]): CommandCategory {
+  return categories.reduce((worst, category) =>
+    CATEGORY_SEVERITY.indexOf(category) > CATEGORY_SEVERITY.indexOf(worst)
+      ? category
+      : worst,
+  );
+}
+
+/**
+ * The most dangerous category among the chained commands.
+ */
+export function classifyCommand(command: string): CommandCategory {
+  const segments = splitCommandChain(command);
+  if (segments.length === 0) {
+    return "other";
+  }
+  return worstCategory(segments.map(classifySegment));
+}
+
+/**
+ * The app's deny and allow rules, which decide before anything else. Deny
+ * rules match the whole line or any chained command; allow rules have to
+ * match every chained command. `decision` is null when no rule matched.
+ */
+function applyPolicyPatterns(
+  command: string,
+  policy: CommandPolicy | null,
+  defaultRuntime: RuntimeMode2,
+): {
+  segments: string[];
+  base: Omit<CommandPolicyDecision, "action" | "reason" | "matchedPattern">;
+  decision: CommandPolicyDecision | null;
+} {
+  const normalized = command.trim().replace(/\s+/g, " ");
+  const segments = splitCommandChain(normalized);
+  const allow = policy?.allow ?? [];
+  const deny = policy?.deny ?? [];
+  const base = {
+    category: classifyCommand(normalized),
+    runtime: policy?.runtime ?? defaultRuntime,
+    timeoutSeconds: policy?.timeoutSeconds ?? DEFAULT_COMMAND_TIMEOUT_SECONDS,
+  };
+
+  for (const candidate of [normalized, ...segments]) {
+    const denied = findMatchingPattern(candidate, deny);
+    if (denied) {
+      return {
+        segments,
+        base,
+        decision: {
+          ...base,
+          action: "deny",
+          reason: `\`${candidate}\` is blocked by the app's deny rule \`${denied}\`.`,
+          matchedPattern: denied,
+        },
+      };
+    }
+  }
+
+  // Allow rules are matched per command, so "npm run *" can't let a chained
+  // "&& curl ..." through.
+  const allowedSegments = segments.map((segment) =>
+    findMatchingPattern(segment, allow),
+  );
+  if (segments.length > 0 && allowedSegments.every((pattern) => pattern)) {
+    const matchedPattern = allowedSegments[0];
+    return {
+      segments,
+      base,
+      decision: {
+        ...base,
+        action: "allow",
+        reason: `Allowed by the app's rule \`${matchedPattern}\`.`,
+        matchedPattern,
+      },
+    };
+  }
+  return { segments, base, decision: null };
+}
+
+/**
+ * Decides whether a command may run, in order: a deny pattern matching the
+ * line or any chained command blocks it; allow patterns matching every
+ * chained command run it; destructive commands are always confirmed; and
+ * the rest run unasked when terminal commands are auto-approved, or when
+ * the assistant marked a read-only, install or known scaffolding command as
+ * autorun.
+ */
+export function evaluateCommandPolicy(
+  command: string,
+  policy: CommandPolicy | null,
+  options: {
+    autoApprove: boolean;
+    autorun?: boolean;
+    defaultRuntime: RuntimeMode2;
+  },
+): CommandPolicyDecision {
+  const { segments, base, decision } = applyPolicyPatterns(
+    command,
+    policy,
+    options.defaultRuntime,
+  );
+  if (decision) {
+    return decision;
+  }
+  const { category } = base;
+
+  if (category === "destructive") {
+    return {
+      ...base,
+      action: "ask",
+      reason: "This command can delete files or rewrite history.",
+      matchedPattern: null,
+    };
+  }
+
+  if (options.autoApprove) {
+    return {
+      ...base,
+      action: "allow",
+      reason: "Terminal commands are auto-approved.",
+      matchedPattern: null,
+    };
+  }
+
+  if (
+    options.autorun &&
+    segments.every(
+      (segment) =>
+        classifySegment(segment) === "read-only" ||
+        classifySegment(segment) === "package-install" ||
+        findMatchingPattern(segment, AUTORUN_PATTERNS),
+    )
+  ) {
+    return {
+      ...base,
+      action: "allow",
+      reason: `Safe to run automatically (${category}).`,
+      matchedPattern: null,
+    };
+  }
+
+  return {
+    ...base,
+    action: "ask",
+    reason: "Confirm before running this command.",
+    matchedPattern: null,
+  };
+}
+
+export const DEFAULT_AGENT_COMMAND_CONSENTS: Required<AgentCommandConsents> = {
+  "read-only": "always",
+  "package-install": "ask",
+  other: "ask",
+  network: "denied",
+  destructive: "denied",
+};
+
+const AGENT_CONSENT_ACTIONS = {
+  always: "allow",
+  ask: "ask",
+  denied: "deny",
+} as const;
+
+/**
+ * Decides whether agent mode may run a shell command. The app's deny and
+ * allow rules come first, as for terminal commands; otherwise the app's
+ * consent for the command's category applies. Agent commands are never
+ * auto-approved by the terminal setting.
+ */
+export function evaluateAgentCommandPolicy(
+  command: string,
+  policy: CommandPolicy | null,
+  options: { defaultRuntime: RuntimeMode2 },
+): CommandPolicyDecision {
+  const { base, decision } = applyPolicyPatterns(
+    command,
+    policy,
+    options.defaultRuntime,
+  );
+  if (decision) {
+    return decision;
+  }
+  const consent =
+    policy?.agentConsents?.[base.category] ??
+    DEFAULT_AGENT_COMMAND_CONSENTS[base.category];
+  const action = AGENT_CONSENT_ACTIONS[consent];
+  return {
+    ...base,
+    action,
+    reason:
+      action === "allow"
+        ? `Agent mode may run ${base.category} commands in this app.`
+        : action === "deny"
+          ? `Agent mode may not run ${base.category} commands in this app.`
+          : `Confirm before agent mode runs this ${base.category} command.`,
+    matchedPattern: null,
+  };
+}
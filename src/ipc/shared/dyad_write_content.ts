@@ -0,0 +1,25 @@
+// dyad-write content that contains dyad tags of its own would close or open
+// tags early, so it's written with `encoding="entities"`: "&" and "<" as XML
+// entities. Parsers decode it back to the file's exact content.
+export const DYAD_WRITE_ENTITY_ENCODING = "entities";
+
+export function needsEntityEncoding(content: string): boolean {
+  return /<\/?dyad/.test(content);
+}
+
+export function encodeEntities(content: string): string {
+  return content.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+}
+
+/** The file content of a dyad-write tag, given its `encoding` attribute. */
+export function decodeDyadWriteContent(
+  content: string,
+  encoding: string | undefined,
+): string {
+  if (encoding !== DYAD_WRITE_ENTITY_ENCODING) {
+    return content;
+  }
+  return content.replace(/&(lt|amp);/g, (_, entity) =>
+    entity === "lt" ? "<" : "&",
+  );
+}
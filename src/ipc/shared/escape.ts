@@ -0,0 +1,38 @@
+export function escapeXml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Swaps the "<" of dyad tags for a look-alike character, so text that
+ * mentions them (reasoning, tool output, error logs) isn't mishandled as
+ * real tags by:
+ * 1. FE markdown parser
+ * 2. Main process response processor
+ */
+export function escapeDyadTags(text: unknown): string {
+  // Tool outputs can return structured objects. Convert them to strings
+  // before escaping so we do not crash while trying to call .replace.
+  let safeText: string;
+  if (typeof text === "string") {
+    safeText = text;
+  } else if (text === null || text === undefined) {
+    safeText = "";
+  } else if (typeof text === "object") {
+    try {
+      safeText = JSON.stringify(text, null, 2);
+    } catch {
+      safeText = String(text);
+    }
+  } else {
+    safeText = String(text);
+  }
+  return safeText.replace(/<dyad/g, "＜dyad").replace(/<\/dyad/g, "＜/dyad");
+}
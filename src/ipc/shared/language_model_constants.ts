@@ -650,3 +650,9 @@ export const LOCAL_PROVIDERS: Record<
     hasFreeTier: true,
   },
 };
+
+// Embedding models used for the code index when the user doesn't pick one
+export const DEFAULT_EMBEDDING_MODELS = {
+  ollama: "nomic-embed-text",
+  lmstudio: "text-embedding-nomic-embed-text-v1.5",
+} as const;
@@ -0,0 +1,171 @@
+import type { ModelPriceOverride } from "../../lib/schemas";
+import { MODEL_OPTIONS } from "./language_model_constants";
+
+/**
+ * USD per million tokens. Cached input defaults to the input price for
+ * providers without a discount for it.
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  cachedInputPerMillion?: number;
+}
+
+/**
+ * Token counts of one request. Input includes cached input and output
+ * includes reasoning, whatever the provider's own convention.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  reasoningTokens: number;
+}
+
+const FREE: ModelPrice = { inputPerMillion: 0, outputPerMillion: 0 };
+
+const GPT_5: ModelPrice = {
+  inputPerMillion: 1.25,
+  outputPerMillion: 10,
+  cachedInputPerMillion: 0.125,
+};
+const GPT_5_MINI: ModelPrice = {
+  inputPerMillion: 0.25,
+  outputPerMillion: 2,
+  cachedInputPerMillion: 0.025,
+};
+const GPT_5_NANO: ModelPrice = {
+  inputPerMillion: 0.05,
+  outputPerMillion: 0.4,
+  cachedInputPerMillion: 0.005,
+};
+const CLAUDE_SONNET: ModelPrice = {
+  inputPerMillion: 3,
+  outputPerMillion: 15,
+  cachedInputPerMillion: 0.3,
+};
+const GEMINI_2_5_PRO: ModelPrice = {
+  inputPerMillion: 1.25,
+  outputPerMillion: 10,
+  cachedInputPerMillion: 0.31,
+};
+const GEMINI_2_5_FLASH: ModelPrice = {
+  inputPerMillion: 0.3,
+  outputPerMillion: 2.5,
+  cachedInputPerMillion: 0.075,
+};
+
+/**
+ * List prices of the models in MODEL_OPTIONS, by provider and model name.
+ * Models billed through a subscription (Gemini CLI, ChatMock) cost nothing
+ * per request. Dyad Pro models aren't listed: their cost depends on the
+ * model the gateway picks.
+ */
+export const MODEL_PRICES: Record<string, Record<string, ModelPrice>> = {
+  openai: {
+    "gpt-5-codex": GPT_5,
+    "gpt-5": GPT_5,
+    "gpt-5-mini": GPT_5_MINI,
+    "gpt-5-nano": GPT_5_NANO,
+    "o4-mini": {
+      inputPerMillion: 1.1,
+      outputPerMillion: 4.4,
+      cachedInputPerMillion: 0.275,
+    },
+  },
+  anthropic: {
+    "claude-sonnet-4-5-20250929": CLAUDE_SONNET,
+    "claude-sonnet-4-20250514": CLAUDE_SONNET,
+    "claude-3-7-sonnet-latest": CLAUDE_SONNET,
+    "claude-3-5-sonnet-20241022": CLAUDE_SONNET,
+    "claude-3-5-haiku-20241022": {
+      inputPerMillion: 0.8,
+      outputPerMillion: 4,
+      cachedInputPerMillion: 0.08,
+    },
+  },
+  google: {
+    "gemini-2.5-pro": GEMINI_2_5_PRO,
+    "gemini-2.5-flash": GEMINI_2_5_FLASH,
+  },
+  vertex: {
+    "gemini-2.5-pro": GEMINI_2_5_PRO,
+    "gemini-2.5-flash": GEMINI_2_5_FLASH,
+  },
+  openrouter: {
+    "qwen/qwen3-coder:free": FREE,
+    "deepseek/deepseek-chat-v3.1:free": FREE,
+    "deepseek/deepseek-chat-v3-0324:free": FREE,
+    "z-ai/glm-4.6": { inputPerMillion: 0.6, outputPerMillion: 2.2 },
+    "qwen/qwen3-coder": { inputPerMillion: 0.22, outputPerMillion: 0.95 },
+    "deepseek/deepseek-chat-v3.1": {
+      inputPerMillion: 0.27,
+      outputPerMillion: 1.1,
+    },
+    "moonshotai/kimi-k2-0905": { inputPerMillion: 0.6, outputPerMillion: 2.5 },
+  },
+  azure: {
+    "gpt-5-codex": GPT_5,
+    "gpt-5": GPT_5,
+    "gpt-5-mini": GPT_5_MINI,
+    "gpt-5-nano": GPT_5_NANO,
+    "gpt-5-chat": GPT_5,
+  },
+  xai: {
+    "grok-code-fast-1": {
+      inputPerMillion: 0.2,
+      outputPerMillion: 1.5,
+      cachedInputPerMillion: 0.02,
+    },
+    "grok-4": {
+      inputPerMillion: 3,
+      outputPerMillion: 15,
+      cachedInputPerMillion: 0.75,
+    },
+    "grok-3": { inputPerMillion: 3, outputPerMillion: 15 },
+  },
+  bedrock: {
+    "us.anthropic.claude-sonnet-4-5-20250929-v1:0": CLAUDE_SONNET,
+    "us.anthropic.claude-sonnet-4-20250514-v1:0": CLAUDE_SONNET,
+    "us.anthropic.claude-3-7-sonnet-20250219-v1:0": CLAUDE_SONNET,
+    "us.anthropic.claude-3-5-sonnet-20241022-v2:0": CLAUDE_SONNET,
+  },
+  "gemini-cli": Object.fromEntries(
+    MODEL_OPTIONS["gemini-cli"].map((model) => [model.name, FREE]),
+  ),
+  chatmock: Object.fromEntries(
+    MODEL_OPTIONS.chatmock.map((model) => [model.name, FREE]),
+  ),
+};
+
+/**
+ * The price of a model: the user's override if there is one, otherwise the
+ * built-in list price. Undefined when the price isn't known.
+ */
+export function getModelPrice(
+  provider: string,
+  model: string,
+  overrides: ModelPriceOverride[] = [],
+): ModelPrice | undefined {
+  const override = overrides.find(
+    (entry) => entry.provider === provider && entry.model === model,
+  );
+  return override ?? MODEL_PRICES[provider]?.[model];
+}
+
+/**
+ * The cost of a request in USD.
+ */
+export function computeCost(usage: TokenUsage, price: ModelPrice): number {
+  const cachedInputTokens = Math.min(
+    usage.cachedInputTokens,
+    usage.inputTokens,
+  );
+  return (
+    ((usage.inputTokens - cachedInputTokens) * price.inputPerMillion +
+      cachedInputTokens *
+        (price.cachedInputPerMillion ?? price.inputPerMillion) +
+      usage.outputTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
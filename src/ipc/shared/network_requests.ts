@@ -0,0 +1,109 @@
+import type { NetworkRequestEntry } from "../ipc_types";
+
+// Requests kept per preview; older ones are dropped first
+export const MAX_NETWORK_REQUESTS = 300;
+
+/**
+ * Adds a request to the list, or replaces the earlier report of the same
+ * request (the shim reports a request when it starts and again when it
+ * completes).
+ */
+export function upsertNetworkRequest(
+  requests: NetworkRequestEntry[],
+  request: NetworkRequestEntry,
+  maxRequests = MAX_NETWORK_REQUESTS,
+): NetworkRequestEntry[] {
+  const index = requests.findIndex((existing) => existing.id === request.id);
+  if (index !== -1) {
+    const next = [...requests];
+    next[index] = request;
+    return next;
+  }
+  return [...requests, request].slice(-maxRequests);
+}
+
+export function isFailedNetworkRequest(request: NetworkRequestEntry): boolean {
+  return !!request.error || (request.status !== null && request.status >= 400);
+}
+
+export function isPendingNetworkRequest(request: NetworkRequestEntry): boolean {
+  return (
+    !request.error && request.status === null && request.durationMs === null
+  );
+}
+
+// Credentials that shouldn't be sent to the AI provider
+const SENSITIVE_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "apikey",
+  "x-api-key",
+]);
+
+export function formatNetworkHeaders(
+  headers: Record<string, string> | undefined,
+  { maskSensitive = false }: { maskSensitive?: boolean } = {},
+): string {
+  const entries = Object.entries(headers ?? {});
+  return entries.length > 0
+    ? entries
+        .map(
+          ([name, value]) =>
+            `${name}: ${maskSensitive && SENSITIVE_HEADERS.has(name.toLowerCase()) ? "[masked]" : value}`,
+        )
+        .join("\n")
+    : "(none)";
+}
+
+/**
+ * The request and its response as plain text, for the AI to debug. Header
+ * credentials are masked.
+ */
+export function formatNetworkRequestForPrompt(
+  request: NetworkRequestEntry,
+): string {
+  const status = request.error
+    ? `Failed: ${request.error}`
+    : request.status === null
+      ? "No response yet"
+      : `${request.status} ${request.statusText ?? ""}`.trim();
+  const sections = [
+    `${request.method} ${request.url} (${request.kind})`,
+    `Status: ${status}`,
+  ];
+  if (request.durationMs !== null) {
+    sections.push(`Duration: ${request.durationMs}ms`);
+  }
+  if (request.kind === "websocket") {
+    const messages = request.messages ?? [];
+    sections.push(
+      `Messages (${messages.length}):\n${
+        messages
+          .map(
+            (message) =>
+              `${message.direction === "sent" ? ">" : "<"} ${message.data}`,
+          )
+          .join("\n") || "(none)"
+      }`,
+    );
+    if (request.closeCode !== undefined) {
+      sections.push(`Closed with code ${request.closeCode}`);
+    }
+    return sections.join("\n");
+  }
+  sections.push(
+    `Request headers:\n${formatNetworkHeaders(request.requestHeaders, { maskSensitive: true })}`,
+  );
+  if (request.requestBody) {
+    sections.push(`Request body:\n${request.requestBody}`);
+  }
+  if (request.status !== null) {
+    sections.push(
+      `Response headers:\n${formatNetworkHeaders(request.responseHeaders, { maskSensitive: true })}`,
+    );
+    sections.push(`Response body:\n${request.responseBody || "(empty)"}`);
+  }
+  return sections.join("\n");
+}
@@ -0,0 +1,126 @@
+import type { PlanStep, PlanStepRisk, PlanStepStatus } from "../ipc_types";
+
+export const PLAN_STEP_RISKS: PlanStepRisk[] = ["low", "medium", "high"];
+
+// Steps that already ran keep their place and content when the plan is edited
+const LOCKED_STEP_STATUSES: PlanStepStatus[] = ["running", "done"];
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * Content of the first <dyad-plan> in a response, or null when the response
+ * has no complete plan.
+ */
+export function getDyadPlanContent(response: string): string | null {
+  const match = response.match(/<dyad-plan\b[^>]*>([\s\S]*?)<\/dyad-plan>/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Parses the <step files="..." risk="...">intent</step> items of a
+ * <dyad-plan>, in order. Steps without an intent are dropped.
+ */
+export function parsePlanSteps(content: string): PlanStep[] {
+  const steps: PlanStep[] = [];
+  for (const match of content.matchAll(/<step\b([^>]*)>([\s\S]*?)<\/step>/g)) {
+    const attributes = parseAttributes(match[1]);
+    const intent = decodeXml(match[2]).trim();
+    if (!intent) {
+      continue;
+    }
+    const risk = attributes.risk?.trim().toLowerCase() as PlanStepRisk;
+    steps.push({
+      id: `step-${steps.length + 1}`,
+      intent,
+      files: (attributes.files ?? "")
+        .split(",")
+        .map((file) => file.trim())
+        .filter(Boolean),
+      risk: PLAN_STEP_RISKS.includes(risk) ? risk : "medium",
+      status: "pending",
+      commitHash: null,
+    });
+  }
+  return steps;
+}
+
+/**
+ * Applies the user's edits (order, intent, files, risk, skipping) to the
+ * stored steps. Steps that are running or done can't be changed, and steps
+ * can't be added or removed.
+ */
+export function mergePlanSteps(
+  current: PlanStep[],
+  edited: PlanStep[],
+): PlanStep[] {
+  const currentById = new Map(current.map((step) => [step.id, step]));
+  if (
+    edited.length !== current.length ||
+    new Set(edited.map((step) => step.id)).size !== edited.length ||
+    edited.some((step) => !currentById.has(step.id))
+  ) {
+    throw new Error("The plan's steps have changed. Reload it and try again.");
+  }
+  return edited.map((step) => {
+    const existing = currentById.get(step.id)!;
+    if (LOCKED_STEP_STATUSES.includes(existing.status)) {
+      return existing;
+    }
+    return {
+      ...existing,
+      intent: step.intent.trim() || existing.intent,
+      files: step.files.map((file) => file.trim()).filter(Boolean),
+      risk: PLAN_STEP_RISKS.includes(step.risk) ? step.risk : existing.risk,
+      status:
+        step.status === "pending" || step.status === "skipped"
+          ? step.status
+          : existing.status,
+    };
+  });
+}
+
+export function getNextPlanStep(steps: PlanStep[]): PlanStep | undefined {
+  return steps.find((step) => step.status === "pending");
+}
+
+/**
+ * Prompt for the build-mode turn that carries out one step, with the rest
+ * of the plan as it stands after the user's edits.
+ */
+export function buildPlanStepPrompt(steps: PlanStep[], step: PlanStep): string {
+  const activeSteps = steps.filter((s) => s.status !== "skipped");
+  const position = activeSteps.findIndex((s) => s.id === step.id) + 1;
+  const outline = steps
+    .map((s, index) => {
+      const marker = s.id === step.id ? "this step" : s.status;
+      return `${index + 1}. [${marker}] ${s.intent}`;
+    })
+    .join("\n");
+
+  return `Carry out step ${position} of ${activeSteps.length} of the approved plan:
+
+${step.intent}
+
+Files: ${step.files.length > 0 ? step.files.join(", ") : "as needed"}
+Risk: ${step.risk}
+
+Only make the changes for this step; the remaining steps are done in later turns. Skipped steps must not be done.
+
+Plan:
+${outline}`;
+}
@@ -0,0 +1,202 @@
+import crypto from "node:crypto";
+import type { WebContents } from "electron";
+import { desc, eq } from "drizzle-orm";
+import log from "electron-log";
+import { db } from "../../db";
+import { agentCommandRuns, apps } from "../../db/schema";
+import { readSettings } from "../../main/settings";
+import { getDyadAppPath } from "../../paths/paths";
+import type {
+  AgentCommandConsentRequest,
+  AgentCommandRun,
+  AgentCommandRunStatus,
+} from "../ipc_types";
+import {
+  escapeGlob,
+  evaluateAgentCommandPolicy,
+} from "../shared/command_policy";
+import { runAppCommand, stopCommand } from "./command_runner";
+import { resolveConsent, waitForConsent } from "./mcp_consent";
+import { safeSend } from "./safe_sender";
+
+const logger = log.scope("agent_command");
+
+// Runs listed in the app's audit log, newest first
+const MAX_LISTED_RUNS = 200;
+
+async function recordRun(
+  values: Omit<AgentCommandRun, "id" | "createdAt" | "timedOut"> & {
+    timedOut?: boolean;
+  },
+) {
+  try {
+    await db.insert(agentCommandRuns).values(values);
+  } catch (error) {
+    // The command already ran or was refused; a missing entry shouldn't
+    // fail the chat
+    logger.error("Failed to record agent command run", error);
+  }
+}
+
+/**
+ * Asks the user about a command in the chat. Resolves with their decision,
+ * or "decline" when the response is stopped first.
+ */
+async function askForConsent(
+  sender: WebContents,
+  request: Omit<AgentCommandConsentRequest, "requestId">,
+  abortSignal?: AbortSignal,
+) {
+  // Parallel tool calls can ask within the same millisecond
+  const requestId = `agent-command:${request.chatId}:${crypto.randomUUID()}`;
+  const onAbort = () => {
+    resolveConsent(requestId, "decline");
+    safeSend(sender, "agent-command:consent-cancelled", { requestId });
+  };
+  if (abortSignal?.aborted) {
+    return "decline";
+  }
+  abortSignal?.addEventListener("abort", onAbort, { once: true });
+  safeSend(sender, "agent-command:consent-request", {
+    requestId,
+    ...request,
+  } satisfies AgentCommandConsentRequest);
+  try {
+    return await waitForConsent(requestId);
+  } finally {
+    abortSignal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Runs a shell command for agent mode under the app's command policy:
+ * denied commands are refused, commands the policy asks about wait for the
+ * user, and every attempt is recorded in the app's audit log. Returns the
+ * result for the model.
+ */
+export async function runAgentCommand({
+  sender,
+  appId,
+  chatId,
+  command,
+  abortSignal,
+}: {
+  sender: WebContents;
+  appId: number;
+  chatId: number;
+  command: string;
+  abortSignal?: AbortSignal;
+}): Promise<string> {
+  const app = await db.query.apps.findFirst({ where: eq(apps.id, appId) });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  const appPath = getDyadAppPath(app.path);
+  const decision = evaluateAgentCommandPolicy(command, app.commandPolicy, {
+    defaultRuntime: readSettings().runtimeMode2 ?? "host",
+  });
+  const cwd = decision.runtime === "docker" ? "/app" : appPath;
+  const audit = { appId, chatId, command, cwd, category: decision.category };
+
+  let status: AgentCommandRunStatus = "allowed";
+  if (decision.action === "deny") {
+    await recordRun({
+      ...audit,
+      status: "denied",
+      exitCode: null,
+      durationMs: null,
+    });
+    return JSON.stringify({
+      error: `The command was not run. ${decision.reason} Don't retry it; tell the user if it's needed.`,
+    });
+  }
+  if (decision.action === "ask") {
+    const response = await askForConsent(
+      sender,
+      {
+        ...audit,
+        runtime: decision.runtime,
+        reason: decision.reason,
+      },
+      abortSignal,
+    );
+    if (response === "decline") {
+      await recordRun({
+        ...audit,
+        status: "declined",
+        exitCode: null,
+        durationMs: null,
+      });
+      return JSON.stringify({
+        error:
+          "The user declined to run this command. Don't retry it; continue without it or ask the user.",
+      });
+    }
+    if (response === "accept-always") {
+      // Remembered for this exact command only, so its globs are escaped.
+      // Read again: the policy may have changed while the user was asked,
+      // e.g. by another command they accepted.
+      const current = await db.query.apps.findFirst({
+        where: eq(apps.id, appId),
+        columns: { commandPolicy: true },
+      });
+      const policy = current?.commandPolicy ?? { allow: [], deny: [] };
+      await db
+        .update(apps)
+        .set({
+          commandPolicy: {
+            ...policy,
+            allow: [...policy.allow, escapeGlob(command)],
+          },
+        })
+        .where(eq(apps.id, appId));
+    }
+    status = "approved";
+  }
+
+  logger.log(
+    `Running ${decision.category} agent command for app ${appId} on ${decision.runtime}: ${command}`,
+  );
+  try {
+    const result = await runAppCommand({
+      appId,
+      appPath,
+      command,
+      runId: `agent-${chatId}-${crypto.randomUUID()}`,
+      decision,
+      onStart: (running) =>
+        abortSignal?.addEventListener(
+          "abort",
+          () => {
+            running.cancelled = true;
+            stopCommand(running);
+          },
+          { once: true },
+        ),
+    });
+    await recordRun({
+      ...audit,
+      status,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs,
+      timedOut: result.timedOut,
+    });
+    return JSON.stringify(result);
+  } catch (error) {
+    await recordRun({ ...audit, status, exitCode: null, durationMs: null });
+    return JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export async function listAgentCommandRuns(
+  appId: number,
+): Promise<AgentCommandRun[]> {
+  return db
+    .select()
+    .from(agentCommandRuns)
+    .where(eq(agentCommandRuns.appId, appId))
+    .orderBy(desc(agentCommandRuns.id))
+    .limit(MAX_LISTED_RUNS);
+}
@@ -0,0 +1,109 @@
+import log from "electron-log";
+import type { CommandPolicy } from "../../lib/schemas";
+import { generateProblemReport } from "../processors/tsc";
+import type { AgentVerification } from "../shared/agent_loop";
+import { runAppTests } from "./agent_tools";
+import { getDyadWriteTags } from "./dyad_tag_parser";
+
+const logger = log.scope("agent_loop");
+
+// How long the preview gets to reload and report errors after the edits
+const RUNTIME_ERROR_SETTLE_MS = 3000;
+const MAX_BUFFERED_ERRORS = 50;
+
+// Errors reported by each app's preview, newest last
+const runtimeErrors = new Map<number, { message: string; at: number }[]>();
+// Aborted to stop each chat's running loop, including its fix turn
+const loopControllers = new Map<number, AbortController>();
+
+export function recordRuntimeError(appId: number, message: string) {
+  const errors = runtimeErrors.get(appId) ?? [];
+  errors.push({ message, at: Date.now() });
+  runtimeErrors.set(appId, errors.slice(-MAX_BUFFERED_ERRORS));
+}
+
+function getRuntimeErrorsSince(appId: number, since: number): string[] {
+  const messages = (runtimeErrors.get(appId) ?? [])
+    .filter((error) => error.at >= since)
+    .map((error) => error.message);
+  return [...new Set(messages)];
+}
+
+/**
+ * Starts a chat's loop. The returned controller aborts when the user stops
+ * the loop or the whole response is cancelled through `signal`.
+ */
+export function startAgentLoop(
+  chatId: number,
+  signal: AbortSignal,
+): AbortController {
+  const controller = new AbortController();
+  if (signal.aborted) {
+    controller.abort();
+  } else {
+    signal.addEventListener("abort", () => controller.abort(), { once: true });
+  }
+  loopControllers.set(chatId, controller);
+  return controller;
+}
+
+export function requestAgentLoopStop(chatId: number) {
+  loopControllers.get(chatId)?.abort();
+}
+
+export function finishAgentLoop(chatId: number, controller: AbortController) {
+  // A newer loop for the chat may have started since
+  if (loopControllers.get(chatId) === controller) {
+    loopControllers.delete(chatId);
+  }
+}
+
+/**
+ * Checks the response's edits: type errors, the app's tests and, when the
+ * edits are already on disk, the errors the preview reports after reloading.
+ */
+export async function verifyAgentResponse({
+  appId,
+  appPath,
+  commandPolicy,
+  fullResponse,
+  runTests,
+  checkRuntimeErrors,
+}: {
+  appId: number;
+  appPath: string;
+  commandPolicy: CommandPolicy | null;
+  fullResponse: string;
+  runTests: boolean;
+  checkRuntimeErrors: boolean;
+}): Promise<AgentVerification> {
+  const startedAt = Date.now();
+  const problems = await generateProblemReport({ fullResponse, appPath });
+
+  let tests: AgentVerification["tests"] = null;
+  if (runTests) {
+    try {
+      tests = await runAppTests({
+        appId,
+        appPath,
+        commandPolicy,
+        writes: new Map(
+          getDyadWriteTags(fullResponse).map((tag) => [tag.path, tag.content]),
+        ),
+      });
+    } catch (error) {
+      // E.g. an unreadable package.json; the other checks still count
+      logger.warn(`Failed to run the tests of app ${appId}:`, error);
+    }
+  }
+
+  let errors: string[] | null = null;
+  if (checkRuntimeErrors) {
+    const wait = startedAt + RUNTIME_ERROR_SETTLE_MS - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    errors = getRuntimeErrorsSince(appId, startedAt);
+  }
+  return { problems, tests, runtimeErrors: errors };
+}
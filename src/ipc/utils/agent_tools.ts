@@ -0,0 +1,706 @@
+// Typed filesystem and search tools for agent mode, confined to the app
+// directory. Writes aren't applied by the tools: each one becomes a
+// <dyad-write> in the response, so they're approved, written and committed
+// like any other change. Until then the tools read them back from
+// `pendingWrites`.
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { glob } from "glob";
+import { tool, type ToolSet } from "ai";
+import { z } from "zod";
+import log from "electron-log";
+import { normalizePath } from "../../../shared/normalizePath";
+import type { CommandPolicy } from "../../lib/schemas";
+import { readSettings } from "../../main/settings";
+import { listIndexableFiles } from "../../utils/codebase";
+import { applyPatchHunks, parsePatchHunks } from "../../shared/dyad_patch";
+import { generateProblemReport } from "../processors/tsc";
+import { evaluateCommandPolicy } from "../shared/command_policy";
+import { escapeDyadTags, escapeRegExp, escapeXml } from "../shared/escape";
+import { runAppCommand } from "./command_runner";
+import { safeJoin } from "./path_utils";
+import {
+  DYAD_WRITE_ENTITY_ENCODING,
+  encodeEntities,
+  needsEntityEncoding,
+} from "../shared/dyad_write_content";
+
+const logger = log.scope("agent_tools");
+
+export const AGENT_TOOL_NAMES = [
+  "read_file",
+  "list_dir",
+  "glob",
+  "grep",
+  "write_file",
+  "apply_patch",
+  "get_problems",
+  "run_tests",
+];
+
+const MAX_READ_LINES = 2000;
+const MAX_LIST_ENTRIES = 500;
+const MAX_GREP_MATCHES = 200;
+// Longest tool output sent back to the model; longer output keeps its end
+const MAX_OUTPUT_CHARS = 30_000;
+
+// Directories glob and grep don't descend into
+const IGNORED_DIRS = ["node_modules", ".git", "dist", "build", ".next"];
+
+export interface AgentToolSession {
+  tools: ToolSet;
+  // Markup shown in the chat for a finished tool call, by tool call id
+  renderToolResult: (toolCallId: string) => string | undefined;
+  // Content of the files written in this response, by relative path
+  pendingWrites: Map<string, string>;
+}
+
+interface ToolRun {
+  // What the model gets back
+  output: string;
+  // What the chat shows
+  markup: string;
+}
+
+function toolOutputTag(
+  toolName: string,
+  summary: string,
+  content: string,
+  isError = false,
+): string {
+  return `<dyad-tool-output tool="${toolName}" summary="${escapeXml(summary)}"${isError ? ' error="true"' : ""}>
+${escapeDyadTags(content)}
+</dyad-tool-output>
+`;
+}
+
+// Marked with the tool that wrote it, so guardrails can tell it from a
+// dyad-write the model typed itself. Only the server's markup keeps the
+// mark; see `stripModelToolAttributes`.
+function writeTag(
+  toolName: string,
+  relativePath: string,
+  content: string,
+  description: string,
+) {
+  const encoded = needsEntityEncoding(content);
+  return `<dyad-write path="${escapeXml(relativePath)}" description="${escapeXml(description)}" tool="${toolName}"${encoded ? ` encoding="${DYAD_WRITE_ENTITY_ENCODING}"` : ""}>
+${encoded ? encodeEntities(content) : content}
+</dyad-write>
+`;
+}
+
+// File tags whose `tool` attribute exempts them from agent mode's guardrails
+const TOOL_MARKED_TAG =
+  /<dyad-(?:write|patch|delete|rename|add-dependency)\b[^>]*\stool="[^"]*"[^>]*>/g;
+
+/**
+ * Drops the `tool` attribute from file tags in the response unless the tag
+ * starts one of `toolMarkup`, the markup rendered for tool results, so the
+ * model can't pass its own tags off as the tools' by typing the attribute.
+ */
+export function stripModelToolAttributes(
+  response: string,
+  toolMarkup: readonly string[],
+): string {
+  return response.replace(TOOL_MARKED_TAG, (tag, index: number) =>
+    toolMarkup.some((markup) => response.startsWith(markup, index))
+      ? tag
+      : tag.replace(/\stool="[^"]*"/g, ""),
+  );
+}
+
+function truncateOutput(output: string): string {
+  return output.length > MAX_OUTPUT_CHARS
+    ? `[...${output.length - MAX_OUTPUT_CHARS} characters omitted]\n${output.slice(-MAX_OUTPUT_CHARS)}`
+    : output;
+}
+
+/**
+ * Enough of the glob syntax to match files that are only in
+ * `pendingWrites`: `**`, `*`, `?` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" matches any number of directories, including none
+      const slash = pattern[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && pattern.indexOf("}", i) !== -1) {
+      const close = pattern.indexOf("}", i);
+      const options = pattern.slice(i + 1, close).split(",");
+      source += `(?:${options.map(escapeRegExp).join("|")})`;
+      i = close;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function isIgnoredPath(relativePath: string): boolean {
+  return relativePath
+    .split("/")
+    .some((segment) => IGNORED_DIRS.includes(segment));
+}
+
+export function createAgentTools({
+  appId,
+  appPath,
+  commandPolicy,
+}: {
+  appId: number;
+  appPath: string;
+  // Decides whether and where run_tests runs the test script
+  commandPolicy: CommandPolicy | null;
+}): AgentToolSession {
+  const pendingWrites = new Map<string, string>();
+  const rendered = new Map<string, string>();
+
+  const resolvePath = (inputPath: string) => {
+    const relativePath =
+      normalizePath(inputPath.trim())
+        .replace(/^(\.\/)+/, "")
+        .replace(/\/+$/, "") || ".";
+    // Throws for paths outside the app
+    const fullPath = safeJoin(appPath, relativePath);
+    return {
+      relativePath: normalizePath(path.relative(appPath, fullPath)) || ".",
+      fullPath,
+    };
+  };
+
+  const readCurrent = async (relativePath: string, fullPath: string) => {
+    const pending = pendingWrites.get(relativePath);
+    if (pending !== undefined) {
+      return pending;
+    }
+    if (!fs.existsSync(fullPath) || fs.statSync(fullPath).isDirectory()) {
+      throw new Error(`File not found: ${relativePath}`);
+    }
+    return fs.promises.readFile(fullPath, "utf8");
+  };
+
+  // Reports failures to the model as text, so it can correct itself
+  const run =
+    <T>(toolName: string, fn: (input: T) => Promise<ToolRun>) =>
+    async (input: T, { toolCallId }: { toolCallId: string }) => {
+      try {
+        const { output, markup } = await fn(input);
+        rendered.set(toolCallId, markup);
+        return output;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Agent tool ${toolName} failed: ${message}`);
+        rendered.set(
+          toolCallId,
+          toolOutputTag(toolName, `${toolName} failed`, message, true),
+        );
+        return `Error: ${message}`;
+      }
+    };
+
+  const tools: ToolSet = {
+    read_file: tool({
+      description:
+        "Read a file of the app. Long files are returned in ranges of lines; use start_line and end_line to read the rest.",
+      inputSchema: z.object({
+        path: z.string().describe("Path relative to the app root"),
+        start_line: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("First line to read, 1-based"),
+        end_line: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Last line to read, inclusive"),
+      }),
+      execute: run("read_file", async (input) => {
+        const { relativePath, fullPath } = resolvePath(input.path);
+        const lines = (await readCurrent(relativePath, fullPath)).split("\n");
+        const start = input.start_line ?? 1;
+        if (start > lines.length) {
+          throw new Error(
+            `${relativePath} has ${lines.length} lines; start_line ${start} is past the end`,
+          );
+        }
+        const end = Math.min(
+          input.end_line ?? lines.length,
+          lines.length,
+          start + MAX_READ_LINES - 1,
+        );
+        const range =
+          start === 1 && end === lines.length
+            ? `All ${lines.length} lines`
+            : `Lines ${start}-${end} of ${lines.length}`;
+        let output = lines.slice(start - 1, end).join("\n");
+        if (end < lines.length && input.end_line === undefined) {
+          output += `\n[${range}. Read more with start_line=${end + 1}.]`;
+        }
+        return {
+          output,
+          markup: `<dyad-read path="${escapeXml(relativePath)}">${range}</dyad-read>\n`,
+        };
+      }),
+    }),
+
+    list_dir: tool({
+      description:
+        "List the files and directories in a directory of the app. Directories end with a slash.",
+      inputSchema: z.object({
+        path: z
+          .string()
+          .optional()
+          .describe("Directory relative to the app root; the root by default"),
+      }),
+      execute: run("list_dir", async (input) => {
+        const { relativePath, fullPath } = resolvePath(input.path ?? ".");
+        const entries = new Set<string>();
+        if (fs.existsSync(fullPath)) {
+          for (const entry of await fs.promises.readdir(fullPath, {
+            withFileTypes: true,
+          })) {
+            entries.add(entry.isDirectory() ? `${entry.name}/` : entry.name);
+          }
+        }
+        // Files written in this response that aren't on disk yet
+        const prefix = relativePath === "." ? "" : `${relativePath}/`;
+        for (const pendingPath of pendingWrites.keys()) {
+          if (!pendingPath.startsWith(prefix)) continue;
+          const [name, ...rest] = pendingPath.slice(prefix.length).split("/");
+          entries.add(rest.length > 0 ? `${name}/` : name);
+        }
+        if (entries.size === 0 && !fs.existsSync(fullPath)) {
+          throw new Error(`Directory not found: ${relativePath}`);
+        }
+        const sorted = [...entries].sort((a, b) =>
+          a.endsWith("/") === b.endsWith("/")
+            ? a.localeCompare(b)
+            : a.endsWith("/")
+              ? -1
+              : 1,
+        );
+        const shown = sorted.slice(0, MAX_LIST_ENTRIES);
+        let output = shown.join("\n") || "(empty)";
+        if (sorted.length > shown.length) {
+          output += `\n[${sorted.length - shown.length} more entries]`;
+        }
+        return {
+          output,
+          markup: toolOutputTag(
+            "list_dir",
+            `${relativePath} (${sorted.length} entries)`,
+            output,
+          ),
+        };
+      }),
+    }),
+
+    glob: tool({
+      description: `Find files of the app by glob pattern, e.g. "src/**/*.tsx". ${IGNORED_DIRS.join(", ")} are skipped.`,
+      inputSchema: z.object({
+        pattern: z.string().describe("Glob pattern relative to the app root"),
+      }),
+      execute: run("glob", async (input) => {
+        const pattern = normalizePath(input.pattern.trim());
+        if (path.isAbsolute(pattern) || pattern.split("/").includes("..")) {
+          throw new Error("The pattern must stay within the app directory");
+        }
+        const matches = new Set(
+          await glob(pattern, {
+            cwd: appPath,
+            nodir: true,
+            dot: true,
+            posix: true,
+            ignore: IGNORED_DIRS.map((dir) => `**/${dir}/**`),
+          }),
+        );
+        const matcher = globToRegExp(pattern);
+        for (const pendingPath of pendingWrites.keys()) {
+          if (matcher.test(pendingPath)) matches.add(pendingPath);
+        }
+        const sorted = [...matches].sort();
+        const shown = sorted.slice(0, MAX_LIST_ENTRIES);
+        let output = shown.join("\n") || "No files match.";
+        if (sorted.length > shown.length) {
+          output += `\n[${sorted.length - shown.length} more files]`;
+        }
+        return {
+          output,
+          markup: toolOutputTag(
+            "glob",
+            `${pattern} (${sorted.length} files)`,
+            output,
+          ),
+        };
+      }),
+    }),
+
+    grep: tool({
+      description:
+        "Search the app's source files for a regular expression. Returns matching lines as path:line: text.",
+      inputSchema: z.object({
+        pattern: z.string().describe("JavaScript regular expression"),
+        path: z
+          .string()
+          .optional()
+          .describe("File or directory to search; the whole app by default"),
+        include: z
+          .string()
+          .optional()
+          .describe('Glob the files must match, e.g. "*.tsx" or "src/**/*.ts"'),
+        case_sensitive: z.boolean().optional(),
+      }),
+      execute: run("grep", async (input) => {
+        let regex: RegExp;
+        try {
+          regex = new RegExp(input.pattern, input.case_sensitive ? "" : "i");
+        } catch (error) {
+          throw new Error(`Invalid regular expression: ${error}`);
+        }
+        const { relativePath: scope } = resolvePath(input.path ?? ".");
+        const include = input.include
+          ? globToRegExp(normalizePath(input.include))
+          : null;
+        const files = new Set(
+          (await listIndexableFiles(appPath)).map((file) =>
+            normalizePath(path.relative(appPath, file)),
+          ),
+        );
+        for (const pendingPath of pendingWrites.keys()) {
+          files.add(pendingPath);
+        }
+
+        const matches: string[] = [];
+        let matchCount = 0;
+        for (const file of [...files].sort()) {
+          if (
+            isIgnoredPath(file) ||
+            (scope !== "." && file !== scope && !file.startsWith(`${scope}/`))
+          ) {
+            continue;
+          }
+          // Patterns without a directory match the file name anywhere
+          if (
+            include &&
+            !include.test(
+              input.include!.includes("/") ? file : path.posix.basename(file),
+            )
+          ) {
+            continue;
+          }
+          let content: string;
+          try {
+            content = await readCurrent(file, safeJoin(appPath, file));
+          } catch {
+            continue;
+          }
+          content.split("\n").forEach((line, index) => {
+            if (!regex.test(line)) return;
+            matchCount++;
+            if (matches.length < MAX_GREP_MATCHES) {
+              matches.push(
+                `${file}:${index + 1}: ${line.trim().slice(0, 300)}`,
+              );
+            }
+          });
+        }
+        let output = matches.join("\n") || "No matches.";
+        if (matchCount > matches.length) {
+          output += `\n[${matchCount - matches.length} more matches; narrow the search with path or include]`;
+        }
+        return {
+          output,
+          markup: toolOutputTag(
+            "grep",
+            `/${input.pattern}/ (${matchCount} matches)`,
+            output,
+          ),
+        };
+      }),
+    }),
+
+    write_file: tool({
+      description:
+        "Create a file or replace its whole content. Use apply_patch for small changes to a large file.",
+      inputSchema: z.object({
+        path: z.string().describe("Path relative to the app root"),
+        content: z.string().describe("The complete new content of the file"),
+        description: z
+          .string()
+          .optional()
+          .describe("Short summary of the change"),
+      }),
+      execute: run("write_file", async (input) => {
+        const { relativePath } = resolvePath(input.path);
+        if (isIgnoredPath(relativePath)) {
+          throw new Error(`Writing to ${relativePath} isn't allowed`);
+        }
+        pendingWrites.set(relativePath, input.content);
+        return {
+          output: `Wrote ${relativePath} (${input.content.split("\n").length} lines).`,
+          markup: writeTag(
+            "write_file",
+            relativePath,
+            input.content,
+            input.description ?? `Write ${relativePath}`,
+          ),
+        };
+      }),
+    }),
+
+    apply_patch: tool({
+      description: `Change part of a file with search/replace blocks:
+<<<<<<< SEARCH
+exact lines to replace
+=======
+new lines
+>>>>>>> REPLACE
+Several blocks are applied in order. Unified diff hunks are accepted too. Nothing is changed if any block doesn't apply.`,
+      inputSchema: z.object({
+        path: z.string().describe("Path relative to the app root"),
+        patch: z.string().describe("Search/replace blocks or a unified diff"),
+        description: z
+          .string()
+          .optional()
+          .describe("Short summary of the change"),
+      }),
+      execute: run("apply_patch", async (input) => {
+        const { relativePath, fullPath } = resolvePath(input.path);
+        const original = await readCurrent(relativePath, fullPath);
+        const { hunks, errors } = parsePatchHunks(input.patch);
+        const problems =
+          errors.length > 0
+            ? errors
+            : applyPatchHunks(original, hunks).failures.map(
+                ({ index, reason }) =>
+                  `Block ${index + 1} of ${hunks.length}: ${reason}`,
+              );
+        if (hunks.length === 0 && problems.length === 0) {
+          problems.push("The patch has no search/replace blocks.");
+        }
+        if (problems.length > 0) {
+          throw new Error(
+            `${problems.map((problem) => `- ${problem}`).join("\n")}\n${relativePath} was left unchanged.`,
+          );
+        }
+        const { content } = applyPatchHunks(original, hunks);
+        pendingWrites.set(relativePath, content);
+        return {
+          output: `Applied ${hunks.length} change(s) to ${relativePath}.`,
+          markup: writeTag(
+            "apply_patch",
+            relativePath,
+            content,
+            input.description ?? `Patch ${relativePath}`,
+          ),
+        };
+      }),
+    }),
+
+    get_problems: tool({
+      description:
+        "Type-check the app, including the files written so far in this response, and list the TypeScript errors.",
+      inputSchema: z.object({}),
+      execute: run("get_problems", async () => {
+        const { problems } = await generateProblemReport({
+          // The checker reads pending changes from <dyad-write> tags
+          fullResponse: [...pendingWrites]
+            .map(([relativePath, content]) =>
+              writeTag("get_problems", relativePath, content, ""),
+            )
+            .join(""),
+          appPath,
+        });
+        const output =
+          problems.length === 0
+            ? "No TypeScript problems found."
+            : problems
+                .map(
+                  (problem) =>
+                    `${problem.file}:${problem.line}:${problem.column} - ${problem.message}`,
+                )
+                .join("\n");
+        return {
+          output: truncateOutput(output),
+          markup: toolOutputTag(
+            "get_problems",
+            problems.length === 0
+              ? "No problems"
+              : `${problems.length} problem(s)`,
+            truncateOutput(output),
+          ),
+        };
+      }),
+    }),
+
+    run_tests: tool({
+      description:
+        "Run the app's test script, with the files written so far in this response, and return its output.",
+      inputSchema: z.object({
+        filter: z
+          .string()
+          .optional()
+          .describe("Test file or name pattern passed to the test runner"),
+      }),
+      execute: run("run_tests", async (input) => {
+        if (input.filter && !/^[\w@./*:-]+$/.test(input.filter)) {
+          throw new Error(
+            "The filter may only contain letters, digits and @ . / * : - _",
+          );
+        }
+        const result = await runAppTests({
+          appId,
+          appPath,
+          commandPolicy,
+          writes: pendingWrites,
+          filter: input.filter,
+        });
+        if (!result) {
+          throw new Error("The app has no test script in package.json");
+        }
+        const { command, exitCode, output } = result;
+        const passed = exitCode === 0;
+        return {
+          output: `${command} exited with code ${exitCode ?? "null (timed out)"}\n${output}`,
+          markup: toolOutputTag(
+            "run_tests",
+            passed ? "Tests passed" : `Tests failed (exit code ${exitCode})`,
+            output,
+            !passed,
+          ),
+        };
+      }),
+    }),
+  };
+
+  return {
+    tools,
+    renderToolResult: (toolCallId) => rendered.get(toolCallId),
+    pendingWrites,
+  };
+}
+
+// Copied for each test run instead of the whole app
+const COPY_SKIPPED_DIRS = new Set(["node_modules", ".git"]);
+
+/**
+ * Runs `fn` on a temporary copy of the app with the writes applied, so tests
+ * see them without unapproved files reaching the app directory. The copy
+ * links to the app's node_modules; a Docker container can't follow a link
+ * to the host, so there they're copied too.
+ */
+async function withTestCopy<T>(
+  appPath: string,
+  writes: Map<string, string>,
+  { copyNodeModules }: { copyNodeModules: boolean },
+  fn: (copyPath: string) => Promise<T>,
+): Promise<T> {
+  const copyPath = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "dyad-tests-"),
+  );
+  try {
+    await fs.promises.cp(appPath, copyPath, {
+      recursive: true,
+      verbatimSymlinks: true,
+      filter: (source) =>
+        source === appPath ||
+        path.dirname(source) !== appPath ||
+        !COPY_SKIPPED_DIRS.has(path.basename(source)) ||
+        (copyNodeModules && path.basename(source) === "node_modules"),
+    });
+    const nodeModules = path.join(appPath, "node_modules");
+    if (!copyNodeModules && fs.existsSync(nodeModules)) {
+      await fs.promises.symlink(
+        nodeModules,
+        path.join(copyPath, "node_modules"),
+        "junction",
+      );
+    }
+    for (const [relativePath, content] of writes) {
+      const fullPath = safeJoin(copyPath, relativePath);
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.promises.writeFile(fullPath, content);
+    }
+    return await fn(copyPath);
+  } finally {
+    await fs.promises.rm(copyPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Runs the app's test script with the given files written (content by
+ * relative path), under the app's command policy and runtime. Resolves
+ * with null when the app has no test script; the output keeps its end when
+ * it's long.
+ */
+export async function runAppTests({
+  appId,
+  appPath,
+  commandPolicy,
+  writes,
+  filter,
+}: {
+  appId: number;
+  appPath: string;
+  commandPolicy: CommandPolicy | null;
+  writes: Map<string, string>;
+  filter?: string;
+}): Promise<{
+  command: string;
+  exitCode: number | null;
+  output: string;
+} | null> {
+  const packageJsonPath = path.join(appPath, "package.json");
+  const scripts = fs.existsSync(packageJsonPath)
+    ? JSON.parse(await fs.promises.readFile(packageJsonPath, "utf8")).scripts
+    : undefined;
+  if (!scripts?.test || /no test specified/.test(scripts.test)) {
+    return null;
+  }
+  const command = filter ? `npm test -- ${filter}` : "npm test";
+  // The app's own test script, so like a workflow gate it only needs the
+  // policy not to deny it
+  const decision = evaluateCommandPolicy(command, commandPolicy, {
+    autoApprove: false,
+    defaultRuntime: readSettings().runtimeMode2 ?? "host",
+  });
+  if (decision.action === "deny") {
+    throw new Error(decision.reason);
+  }
+  logger.info(`Running tests for app ${appId}: ${command}`);
+  const result = await withTestCopy(
+    appPath,
+    writes,
+    { copyNodeModules: decision.runtime === "docker" },
+    (copyPath) =>
+      runAppCommand({
+        appId,
+        appPath: copyPath,
+        command,
+        runId: `tests-${appId}-${Date.now()}`,
+        decision,
+        // Keeps test runners from starting in watch mode
+        env: { CI: "true", FORCE_COLOR: "0" },
+      }),
+  );
+  return {
+    command,
+    exitCode: result.timedOut ? null : result.exitCode,
+    output: truncateOutput(
+      [result.stdout, result.stderr].filter(Boolean).join("\n"),
+    ),
+  };
+}
@@ -0,0 +1,19 @@
+import log from "electron-log";
+import type * as TypeScript from "typescript";
+
+const logger = log.scope("app_typescript");
+
+/**
+ * Loads the TypeScript compiler installed in the app, so parsing and module
+ * resolution match what the app is built with. Returns null when the app
+ * has no TypeScript installed.
+ */
+export function loadAppTypeScript(appPath: string): typeof TypeScript | null {
+  try {
+    const requirePath = require.resolve("typescript", { paths: [appPath] });
+    return require(requirePath);
+  } catch (error) {
+    logger.warn(`Failed to load TypeScript from ${appPath}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Byte-pair encoding in the format of OpenAI's tiktoken: text is split into
+ * pieces with a regex, and each piece's UTF-8 bytes are merged by rank using
+ * a `.tiktoken` file (one "<base64 token> <rank>" per line). Only counting is
+ * needed, so token ids are never materialized.
+ */
+
+export const CL100K_PATTERN =
+  /'s|'t|'re|'ve|'m|'ll|'d|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+export const O200K_PATTERN = new RegExp(
+  [
+    "[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:'s|'t|'re|'ve|'m|'ll|'d)?",
+    "[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:'s|'t|'re|'ve|'m|'ll|'d)?",
+    "\\p{N}{1,3}",
+    " ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*",
+    "\\s*[\\r\\n]+",
+    "\\s+(?!\\S)",
+    "\\s+",
+  ].join("|"),
+  "giu",
+);
+
+// Pieces seen often (identifiers, keywords, indentation) are worth caching,
+// but a long session shouldn't grow the cache without bound.
+const MAX_CACHED_PIECES = 50_000;
+
+/**
+ * Parses a `.tiktoken` rank file. Tokens are keyed by their bytes as a latin1
+ * string, which is cheaper to hash than a byte array.
+ */
+export function parseTiktokenRanks(source: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of source.split("\n")) {
+    if (!line) {
+      continue;
+    }
+    const [token, rank] = line.split(" ");
+    ranks.set(Buffer.from(token, "base64").toString("latin1"), Number(rank));
+  }
+  return ranks;
+}
+
+// Number of tokens the bytes merge into, following tiktoken's byte_pair_merge.
+function countBytePairMerges(
+  piece: string,
+  ranks: Map<string, number>,
+): number {
+  // Boundaries between the current parts; parts start as single bytes.
+  const boundaries = Array.from({ length: piece.length + 1 }, (_, i) => i);
+  const rankOf = (i: number) =>
+    i + 2 < boundaries.length
+      ? (ranks.get(piece.slice(boundaries[i], boundaries[i + 2])) ?? Infinity)
+      : Infinity;
+  const pairRanks = boundaries.map((_, i) => rankOf(i));
+
+  while (boundaries.length > 2) {
+    let min = Infinity;
+    let minIndex = -1;
+    for (let i = 0; i < pairRanks.length - 2; i++) {
+      if (pairRanks[i] < min) {
+        min = pairRanks[i];
+        minIndex = i;
+      }
+    }
+    if (minIndex === -1) {
+      break;
+    }
+    boundaries.splice(minIndex + 1, 1);
+    pairRanks.splice(minIndex + 1, 1);
+    pairRanks[minIndex] = rankOf(minIndex);
+    if (minIndex > 0) {
+      pairRanks[minIndex - 1] = rankOf(minIndex - 1);
+    }
+  }
+  return boundaries.length - 1;
+}
+
+export class BpeTokenizer {
+  private readonly pieceCounts = new Map<string, number>();
+
+  constructor(
+    readonly id: string,
+    private readonly ranks: Map<string, number>,
+    private readonly pattern: RegExp,
+  ) {}
+
+  count(text: string): number {
+    let total = 0;
+    for (const [piece] of text.matchAll(this.pattern)) {
+      let count = this.pieceCounts.get(piece);
+      if (count === undefined) {
+        const bytes = Buffer.from(piece, "utf8").toString("latin1");
+        count = this.ranks.has(bytes)
+          ? 1
+          : countBytePairMerges(bytes, this.ranks);
+        if (this.pieceCounts.size >= MAX_CACHED_PIECES) {
+          this.pieceCounts.clear();
+        }
+        this.pieceCounts.set(piece, count);
+      }
+      total += count;
+    }
+    return total;
+  }
+}
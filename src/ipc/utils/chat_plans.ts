@@ -0,0 +1,197 @@
+import { and, asc, eq, ne } from "drizzle-orm";
+import log from "electron-log";
+import { db } from "../../db";
+import { chatPlans, messages } from "../../db/schema";
+import type {
+  ChatPlan,
+  ChatPlanStatus,
+  PlanStep,
+  PlanStepRef,
+} from "../ipc_types";
+import {
+  getDyadPlanContent,
+  getNextPlanStep,
+  mergePlanSteps,
+  parsePlanSteps,
+} from "../shared/plan";
+
+const logger = log.scope("chat_plans");
+
+type PlanStepOutcome =
+  | "done"
+  | "failed"
+  // Stopped by the user; the step can run again when the plan resumes
+  | "interrupted";
+
+function toChatPlan(row: typeof chatPlans.$inferSelect): ChatPlan {
+  return {
+    id: row.id,
+    chatId: row.chatId,
+    messageId: row.messageId,
+    status: row.status,
+    steps: row.steps,
+  };
+}
+
+async function getPlan(planId: number) {
+  const plan = await db.query.chatPlans.findFirst({
+    where: eq(chatPlans.id, planId),
+  });
+  if (!plan) {
+    throw new Error(`Plan not found: ${planId}`);
+  }
+  return plan;
+}
+
+async function savePlan(
+  planId: number,
+  values: { status?: ChatPlanStatus; steps?: PlanStep[] },
+): Promise<ChatPlan> {
+  const [updated] = await db
+    .update(chatPlans)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(chatPlans.id, planId))
+    .returning();
+  return toChatPlan(updated);
+}
+
+/**
+ * Stores the plan in a plan-mode response as a draft for the user to
+ * review. Returns null when the response has no plan with steps.
+ */
+export async function savePlanFromResponse({
+  chatId,
+  messageId,
+  response,
+}: {
+  chatId: number;
+  messageId: number;
+  response: string;
+}): Promise<ChatPlan | null> {
+  const content = getDyadPlanContent(response);
+  const steps = content ? parsePlanSteps(content) : [];
+  if (steps.length === 0) {
+    logger.warn(`Plan-mode response in chat ${chatId} has no plan steps`);
+    return null;
+  }
+  const [plan] = await db
+    .insert(chatPlans)
+    .values({ chatId, messageId, status: "draft", steps })
+    .returning();
+  return toChatPlan(plan);
+}
+
+export async function listChatPlans(chatId: number): Promise<ChatPlan[]> {
+  const plans = await db
+    .select()
+    .from(chatPlans)
+    .where(eq(chatPlans.chatId, chatId))
+    .orderBy(asc(chatPlans.id));
+  return plans.map(toChatPlan);
+}
+
+export async function updatePlanSteps(
+  planId: number,
+  steps: PlanStep[],
+): Promise<ChatPlan> {
+  const plan = await getPlan(planId);
+  if (plan.status === "completed") {
+    throw new Error("The plan has already been completed.");
+  }
+  return savePlan(planId, { steps: mergePlanSteps(plan.steps, steps) });
+}
+
+/**
+ * Approves, pauses or resumes a plan. Only one plan per chat executes at a
+ * time, and failed steps are retried when the plan resumes.
+ */
+export async function setPlanStatus(
+  planId: number,
+  status: ChatPlanStatus,
+): Promise<ChatPlan> {
+  const plan = await getPlan(planId);
+  if (status !== "executing") {
+    return savePlan(planId, { status });
+  }
+  await db
+    .update(chatPlans)
+    .set({ status: "paused", updatedAt: new Date() })
+    .where(
+      and(
+        eq(chatPlans.chatId, plan.chatId),
+        eq(chatPlans.status, "executing"),
+        ne(chatPlans.id, planId),
+      ),
+    );
+  const steps = plan.steps.map((step) =>
+    step.status === "failed" ? { ...step, status: "pending" as const } : step,
+  );
+  return savePlan(planId, {
+    status: getNextPlanStep(steps) ? "executing" : "completed",
+    steps,
+  });
+}
+
+export async function startPlanStep({ planId, stepId }: PlanStepRef) {
+  const plan = await getPlan(planId);
+  if (plan.status !== "executing") {
+    throw new Error("The plan isn't executing.");
+  }
+  const step = plan.steps.find((s) => s.id === stepId);
+  if (step?.status !== "pending") {
+    throw new Error("The plan step has already run or was skipped.");
+  }
+  await savePlan(planId, {
+    steps: plan.steps.map((s) =>
+      s.id === stepId ? { ...s, status: "running" } : s,
+    ),
+  });
+}
+
+/**
+ * Records how a step's turn ended. The plan completes after its last step
+ * and pauses when a step fails or is stopped.
+ */
+export async function finishPlanStep(
+  { planId, stepId }: PlanStepRef,
+  outcome: PlanStepOutcome,
+  messageId?: number,
+) {
+  try {
+    const plan = await getPlan(planId);
+    // The turn may have failed before the step started
+    if (plan.steps.find((s) => s.id === stepId)?.status !== "running") {
+      return;
+    }
+    let commitHash: string | null = null;
+    if (outcome === "done" && messageId !== undefined) {
+      const message = await db.query.messages.findFirst({
+        where: eq(messages.id, messageId),
+      });
+      commitHash = message?.commitHash ?? null;
+    }
+    const steps = plan.steps.map((step): PlanStep => {
+      if (step.id !== stepId) {
+        return step;
+      }
+      switch (outcome) {
+        case "done":
+          return { ...step, status: "done", commitHash };
+        case "failed":
+          return { ...step, status: "failed" };
+        case "interrupted":
+          return { ...step, status: "pending" };
+      }
+    });
+    let status = plan.status;
+    if (outcome !== "done") {
+      status = "paused";
+    } else if (!getNextPlanStep(steps)) {
+      status = "completed";
+    }
+    await savePlan(planId, { status, steps });
+  } catch (error) {
+    // The turn itself already finished; don't fail the chat over it
+    logger.error(`Failed to record the outcome of plan step ${stepId}`, error);
+  }
+}
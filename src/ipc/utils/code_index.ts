@@ -0,0 +1,401 @@
+// Per-app index of the codebase used to rank files by relevance to a prompt.
+// Files are split into line chunks scored with BM25, which works offline;
+// when an embedding backend is configured, chunks also carry embeddings and
+// the two scores are blended.
+
+export const CODE_INDEX_VERSION = 1;
+
+// Lines per chunk. Small enough that a match in a long file stands out,
+// large enough to keep a function together.
+const CHUNK_LINES = 60;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Matches on the file path and declared symbols count this much more than
+// matches in the body.
+const META_WEIGHT = 1.5;
+
+// Share of the blended score that comes from embeddings, when available
+const SEMANTIC_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "that",
+  "this",
+  "from",
+  "into",
+  "are",
+  "was",
+  "not",
+  "but",
+  "can",
+  "you",
+  "your",
+  "all",
+  "any",
+  "use",
+  "make",
+  "add",
+  "please",
+  "should",
+  "would",
+  "could",
+  "when",
+  "what",
+  "how",
+  "it",
+  "is",
+  "in",
+  "on",
+  "of",
+  "to",
+  "an",
+  "as",
+  "be",
+  "by",
+  "or",
+  "if",
+  "do",
+  "so",
+  "we",
+  "me",
+  "my",
+  "import",
+  "export",
+  "const",
+  "let",
+  "var",
+  "return",
+  "function",
+  "default",
+]);
+
+export interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  // Term frequencies
+  terms: Record<string, number>;
+  length: number;
+  embedding?: number[];
+}
+
+export interface IndexedFile {
+  path: string;
+  mtimeMs: number;
+  size: number;
+  symbols: string[];
+  imports: string[];
+  // Terms of the path and symbols, scored apart from the chunks
+  metaTerms: Record<string, number>;
+  chunks: IndexedChunk[];
+  // Whether every chunk has an embedding from the index's backend
+  embedded: boolean;
+}
+
+export interface CodeIndex {
+  version: number;
+  // Backend and model the embeddings came from, e.g. "ollama:nomic-embed-text"
+  embeddingModel: string | null;
+  updatedAt: number;
+  files: Record<string, IndexedFile>;
+}
+
+export function createEmptyCodeIndex(embeddingModel: string | null): CodeIndex {
+  return {
+    version: CODE_INDEX_VERSION,
+    embeddingModel,
+    updatedAt: Date.now(),
+    files: {},
+  };
+}
+
+/**
+ * Splits text into lowercase search terms. Identifiers are kept whole and
+ * also split at camelCase, snake_case and kebab-case boundaries, so
+ * "UserProfileCard" matches a prompt about the "user profile".
+ */
+export function tokenizeCode(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_$-]+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(/[\s_$-]+/)
+      .map((part) => part.toLowerCase())
+      .filter(Boolean);
+    const whole = word.toLowerCase().replace(/[$-]/g, "");
+    for (const term of parts.length > 1 ? [whole, ...parts] : parts) {
+      if (term.length >= 2 && !STOP_WORDS.has(term) && !/^\d+$/.test(term)) {
+        terms.push(term);
+      }
+    }
+  }
+  return terms;
+}
+
+function countTerms(terms: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const term of terms) {
+    counts[term] = (counts[term] ?? 0) + 1;
+  }
+  return counts;
+}
+
+const SYMBOL_PATTERNS = [
+  /\b(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/g,
+  /\b(?:class|interface|type|enum|mixin|extension)\s+([A-Za-z_$][\w$]*)/g,
+  /\bexport\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)/g,
+  // React components and hooks declared as arrow functions
+  /\bconst\s+([A-Z][\w$]*|use[A-Z][\w$]*)\s*=\s*(?:React\.)?(?:memo\(|forwardRef\(|\(|async\s*\()/g,
+  /^\s*def\s+([A-Za-z_]\w*)/gm,
+];
+
+/**
+ * Names declared in a source file: functions, classes, types and exported
+ * constants.
+ */
+export function extractSymbols(content: string): string[] {
+  const symbols = new Set<string>();
+  for (const pattern of SYMBOL_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      symbols.add(match[1]);
+    }
+  }
+  return [...symbols];
+}
+
+const IMPORT_PATTERNS = [
+  /\bimport\s+(?:type\s+)?(?:[^'"`;]*?\s+from\s+)?["']([^"']+)["']/g,
+  /\bexport\s+(?:type\s+)?[^'"`;]*?\s+from\s+["']([^"']+)["']/g,
+  /\brequire\(\s*["']([^"']+)["']\s*\)/g,
+  /\bimport\(\s*["']([^"']+)["']\s*\)/g,
+];
+
+/**
+ * Module specifiers a source file imports, as written.
+ */
+export function extractImports(content: string): string[] {
+  const imports = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      imports.add(match[1]);
+    }
+  }
+  return [...imports];
+}
+
+export interface ChunkText {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export function chunkFileContent(content: string): ChunkText[] {
+  const lines = content.split("\n");
+  const chunks: ChunkText[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const text = lines.slice(start, end).join("\n");
+    if (text.trim()) {
+      chunks.push({ startLine: start + 1, endLine: end, text });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Indexes a file's content. The returned chunk texts are what the embedding
+ * backend should embed; they aren't stored in the index.
+ */
+export function indexFileContent({
+  path,
+  content,
+  mtimeMs,
+  size,
+}: {
+  path: string;
+  content: string;
+  mtimeMs: number;
+  size: number;
+}): { file: IndexedFile; chunkTexts: string[] } {
+  const symbols = extractSymbols(content);
+  const chunkTexts = chunkFileContent(content);
+  return {
+    file: {
+      path,
+      mtimeMs,
+      size,
+      symbols,
+      imports: extractImports(content),
+      metaTerms: countTerms(tokenizeCode(`${path} ${symbols.join(" ")}`)),
+      chunks: chunkTexts.map((chunk) => {
+        const terms = tokenizeCode(chunk.text);
+        return {
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          terms: countTerms(terms),
+          length: terms.length,
+        };
+      }),
+      embedded: chunkTexts.length === 0,
+    },
+    // Prefixed with the path so the embedding knows where the code lives
+    chunkTexts: chunkTexts.map((chunk) => `${path}\n${chunk.text}`),
+  };
+}
+
+function bm25(
+  docs: { terms: Record<string, number>; length: number }[],
+  queryTerms: string[],
+): number[] {
+  const averageLength =
+    docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1) || 1;
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = docs.filter((doc) => doc.terms[term]).length;
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+  }
+  return docs.map((doc) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.terms[term];
+      if (!tf) continue;
+      score +=
+        (idf.get(term)! * tf * (K1 + 1)) /
+        (tf + K1 * (1 - B + (B * doc.length) / averageLength));
+    }
+    return score;
+  });
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function normalizeScores(scores: Map<string, number>): Map<string, number> {
+  const max = Math.max(0, ...scores.values());
+  if (max === 0) {
+    return scores;
+  }
+  return new Map([...scores].map(([path, score]) => [path, score / max]));
+}
+
+/**
+ * Relevance of each indexed file to the prompt, between 0 and 1. A file
+ * scores by its best-matching chunk plus matches on its path and symbols.
+ */
+export function scoreFiles(
+  index: CodeIndex,
+  prompt: string,
+  promptEmbedding?: number[] | null,
+): Map<string, number> {
+  const queryTerms = [...new Set(tokenizeCode(prompt))];
+  const files = Object.values(index.files);
+  const lexical = new Map<string, number>();
+  if (queryTerms.length > 0) {
+    const chunks = files.flatMap((file) =>
+      file.chunks.map((chunk) => ({ path: file.path, chunk })),
+    );
+    const chunkScores = bm25(
+      chunks.map(({ chunk }) => chunk),
+      queryTerms,
+    );
+    chunks.forEach(({ path }, i) => {
+      lexical.set(path, Math.max(lexical.get(path) ?? 0, chunkScores[i]));
+    });
+    const metaScores = bm25(
+      files.map((file) => ({
+        terms: file.metaTerms,
+        length: Object.values(file.metaTerms).reduce((a, b) => a + b, 0),
+      })),
+      queryTerms,
+    );
+    files.forEach((file, i) => {
+      lexical.set(
+        file.path,
+        (lexical.get(file.path) ?? 0) + META_WEIGHT * metaScores[i],
+      );
+    });
+  }
+
+  const lexicalScores = normalizeScores(lexical);
+  if (!promptEmbedding) {
+    return lexicalScores;
+  }
+
+  const semantic = new Map<string, number>();
+  for (const file of files) {
+    let best = 0;
+    for (const chunk of file.chunks) {
+      if (chunk.embedding) {
+        best = Math.max(
+          best,
+          cosineSimilarity(promptEmbedding, chunk.embedding),
+        );
+      }
+    }
+    semantic.set(file.path, best);
+  }
+  const semanticScores = normalizeScores(semantic);
+  return new Map(
+    files.map((file) => [
+      file.path,
+      (1 - SEMANTIC_WEIGHT) * (lexicalScores.get(file.path) ?? 0) +
+        SEMANTIC_WEIGHT * (semanticScores.get(file.path) ?? 0),
+    ]),
+  );
+}
+
+export interface BudgetCandidate {
+  path: string;
+  // Tokens of the file with its content, and as an omitted placeholder
+  tokens: number;
+  omittedTokens: number;
+  // Files the user picked, which are always included
+  forced: boolean;
+  score: number;
+  // Later is more recent; breaks ties between equally relevant files
+  recency: number;
+}
+
+/**
+ * Picks the files whose content goes in the prompt: forced files first, then
+ * the most relevant ones while they fit in the budget. Every other file
+ * still appears as a placeholder, so its cost is reserved up front.
+ */
+export function selectFilesWithinBudget(
+  candidates: BudgetCandidate[],
+  tokenBudget: number,
+): Set<string> {
+  let remaining =
+    tokenBudget -
+    candidates.reduce((sum, candidate) => sum + candidate.omittedTokens, 0);
+  const selected = new Set<string>();
+  const ordered = [...candidates].sort(
+    (a, b) =>
+      Number(b.forced) - Number(a.forced) ||
+      b.score - a.score ||
+      b.recency - a.recency,
+  );
+  for (const candidate of ordered) {
+    const extra = candidate.tokens - candidate.omittedTokens;
+    if (candidate.forced || extra <= remaining) {
+      selected.add(candidate.path);
+      remaining -= extra;
+    }
+  }
+  return selected;
+}
@@ -0,0 +1,258 @@
+import crypto from "node:crypto";
+import fsAsync from "node:fs/promises";
+import path from "node:path";
+import log from "electron-log";
+import { readSettings } from "../../main/settings";
+import { getUserDataPath } from "../../paths/paths";
+import { listIndexableFiles, readFileWithCache } from "../../utils/codebase";
+import {
+  CODE_INDEX_VERSION,
+  createEmptyCodeIndex,
+  indexFileContent,
+  scoreFiles,
+  type CodeIndex,
+} from "./code_index";
+import {
+  getEmbeddingBackend,
+  type EmbeddingBackend,
+} from "./embedding_backends";
+import type { CodeIndexStatus } from "../ipc_types";
+
+const logger = log.scope("code_index_store");
+
+// Wait for a burst of commits to settle before reindexing
+const UPDATE_DEBOUNCE_MS = 2_000;
+// The prompt is ranked by keywords only if embedding it takes longer
+const PROMPT_EMBEDDING_TIMEOUT_MS = 5_000;
+
+// One update per app at a time; later callers wait for the running one.
+const pendingUpdates = new Map<string, Promise<CodeIndex>>();
+const scheduledUpdates = new Map<string, NodeJS.Timeout>();
+
+function getCodeIndexPath(appPath: string): string {
+  const key = crypto
+    .createHash("sha256")
+    .update(path.resolve(appPath))
+    .digest("hex")
+    .slice(0, 32);
+  return path.join(getUserDataPath(), "code-index", `${key}.json`);
+}
+
+export function isCodeIndexEnabled(): boolean {
+  return !!readSettings().codeIndex?.enabled;
+}
+
+async function loadCodeIndex(appPath: string): Promise<CodeIndex | null> {
+  try {
+    const index = JSON.parse(
+      await fsAsync.readFile(getCodeIndexPath(appPath), "utf-8"),
+    ) as CodeIndex;
+    return index.version === CODE_INDEX_VERSION ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+async function saveCodeIndex(appPath: string, index: CodeIndex) {
+  const indexPath = getCodeIndexPath(appPath);
+  await fsAsync.mkdir(path.dirname(indexPath), { recursive: true });
+  // Write then rename, so a crash never leaves a truncated index
+  await fsAsync.writeFile(`${indexPath}.tmp`, JSON.stringify(index));
+  await fsAsync.rename(`${indexPath}.tmp`, indexPath);
+}
+
+async function embedFile(
+  index: CodeIndex,
+  filePath: string,
+  chunkTexts: string[],
+  backend: EmbeddingBackend,
+) {
+  const file = index.files[filePath];
+  const embeddings = await backend.embed(chunkTexts);
+  file.chunks.forEach((chunk, i) => {
+    chunk.embedding = embeddings[i];
+  });
+  file.embedded = true;
+}
+
+async function runUpdate(
+  appPath: string,
+  { embed }: { embed: boolean },
+): Promise<CodeIndex> {
+  const startTime = Date.now();
+  const backend = getEmbeddingBackend(readSettings().codeIndex);
+  const embeddingModel = backend?.id ?? null;
+  let index = await loadCodeIndex(appPath);
+  if (!index || index.embeddingModel !== embeddingModel) {
+    index = createEmptyCodeIndex(embeddingModel);
+  }
+
+  const absolutePaths = await listIndexableFiles(appPath);
+  const present = new Set<string>();
+  const changed: { path: string; chunkTexts: string[] }[] = [];
+  for (const absolutePath of absolutePaths) {
+    const relativePath = path
+      .relative(appPath, absolutePath)
+      .split(path.sep)
+      .join("/");
+    present.add(relativePath);
+    let stats;
+    try {
+      stats = await fsAsync.stat(absolutePath);
+    } catch {
+      continue;
+    }
+    const existing = index.files[relativePath];
+    if (
+      existing &&
+      existing.mtimeMs === stats.mtimeMs &&
+      existing.size === stats.size &&
+      (existing.embedded || !backend || !embed)
+    ) {
+      continue;
+    }
+    const content = await readFileWithCache(absolutePath);
+    if (content == null) {
+      continue;
+    }
+    const { file, chunkTexts } = indexFileContent({
+      path: relativePath,
+      content,
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+    });
+    index.files[relativePath] = file;
+    changed.push({ path: relativePath, chunkTexts });
+  }
+
+  for (const indexedPath of Object.keys(index.files)) {
+    if (!present.has(indexedPath)) {
+      delete index.files[indexedPath];
+    }
+  }
+
+  if (backend && embed) {
+    for (const { path: filePath, chunkTexts } of changed) {
+      if (chunkTexts.length === 0) continue;
+      try {
+        await embedFile(index, filePath, chunkTexts, backend);
+      } catch (error) {
+        // Keep the lexical index; the file is embedded on the next update.
+        logger.warn(
+          `Failed to embed ${filePath} with ${backend.id}, ranking it by keywords only:`,
+          error,
+        );
+        break;
+      }
+    }
+  }
+
+  index.updatedAt = Date.now();
+  await saveCodeIndex(appPath, index);
+  logger.log(
+    `Updated code index for ${appPath}: ${changed.length} changed of ${present.size} files in ${Date.now() - startTime}ms`,
+  );
+  return index;
+}
+
+/**
+ * Brings the app's index up to date with the files on disk, reindexing only
+ * files whose size or modification time changed. Without `embed`, changed
+ * files are only indexed by keywords and wait for a later update to be
+ * embedded.
+ */
+export function updateCodeIndex(
+  appPath: string,
+  { embed = true }: { embed?: boolean } = {},
+): Promise<CodeIndex> {
+  const key = path.resolve(appPath);
+  const previous = pendingUpdates.get(key) ?? Promise.resolve(null);
+  const update = previous
+    .catch(() => null)
+    .then(() => runUpdate(appPath, { embed }))
+    .finally(() => {
+      if (pendingUpdates.get(key) === update) {
+        pendingUpdates.delete(key);
+      }
+    });
+  pendingUpdates.set(key, update);
+  return update;
+}
+
+/**
+ * Reindexes the app in the background shortly after a commit.
+ */
+export function scheduleCodeIndexUpdate(appPath: string) {
+  if (!isCodeIndexEnabled()) {
+    return;
+  }
+  const key = path.resolve(appPath);
+  clearTimeout(scheduledUpdates.get(key));
+  scheduledUpdates.set(
+    key,
+    setTimeout(() => {
+      scheduledUpdates.delete(key);
+      updateCodeIndex(appPath).catch((error) =>
+        logger.error(`Failed to update code index for ${appPath}:`, error),
+      );
+    }, UPDATE_DEBOUNCE_MS),
+  );
+}
+
+function isFullyEmbedded(index: CodeIndex): boolean {
+  return Object.values(index.files).every(
+    (file) => file.embedded || file.chunks.length === 0,
+  );
+}
+
+/**
+ * Relevance of each file in the app to the prompt, by relative path. Files
+ * aren't embedded while the prompt waits: until they all are, which happens
+ * in the background, the files are ranked by keywords only.
+ */
+export async function rankFilesForPrompt(
+  appPath: string,
+  prompt: string,
+): Promise<Map<string, number>> {
+  const index = await updateCodeIndex(appPath, { embed: false });
+  const backend = getEmbeddingBackend(readSettings().codeIndex);
+  let promptEmbedding: number[] | null = null;
+  if (backend && !isFullyEmbedded(index)) {
+    scheduleCodeIndexUpdate(appPath);
+  } else if (backend && index.embeddingModel === backend.id) {
+    try {
+      [promptEmbedding] = await backend.embed(
+        [prompt],
+        AbortSignal.timeout(PROMPT_EMBEDDING_TIMEOUT_MS),
+      );
+    } catch (error) {
+      logger.warn(
+        `Failed to embed the prompt with ${backend.id}, ranking files by keywords only:`,
+        error,
+      );
+    }
+  }
+  return scoreFiles(index, prompt, promptEmbedding);
+}
+
+export async function getCodeIndexStatus(
+  appPath: string,
+): Promise<CodeIndexStatus> {
+  const index = await loadCodeIndex(appPath);
+  const files = Object.values(index?.files ?? {});
+  return {
+    exists: !!index,
+    embeddingModel: index?.embeddingModel ?? null,
+    fileCount: files.length,
+    chunkCount: files.reduce((sum, file) => sum + file.chunks.length, 0),
+    embeddedFileCount: files.filter(
+      (file) => file.embedded && file.chunks.length > 0,
+    ).length,
+    symbolCount: files.reduce((sum, file) => sum + file.symbols.length, 0),
+    updatedAt: index?.updatedAt ?? null,
+  };
+}
+
+export async function deleteCodeIndex(appPath: string) {
+  await fsAsync.rm(getCodeIndexPath(appPath), { force: true });
+}
@@ -0,0 +1,195 @@
+import { ChildProcess, spawn } from "node:child_process";
+import util from "node:util";
+import log from "electron-log";
+import treeKill from "tree-kill";
+import type { CommandPolicyDecision, ExecCommandResult } from "../ipc_types";
+
+const logger = log.scope("command_runner");
+
+// Output is streamed as it arrives; the final result keeps only the tail.
+const MAX_RESULT_CHARS = 1024 * 1024;
+
+export interface RunningCommand {
+  process: ChildProcess;
+  containerName?: string;
+  cancelled: boolean;
+}
+
+// Resolves with the exit code, or null when the process couldn't start
+function runQuietly(command: string, args: string[]): Promise<number | null> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { stdio: "ignore" });
+    child.on("close", (code) => resolve(code));
+    child.on("error", () => resolve(null));
+  });
+}
+
+/**
+ * Arguments for a throwaway container that runs the command against the
+ * app directory, using the app's image from the Docker runtime when it has
+ * been built.
+ */
+async function getDockerRunArgs({
+  appId,
+  appPath,
+  command,
+  containerName,
+  env,
+}: {
+  appId: number;
+  appPath: string;
+  command: string;
+  containerName: string;
+  env: Record<string, string>;
+}): Promise<string[]> {
+  if ((await runQuietly("docker", ["--version"])) !== 0) {
+    throw new Error(
+      "Docker is required to run commands in the Docker runtime but is not available. Please install Docker Desktop and ensure it's running.",
+    );
+  }
+  const appImage = `dyad-app-${appId}`;
+  const hasAppImage =
+    (await runQuietly("docker", ["image", "inspect", appImage])) === 0;
+  return [
+    "run",
+    "--rm",
+    "--name",
+    containerName,
+    "-v",
+    `${appPath}:/app`,
+    "-v",
+    `dyad-pnpm-${appId}:/app/.pnpm-store`,
+    "-e",
+    "PNPM_STORE_PATH=/app/.pnpm-store",
+    ...Object.entries(env).flatMap(([name, value]) => [
+      "-e",
+      `${name}=${value}`,
+    ]),
+    "-w",
+    "/app",
+    hasAppImage ? appImage : "node:22-alpine",
+    "sh",
+    "-c",
+    command,
+  ];
+}
+
+export function stopCommand(running: RunningCommand) {
+  if (running.containerName) {
+    // Killing the docker CLI leaves the container running
+    spawn("docker", ["kill", running.containerName], { stdio: "ignore" }).on(
+      "error",
+      () => {},
+    );
+  }
+  if (running.process.pid) {
+    treeKill(running.process.pid, "SIGTERM");
+  }
+}
+
+/**
+ * Runs a command the app's policy allowed, in the app directory or a
+ * container as the decision says, and stops it after the decision's
+ * timeout.
+ */
+export async function runAppCommand({
+  appId,
+  appPath,
+  command,
+  runId,
+  decision,
+  env = {},
+  onStart,
+  onOutput,
+}: {
+  appId: number;
+  appPath: string;
+  command: string;
+  runId: string;
+  decision: CommandPolicyDecision;
+  // Added to the command's environment
+  env?: Record<string, string>;
+  // Gets the process, e.g. to cancel it with stopCommand
+  onStart?: (running: RunningCommand) => void;
+  onOutput?: (type: "stdout" | "stderr", data: string) => void;
+}): Promise<ExecCommandResult> {
+  let child: ChildProcess;
+  let containerName: string | undefined;
+  if (decision.runtime === "docker") {
+    containerName = `dyad-exec-${appId}-${runId}`;
+    child = spawn(
+      "docker",
+      await getDockerRunArgs({
+        appId,
+        appPath,
+        command,
+        containerName,
+        env,
+      }),
+      { stdio: "pipe" },
+    );
+  } else {
+    child = spawn(command, {
+      cwd: appPath,
+      shell: true,
+      stdio: "pipe",
+      env: { ...process.env, ...env },
+    });
+  }
+
+  const running: RunningCommand = {
+    process: child,
+    containerName,
+    cancelled: false,
+  };
+  onStart?.(running);
+
+  const startedAt = Date.now();
+  let stdout = "";
+  let stderr = "";
+  let timedOut = false;
+
+  const collect = (type: "stdout" | "stderr") => (chunk: Buffer) => {
+    const data = util.stripVTControlCharacters(chunk.toString());
+    if (type === "stdout") {
+      stdout = (stdout + data).slice(-MAX_RESULT_CHARS);
+    } else {
+      stderr = (stderr + data).slice(-MAX_RESULT_CHARS);
+    }
+    onOutput?.(type, data);
+  };
+  child.stdout?.on("data", collect("stdout"));
+  child.stderr?.on("data", collect("stderr"));
+
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    logger.warn(
+      `Command for app ${appId} timed out after ${decision.timeoutSeconds}s: ${command}`,
+    );
+    stopCommand(running);
+  }, decision.timeoutSeconds * 1000);
+
+  try {
+    const exitCode = await new Promise<number>((resolve) => {
+      child.on("close", (code) => resolve(code ?? 1));
+      child.on("error", (error) => {
+        stderr += error.message;
+        resolve(1);
+      });
+    });
+    if (timedOut) {
+      stderr += `\nCommand timed out after ${decision.timeoutSeconds} seconds.`;
+    }
+    return {
+      stdout: stdout.trim(),
+      stderr: stderr.trim(),
+      exitCode,
+      timedOut,
+      cancelled: running.cancelled,
+      runtime: decision.runtime,
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
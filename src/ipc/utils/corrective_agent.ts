@@ -4,6 +4,7 @@ import type { ValidationViolation } from "./response_validator";
 import { CORRECTIVE_AGENT_PROMPT } from "../../prompts/corrective_prompt";
 import type { LargeLanguageModel, UserSettings } from "../../lib/schemas";
 import log from "electron-log";
+import { normalizeUsage, recordUsage } from "./usage_ledger";
 
 const logger = log.scope("corrective_agent");
 
@@ -64,6 +65,14 @@ export async function attemptCorrection(
             correctiveInstruction += chunk;
         }
 
+        await recordUsage({
+            kind: "correction",
+            provider: routerModel.provider,
+            model: routerModel.name,
+            usage: normalizeUsage(routerModel.provider, await stream.totalUsage),
+            chatId: params.chatId,
+        });
+
         logger.info("Router generated correction:", correctiveInstruction.substring(0, 200));
 
         // Extract instruction from tags
@@ -1,48 +1,86 @@
 import { normalizePath } from "../../../shared/normalizePath";
-import log from "electron-log";
 import { SqlQuery } from "../../lib/schemas";
+import { parsePatchHunks, type PatchHunk } from "../../shared/dyad_patch";
+import { decodeDyadWriteContent } from "../shared/dyad_write_content";
+import {
+  DyadTagCloseEvent,
+  DyadTagMalformedEvent,
+  parseDyadTags,
+} from "./dyad_tag_stream_parser";
+
+function getClosedTags(fullResponse: string, tag: string): DyadTagCloseEvent[] {
+  return parseDyadTags(fullResponse).tags.filter((t) => t.tag === tag);
+}
 
-const logger = log.scope("dyad_tag_parser");
+function stripCodeFence(content: string): string {
+  const contentLines = content.split("\n");
+  if (contentLines[0]?.startsWith("```")) {
+    contentLines.shift();
+  }
+  if (contentLines[contentLines.length - 1]?.startsWith("```")) {
+    contentLines.pop();
+  }
+  return contentLines.join("\n");
+}
 
-export function getDyadWriteTags(fullResponse: string): {
+export interface DyadWriteTag {
   path: string;
   content: string;
   description?: string;
-}[] {
-  const dyadWriteRegex = /<dyad-write([^>]*)>([\s\S]*?)<\/dyad-write>/gi;
-  const pathRegex = /path="([^"]+)"/;
-  const descriptionRegex = /description="([^"]+)"/;
-
-  let match;
-  const tags: { path: string; content: string; description?: string }[] = [];
-
-  while ((match = dyadWriteRegex.exec(fullResponse)) !== null) {
-    const attributesString = match[1];
-    let content = match[2].trim();
+}
 
-    const pathMatch = pathRegex.exec(attributesString);
-    const descriptionMatch = descriptionRegex.exec(attributesString);
+export function toDyadWriteTag(tag: DyadTagCloseEvent): DyadWriteTag | null {
+  const path = tag.attributes.path;
+  if (!path) {
+    return null;
+  }
+  // Agent mode's tools write the file's exact content between two newlines.
+  // The model can't mark its own tags: the stream handler drops `tool` from
+  // them.
+  const content = tag.attributes.tool
+    ? tag.content.replace(/^\n/, "").replace(/\n$/, "")
+    : stripCodeFence(tag.content.trim());
+  return {
+    path: normalizePath(path),
+    content: decodeDyadWriteContent(content, tag.attributes.encoding),
+    description: tag.attributes.description || undefined,
+  };
+}
 
-    if (pathMatch && pathMatch[1]) {
-      const path = pathMatch[1];
-      const description = descriptionMatch?.[1];
+export function getDyadWriteTags(fullResponse: string): DyadWriteTag[] {
+  const tags: DyadWriteTag[] = [];
+  for (const tag of getClosedTags(fullResponse, "dyad-write")) {
+    const writeTag = toDyadWriteTag(tag);
+    if (writeTag) {
+      tags.push(writeTag);
+    }
+  }
+  return tags;
+}
 
-      const contentLines = content.split("\n");
-      if (contentLines[0]?.startsWith("```")) {
-        contentLines.shift();
-      }
-      if (contentLines[contentLines.length - 1]?.startsWith("```")) {
-        contentLines.pop();
-      }
-      content = contentLines.join("\n");
+export interface DyadPatchTag {
+  path: string;
+  hunks: PatchHunk[];
+  // Problems with the patch text itself; the patch isn't applied if any
+  errors: string[];
+  description?: string;
+}
 
-      tags.push({ path: normalizePath(path), content, description });
-    } else {
-      logger.warn(
-        "Found <dyad-write> tag without a valid 'path' attribute:",
-        match[0],
-      );
+export function getDyadPatchTags(fullResponse: string): DyadPatchTag[] {
+  const tags: DyadPatchTag[] = [];
+  for (const tag of getClosedTags(fullResponse, "dyad-patch")) {
+    if (!tag.attributes.path) {
+      continue;
     }
+    const { hunks, errors } = parsePatchHunks(
+      stripCodeFence(tag.content.trim()),
+    );
+    tags.push({
+      path: normalizePath(tag.attributes.path),
+      hunks,
+      errors,
+      description: tag.attributes.description || undefined,
+    });
   }
   return tags;
 }
@@ -51,89 +89,99 @@ export function getDyadRenameTags(fullResponse: string): {
   from: string;
   to: string;
 }[] {
-  const dyadRenameRegex =
-    /<dyad-rename from="([^"]+)" to="([^"]+)"[^>]*>([\s\S]*?)<\/dyad-rename>/g;
-  let match;
   const tags: { from: string; to: string }[] = [];
-  while ((match = dyadRenameRegex.exec(fullResponse)) !== null) {
-    tags.push({
-      from: normalizePath(match[1]),
-      to: normalizePath(match[2]),
-    });
+  for (const tag of getClosedTags(fullResponse, "dyad-rename")) {
+    const { from, to } = tag.attributes;
+    if (from && to) {
+      tags.push({
+        from: normalizePath(from),
+        to: normalizePath(to),
+      });
+    }
   }
   return tags;
 }
 
 export function getDyadDeleteTags(fullResponse: string): string[] {
-  const dyadDeleteRegex =
-    /<dyad-delete path="([^"]+)"[^>]*>([\s\S]*?)<\/dyad-delete>/g;
-  let match;
   const paths: string[] = [];
-  while ((match = dyadDeleteRegex.exec(fullResponse)) !== null) {
-    paths.push(normalizePath(match[1]));
+  for (const tag of getClosedTags(fullResponse, "dyad-delete")) {
+    if (tag.attributes.path) {
+      paths.push(normalizePath(tag.attributes.path));
+    }
   }
   return paths;
 }
 
 export function getDyadAddDependencyTags(fullResponse: string): string[] {
-  const dyadAddDependencyRegex =
-    /<dyad-add-dependency packages="([^"]+)">[^<]*<\/dyad-add-dependency>/g;
-  let match;
   const packages: string[] = [];
-  while ((match = dyadAddDependencyRegex.exec(fullResponse)) !== null) {
-    packages.push(...match[1].split(" "));
+  for (const tag of getClosedTags(fullResponse, "dyad-add-dependency")) {
+    if (tag.attributes.packages) {
+      packages.push(...tag.attributes.packages.split(" "));
+    }
   }
   return packages;
 }
 
 export function getDyadChatSummaryTag(fullResponse: string): string | null {
-  const dyadChatSummaryRegex =
-    /<dyad-chat-summary>([\s\S]*?)<\/dyad-chat-summary>/g;
-  const match = dyadChatSummaryRegex.exec(fullResponse);
-  if (match && match[1]) {
-    return match[1].trim();
-  }
-  return null;
+  const [tag] = getClosedTags(fullResponse, "dyad-chat-summary");
+  const summary = tag?.content.trim();
+  return summary ? summary : null;
 }
 
 export function getDyadExecuteSqlTags(fullResponse: string): SqlQuery[] {
-  const dyadExecuteSqlRegex =
-    /<dyad-execute-sql([^>]*)>([\s\S]*?)<\/dyad-execute-sql>/g;
-  const descriptionRegex = /description="([^"]+)"/;
-  let match;
-  const queries: { content: string; description?: string }[] = [];
-
-  while ((match = dyadExecuteSqlRegex.exec(fullResponse)) !== null) {
-    const attributesString = match[1] || "";
-    let content = match[2].trim();
-    const descriptionMatch = descriptionRegex.exec(attributesString);
-    const description = descriptionMatch?.[1];
-
+  return getClosedTags(fullResponse, "dyad-execute-sql").map((tag) => ({
     // Handle markdown code blocks if present
-    const contentLines = content.split("\n");
-    if (contentLines[0]?.startsWith("```")) {
-      contentLines.shift();
-    }
-    if (contentLines[contentLines.length - 1]?.startsWith("```")) {
-      contentLines.pop();
-    }
-    content = contentLines.join("\n");
-
-    queries.push({ content, description });
-  }
-
-  return queries;
+    content: stripCodeFence(tag.content.trim()),
+    description: tag.attributes.description || undefined,
+  }));
 }
 
 export function getDyadCommandTags(fullResponse: string): string[] {
-  const dyadCommandRegex =
-    /<dyad-command type="([^"]+)"[^>]*><\/dyad-command>/g;
-  let match;
   const commands: string[] = [];
-
-  while ((match = dyadCommandRegex.exec(fullResponse)) !== null) {
-    commands.push(match[1]);
+  for (const tag of getClosedTags(fullResponse, "dyad-command")) {
+    if (tag.attributes.type) {
+      commands.push(tag.attributes.type);
+    }
   }
-
   return commands;
 }
+
+// Tags whose required attributes must be present for them to be applied.
+const REQUIRED_ATTRIBUTES: Record<string, string[]> = {
+  "dyad-write": ["path"],
+  "dyad-patch": ["path"],
+  "dyad-rename": ["from", "to"],
+  "dyad-delete": ["path"],
+  "dyad-add-dependency": ["packages"],
+  "dyad-command": ["type"],
+};
+
+/**
+ * Returns tags that are syntactically broken (unterminated, unclosed, nested)
+ * or that are missing an attribute they need to be applied, with the position
+ * of the offending tag.
+ */
+export function getMalformedDyadTags(
+  fullResponse: string,
+): DyadTagMalformedEvent[] {
+  const { tags, malformed } = parseDyadTags(fullResponse);
+  const missingAttributes: DyadTagMalformedEvent[] = [];
+  for (const tag of tags) {
+    const missing = (REQUIRED_ATTRIBUTES[tag.tag] ?? []).filter(
+      (name) => !tag.attributes[name],
+    );
+    if (missing.length > 0) {
+      missingAttributes.push({
+        type: "malformed",
+        tag: tag.tag,
+        reason: `${tag.tag} tag is missing the ${missing
+          .map((name) => `'${name}'`)
+          .join(" and ")} attribute`,
+        position: tag.start,
+      });
+    }
+  }
+  return [...malformed, ...missingAttributes].sort(
+    (a, b) => a.position.offset - b.position.offset,
+  );
+}
@@ -0,0 +1,569 @@
+/**
+ * Incremental tokenizer for <dyad-*> tags.
+ *
+ * Unlike the regexes that run over the complete response, this parser can be
+ * fed the response chunk by chunk while it is still streaming and emits typed
+ * events as soon as each piece of a tag is known. Tag content is treated as
+ * raw text: only the matching closing tag ends it, so file contents that
+ * contain JSX or HTML are passed through untouched.
+ */
+
+export interface DyadTagPosition {
+  /** Zero-based character offset into the full response. */
+  offset: number;
+  /** One-based line number. */
+  line: number;
+  /** One-based column number. */
+  column: number;
+}
+
+export type DyadTagEvent =
+  | { type: "open"; tag: string; position: DyadTagPosition }
+  | {
+      type: "attribute";
+      tag: string;
+      name: string;
+      value: string;
+      position: DyadTagPosition;
+    }
+  | { type: "content"; tag: string; chunk: string; position: DyadTagPosition }
+  | {
+      type: "close";
+      tag: string;
+      attributes: Record<string, string>;
+      content: string;
+      start: DyadTagPosition;
+      end: DyadTagPosition;
+    }
+  | {
+      type: "malformed";
+      tag: string | null;
+      reason: string;
+      position: DyadTagPosition;
+    };
+
+export type DyadTagCloseEvent = Extract<DyadTagEvent, { type: "close" }>;
+export type DyadTagMalformedEvent = Extract<
+  DyadTagEvent,
+  { type: "malformed" }
+>;
+
+const OPEN_PREFIX = "<dyad-";
+const CLOSE_PREFIX = "</dyad-";
+// An opening tag that runs this long without a ">" is almost certainly not a
+// tag (e.g. the model wrote "<dyad-" in prose), so we stop waiting for it.
+const MAX_OPEN_TAG_LENGTH = 8192;
+
+const TAG_NAME_REGEX = /^<(dyad-[A-Za-z0-9_-]+)/;
+const CLOSE_TAG_REGEX = /^<\/(dyad-[A-Za-z0-9_-]*)\s*>/;
+const ATTRIBUTE_NAME_CHAR = /[A-Za-z0-9_:.-]/;
+const WHITESPACE = /\s/;
+
+type ParserState =
+  | { kind: "text" }
+  | {
+      kind: "open-tag";
+      tag: string;
+      start: DyadTagPosition;
+      attributes: Record<string, string>;
+    }
+  | {
+      kind: "content";
+      tag: string;
+      start: DyadTagPosition;
+      attributes: Record<string, string>;
+      content: string;
+    };
+
+export function unescapeAttributeValue(value: string): string {
+  return value
+    .replace(/\\(["'])/g, "$1")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+export function formatDyadTagPosition(position: DyadTagPosition): string {
+  return `line ${position.line}, column ${position.column}`;
+}
+
+export class DyadTagStreamParser {
+  private state: ParserState = { kind: "text" };
+  // Unconsumed input. `buffer[0]` is at `bufferStart` in the full response.
+  private buffer = "";
+  private bufferStart: DyadTagPosition = { offset: 0, line: 1, column: 1 };
+  // Everything fed so far, used by `sync` to detect rewritten prefixes.
+  private received = "";
+  private ended = false;
+
+  /**
+   * Feeds the next chunk of the response and returns the events that became
+   * complete because of it.
+   */
+  write(chunk: string): DyadTagEvent[] {
+    if (this.ended) {
+      throw new Error("Cannot write to a DyadTagStreamParser after end()");
+    }
+    this.received += chunk;
+    this.buffer += chunk;
+    const events: DyadTagEvent[] = [];
+    this.process(events);
+    return events;
+  }
+
+  /**
+   * Feeds the parser from an accumulated response instead of a delta.
+   *
+   * The streaming code keeps a single growing `fullResponse` string which is
+   * sometimes rewritten in place (e.g. `cleanFullResponse` escaping "<" inside
+   * attributes once an opening tag is complete). When the new text no longer
+   * extends what was parsed so far, the parser starts over and only returns
+   * events from the rewritten region onwards, so callers don't see the same
+   * completed tag twice.
+   */
+  sync(fullText: string): DyadTagEvent[] {
+    if (fullText.startsWith(this.received)) {
+      return this.write(fullText.slice(this.received.length));
+    }
+    const divergence = commonPrefixLength(this.received, fullText);
+    this.reset();
+    return this.write(fullText).filter(
+      (event) => eventEndOffset(event) >= divergence,
+    );
+  }
+
+  /**
+   * Signals the end of the response. Any tag that is still open is reported
+   * as malformed.
+   */
+  end(): DyadTagEvent[] {
+    const events: DyadTagEvent[] = [];
+    if (this.ended) {
+      return events;
+    }
+    this.process(events);
+    this.ended = true;
+    if (this.state.kind === "open-tag") {
+      events.push({
+        type: "malformed",
+        tag: this.state.tag,
+        reason: `Opening ${this.state.tag} tag is never terminated with ">"`,
+        position: this.state.start,
+      });
+    } else if (this.state.kind === "content") {
+      events.push({
+        type: "malformed",
+        tag: this.state.tag,
+        reason: `Missing closing ${this.state.tag} tag`,
+        position: this.state.start,
+      });
+    }
+    this.state = { kind: "text" };
+    this.consume(this.buffer.length);
+    return events;
+  }
+
+  reset(): void {
+    this.state = { kind: "text" };
+    this.buffer = "";
+    this.bufferStart = { offset: 0, line: 1, column: 1 };
+    this.received = "";
+    this.ended = false;
+  }
+
+  /** Name of the tag the parser is currently inside, if any. */
+  get openTag(): string | null {
+    return this.state.kind === "text" ? null : this.state.tag;
+  }
+
+  private process(events: DyadTagEvent[]): void {
+    while (this.buffer.length > 0) {
+      let progressed = false;
+      switch (this.state.kind) {
+        case "text":
+          progressed = this.processText(events);
+          break;
+        case "open-tag":
+          progressed = this.processOpenTag(events, this.state);
+          break;
+        case "content":
+          progressed = this.processContent(events, this.state);
+          break;
+      }
+      if (!progressed) {
+        return;
+      }
+    }
+  }
+
+  private processText(events: DyadTagEvent[]): boolean {
+    const openIndex = this.buffer.indexOf(OPEN_PREFIX);
+    const closeIndex = this.buffer.indexOf(CLOSE_PREFIX);
+    const index =
+      openIndex === -1
+        ? closeIndex
+        : closeIndex === -1
+          ? openIndex
+          : Math.min(openIndex, closeIndex);
+
+    if (index === -1) {
+      // Keep a possible partial "<dyad-" / "</dyad-" at the end of the buffer.
+      const lastLt = this.buffer.lastIndexOf("<");
+      if (lastLt !== -1) {
+        const tail = this.buffer.slice(lastLt);
+        if (OPEN_PREFIX.startsWith(tail) || CLOSE_PREFIX.startsWith(tail)) {
+          this.consume(lastLt);
+          return false;
+        }
+      }
+      this.consume(this.buffer.length);
+      return false;
+    }
+
+    this.consume(index);
+
+    if (index === closeIndex) {
+      const match = CLOSE_TAG_REGEX.exec(this.buffer);
+      if (!match) {
+        if (this.buffer.indexOf(">") === -1 && !this.isTooLong()) {
+          return false;
+        }
+        // Not a real closing tag, skip past the "<" and keep scanning.
+        this.consume(1);
+        return true;
+      }
+      events.push({
+        type: "malformed",
+        tag: match[1],
+        reason: `Closing ${match[1]} tag has no matching opening tag`,
+        position: this.positionAt(0),
+      });
+      this.consume(match[0].length);
+      return true;
+    }
+
+    const match = TAG_NAME_REGEX.exec(this.buffer);
+    if (!match) {
+      if (this.buffer.length === OPEN_PREFIX.length) {
+        return false;
+      }
+      events.push({
+        type: "malformed",
+        tag: null,
+        reason: `Invalid tag name after "${OPEN_PREFIX}"`,
+        position: this.positionAt(0),
+      });
+      this.consume(OPEN_PREFIX.length);
+      return true;
+    }
+    if (match[0].length === this.buffer.length) {
+      // The tag name may continue in the next chunk.
+      return false;
+    }
+
+    const tag = match[1];
+    const start = this.positionAt(0);
+    events.push({ type: "open", tag, position: start });
+    this.state = { kind: "open-tag", tag, start, attributes: {} };
+    this.consume(match[0].length);
+    return true;
+  }
+
+  private processOpenTag(
+    events: DyadTagEvent[],
+    state: Extract<ParserState, { kind: "open-tag" }>,
+  ): boolean {
+    let i = 0;
+    while (i < this.buffer.length && WHITESPACE.test(this.buffer[i])) {
+      i++;
+    }
+    this.consume(i);
+    if (this.buffer.length === 0) {
+      return false;
+    }
+    if (this.bufferStart.offset - state.start.offset > MAX_OPEN_TAG_LENGTH) {
+      return this.abandonOpenTag(events, state);
+    }
+
+    const char = this.buffer[0];
+    if (char === ">") {
+      this.consume(1);
+      this.state = {
+        kind: "content",
+        tag: state.tag,
+        start: state.start,
+        attributes: state.attributes,
+        content: "",
+      };
+      return true;
+    }
+    if (char === "/") {
+      if (this.buffer.length < 2) {
+        return false;
+      }
+      if (this.buffer[1] === ">") {
+        this.consume(2);
+        events.push({
+          type: "close",
+          tag: state.tag,
+          attributes: state.attributes,
+          content: "",
+          start: state.start,
+          end: this.positionAt(0),
+        });
+        this.state = { kind: "text" };
+        return true;
+      }
+      this.consume(1);
+      return true;
+    }
+    if (char === "<") {
+      return this.abandonOpenTag(events, state);
+    }
+    if (!ATTRIBUTE_NAME_CHAR.test(char)) {
+      // Stray characters (e.g. an unbalanced quote) between attributes.
+      this.consume(1);
+      return true;
+    }
+
+    const attribute = this.readAttribute();
+    if (!attribute) {
+      if (this.isTooLong()) {
+        return this.abandonOpenTag(events, state);
+      }
+      return false;
+    }
+    const position = this.positionAt(0);
+    // Like the regex based parser, the first occurrence of an attribute wins.
+    if (!(attribute.name in state.attributes)) {
+      state.attributes[attribute.name] = attribute.value;
+    }
+    events.push({
+      type: "attribute",
+      tag: state.tag,
+      name: attribute.name,
+      value: attribute.value,
+      position,
+    });
+    this.consume(attribute.length);
+    return true;
+  }
+
+  /**
+   * Reads `name`, `name="value"`, `name='value'` or `name=value` from the
+   * start of the buffer. Returns null when the attribute isn't complete yet.
+   */
+  private readAttribute(): {
+    name: string;
+    value: string;
+    length: number;
+  } | null {
+    const buffer = this.buffer;
+    let i = 0;
+    while (i < buffer.length && ATTRIBUTE_NAME_CHAR.test(buffer[i])) {
+      i++;
+    }
+    const name = buffer.slice(0, i);
+    let j = i;
+    while (j < buffer.length && WHITESPACE.test(buffer[j])) {
+      j++;
+    }
+    if (j >= buffer.length) {
+      return null;
+    }
+    if (buffer[j] !== "=") {
+      return { name, value: "", length: i };
+    }
+    j++;
+    while (j < buffer.length && WHITESPACE.test(buffer[j])) {
+      j++;
+    }
+    if (j >= buffer.length) {
+      return null;
+    }
+
+    const quote = buffer[j];
+    if (quote === '"' || quote === "'") {
+      let k = j + 1;
+      while (k < buffer.length) {
+        if (buffer[k] === "\\" && buffer[k + 1] === quote) {
+          k += 2;
+          continue;
+        }
+        if (buffer[k] === quote) {
+          return {
+            name,
+            value: unescapeAttributeValue(buffer.slice(j + 1, k)),
+            length: k + 1,
+          };
+        }
+        k++;
+      }
+      return null;
+    }
+
+    let k = j;
+    while (
+      k < buffer.length &&
+      !WHITESPACE.test(buffer[k]) &&
+      buffer[k] !== ">" &&
+      !(buffer[k] === "/" && buffer[k + 1] === ">")
+    ) {
+      k++;
+    }
+    if (k >= buffer.length) {
+      return null;
+    }
+    return {
+      name,
+      value: unescapeAttributeValue(buffer.slice(j, k)),
+      length: k,
+    };
+  }
+
+  private abandonOpenTag(
+    events: DyadTagEvent[],
+    state: Extract<ParserState, { kind: "open-tag" }>,
+  ): boolean {
+    events.push({
+      type: "malformed",
+      tag: state.tag,
+      reason: `Opening ${state.tag} tag is never terminated with ">"`,
+      position: state.start,
+    });
+    this.state = { kind: "text" };
+    return true;
+  }
+
+  private processContent(
+    events: DyadTagEvent[],
+    state: Extract<ParserState, { kind: "content" }>,
+  ): boolean {
+    const closeMarker = `</${state.tag}>`;
+    const closeIndex = this.buffer.indexOf(closeMarker);
+    // Hold back enough characters to recognise a closing tag (or a nested
+    // opening tag) that is split across chunks.
+    const safeLength =
+      closeIndex === -1
+        ? Math.max(0, this.buffer.length - closeMarker.length)
+        : closeIndex;
+
+    this.reportNestedOpenTags(events, state, safeLength);
+
+    if (safeLength > 0) {
+      const chunk = this.buffer.slice(0, safeLength);
+      events.push({
+        type: "content",
+        tag: state.tag,
+        chunk,
+        position: this.positionAt(0),
+      });
+      state.content += chunk;
+      this.consume(safeLength);
+    }
+
+    if (closeIndex === -1) {
+      return false;
+    }
+
+    this.consume(closeMarker.length);
+    events.push({
+      type: "close",
+      tag: state.tag,
+      attributes: state.attributes,
+      content: state.content,
+      start: state.start,
+      end: this.positionAt(0),
+    });
+    this.state = { kind: "text" };
+    return true;
+  }
+
+  private reportNestedOpenTags(
+    events: DyadTagEvent[],
+    state: Extract<ParserState, { kind: "content" }>,
+    length: number,
+  ): void {
+    const nestedOpen = `<${state.tag}`;
+    let index = this.buffer.indexOf(nestedOpen);
+    while (index !== -1 && index < length) {
+      const next = this.buffer[index + nestedOpen.length];
+      if (next === ">" || (next !== undefined && WHITESPACE.test(next))) {
+        events.push({
+          type: "malformed",
+          tag: state.tag,
+          reason: `Nested ${state.tag} tag inside the ${state.tag} tag opened at ${formatDyadTagPosition(state.start)}`,
+          position: this.positionAt(index),
+        });
+      }
+      index = this.buffer.indexOf(nestedOpen, index + 1);
+    }
+  }
+
+  private isTooLong(): boolean {
+    return this.buffer.length > MAX_OPEN_TAG_LENGTH;
+  }
+
+  private positionAt(index: number): DyadTagPosition {
+    let { line, column } = this.bufferStart;
+    for (let i = 0; i < index; i++) {
+      if (this.buffer[i] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    return { offset: this.bufferStart.offset + index, line, column };
+  }
+
+  private consume(count: number): void {
+    if (count <= 0) {
+      return;
+    }
+    this.bufferStart = this.positionAt(count);
+    this.buffer = this.buffer.slice(count);
+  }
+}
+
+/**
+ * Parses a complete response in one go and returns the closed tags and any
+ * malformed tags, in document order.
+ */
+export function parseDyadTags(text: string): {
+  tags: DyadTagCloseEvent[];
+  malformed: DyadTagMalformedEvent[];
+} {
+  const parser = new DyadTagStreamParser();
+  const events = [...parser.write(text), ...parser.end()];
+  return {
+    tags: events.filter(
+      (event): event is DyadTagCloseEvent => event.type === "close",
+    ),
+    malformed: events.filter(
+      (event): event is DyadTagMalformedEvent => event.type === "malformed",
+    ),
+  };
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a[i] === b[i]) {
+    i++;
+  }
+  return i;
+}
+
+function eventEndOffset(event: DyadTagEvent): number {
+  switch (event.type) {
+    case "close":
+      return event.end.offset;
+    case "content":
+      return event.position.offset + event.chunk.length;
+    default:
+      return event.position.offset;
+  }
+}
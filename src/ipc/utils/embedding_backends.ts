@@ -0,0 +1,91 @@
+import type { CodeIndexSettings } from "../../lib/schemas";
+import { getOllamaApiUrl } from "../handlers/local_model_ollama_handler";
+import { LM_STUDIO_BASE_URL } from "./lm_studio_utils";
+import { DEFAULT_EMBEDDING_MODELS } from "../shared/language_model_constants";
+
+// Texts sent per request
+const EMBEDDING_BATCH_SIZE = 32;
+// A local server that stopped answering mustn't hold up indexing forever
+const EMBEDDING_TIMEOUT_MS = 60_000;
+
+export interface EmbeddingBackend {
+  // Identifies the vector space, e.g. "ollama:nomic-embed-text". Embeddings
+  // from different ids can't be compared.
+  id: string;
+  // Each request is aborted after EMBEDDING_TIMEOUT_MS, or with `signal`
+  // when one is given
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+async function postJson(
+  url: string,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<any> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: signal ?? AbortSignal.timeout(EMBEDDING_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Embedding request to ${url} failed: ${response.status} ${await response.text()}`,
+    );
+  }
+  return response.json();
+}
+
+function batched(
+  embedBatch: (texts: string[], signal?: AbortSignal) => Promise<number[][]>,
+): EmbeddingBackend["embed"] {
+  return async (texts, signal) => {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      embeddings.push(
+        ...(await embedBatch(texts.slice(i, i + EMBEDDING_BATCH_SIZE), signal)),
+      );
+    }
+    return embeddings;
+  };
+}
+
+/**
+ * The configured embedding backend, or null for the lexical (BM25) index.
+ */
+export function getEmbeddingBackend(
+  settings: CodeIndexSettings | undefined,
+): EmbeddingBackend | null {
+  const backend = settings?.embeddingBackend ?? "bm25";
+  if (backend === "bm25") {
+    return null;
+  }
+  const model =
+    settings?.embeddingModel?.trim() || DEFAULT_EMBEDDING_MODELS[backend];
+
+  if (backend === "ollama") {
+    return {
+      id: `ollama:${model}`,
+      embed: batched(async (input, signal) => {
+        const result = await postJson(
+          `${getOllamaApiUrl()}/api/embed`,
+          { model, input },
+          signal,
+        );
+        return result.embeddings;
+      }),
+    };
+  }
+
+  return {
+    id: `lmstudio:${model}`,
+    embed: batched(async (input, signal) => {
+      const result = await postJson(
+        `${LM_STUDIO_BASE_URL}/v1/embeddings`,
+        { model, input },
+        signal,
+      );
+      return result.data.map((item: { embedding: number[] }) => item.embedding);
+    }),
+  };
+}
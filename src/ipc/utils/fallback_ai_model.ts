@@ -3,16 +3,45 @@ import {
   LanguageModelV2CallOptions,
   LanguageModelV2StreamPart,
 } from "@ai-sdk/provider";
+import { wrapLanguageModel } from "ai";
+import log from "electron-log";
+import type { FallbackErrorClass } from "../../lib/schemas";
+import { getModelHealthKey, type ModelHealthRegistry } from "./model_health";
+import { getModelHealthRegistry } from "./model_health_store";
+
+const logger = log.scope("fallback_ai_model");
 
 // Types
 interface FallbackSettings {
   models: Array<LanguageModelV2>;
+  // Remembers failures across requests to reorder and skip models. Defaults
+  // to the app-wide registry.
+  health?: ModelHealthRegistry;
+  // Decides which errors move on to the next model; any other error is
+  // surfaced. Defaults to defaultShouldRetryThisError.
+  shouldFallback?: (error: unknown) => boolean;
+}
+
+export interface FallbackSkip {
+  // Index into the models passed to createFallback.
+  index: number;
+  modelId: string;
+  reason: string;
 }
 
-interface RetryState {
-  attemptNumber: number;
-  modelsAttempted: Set<number>;
-  initialModelIndex: number;
+/**
+ * What happened to the models of the latest request: which one answered and
+ * why the ones before it were passed over.
+ */
+export interface FallbackReport {
+  answeredIndex: number | null;
+  skipped: FallbackSkip[];
+}
+
+interface RetryState extends FallbackReport {
+  // Indices into settings.models, in the order they are tried.
+  order: number[];
+  position: number;
   errors: Array<{ modelId: string; error: Error }>;
 }
 
@@ -87,6 +116,68 @@ export function defaultShouldRetryThisError(error: any): boolean {
   }
 }
 
+export const DEFAULT_FALLBACK_ON: FallbackErrorClass[] = [
+  "rate-limit",
+  "server",
+  "network",
+];
+
+/**
+ * Sorts a model error into the classes fallback chains are configured with.
+ * Returns null for errors that say nothing about the model's availability,
+ * e.g. an invalid request.
+ */
+export function classifyModelError(error: any): FallbackErrorClass | null {
+  if (!error) return null;
+  const statusCode =
+    error?.statusCode || error?.status || error?.response?.status;
+  const message = String(
+    error?.message || error?.code || error?.type || "",
+  ).toLowerCase();
+
+  if (
+    statusCode === 401 ||
+    statusCode === 403 ||
+    message.includes("wrong-key")
+  ) {
+    return "auth";
+  }
+  if (
+    statusCode === 413 ||
+    message.includes("context length") ||
+    message.includes("context_length") ||
+    message.includes("too many tokens") ||
+    message.includes("prompt is too long")
+  ) {
+    return "context-length";
+  }
+  if (
+    statusCode === 429 ||
+    message.includes("rate_limit") ||
+    message.includes("too many requests")
+  ) {
+    return "rate-limit";
+  }
+  if (
+    isNetworkError(error) ||
+    statusCode === 408 ||
+    message.includes("timeout")
+  ) {
+    return "network";
+  }
+  if ((statusCode && statusCode >= 500) || defaultShouldRetryThisError(error)) {
+    // Overloaded, unexpected and other transient provider errors
+    return "server";
+  }
+  return null;
+}
+
+function describeSkip(error: any): string {
+  const errorClass = classifyModelError(error) ?? "error";
+  const message = String(error?.message ?? error).slice(0, 200);
+  return `${errorClass}: ${message}`;
+}
+
 export function createFallback(settings: FallbackSettings): FallbackModel {
   return new FallbackModel(settings);
 }
@@ -94,12 +185,10 @@ export function createFallback(settings: FallbackSettings): FallbackModel {
 export class FallbackModel implements LanguageModelV2 {
   readonly specificationVersion = "v2";
   private readonly settings: FallbackSettings;
+  private readonly health: ModelHealthRegistry;
   private currentModelIndex: number = 0;
-  private lastModelReset: number = Date.now();
-  private readonly modelResetInterval: number;
   private readonly retryAfterOutput: boolean;
-  private readonly maxRetries: number;
-  private isRetrying: boolean = false;
+  private lastReport: FallbackReport | null = null;
 
   constructor(settings: FallbackSettings) {
     // Validate settings
@@ -108,9 +197,8 @@ export class FallbackModel implements LanguageModelV2 {
     }
 
     this.settings = settings;
-    this.modelResetInterval = 3 * 60 * 1000; // Default: 3 minutes
+    this.health = settings.health ?? getModelHealthRegistry();
     this.retryAfterOutput = true;
-    this.maxRetries = settings.models.length * 2; // Default: try each model twice
   }
 
   get modelId(): string {
@@ -135,79 +223,80 @@ export class FallbackModel implements LanguageModelV2 {
     return model;
   }
 
-  private checkAndResetModel(): void {
-    // Only reset if we're not currently in a retry cycle
-    if (this.isRetrying) return;
-
-    const now = Date.now();
-    if (
-      this.currentModelIndex !== 0 &&
-      now - this.lastModelReset >= this.modelResetInterval
-    ) {
-      this.currentModelIndex = 0;
-      this.lastModelReset = now;
+  /**
+   * Moves to the next model in the attempt order. Returns false when every
+   * model of this request has been tried.
+   */
+  private switchToNextModel(state: RetryState): boolean {
+    state.position++;
+    if (state.position >= state.order.length) {
+      return false;
     }
+    this.currentModelIndex = state.order[state.position];
+    return true;
   }
 
-  private switchToNextModel(): void {
-    this.currentModelIndex =
-      (this.currentModelIndex + 1) % this.settings.models.length;
-  }
-
-  private async retry<T>(
-    operation: (state: RetryState) => Promise<T>,
-    operationName: string,
-  ): Promise<T> {
+  private createRetryState(): RetryState {
+    // Ask the health registry every request, so models whose circuit is open
+    // are skipped and recovering ones are tried after healthy ones.
+    const order = this.health.getAttemptOrder(this.settings.models);
+    const skipped = this.settings.models.filter(
+      (_, index) => !order.includes(index),
+    );
+    if (skipped.length > 0) {
+      logger.info(
+        `Skipping models with an open circuit: ${skipped
+          .map((model) => getModelHealthKey(model))
+          .join(", ")}`,
+      );
+    }
+    this.currentModelIndex = order[0];
     const state: RetryState = {
-      attemptNumber: 0,
-      modelsAttempted: new Set([this.currentModelIndex]),
-      initialModelIndex: this.currentModelIndex,
+      order,
+      position: 0,
       errors: [],
+      answeredIndex: null,
+      skipped: this.settings.models
+        .map((model, index) => ({
+          index,
+          modelId: model.modelId,
+          reason: "circuit open after repeated failures",
+        }))
+        .filter(({ index }) => !order.includes(index)),
     };
+    this.lastReport = state;
+    return state;
+  }
 
-    this.isRetrying = true;
-
-    try {
-      while (state.attemptNumber < this.maxRetries) {
-        state.attemptNumber++;
-
-        try {
-          return await operation(state);
-        } catch (error) {
-          const err = error as Error;
-          state.errors.push({ modelId: this.modelId, error: err });
-
-          // Check if we should retry this error
-          if (!defaultShouldRetryThisError(err)) {
-            throw err;
-          }
-
-          // Call error handler if provided
-
-          // If we've tried all models at least once and still failing, throw
-          if (state.modelsAttempted.size === this.settings.models.length) {
-            // If we haven't hit max retries yet, we can try models again
-            if (state.attemptNumber >= this.maxRetries) {
-              throw new Error(
-                `All ${this.settings.models.length} models failed for ${operationName}. ` +
-                  `Last error: ${err.message}`,
-              );
-            }
-          }
+  private shouldFallback(error: unknown): boolean {
+    return (this.settings.shouldFallback ?? defaultShouldRetryThisError)(error);
+  }
 
-          // Switch to next model
-          this.switchToNextModel();
-          state.modelsAttempted.add(this.currentModelIndex);
-        }
-      }
+  private recordFailure(state: RetryState, error: Error) {
+    const model = this.getCurrentModel();
+    state.errors.push({ modelId: model.modelId, error });
+    state.skipped.push({
+      index: this.currentModelIndex,
+      modelId: model.modelId,
+      reason: describeSkip(error),
+    });
+    // Health tracks the provider, whatever this chain's fallback rules are.
+    if (defaultShouldRetryThisError(error)) {
+      this.health.recordFailure(model, error);
+    }
+  }
 
-      // Should never reach here, but just in case
-      throw new Error(
-        `Max retries (${this.maxRetries}) exceeded for ${operationName}`,
-      );
-    } finally {
-      this.isRetrying = false;
+  /**
+   * The outcome of the latest request, for recording which model answered.
+   */
+  getLastReport(): FallbackReport | null {
+    if (!this.lastReport) {
+      return null;
     }
+    return {
+      answeredIndex: this.lastReport.answeredIndex,
+      skipped: [...this.lastReport.skipped],
+    };
   }
 
   async doGenerate(): Promise<any> {
@@ -215,29 +304,50 @@ export class FallbackModel implements LanguageModelV2 {
   }
 
   async doStream(options: LanguageModelV2CallOptions): Promise<StreamResult> {
-    this.checkAndResetModel();
-
-    return this.retry(async (retryState) => {
-      const result = await this.getCurrentModel().doStream(options);
+    const state = this.createRetryState();
+
+    while (true) {
+      const model = this.getCurrentModel();
+      const startedAt = Date.now();
+      try {
+        const result = await model.doStream(options);
+
+        // Create a wrapped stream that handles errors gracefully
+        const wrappedStream = this.createWrappedStream(
+          result.stream,
+          options,
+          state,
+          startedAt,
+        );
+
+        return {
+          ...result,
+          stream: wrappedStream,
+        };
+      } catch (error) {
+        const err = error as Error;
+        this.recordFailure(state, err);
 
-      // Create a wrapped stream that handles errors gracefully
-      const wrappedStream = this.createWrappedStream(
-        result.stream,
-        options,
-        retryState,
-      );
+        // Check if we should retry this error
+        if (!this.shouldFallback(err)) {
+          throw err;
+        }
 
-      return {
-        ...result,
-        stream: wrappedStream,
-      };
-    }, "stream");
+        if (!this.switchToNextModel(state)) {
+          throw new Error(
+            `All ${state.order.length} models failed for stream. ` +
+              `Last error: ${err.message}`,
+          );
+        }
+      }
+    }
   }
 
   private createWrappedStream(
     originalStream: ReadableStream<LanguageModelV2StreamPart>,
     options: LanguageModelV2CallOptions,
     retryState: RetryState,
+    startedAt: number,
   ): ReadableStream<LanguageModelV2StreamPart> {
     let hasStreamedContent = false;
     // eslint-disable-next-line @typescript-eslint/no-this-alias
@@ -250,8 +360,10 @@ export class FallbackModel implements LanguageModelV2 {
 
         const processStream = async (
           stream: ReadableStream<LanguageModelV2StreamPart>,
+          attemptStartedAt: number,
         ): Promise<void> => {
           reader = stream.getReader();
+          let hasRecordedSuccess = false;
 
           try {
             while (true) {
@@ -265,7 +377,7 @@ export class FallbackModel implements LanguageModelV2 {
               // Check for early errors before streaming content
               if (!hasStreamedContent && value && "error" in value) {
                 const error = value.error as Error;
-                if (defaultShouldRetryThisError(error)) {
+                if (fallbackModel.shouldFallback(error)) {
                   throw error;
                 }
               }
@@ -275,6 +387,14 @@ export class FallbackModel implements LanguageModelV2 {
               // Mark that we've streamed actual content (not just metadata)
               if (value?.type && value.type !== "stream-start") {
                 hasStreamedContent = true;
+                if (!hasRecordedSuccess && value.type !== "error") {
+                  hasRecordedSuccess = true;
+                  retryState.answeredIndex = fallbackModel.currentModelIndex;
+                  fallbackModel.health.recordSuccess(
+                    fallbackModel.getCurrentModel(),
+                    Date.now() - attemptStartedAt,
+                  );
+                }
               }
             }
           } finally {
@@ -282,35 +402,27 @@ export class FallbackModel implements LanguageModelV2 {
           }
         };
 
-        try {
-          await processStream(originalStream);
-        } catch (error) {
-          const err = error as Error;
-
-          // Decide whether to retry
-          const shouldRetry =
-            (!hasStreamedContent || fallbackModel.retryAfterOutput) &&
-            defaultShouldRetryThisError(err) &&
-            retryState.attemptNumber < fallbackModel.maxRetries;
-
-          if (shouldRetry) {
-            // Track this error
-            retryState.errors.push({
-              modelId: fallbackModel.modelId,
-              error: err,
-            });
-            retryState.attemptNumber++;
-
-            // Switch to next model
-            fallbackModel.switchToNextModel();
-            retryState.modelsAttempted.add(fallbackModel.currentModelIndex);
-
-            // Check if we've tried all models
+        const processWithFallback = async (
+          stream: ReadableStream<LanguageModelV2StreamPart>,
+          attemptStartedAt: number,
+        ): Promise<void> => {
+          try {
+            await processStream(stream, attemptStartedAt);
+          } catch (error) {
+            const err = error as Error;
+            fallbackModel.recordFailure(retryState, err);
+
+            // Decide whether to retry
             if (
-              retryState.modelsAttempted.size ===
-                fallbackModel.settings.models.length &&
-              retryState.attemptNumber >= fallbackModel.maxRetries
+              !fallbackModel.shouldFallback(err) ||
+              (hasStreamedContent && !fallbackModel.retryAfterOutput)
             ) {
+              // Don't retry - propagate the error
+              controller.error(err);
+              return;
+            }
+
+            if (!fallbackModel.switchToNextModel(retryState)) {
               controller.error(
                 new Error(
                   `All models failed during streaming. Last error: ${err.message}`,
@@ -319,21 +431,31 @@ export class FallbackModel implements LanguageModelV2 {
               return;
             }
 
+            const nextStartedAt = Date.now();
+            let nextResult: StreamResult;
             try {
               // Create a new stream with the next model
-              const nextResult = await fallbackModel
+              nextResult = await fallbackModel
                 .getCurrentModel()
                 .doStream(options);
-              await processStream(nextResult.stream);
             } catch (nextError) {
-              // If the retry also fails, propagate the error
-              controller.error(nextError);
+              // A model that can't even start streaming counts against it
+              // too; keep falling back.
+              await processWithFallback(
+                new ReadableStream({
+                  start(errorController) {
+                    errorController.error(nextError);
+                  },
+                }),
+                nextStartedAt,
+              );
+              return;
             }
-          } else {
-            // Don't retry - propagate the error
-            controller.error(err);
+            await processWithFallback(nextResult.stream, nextStartedAt);
           }
-        }
+        };
+
+        await processWithFallback(originalStream, startedAt);
       },
 
       cancel() {
@@ -343,6 +465,77 @@ export class FallbackModel implements LanguageModelV2 {
   }
 }
 
+/**
+ * Records the outcome of every request to a single model (not part of a
+ * fallback chain) in the health registry, so its health shows in settings
+ * even though there is nothing to fall back to.
+ */
+export function withModelHealthTracking(
+  model: LanguageModelV2,
+  health: ModelHealthRegistry = getModelHealthRegistry(),
+): LanguageModelV2 {
+  if (model instanceof FallbackModel) {
+    // Already records each of its models.
+    return model;
+  }
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate }) => {
+        const startedAt = Date.now();
+        try {
+          const result = await doGenerate();
+          health.recordSuccess(model, Date.now() - startedAt);
+          return result;
+        } catch (error) {
+          if (defaultShouldRetryThisError(error)) {
+            health.recordFailure(model, error);
+          }
+          throw error;
+        }
+      },
+      wrapStream: async ({ doStream }) => {
+        const startedAt = Date.now();
+        let result: StreamResult;
+        try {
+          result = await doStream();
+        } catch (error) {
+          if (defaultShouldRetryThisError(error)) {
+            health.recordFailure(model, error);
+          }
+          throw error;
+        }
+        let hasRecorded = false;
+        const record = (part: LanguageModelV2StreamPart) => {
+          if (hasRecorded || part.type === "stream-start") return;
+          hasRecorded = true;
+          if (part.type === "error") {
+            if (defaultShouldRetryThisError(part.error)) {
+              health.recordFailure(model, part.error);
+            }
+          } else {
+            health.recordSuccess(model, Date.now() - startedAt);
+          }
+        };
+        return {
+          ...result,
+          stream: result.stream.pipeThrough(
+            new TransformStream<
+              LanguageModelV2StreamPart,
+              LanguageModelV2StreamPart
+            >({
+              transform(part, controller) {
+                record(part);
+                controller.enqueue(part);
+              },
+            }),
+          ),
+        } as Awaited<ReturnType<LanguageModelV2["doStream"]>>;
+      },
+    },
+  });
+}
+
 // Export utility functions
 export { defaultShouldRetryThisError as isRetryableError };
 
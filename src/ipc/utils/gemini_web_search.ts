@@ -1,9 +1,11 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import log from "electron-log";
+import { recordUsage } from "./usage_ledger";
 
 const logger = log.scope("gemini-web-search");
 
 const MAX_QUERY_LENGTH = 2000;
+const SEARCH_MODEL = "gemini-2.5-flash";
 
 export interface GeminiWebSearchResult {
   query: string;
@@ -29,10 +31,13 @@ export async function maybeRunGeminiWebSearch({
   query,
   apiKey,
   abortSignal,
+  chatId,
 }: {
   query: string;
   apiKey?: string | null;
   abortSignal?: AbortSignal;
+  // The chat the search is for, to charge its usage to
+  chatId?: number;
 }): Promise<GeminiWebSearchResult | null> {
   if (!apiKey) {
     return null;
@@ -50,7 +55,7 @@ export async function maybeRunGeminiWebSearch({
     const client = getGeminiClient(apiKey);
     const searchTool: any = { googleSearch: {} };
     const model = client.getGenerativeModel({
-      model: "gemini-2.5-flash",
+      model: SEARCH_MODEL,
       tools: [searchTool],
       generationConfig: {
         temperature: 0.2,
@@ -75,6 +80,25 @@ ${safeQuery}`,
       ],
     });
 
+    const usageMetadata = response.response?.usageMetadata;
+    if (usageMetadata) {
+      await recordUsage({
+        kind: "web-search",
+        provider: "google",
+        model: SEARCH_MODEL,
+        usage: {
+          inputTokens: usageMetadata.promptTokenCount,
+          // Candidates plus thinking; this SDK's usage metadata has no
+          // separate count for thinking
+          outputTokens:
+            usageMetadata.totalTokenCount - usageMetadata.promptTokenCount,
+          cachedInputTokens: usageMetadata.cachedContentTokenCount ?? 0,
+          reasoningTokens: 0,
+        },
+        chatId,
+      });
+    }
+
     if (abortSignal?.aborted) {
       return null;
     }
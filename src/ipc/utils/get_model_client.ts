@@ -10,6 +10,7 @@ import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { createAmazonBedrock } from "@ai-sdk/amazon-bedrock";
 
 import type {
+  FallbackErrorClass,
   LargeLanguageModel,
   UserSettings,
   VertexProviderSetting,
@@ -25,7 +26,12 @@ import { createDyadEngine } from "./llm_engine_provider";
 import { LM_STUDIO_BASE_URL } from "./lm_studio_utils";
 import { createOllamaProvider } from "./ollama_provider";
 import { getOllamaApiUrl } from "../handlers/local_model_ollama_handler";
-import { createFallback } from "./fallback_ai_model";
+import {
+  classifyModelError,
+  createFallback,
+  DEFAULT_FALLBACK_ON,
+  withModelHealthTracking,
+} from "./fallback_ai_model";
 
 const dyadEngineUrl = process.env.DYAD_ENGINE_URL;
 
@@ -88,17 +94,102 @@ export interface ModelClient {
 }
 
 const logger = log.scope("getModelClient");
+
+type ModelClientResult = {
+  modelClient: ModelClient;
+  isEngineEnabled?: boolean;
+  isSmartContextEnabled?: boolean;
+};
+
 export async function getModelClient(
   model: LargeLanguageModel,
   settings: UserSettings,
   appPath?: string,
   // files?: File[],
   taskType?: "frontend" | "backend" | "debugging" | "general",
-): Promise<{
-  modelClient: ModelClient;
-  isEngineEnabled?: boolean;
-  isSmartContextEnabled?: boolean;
-}> {
+): Promise<ModelClientResult> {
+  const result = await resolveModelClient(model, settings, appPath, taskType);
+  return {
+    ...result,
+    modelClient: {
+      ...result.modelClient,
+      model: withModelHealthTracking(result.modelClient.model),
+    },
+  };
+}
+
+/**
+ * Resolves an ordered list of models into a single client that moves down
+ * the list when a model fails with one of the `fallbackOn` error classes.
+ * Models that can't be set up (e.g. no API key) are left out; `chain` lists
+ * the models that made it, in the order the client tries them.
+ */
+export async function getFallbackChainModelClient(
+  models: LargeLanguageModel[],
+  settings: UserSettings,
+  {
+    appPath,
+    fallbackOn = DEFAULT_FALLBACK_ON,
+  }: { appPath?: string; fallbackOn?: FallbackErrorClass[] },
+): Promise<ModelClientResult & { chain: LargeLanguageModel[] }> {
+  const [primary, ...fallbacks] = models;
+  const primaryResult = await resolveModelClient(primary, settings, appPath);
+  const chain = [primary];
+  const chainModels = [primaryResult.modelClient.model];
+  for (const fallback of fallbacks) {
+    try {
+      const { modelClient } = await resolveModelClient(
+        fallback,
+        settings,
+        appPath,
+      );
+      chain.push(fallback);
+      chainModels.push(modelClient.model);
+    } catch (error) {
+      logger.warn(
+        `Leaving ${fallback.provider}/${fallback.name} out of the fallback chain:`,
+        error,
+      );
+    }
+  }
+
+  if (chainModels.length === 1) {
+    return {
+      ...primaryResult,
+      modelClient: {
+        ...primaryResult.modelClient,
+        model: withModelHealthTracking(primaryResult.modelClient.model),
+      },
+      chain,
+    };
+  }
+
+  logger.info(
+    `Using fallback chain: ${chain.map((m) => `${m.provider}/${m.name}`).join(" -> ")} (falls back on ${fallbackOn.join(", ")})`,
+  );
+  return {
+    ...primaryResult,
+    modelClient: {
+      model: createFallback({
+        models: chainModels,
+        shouldFallback: (error) => {
+          const errorClass = classifyModelError(error);
+          return errorClass !== null && fallbackOn.includes(errorClass);
+        },
+      }),
+      builtinProviderId: primaryResult.modelClient.builtinProviderId,
+    },
+    chain,
+  };
+}
+
+async function resolveModelClient(
+  model: LargeLanguageModel,
+  settings: UserSettings,
+  appPath?: string,
+  // files?: File[],
+  taskType?: "frontend" | "backend" | "debugging" | "general",
+): Promise<ModelClientResult> {
   const allProviders = await getLanguageModelProviders();
 
   // If task-based switching is enabled and we have a task-specific model configured
@@ -147,7 +238,8 @@ export async function getModelClient(
         originalProviderId: model.provider,
         dyadOptions: {
           enableLazyEdits:
-            settings.selectedChatMode === "ask"
+            settings.selectedChatMode === "ask" ||
+            settings.selectedChatMode === "plan"
               ? false
               : settings.enableProLazyEditsMode,
           enableSmartFilesContext: enableSmartFilesContext,
@@ -226,7 +318,7 @@ export async function getModelClient(
           `Using provider: ${autoModel.provider} model: ${autoModel.name}`,
         );
         // Recursively call with the specific model found
-        return await getModelClient(
+        return await resolveModelClient(
           {
             provider: autoModel.provider,
             name: autoModel.name,
@@ -6,6 +6,7 @@ import pathModule from "node:path";
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
 import { readSettings } from "../../main/settings";
+import { scheduleCodeIndexUpdate } from "./code_index_store";
 
 const execAsync = promisify(exec);
 
@@ -36,6 +37,7 @@ export async function gitCommit({
   amend?: boolean;
 }): Promise<string> {
   const settings = readSettings();
+  let commitHash: string;
   if (settings.enableNativeGit) {
     let command = `git -C "${path}" commit -m "${message.replace(/"/g, '\\"')}"`;
     if (amend) {
@@ -44,9 +46,9 @@ export async function gitCommit({
 
     await verboseExecAsync(command);
     const { stdout } = await execAsync(`git -C "${path}" rev-parse HEAD`);
-    return stdout.trim();
+    commitHash = stdout.trim();
   } else {
-    return git.commit({
+    commitHash = await git.commit({
       fs: fs,
       dir: path,
       message,
@@ -54,6 +56,9 @@ export async function gitCommit({
       amend: amend,
     });
   }
+  // Keep the code index in step with the new commit
+  scheduleCodeIndexUpdate(path);
+  return commitHash;
 }
 
 export async function gitCheckout({
@@ -166,3 +171,254 @@ export async function gitAddAll({ path }: { path: string }): Promise<void> {
     return git.add({ fs, dir: path, filepath: "." });
   }
 }
+
+export async function gitAdd({
+  path,
+  filepath,
+}: {
+  path: string;
+  filepath: string;
+}): Promise<void> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    await execAsync(
+      `git -C "${path}" add -- "${filepath.replace(/"/g, '\\"')}"`,
+    );
+    return;
+  } else {
+    return git.add({ fs, dir: path, filepath });
+  }
+}
+
+export async function getCurrentCommitHash({
+  path,
+}: {
+  path: string;
+}): Promise<string> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const { stdout } = await execAsync(`git -C "${path}" rev-parse HEAD`);
+    return stdout.trim();
+  } else {
+    return git.resolveRef({ fs, dir: path, ref: "HEAD" });
+  }
+}
+
+/**
+ * Returns the paths of files changed by the last `depth` commits on HEAD,
+ * most recent commit first. The root commit is skipped because every file
+ * "changes" in it.
+ */
+export async function getRecentlyChangedFiles({
+  path,
+  depth,
+}: {
+  path: string;
+  depth: number;
+}): Promise<string[]> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const { stdout } = await execAsync(
+      `git -C "${path}" log -n ${depth} --no-merges --name-only --pretty=format:`,
+    );
+    return [
+      ...new Set(
+        stdout
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean),
+      ),
+    ];
+  }
+
+  const commits = await git.log({ fs, dir: path, depth });
+  const files = new Set<string>();
+  for (const { oid, commit } of commits) {
+    const [parent] = commit.parent;
+    if (!parent) {
+      continue;
+    }
+    await git.walk({
+      fs,
+      dir: path,
+      trees: [git.TREE({ ref: parent }), git.TREE({ ref: oid })],
+      map: async (filepath, [before, after]) => {
+        const [beforeOid, afterOid] = await Promise.all([
+          before?.oid(),
+          after?.oid(),
+        ]);
+        if (beforeOid === afterOid) {
+          // Unchanged file or directory, don't descend.
+          return null;
+        }
+        const [beforeType, afterType] = await Promise.all([
+          before?.type(),
+          after?.type(),
+        ]);
+        if (filepath !== "." && beforeType !== "tree" && afterType !== "tree") {
+          files.add(filepath);
+        }
+        return undefined;
+      },
+    });
+  }
+  return [...files];
+}
+
+// The helpers below always use the git CLI: isomorphic-git can't check out
+// worktrees or merge with conflicts.
+
+function quoteArg(value: string): string {
+  return `"${value.replace(/(["\\$`])/g, "\\$1")}"`;
+}
+
+async function gitIdentityArgs(): Promise<string> {
+  const author = await getGitAuthor();
+  return `-c user.name=${quoteArg(author.name)} -c user.email=${quoteArg(author.email)}`;
+}
+
+/**
+ * Checks out `ref` on a new branch in a separate worktree, so it can be
+ * changed without touching the app's working tree.
+ */
+export async function gitAddWorktree({
+  path,
+  worktreePath,
+  branch,
+  ref,
+}: {
+  path: string;
+  worktreePath: string;
+  branch: string;
+  ref: string;
+}): Promise<void> {
+  await fsPromises.mkdir(pathModule.dirname(worktreePath), { recursive: true });
+  await verboseExecAsync(
+    `git -C ${quoteArg(path)} worktree add -b ${quoteArg(branch)} ${quoteArg(worktreePath)} ${quoteArg(ref)}`,
+  );
+}
+
+export async function gitRemoveWorktree({
+  path,
+  worktreePath,
+}: {
+  path: string;
+  worktreePath: string;
+}): Promise<void> {
+  await verboseExecAsync(
+    `git -C ${quoteArg(path)} worktree remove --force ${quoteArg(worktreePath)}`,
+  );
+}
+
+export async function gitDeleteBranch({
+  path,
+  branch,
+}: {
+  path: string;
+  branch: string;
+}): Promise<void> {
+  await verboseExecAsync(
+    `git -C ${quoteArg(path)} branch -D ${quoteArg(branch)}`,
+  );
+}
+
+/**
+ * Commits everything in the working tree, including new and deleted files.
+ * Resolves with null when there was nothing to commit.
+ */
+export async function gitCommitAll({
+  path,
+  message,
+}: {
+  path: string;
+  message: string;
+}): Promise<string | null> {
+  await verboseExecAsync(`git -C ${quoteArg(path)} add -A`);
+  const { stdout: status } = await execAsync(
+    `git -C ${quoteArg(path)} status --porcelain`,
+  );
+  if (!status.trim()) {
+    return null;
+  }
+  await verboseExecAsync(
+    `git ${await gitIdentityArgs()} -C ${quoteArg(path)} commit -m ${quoteArg(message)}`,
+  );
+  const { stdout } = await execAsync(`git -C ${quoteArg(path)} rev-parse HEAD`);
+  return stdout.trim();
+}
+
+/**
+ * Files with uncommitted changes in the working tree, including untracked
+ * ones.
+ */
+export async function gitUncommittedFiles({
+  path,
+}: {
+  path: string;
+}): Promise<string[]> {
+  const { stdout } = await execAsync(
+    `git -C ${quoteArg(path)} status --porcelain`,
+  );
+  return stdout
+    .split("\n")
+    .map((line) => line.slice(3).trim())
+    .filter(Boolean);
+}
+
+export async function gitChangedFiles({
+  path,
+  from,
+  to,
+}: {
+  path: string;
+  from: string;
+  to: string;
+}): Promise<string[]> {
+  const { stdout } = await execAsync(
+    `git -C ${quoteArg(path)} diff --name-only ${quoteArg(from)} ${quoteArg(to)}`,
+  );
+  return stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Merges `branch` into the checked out branch with a merge commit. A merge
+ * with conflicts is aborted, leaving the working tree as it was, and the
+ * conflicting files are returned instead.
+ */
+export async function gitMergeBranch({
+  path,
+  branch,
+  message,
+}: {
+  path: string;
+  branch: string;
+  message: string;
+}): Promise<
+  { merged: true; commitHash: string } | { merged: false; conflicts: string[] }
+> {
+  try {
+    await verboseExecAsync(
+      `git ${await gitIdentityArgs()} -C ${quoteArg(path)} merge --no-ff -m ${quoteArg(message)} ${quoteArg(branch)}`,
+    );
+  } catch (error) {
+    const { stdout } = await execAsync(
+      `git -C ${quoteArg(path)} diff --name-only --diff-filter=U`,
+    );
+    const conflicts = stdout
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    if (conflicts.length === 0) {
+      // Failed for another reason, e.g. untracked files in the way
+      throw error;
+    }
+    await execAsync(`git -C ${quoteArg(path)} merge --abort`);
+    return { merged: false, conflicts };
+  }
+  const { stdout } = await execAsync(`git -C ${quoteArg(path)} rev-parse HEAD`);
+  scheduleCodeIndexUpdate(path);
+  return { merged: true, commitHash: stdout.trim() };
+}
@@ -0,0 +1,43 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import log from "electron-log";
+import type { GuardrailConfig, GuardrailRule } from "../../lib/schemas";
+import { mergeGuardrailConfigs, parseGuardrailConfig } from "./guardrail_rules";
+
+const logger = log.scope("guardrail_config");
+
+const GUARDRAILS_FILE = "guardrails.json";
+
+export function getGlobalGuardrailsPath(): string {
+  return path.join(os.homedir(), ".dyad", GUARDRAILS_FILE);
+}
+
+export function getAppGuardrailsPath(appPath: string): string {
+  return path.join(appPath, ".dyad", GUARDRAILS_FILE);
+}
+
+function readGuardrailConfig(filePath: string): GuardrailConfig | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  try {
+    return parseGuardrailConfig(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    // A typo in a rule file shouldn't stop the user from chatting.
+    logger.error(`Ignoring invalid guardrail config ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The guardrail rules in effect: the built-in rules, overridden by
+ * ~/.dyad/guardrails.json, overridden by the app's .dyad/guardrails.json.
+ */
+export function loadGuardrailRules(appPath?: string): GuardrailRule[] {
+  const configs = [
+    readGuardrailConfig(getGlobalGuardrailsPath()),
+    appPath ? readGuardrailConfig(getAppGuardrailsPath(appPath)) : null,
+  ].filter((config): config is GuardrailConfig => config !== null);
+  return mergeGuardrailConfigs(...configs);
+}
@@ -3,16 +3,29 @@ import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import type { WorkflowStep } from "../workflow/workflow_manager";
+import type { GuardrailAnalytics, GuardrailViolationEntry } from "../ipc_types";
+import { readSettings } from "../../main/settings";
 
 const logger = log.scope("guardrail_logger");
 
 // Directory for storing guardrail violation logs
 const LOGS_DIR = path.join(os.homedir(), ".dyad", "guardrail-logs");
 
+// How long daily log files are kept unless the user configures otherwise
+export const DEFAULT_LOG_RETENTION_DAYS = 30;
+
+// Entries sent to the analytics page for drill-down, newest first
+const MAX_ANALYTICS_ENTRIES = 500;
+
 export interface ViolationLog {
     timestamp: Date;
     chatId: number;
+    appId?: number;
+    // The assistant message that broke the rule
+    messageId?: number;
     violationType: string;
+    // What the guardrail did: warn, correct or abort
+    action?: string;
     mode: string;
     workflowStep?: string;
     model: string;
@@ -25,6 +38,7 @@ interface ViolationStats {
     byType: Record<string, number>;
     byMode: Record<string, number>;
     byModel: Record<string, number>;
+    byProvider: Record<string, number>;
 }
 
 /**
@@ -44,6 +58,48 @@ function getCurrentLogFile(): string {
     return path.join(LOGS_DIR, `violations-${today}.jsonl`);
 }
 
+/**
+ * Gets the day (YYYY-MM-DD) a log file covers, or null if it isn't one
+ */
+function getLogFileDate(file: string): string | null {
+    const match = file.match(/^violations-(\d{4}-\d{2}-\d{2})\.jsonl$/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Deletes daily log files older than the retention period.
+ * Returns how many files were deleted.
+ */
+export function pruneViolationLogs(
+    retentionDays: number = readSettings().guardrailLogRetentionDays ?? DEFAULT_LOG_RETENTION_DAYS
+): number {
+    let deleted = 0;
+
+    try {
+        ensureLogsDir();
+
+        const cutoff = new Date();
+        cutoff.setDate(cutoff.getDate() - retentionDays);
+        const cutoffDate = cutoff.toISOString().split("T")[0];
+
+        for (const file of fs.readdirSync(LOGS_DIR)) {
+            const date = getLogFileDate(file);
+            if (date && date < cutoffDate) {
+                fs.unlinkSync(path.join(LOGS_DIR, file));
+                deleted++;
+            }
+        }
+
+        if (deleted > 0) {
+            logger.info(`Deleted ${deleted} guardrail log files older than ${retentionDays} days`);
+        }
+    } catch (error) {
+        logger.error("Failed to prune violation logs:", error);
+    }
+
+    return deleted;
+}
+
 /**
  * Logs a guardrail violation to a file
  */
@@ -52,6 +108,11 @@ export function logViolation(violation: ViolationLog): void {
         ensureLogsDir();
         const logFilePath = getCurrentLogFile();
 
+        // Starting a new day's file: drop the ones past retention
+        if (!fs.existsSync(logFilePath)) {
+            pruneViolationLogs();
+        }
+
         const logEntry = JSON.stringify({
             ...violation,
             timestamp: violation.timestamp.toISOString(),
@@ -83,7 +144,13 @@ export function getViolationLogs(
 
         // Get all log files in the directory
         const files = fs.readdirSync(LOGS_DIR);
-        const logFiles = files.filter((f) => f.startsWith("violations-") && f.endsWith(".jsonl"));
+        const startDay = startDate?.toISOString().split("T")[0];
+        const endDay = endDate?.toISOString().split("T")[0];
+        const logFiles = files.filter((f) => {
+            const date = getLogFileDate(f);
+            // Files are named by day, so whole files can be skipped
+            return date && (!startDay || date >= startDay) && (!endDay || date <= endDay);
+        });
 
         for (const file of logFiles) {
             const filePath = path.join(LOGS_DIR, file);
@@ -119,13 +186,16 @@ export function getViolationLogs(
  * Get aggregated statistics about violations
  */
 export function getViolationStats(startDate?: Date, endDate?: Date): ViolationStats {
-    const logs = getViolationLogs(startDate, endDate);
+    return computeViolationStats(getViolationLogs(startDate, endDate));
+}
 
+function computeViolationStats(logs: ViolationLog[]): ViolationStats {
     const stats: ViolationStats = {
         total: logs.length,
         byType: {},
         byMode: {},
         byModel: {},
+        byProvider: {},
     };
 
     for (const log of logs) {
@@ -138,6 +208,9 @@ export function getViolationStats(startDate?: Date, endDate?: Date): ViolationSt
 
         // Count by model
         stats.byModel[log.model] = (stats.byModel[log.model] || 0) + 1;
+
+        // Count by provider
+        stats.byProvider[log.provider] = (stats.byProvider[log.provider] || 0) + 1;
     }
 
     return stats;
@@ -194,3 +267,85 @@ export function exportViolationReport(): string {
 
     return report;
 }
+
+/**
+ * Aggregates violations for the analytics page: totals by type, mode, model
+ * and provider, a per-day series and the newest entries for drill-down.
+ */
+export function summarizeViolations(
+    logs: ViolationLog[],
+    startDate: Date,
+    endDate: Date = new Date()
+): Omit<GuardrailAnalytics, "retentionDays"> {
+    const stats = computeViolationStats(logs);
+
+    // One bucket per day, including days without violations
+    const daily = new Map<string, { total: number; byType: Record<string, number> }>();
+    const day = new Date(startDate);
+    while (day <= endDate) {
+        daily.set(day.toISOString().split("T")[0], { total: 0, byType: {} });
+        day.setDate(day.getDate() + 1);
+    }
+    for (const log of logs) {
+        const key = log.timestamp.toISOString().split("T")[0];
+        const bucket = daily.get(key) ?? { total: 0, byType: {} };
+        bucket.total++;
+        bucket.byType[log.violationType] = (bucket.byType[log.violationType] || 0) + 1;
+        daily.set(key, bucket);
+    }
+
+    const entries: GuardrailViolationEntry[] = [...logs]
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+        .slice(0, MAX_ANALYTICS_ENTRIES)
+        .map((log) => ({
+            timestamp: log.timestamp.toISOString(),
+            chatId: log.chatId,
+            appId: log.appId ?? null,
+            messageId: log.messageId ?? null,
+            violationType: log.violationType,
+            action: log.action ?? null,
+            mode: log.mode,
+            workflowStep: log.workflowStep ?? null,
+            model: log.model,
+            provider: log.provider,
+            context: log.context,
+        }));
+
+    return {
+        ...stats,
+        daily: [...daily.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([date, bucket]) => ({ date, ...bucket })),
+        entries,
+    };
+}
+
+function escapeCsvField(value: unknown): string {
+    const text = value === undefined || value === null ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats violation logs as CSV, one row per violation
+ */
+export function violationsToCsv(logs: ViolationLog[]): string {
+    const columns: Array<[string, (log: ViolationLog) => unknown]> = [
+        ["timestamp", (log) => log.timestamp.toISOString()],
+        ["violation_type", (log) => log.violationType],
+        ["action", (log) => log.action],
+        ["mode", (log) => log.mode],
+        ["workflow_step", (log) => log.workflowStep],
+        ["model", (log) => log.model],
+        ["provider", (log) => log.provider],
+        ["app_id", (log) => log.appId],
+        ["chat_id", (log) => log.chatId],
+        ["message_id", (log) => log.messageId],
+        ["context", (log) => log.context],
+    ];
+
+    const rows = [
+        columns.map(([name]) => name).join(","),
+        ...logs.map((log) => columns.map(([, get]) => escapeCsvField(get(log))).join(",")),
+    ];
+    return rows.join("\n") + "\n";
+}
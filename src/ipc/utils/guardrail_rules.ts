@@ -0,0 +1,443 @@
+import { z } from "zod";
+import {
+  GuardrailConfigSchema,
+  GuardrailRuleSchema,
+  type ChatMode,
+  type GuardrailConfig,
+  type GuardrailPredicate,
+  type GuardrailRule,
+} from "../../lib/schemas";
+import { escapeRegExp } from "../shared/escape";
+import { RESTRICTABLE_WORKFLOW_TAGS } from "../workflow/workflow_definitions";
+
+export interface GuardrailContext {
+  mode: ChatMode;
+  workflowStep?: string | null;
+  // Tags allowed by the current workflow step, or null for no restriction
+  allowedTags?: string[] | null;
+  // The response is still streaming: checks that need the complete response
+  // (unclosed tags) are skipped.
+  partial?: boolean;
+}
+
+export interface GuardrailViolation {
+  ruleId: string;
+  message: string;
+  context: string;
+  // Offset in the response where the violation starts
+  index: number;
+  severity: GuardrailRule["severity"];
+  action: GuardrailRule["action"];
+  // What to tell the model to get it back on track.
+  correction: string;
+}
+
+const FILE_OPERATION_TAGS = [
+  "dyad-write",
+  "dyad-patch",
+  "dyad-delete",
+  "dyad-rename",
+  "dyad-add-dependency",
+];
+
+// Marks tags rendered from an agent mode tool call. The stream handler drops
+// it from tags the model typed, so only the server's markup has it.
+const TOOL_ATTRIBUTE = /\stool="/;
+
+const BUILTIN_RULES: z.input<typeof GuardrailRuleSchema>[] = [
+  {
+    id: "markdown_code_block",
+    message:
+      "Markdown code blocks are prohibited for file content. Use <dyad-write> tags instead.",
+    when: {
+      type: "regex",
+      pattern: "```[\\w-]*[ \\t]*\\n",
+      scope: "outside-tags",
+    },
+    modes: ["build"],
+    correction: `STOP! You're using markdown code blocks (\`\`\`) which are PROHIBITED.
+
+Use ONLY <dyad-write> tags:
+<dyad-write path="src/Component.tsx" description="Create component">
+YOUR CODE HERE
+</dyad-write>
+
+Continue with <dyad-write> tags.`,
+  },
+  {
+    id: "codex_cli_tool",
+    message:
+      'Detected Codex CLI tool "{match}". These tools do not exist in Dyad. Use <dyad-write> tags instead.',
+    when: {
+      type: "regex",
+      pattern: "\\b(apply_patch|turbo_edit|patch_file|edit_file|write_file)\\b",
+      scope: "outside-tags",
+    },
+    // Agent mode has real tools with these names
+    modes: ["build"],
+    correction: `STOP! Codex CLI tools (apply_patch, turbo_edit, etc.) DO NOT EXIST in Dyad.
+
+Use ONLY Dyad tags:
+<dyad-write path="...">content</dyad-write>
+<dyad-patch path="...">search/replace hunks</dyad-patch>
+
+Continue using Dyad tags.`,
+  },
+  {
+    id: "malformed_tag",
+    message: "A <dyad-write> tag was opened but never closed.",
+    when: { type: "tag", tags: ["dyad-write"], check: "unclosed" },
+  },
+  {
+    id: "prohibited_content",
+    message:
+      "Instructions or summaries found inside <dyad-write> tag. Only file content is allowed.",
+    when: {
+      type: "regex",
+      pattern:
+        "^(Summary:|Here's what I changed|I've updated|Click|Please|Now hit refresh|-\\s*Fixed|-\\s*Added)",
+      flags: "im",
+      scope: "dyad-write-content",
+    },
+  },
+  {
+    id: "docs_non_markdown",
+    message:
+      "Docs mode only allows markdown files in docs/ or README.md. Found: {match}",
+    when: {
+      type: "path",
+      glob: "{docs/**/*.md,README.md}",
+      policy: "allow-only",
+    },
+    workflowSteps: ["docs"],
+    correction: `STOP! DOCS MODE only allows .md files in docs/ directory.
+
+Only create documentation files.
+
+Continue with .md files only.`,
+  },
+  {
+    id: "agent_dyad_tags",
+    message:
+      "Agent mode prohibits dyad tags. Use the write_file and apply_patch tools instead.",
+    // Edits made through the tools are rendered as dyad tags
+    when: { type: "tag", tags: FILE_OPERATION_TAGS, source: "model" },
+    modes: ["agent"],
+    correction: `STOP! AGENT MODE does not support <dyad-write> or other Dyad tags.
+
+Use ONLY your tools:
+- write_file and apply_patch to change files
+- execute_command for shell commands
+
+Continue with your tools only.`,
+  },
+  {
+    id: "ask_dyad_tags",
+    message:
+      "Ask mode prohibits file operations. This mode is for questions and explanations only.",
+    when: { type: "tag", tags: FILE_OPERATION_TAGS },
+    modes: ["ask"],
+  },
+  {
+    id: "plan_dyad_tags",
+    message:
+      "Plan mode prohibits file operations. Changes are made when the user approves the plan.",
+    when: { type: "tag", tags: FILE_OPERATION_TAGS },
+    modes: ["plan"],
+    correction: `STOP! PLAN MODE does not make changes.
+
+Describe each change as a <step> in a <dyad-plan> instead:
+<dyad-plan>
+<step files="src/App.tsx" risk="low">What changes and why</step>
+</dyad-plan>
+
+Continue with the plan only.`,
+  },
+];
+
+export const DEFAULT_GUARDRAIL_RULES: GuardrailRule[] = BUILTIN_RULES.map(
+  (rule) => GuardrailRuleSchema.parse(rule),
+);
+
+/**
+ * Parses a guardrails.json file. Throws with the zod issues if it's invalid.
+ */
+export function parseGuardrailConfig(source: string): GuardrailConfig {
+  return GuardrailConfigSchema.parse(JSON.parse(source));
+}
+
+/**
+ * Layers configs over the built-in rules: a rule replaces an earlier rule with
+ * the same id, and `disabledRules` turns rules off.
+ */
+export function mergeGuardrailConfigs(
+  ...configs: GuardrailConfig[]
+): GuardrailRule[] {
+  const rules = new Map(DEFAULT_GUARDRAIL_RULES.map((rule) => [rule.id, rule]));
+  for (const config of configs) {
+    for (const rule of config.rules) {
+      rules.set(rule.id, rule);
+    }
+    for (const id of config.disabledRules) {
+      rules.delete(id);
+    }
+  }
+  return [...rules.values()].filter((rule) => rule.enabled);
+}
+
+/**
+ * The tag restrictions of the current workflow step, as rules.
+ */
+function getWorkflowTagRules(context: GuardrailContext): GuardrailRule[] {
+  const { allowedTags, workflowStep } = context;
+  if (!allowedTags) {
+    return [];
+  }
+  return RESTRICTABLE_WORKFLOW_TAGS.filter(
+    (tag) => !allowedTags.includes(tag),
+  ).map((tag) =>
+    GuardrailRuleSchema.parse({
+      id: `workflow_tag:${tag}`,
+      message: `Workflow step "${workflowStep}" does not allow <${tag}> tags.${allowedTags.length > 0 ? ` Allowed tags: ${allowedTags.join(", ")}` : ""}`,
+      when: { type: "tag", tags: [tag] },
+    }),
+  );
+}
+
+function appliesTo(rule: GuardrailRule, context: GuardrailContext): boolean {
+  if (rule.modes && !rule.modes.includes(context.mode)) {
+    return false;
+  }
+  if (
+    rule.workflowSteps &&
+    (!context.workflowStep ||
+      !rule.workflowSteps.includes(context.workflowStep))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Converts a glob (`*`, `**`, `?` and `{a,b}`) into an anchored RegExp.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        i++;
+        if (glob[i + 1] === "/") {
+          i++;
+          source += "(?:.*/)?";
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Blanks out the bodies of dyad tags (including one still open at the end of
+// a streaming response) and thinking blocks, keeping offsets and newlines.
+function maskTags(response: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, " ");
+  return response
+    .replace(/<think>[\s\S]*?(<\/think>|$)/g, blank)
+    .replace(/<(dyad-[\w-]+)\b[^>]*?\/>/g, blank)
+    .replace(/<(dyad-[\w-]+)\b[^>]*>[\s\S]*?(<\/\1>|$)/g, blank);
+}
+
+function getDyadWriteContents(
+  response: string,
+): { text: string; offset: number }[] {
+  const contents: { text: string; offset: number }[] = [];
+  const regex = /(<dyad-write[^>]*>)([\s\S]*?)(?:<\/dyad-write>|$)/g;
+  let match;
+  while ((match = regex.exec(response)) !== null) {
+    contents.push({ text: match[2], offset: match.index + match[1].length });
+  }
+  return contents;
+}
+
+function getOperationPaths(
+  response: string,
+  tags: string[],
+): { path: string; index: number }[] {
+  const paths: { path: string; index: number }[] = [];
+  for (const tag of tags) {
+    // Only complete opening tags, so a path still streaming isn't judged
+    // on a prefix.
+    const regex = new RegExp(`<${escapeRegExp(tag)}\\b([^>]*)>`, "g");
+    let match;
+    while ((match = regex.exec(response)) !== null) {
+      const attribute = match[1].match(/\b(?:path|to)="([^"]+)"/);
+      if (attribute) {
+        paths.push({
+          path: attribute[1].replace(/^\.\//, ""),
+          index: match.index,
+        });
+      }
+    }
+  }
+  return paths;
+}
+
+function snippet(text: string): string {
+  return text.length > 100 ? `${text.substring(0, 100)}...` : text;
+}
+
+interface PredicateMatch {
+  // The matched text, or the first capture group
+  match: string;
+  context: string;
+  // Offset in the response where the violation starts
+  index: number;
+}
+
+// Returns every distinct match of the predicate.
+function findMatches(
+  predicate: GuardrailPredicate,
+  response: string,
+  context: GuardrailContext,
+): PredicateMatch[] {
+  switch (predicate.type) {
+    case "regex": {
+      const flags = predicate.flags ?? "";
+      const regex = new RegExp(
+        predicate.pattern,
+        flags.includes("g") ? flags : `${flags}g`,
+      );
+      const texts =
+        predicate.scope === "dyad-write-content"
+          ? getDyadWriteContents(response)
+          : [
+              {
+                text:
+                  predicate.scope === "outside-tags"
+                    ? maskTags(response)
+                    : response,
+                offset: 0,
+              },
+            ];
+      const results = new Map<string, PredicateMatch>();
+      for (const { text, offset } of texts) {
+        for (const match of text.matchAll(regex)) {
+          const matched = (match[1] ?? match[0]).trim();
+          if (!results.has(matched)) {
+            results.set(matched, {
+              match: matched,
+              context:
+                predicate.scope === "dyad-write-content"
+                  ? snippet(text.trim())
+                  : snippet(match[0]),
+              index: offset + (match.index ?? 0),
+            });
+          }
+          if (predicate.scope === "dyad-write-content") {
+            // Only report once per tag
+            break;
+          }
+        }
+      }
+      return [...results.values()];
+    }
+    case "tag": {
+      const results: PredicateMatch[] = [];
+      for (const tag of predicate.tags) {
+        const escaped = escapeRegExp(tag);
+        if (predicate.check === "present") {
+          const found = [
+            ...response.matchAll(
+              new RegExp(`<${escaped}(?:\\s[^>]*)?(?:/?>|$)`, "g"),
+            ),
+          ].find(
+            (match) =>
+              predicate.source !== "model" || !TOOL_ATTRIBUTE.test(match[0]),
+          );
+          if (found) {
+            results.push({
+              match: tag,
+              context: `Found <${tag}>`,
+              index: found.index ?? 0,
+            });
+          }
+        } else if (!context.partial) {
+          const opened = [
+            ...response.matchAll(new RegExp(`<${escaped}\\b[^>]*[^/]>`, "g")),
+          ];
+          const closed = (
+            response.match(new RegExp(`</${escaped}>`, "g")) ?? []
+          ).length;
+          if (opened.length !== closed) {
+            results.push({
+              match: tag,
+              context: `Found ${opened.length} <${tag}>, ${closed} </${tag}>`,
+              index: opened[closed]?.index ?? response.length,
+            });
+          }
+        }
+      }
+      return results;
+    }
+    case "path": {
+      const glob = globToRegExp(predicate.glob);
+      return getOperationPaths(response, predicate.tags)
+        .filter(({ path }) =>
+          predicate.policy === "allow-only"
+            ? !glob.test(path)
+            : glob.test(path),
+        )
+        .map(({ path, index }) => ({ match: path, context: path, index }));
+    }
+  }
+}
+
+/**
+ * Evaluates the rules that apply to the chat mode and workflow step (plus the
+ * step's tag restrictions) against a response, complete or streaming.
+ */
+export function evaluateGuardrailRules(
+  response: string,
+  rules: GuardrailRule[],
+  context: GuardrailContext,
+): GuardrailViolation[] {
+  const violations: GuardrailViolation[] = [];
+  for (const rule of [...rules, ...getWorkflowTagRules(context)]) {
+    if (!appliesTo(rule, context)) {
+      continue;
+    }
+    for (const found of findMatches(rule.when, response, context)) {
+      const message = rule.message.split("{match}").join(found.match);
+      violations.push({
+        ruleId: rule.id,
+        message,
+        context: found.context,
+        index: found.index,
+        severity: rule.severity,
+        action: rule.action,
+        correction:
+          rule.correction ??
+          `STOP! ${message}\n\nContinue your response without repeating this mistake.`,
+      });
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,328 @@
+// Import graph of an app's TypeScript and JavaScript files, used to widen the
+// context around the file the user is working on: what it imports, the types
+// it relies on, and the files that import it.
+import type * as TypeScript from "typescript";
+
+// How far up the import chain dependents are followed
+export const DEFAULT_DEPENDENT_HOPS = 2;
+
+// Cap on the expanded set, so a widely imported file doesn't pull in the
+// whole app
+export const MAX_EXPANDED_FILES = 25;
+
+export const IMPORT_GRAPH_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+export interface ImportReference {
+  specifier: string;
+  // `import type`, `export type` and `import("...")` in type positions
+  typeOnly: boolean;
+}
+
+export interface ImportEdge {
+  // Relative path of the imported file
+  to: string;
+  typeOnly: boolean;
+}
+
+export interface ImportGraph {
+  imports: Map<string, ImportEdge[]>;
+  importedBy: Map<string, string[]>;
+}
+
+export type ContextExpansionReason =
+  | "selected"
+  | "mentioned"
+  | "dependency"
+  | "types"
+  | "dependent";
+
+export interface ExpandedContextFile {
+  path: string;
+  reason: ContextExpansionReason;
+  // The file this one was reached from
+  via: string | null;
+  // Import hops from the nearest selected or mentioned file
+  hops: number;
+}
+
+export interface ContextSeed {
+  path: string;
+  reason: "selected" | "mentioned";
+}
+
+function scriptKindFor(
+  ts: typeof TypeScript,
+  fileName: string,
+): TypeScript.ScriptKind {
+  if (fileName.endsWith(".tsx")) return ts.ScriptKind.TSX;
+  if (fileName.endsWith(".jsx")) return ts.ScriptKind.JSX;
+  if (/\.[mc]?js$/.test(fileName)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function isTypeOnlyImport(node: TypeScript.ImportDeclaration): boolean {
+  const clause = node.importClause;
+  if (!clause) {
+    // Side-effect import
+    return false;
+  }
+  if (clause.isTypeOnly) {
+    return true;
+  }
+  // `import { type A, type B } from "..."` is erased as well
+  const bindings = clause.namedBindings;
+  return (
+    !clause.name &&
+    !!bindings &&
+    "elements" in bindings &&
+    bindings.elements.length > 0 &&
+    bindings.elements.every((element) => element.isTypeOnly)
+  );
+}
+
+/**
+ * Module specifiers a file imports or re-exports, including dynamic imports
+ * and `require` calls.
+ */
+export function parseImportReferences(
+  ts: typeof TypeScript,
+  fileName: string,
+  content: string,
+): ImportReference[] {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    false,
+    scriptKindFor(ts, fileName),
+  );
+  const references: ImportReference[] = [];
+  const visit = (node: TypeScript.Node) => {
+    if (
+      ts.isImportDeclaration(node) &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      references.push({
+        specifier: node.moduleSpecifier.text,
+        typeOnly: isTypeOnlyImport(node),
+      });
+    } else if (
+      ts.isExportDeclaration(node) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      references.push({
+        specifier: node.moduleSpecifier.text,
+        typeOnly: node.isTypeOnly,
+      });
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      ts.isStringLiteral(node.moduleReference.expression)
+    ) {
+      references.push({
+        specifier: node.moduleReference.expression.text,
+        typeOnly: node.isTypeOnly,
+      });
+    } else if (
+      ts.isCallExpression(node) &&
+      node.arguments.length === 1 &&
+      ts.isStringLiteralLike(node.arguments[0]) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) &&
+          node.expression.text === "require"))
+    ) {
+      references.push({
+        specifier: node.arguments[0].text,
+        typeOnly: false,
+      });
+    } else if (
+      ts.isImportTypeNode(node) &&
+      ts.isLiteralTypeNode(node.argument) &&
+      ts.isStringLiteral(node.argument.literal)
+    ) {
+      references.push({
+        specifier: node.argument.literal.text,
+        typeOnly: true,
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return references;
+}
+
+/**
+ * Links each file to the files it imports. `resolve` maps a specifier to the
+ * relative path of a file in the app, or null for packages and files outside
+ * the graph.
+ */
+export function buildImportGraph(
+  files: { path: string; references: ImportReference[] }[],
+  resolve: (specifier: string, fromPath: string) => string | null,
+): ImportGraph {
+  const imports = new Map<string, ImportEdge[]>();
+  const importedBy = new Map<string, string[]>();
+  for (const file of files) {
+    const edges = new Map<string, ImportEdge>();
+    for (const reference of file.references) {
+      const to = resolve(reference.specifier, file.path);
+      if (!to || to === file.path) continue;
+      const existing = edges.get(to);
+      // A value import of the same file wins over a type-only one
+      edges.set(to, {
+        to,
+        typeOnly: reference.typeOnly && (existing?.typeOnly ?? true),
+      });
+    }
+    imports.set(file.path, [...edges.values()]);
+    for (const to of edges.keys()) {
+      importedBy.set(to, [...(importedBy.get(to) ?? []), file.path]);
+    }
+  }
+  return { imports, importedBy };
+}
+
+function isTypeEdge(edge: ImportEdge): boolean {
+  return edge.typeOnly || /\.d\.[mc]?ts$/.test(edge.to);
+}
+
+/**
+ * Files to add to the context around the selected and mentioned files, in
+ * order of importance: the seeds, their direct dependencies, the type
+ * definitions those rely on, then dependents up to `dependentHops` away.
+ */
+export function expandContextFiles(
+  graph: ImportGraph,
+  seeds: ContextSeed[],
+  {
+    dependentHops = DEFAULT_DEPENDENT_HOPS,
+    maxFiles = MAX_EXPANDED_FILES,
+  }: { dependentHops?: number; maxFiles?: number } = {},
+): ExpandedContextFile[] {
+  const expanded = new Map<string, ExpandedContextFile>();
+  const add = (file: ExpandedContextFile) => {
+    if (expanded.has(file.path) || expanded.size >= maxFiles) {
+      return false;
+    }
+    expanded.set(file.path, file);
+    return true;
+  };
+
+  for (const seed of seeds) {
+    add({ path: seed.path, reason: seed.reason, via: null, hops: 0 });
+  }
+  const seedPaths = [...expanded.keys()];
+
+  const typeQueue: { path: string; hops: number }[] = [];
+  for (const seedPath of seedPaths) {
+    for (const edge of graph.imports.get(seedPath) ?? []) {
+      if (
+        add({
+          path: edge.to,
+          reason: isTypeEdge(edge) ? "types" : "dependency",
+          via: seedPath,
+          hops: 1,
+        })
+      ) {
+        typeQueue.push({ path: edge.to, hops: 1 });
+      }
+    }
+  }
+
+  // Types the seeds and their dependencies are written against, followed
+  // through type-only imports
+  const typeSources = [
+    ...seedPaths.map((path) => ({ path, hops: 0 })),
+    ...typeQueue,
+  ];
+  for (let i = 0; i < typeSources.length; i++) {
+    const { path, hops } = typeSources[i];
+    for (const edge of graph.imports.get(path) ?? []) {
+      if (
+        isTypeEdge(edge) &&
+        add({ path: edge.to, reason: "types", via: path, hops: hops + 1 })
+      ) {
+        typeSources.push({ path: edge.to, hops: hops + 1 });
+      }
+    }
+  }
+
+  let frontier = seedPaths;
+  for (let hops = 1; hops <= dependentHops && frontier.length > 0; hops++) {
+    const next: string[] = [];
+    for (const path of frontier) {
+      for (const dependent of graph.importedBy.get(path) ?? []) {
+        if (add({ path: dependent, reason: "dependent", via: path, hops })) {
+          next.push(dependent);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return [...expanded.values()];
+}
+
+export function describeExpansionReason(file: ExpandedContextFile): string {
+  switch (file.reason) {
+    case "selected":
+      return "Selected component";
+    case "mentioned":
+      return "Mentioned in the prompt";
+    case "dependency":
+      return `Imported by ${file.via}`;
+    case "types":
+      return `Types used by ${file.via}`;
+    case "dependent":
+      return file.hops === 1
+        ? `Imports ${file.via}`
+        : `Imports ${file.via} (${file.hops} hops away)`;
+  }
+}
+
+/**
+ * Files of the graph the prompt names, by relative path or, when it's
+ * unambiguous, by file name.
+ */
+export function findMentionedFiles(prompt: string, paths: string[]): string[] {
+  const mentioned = new Set<string>();
+  const known = new Set(paths);
+  for (const token of prompt.match(/[\w@$./-]+\.[A-Za-z]{1,4}\b/g) ?? []) {
+    const candidate = token.replace(/^\.?\//, "").replace(/^@\//, "src/");
+    if (known.has(candidate)) {
+      mentioned.add(candidate);
+      continue;
+    }
+    const matches = paths.filter((filePath) =>
+      filePath.endsWith(`/${candidate}`),
+    );
+    if (matches.length === 1) {
+      mentioned.add(matches[0]);
+    }
+  }
+  return [...mentioned];
+}
+
+/**
+ * The `<dyad-codebase-context>` tag listing the expanded files, with one
+ * `path: reason` line per file.
+ */
+export function formatContextExpansion(files: ExpandedContextFile[]): string {
+  const lines = files.map(
+    (file) => `${file.path}: ${describeExpansionReason(file)}`,
+  );
+  return `<dyad-codebase-context files="${files.map((file) => file.path).join(",")}">
+${lines.join("\n")}
+</dyad-codebase-context>
+`;
+}
@@ -0,0 +1,174 @@
+import fs from "node:fs";
+import fsAsync from "node:fs/promises";
+import path from "node:path";
+import log from "electron-log";
+import type * as TypeScript from "typescript";
+import { listIndexableFiles, readFileWithCache } from "../../utils/codebase";
+import {
+  buildImportGraph,
+  expandContextFiles,
+  findMentionedFiles,
+  IMPORT_GRAPH_EXTENSIONS,
+  parseImportReferences,
+  type ContextSeed,
+  type ExpandedContextFile,
+  type ImportGraph,
+  type ImportReference,
+} from "./import_graph";
+import { loadAppTypeScript } from "./app_typescript";
+
+const logger = log.scope("import_graph_store");
+
+interface CachedReferences {
+  mtimeMs: number;
+  size: number;
+  references: ImportReference[];
+}
+
+// Parsed imports per app, reparsed only when a file's size or modification
+// time changes
+const referenceCaches = new Map<string, Map<string, CachedReferences>>();
+
+function readCompilerOptions(
+  ts: typeof TypeScript,
+  appPath: string,
+): TypeScript.CompilerOptions {
+  const defaults: TypeScript.CompilerOptions = {
+    allowJs: true,
+    jsx: ts.JsxEmit.Preserve,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+  };
+  // Vite apps keep their path aliases in tsconfig.app.json
+  for (const configName of ["tsconfig.app.json", "tsconfig.json"]) {
+    const configPath = path.join(appPath, configName);
+    if (!fs.existsSync(configPath)) continue;
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      logger.warn(`Failed to read ${configPath}`);
+      continue;
+    }
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, appPath);
+    return { ...defaults, ...parsed.options, allowJs: true };
+  }
+  return defaults;
+}
+
+async function collectReferences(
+  ts: typeof TypeScript,
+  appPath: string,
+): Promise<{ path: string; references: ImportReference[] }[]> {
+  const key = path.resolve(appPath);
+  const previous = referenceCaches.get(key) ?? new Map();
+  const cache = new Map<string, CachedReferences>();
+  const absolutePaths = (await listIndexableFiles(appPath)).filter((file) =>
+    IMPORT_GRAPH_EXTENSIONS.includes(path.extname(file).toLowerCase()),
+  );
+  for (const absolutePath of absolutePaths) {
+    const relativePath = path
+      .relative(appPath, absolutePath)
+      .split(path.sep)
+      .join("/");
+    let stats;
+    try {
+      stats = await fsAsync.stat(absolutePath);
+    } catch {
+      continue;
+    }
+    const existing = previous.get(relativePath);
+    if (
+      existing &&
+      existing.mtimeMs === stats.mtimeMs &&
+      existing.size === stats.size
+    ) {
+      cache.set(relativePath, existing);
+      continue;
+    }
+    const content = await readFileWithCache(absolutePath);
+    if (content == null) continue;
+    cache.set(relativePath, {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      references: parseImportReferences(ts, absolutePath, content),
+    });
+  }
+  referenceCaches.set(key, cache);
+  return [...cache].map(([filePath, { references }]) => ({
+    path: filePath,
+    references,
+  }));
+}
+
+/**
+ * Builds the import graph of the app's source files, resolving specifiers
+ * with the app's tsconfig (path aliases included). Returns null when the app
+ * doesn't have TypeScript installed.
+ */
+export async function getImportGraph(
+  appPath: string,
+): Promise<ImportGraph | null> {
+  const ts = loadAppTypeScript(appPath);
+  if (!ts) {
+    return null;
+  }
+  const startTime = Date.now();
+  const compilerOptions = readCompilerOptions(ts, appPath);
+  const files = await collectReferences(ts, appPath);
+  const known = new Set(files.map((file) => file.path));
+  const resolutionCache = ts.createModuleResolutionCache(
+    appPath,
+    (fileName) => fileName,
+    compilerOptions,
+  );
+  const graph = buildImportGraph(files, (specifier, fromPath) => {
+    const { resolvedModule } = ts.resolveModuleName(
+      specifier,
+      path.join(appPath, fromPath),
+      compilerOptions,
+      ts.sys,
+      resolutionCache,
+    );
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) {
+      return null;
+    }
+    const relativePath = path
+      .relative(appPath, resolvedModule.resolvedFileName)
+      .split(path.sep)
+      .join("/");
+    return known.has(relativePath) ? relativePath : null;
+  });
+  logger.log(
+    `Built import graph for ${appPath}: ${files.length} files in ${Date.now() - startTime}ms`,
+  );
+  return graph;
+}
+
+/**
+ * Files related to the selected components and the files the prompt
+ * mentions, with why each one was picked. Empty when there is nothing to
+ * expand from.
+ */
+export async function expandContextForPrompt(
+  appPath: string,
+  { prompt, selectedPaths = [] }: { prompt: string; selectedPaths?: string[] },
+): Promise<ExpandedContextFile[]> {
+  const graph = await getImportGraph(appPath);
+  if (!graph) {
+    return [];
+  }
+  const seeds: ContextSeed[] = [];
+  for (const selectedPath of selectedPaths) {
+    if (graph.imports.has(selectedPath)) {
+      seeds.push({ path: selectedPath, reason: "selected" });
+    }
+  }
+  for (const mentioned of findMentionedFiles(prompt, [
+    ...graph.imports.keys(),
+  ])) {
+    seeds.push({ path: mentioned, reason: "mentioned" });
+  }
+  if (seeds.length === 0) {
+    return [];
+  }
+  return expandContextFiles(graph, seeds);
+}
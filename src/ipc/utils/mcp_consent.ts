@@ -4,24 +4,18 @@ import { and, eq } from "drizzle-orm";
 import { IpcMainInvokeEvent } from "electron";
 
 export type Consent = "ask" | "always" | "denied";
+export type ConsentDecision = "accept-once" | "accept-always" | "decline";
 
-const pendingConsentResolvers = new Map<
-  string,
-  (d: "accept-once" | "accept-always" | "decline") => void
->();
+// Shared by MCP tools and agent mode shell commands
+const pendingConsentResolvers = new Map<string, (d: ConsentDecision) => void>();
 
-export function waitForConsent(
-  requestId: string,
-): Promise<"accept-once" | "accept-always" | "decline"> {
+export function waitForConsent(requestId: string): Promise<ConsentDecision> {
   return new Promise((resolve) => {
     pendingConsentResolvers.set(requestId, resolve);
   });
 }
 
-export function resolveConsent(
-  requestId: string,
-  decision: "accept-once" | "accept-always" | "decline",
-) {
+export function resolveConsent(requestId: string, decision: ConsentDecision) {
   const resolver = pendingConsentResolvers.get(requestId);
   if (resolver) {
     pendingConsentResolvers.delete(requestId);
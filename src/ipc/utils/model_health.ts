@@ -0,0 +1,270 @@
+import type { CircuitState, ModelHealth } from "../ipc_types";
+
+// Outcomes older than this no longer count towards the error rate.
+const OUTCOME_WINDOW_MS = 60 * 60 * 1000;
+const MAX_OUTCOMES = 20;
+
+// Consecutive failures (of any kind) before the circuit opens.
+const FAILURE_THRESHOLD = 3;
+// Alternatively, open when at least half of a full window failed.
+const ERROR_RATE_THRESHOLD = 0.5;
+const MIN_SAMPLES_FOR_ERROR_RATE = 10;
+
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+// A wrong or revoked API key won't fix itself, so don't retry it soon.
+const AUTH_COOLDOWN_MS = 10 * 60 * 1000;
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+interface Outcome {
+  at: number;
+  ok: boolean;
+  latencyMs?: number;
+}
+
+interface ModelHealthRecord {
+  provider: string;
+  modelId: string;
+  state: CircuitState;
+  outcomes: Outcome[];
+  consecutiveFailures: number;
+  // How many times in a row the circuit opened; doubles the cooldown.
+  tripCount: number;
+  openUntil: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+}
+
+export type ModelHealthSnapshot = Record<string, ModelHealthRecord>;
+
+export interface ModelRef {
+  provider: string;
+  modelId: string;
+}
+
+export function getModelHealthKey({ provider, modelId }: ModelRef): string {
+  return `${provider}:${modelId}`;
+}
+
+function getStatusCode(error: any): number | undefined {
+  return error?.statusCode ?? error?.status ?? error?.response?.status;
+}
+
+function getRetryAfterMs(error: any): number | undefined {
+  const header =
+    error?.responseHeaders?.["retry-after"] ??
+    error?.response?.headers?.["retry-after"];
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+function describeError(error: any): string {
+  const statusCode = getStatusCode(error);
+  const message = String(error?.message ?? error).slice(0, 300);
+  return statusCode ? `${statusCode}: ${message}` : message;
+}
+
+/**
+ * Remembers how each model behaved across requests and runs a circuit breaker
+ * per model: after repeated failures the circuit opens and the model is
+ * skipped until a cooldown passes, then a single request decides whether it
+ * closes again (half-open).
+ */
+export class ModelHealthRegistry {
+  private readonly records = new Map<string, ModelHealthRecord>();
+
+  constructor(
+    snapshot: ModelHealthSnapshot = {},
+    private readonly options: {
+      now?: () => number;
+      onChange?: () => void;
+    } = {},
+  ) {
+    for (const [key, record] of Object.entries(snapshot)) {
+      this.records.set(key, record);
+    }
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+
+  private getRecord(model: ModelRef): ModelHealthRecord {
+    const key = getModelHealthKey(model);
+    let record = this.records.get(key);
+    if (!record) {
+      record = {
+        provider: model.provider,
+        modelId: model.modelId,
+        state: "closed",
+        outcomes: [],
+        consecutiveFailures: 0,
+        tripCount: 0,
+        openUntil: null,
+        lastFailureAt: null,
+        lastError: null,
+        lastSuccessAt: null,
+      };
+      this.records.set(key, record);
+    }
+    return record;
+  }
+
+  private pushOutcome(record: ModelHealthRecord, outcome: Outcome) {
+    record.outcomes.push(outcome);
+    if (record.outcomes.length > MAX_OUTCOMES) {
+      record.outcomes.splice(0, record.outcomes.length - MAX_OUTCOMES);
+    }
+  }
+
+  private getRecentOutcomes(record: ModelHealthRecord): Outcome[] {
+    const cutoff = this.now() - OUTCOME_WINDOW_MS;
+    return record.outcomes.filter((outcome) => outcome.at >= cutoff);
+  }
+
+  /**
+   * The circuit state, moving an open circuit to half-open once its cooldown
+   * has passed.
+   */
+  getState(model: ModelRef): CircuitState {
+    const record = this.records.get(getModelHealthKey(model));
+    if (!record) {
+      return "closed";
+    }
+    if (
+      record.state === "open" &&
+      record.openUntil !== null &&
+      this.now() >= record.openUntil
+    ) {
+      record.state = "half-open";
+      this.options.onChange?.();
+    }
+    return record.state;
+  }
+
+  recordSuccess(model: ModelRef, latencyMs: number) {
+    const record = this.getRecord(model);
+    const now = this.now();
+    this.pushOutcome(record, { at: now, ok: true, latencyMs });
+    record.state = "closed";
+    record.consecutiveFailures = 0;
+    record.tripCount = 0;
+    record.openUntil = null;
+    record.lastSuccessAt = now;
+    this.options.onChange?.();
+  }
+
+  recordFailure(model: ModelRef, error: unknown) {
+    const record = this.getRecord(model);
+    const now = this.now();
+    this.pushOutcome(record, { at: now, ok: false });
+    record.consecutiveFailures++;
+    record.lastFailureAt = now;
+    record.lastError = describeError(error);
+
+    const statusCode = getStatusCode(error);
+    const recent = this.getRecentOutcomes(record);
+    const errorRate =
+      recent.filter((outcome) => !outcome.ok).length / recent.length;
+
+    let cooldownMs: number | null = null;
+    if (statusCode === 401 || statusCode === 403) {
+      cooldownMs = AUTH_COOLDOWN_MS;
+    } else if (statusCode === 429) {
+      cooldownMs = getRetryAfterMs(error) ?? RATE_LIMIT_COOLDOWN_MS;
+    } else if (
+      this.getState(model) === "half-open" ||
+      record.consecutiveFailures >= FAILURE_THRESHOLD ||
+      (recent.length >= MIN_SAMPLES_FOR_ERROR_RATE &&
+        errorRate >= ERROR_RATE_THRESHOLD)
+    ) {
+      cooldownMs = Math.min(
+        BASE_COOLDOWN_MS * 2 ** record.tripCount,
+        MAX_COOLDOWN_MS,
+      );
+    }
+
+    if (cooldownMs !== null) {
+      record.state = "open";
+      record.tripCount++;
+      record.openUntil = now + cooldownMs;
+    }
+    this.options.onChange?.();
+  }
+
+  /**
+   * Closes the circuit of one model (or all of them) and forgets its history.
+   */
+  reset(key?: string) {
+    if (key) {
+      this.records.delete(key);
+    } else {
+      this.records.clear();
+    }
+    this.options.onChange?.();
+  }
+
+  /**
+   * Returns the positions in `models` to try, in order: closed circuits first,
+   * then half-open ones, keeping the configured order otherwise. Models whose
+   * circuit is open are skipped; if every circuit is open, the one whose
+   * cooldown ends first is still tried so the request doesn't fail outright.
+   */
+  getAttemptOrder(models: ModelRef[]): number[] {
+    const rank: Record<CircuitState, number> = {
+      closed: 0,
+      "half-open": 1,
+      open: 2,
+    };
+    const states = models.map((model) => this.getState(model));
+    const available = models
+      .map((_, index) => index)
+      .filter((index) => states[index] !== "open")
+      .sort((a, b) => rank[states[a]] - rank[states[b]] || a - b);
+    if (available.length > 0) {
+      return available;
+    }
+    const openUntil = (index: number) =>
+      this.records.get(getModelHealthKey(models[index]))?.openUntil ?? 0;
+    const soonest = models
+      .map((_, index) => index)
+      .sort((a, b) => openUntil(a) - openUntil(b))[0];
+    return soonest === undefined ? [] : [soonest];
+  }
+
+  list(): ModelHealth[] {
+    return [...this.records.entries()].map(([key, record]) => {
+      const recent = this.getRecentOutcomes(record);
+      const latencies = recent
+        .map((outcome) => outcome.latencyMs)
+        .filter((latency): latency is number => latency !== undefined);
+      return {
+        key,
+        provider: record.provider,
+        modelId: record.modelId,
+        state: this.getState(record),
+        errorRate:
+          recent.length > 0
+            ? recent.filter((outcome) => !outcome.ok).length / recent.length
+            : 0,
+        sampleCount: recent.length,
+        avgLatencyMs:
+          latencies.length > 0
+            ? Math.round(
+                latencies.reduce((sum, latency) => sum + latency, 0) /
+                  latencies.length,
+              )
+            : null,
+        lastFailureAt: record.lastFailureAt,
+        lastError: record.lastError,
+        lastSuccessAt: record.lastSuccessAt,
+        openUntil: record.state === "open" ? record.openUntil : null,
+      };
+    });
+  }
+
+  toJSON(): ModelHealthSnapshot {
+    return Object.fromEntries(this.records);
+  }
+}
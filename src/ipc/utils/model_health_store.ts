@@ -0,0 +1,61 @@
+import fs from "node:fs";
+import path from "node:path";
+import log from "electron-log";
+import { getUserDataPath } from "../../paths/paths";
+import { ModelHealthRegistry, type ModelHealthSnapshot } from "./model_health";
+
+const logger = log.scope("model_health");
+
+const MODEL_HEALTH_FILE = "model-health.json";
+// Every streamed request updates the registry; batch the writes.
+const SAVE_DELAY_MS = 2000;
+
+let registry: ModelHealthRegistry | null = null;
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function getModelHealthFilePath(): string {
+  return path.join(getUserDataPath(), MODEL_HEALTH_FILE);
+}
+
+function readSnapshot(): ModelHealthSnapshot {
+  try {
+    const filePath = getModelHealthFilePath();
+    if (!fs.existsSync(filePath)) {
+      return {};
+    }
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    logger.warn("Could not read model health, starting fresh:", error);
+    return {};
+  }
+}
+
+function scheduleSave() {
+  if (saveTimeout) {
+    return;
+  }
+  saveTimeout = setTimeout(() => {
+    saveTimeout = null;
+    try {
+      fs.writeFileSync(
+        getModelHealthFilePath(),
+        JSON.stringify(registry?.toJSON() ?? {}, null, 2),
+      );
+    } catch (error) {
+      logger.error("Could not save model health:", error);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+/**
+ * The process-wide model health registry, persisted in the user data folder
+ * so open circuits survive a restart.
+ */
+export function getModelHealthRegistry(): ModelHealthRegistry {
+  if (!registry) {
+    registry = new ModelHealthRegistry(readSnapshot(), {
+      onChange: scheduleSave,
+    });
+  }
+  return registry;
+}
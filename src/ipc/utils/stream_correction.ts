@@ -0,0 +1,77 @@
+// Helpers for correcting a response while it streams: the provider request is
+// aborted where a guardrail rule was broken, the valid prefix is kept and the
+// model continues from there with a corrective instruction. A
+// <dyad-correction> marker records each correction in the assistant message.
+
+import { escapeDyadTags } from "../shared/escape";
+
+const CORRECTION_TAG_REGEX =
+  /<dyad-correction\b[^>]*>[\s\S]*?<\/dyad-correction>/g;
+
+/**
+ * Returns where the response should be cut so that the violation at `index`
+ * is dropped and the kept prefix doesn't end inside a tag: a file that was
+ * half written when the violation happened is dropped as a whole and
+ * rewritten after the correction.
+ */
+export function getResumePoint(response: string, index: number): number {
+  const prefix = response.slice(0, index);
+  const open: { tag: string; index: number }[] = [];
+  const tagRegex = /<(\/?)(dyad-[\w-]+|think)\b[^>]*?(\/?)>/g;
+  let match;
+  while ((match = tagRegex.exec(prefix)) !== null) {
+    const [, closing, tag, selfClosing] = match;
+    if (selfClosing) {
+      continue;
+    }
+    if (closing) {
+      const openIndex = open.map((entry) => entry.tag).lastIndexOf(tag);
+      if (openIndex !== -1) {
+        open.splice(openIndex);
+      }
+    } else {
+      open.push({ tag, index: match.index });
+    }
+  }
+  return open.length > 0 ? open[0].index : index;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/"/g, "&quot;").replace(/</g, "＜").replace(/>/g, "＞");
+}
+
+/**
+ * The marker spliced into the assistant message where a correction happened.
+ */
+export function formatCorrectionMarker({
+  ruleId,
+  instruction,
+}: {
+  ruleId: string;
+  instruction: string;
+}): string {
+  // Dyad tags inside the instruction (e.g. an example <dyad-write>) must not
+  // be parsed as real tags by the UI or the response processor.
+  return `\n<dyad-correction rule="${escapeAttribute(ruleId)}">\n${escapeDyadTags(instruction)}\n</dyad-correction>\n`;
+}
+
+/**
+ * Removes correction markers, e.g. before the response is sent back to a
+ * model or applied.
+ */
+export function removeCorrectionTags(text: string): string {
+  return text.replace(CORRECTION_TAG_REGEX, "");
+}
+
+/**
+ * The user turn that makes the model continue its interrupted response.
+ */
+export function buildContinuationPrompt(instruction: string): string {
+  return `Your previous response was stopped because it broke a rule.
+
+<corrective-instruction>
+${instruction}
+</corrective-instruction>
+
+Continue your previous response from exactly where it stopped. Do not repeat anything you already wrote and do not mention this correction.`;
+}
@@ -0,0 +1,183 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import log from "electron-log";
+import type { UserSettings } from "../../lib/schemas";
+import { ROUTER_SYSTEM_PROMPT } from "../../prompts/system_prompt";
+import { getModelClient } from "./get_model_client";
+import { getRecentlyChangedFiles } from "./git_utils";
+import { normalizeUsage, recordUsage } from "./usage_ledger";
+import {
+  TaskClassification,
+  TaskClassifier,
+  TaskClassifierId,
+  TaskDetectionParams,
+  TaskType,
+  classifyByKeywords,
+  classifyFromFilePaths,
+  keywordTaskClassifier,
+} from "./task_detector";
+
+const logger = log.scope("task_classifiers");
+
+// How many commits the context classifier looks back.
+const RECENT_COMMIT_DEPTH = 5;
+
+const RouterClassificationSchema = z.object({
+  category: z.enum([
+    "ultrathink",
+    "frontend",
+    "backend",
+    "debugging",
+    "general",
+  ]),
+  explanation: z.string(),
+});
+
+function createRouterTaskClassifier(
+  settings: UserSettings,
+  chatId?: number,
+): TaskClassifier {
+  return {
+    id: "router",
+    classify: async ({ userPrompt, appPath }) => {
+      const { routerModel } = settings;
+      if (!routerModel) {
+        return null;
+      }
+      const { modelClient } = await getModelClient(
+        routerModel,
+        settings,
+        appPath,
+      );
+      const { object, usage } = await generateObject({
+        model: modelClient.model,
+        schema: RouterClassificationSchema,
+        system: ROUTER_SYSTEM_PROMPT,
+        prompt: userPrompt,
+      });
+      await recordUsage({
+        kind: "router",
+        provider: routerModel.provider,
+        model: routerModel.name,
+        usage: normalizeUsage(routerModel.provider, usage),
+        chatId,
+      });
+      const { category, explanation } = object;
+      if (category === "ultrathink") {
+        return {
+          taskType: "general",
+          classifier: "router",
+          explanation,
+          ultrathink: true,
+        };
+      }
+      return { taskType: category, classifier: "router", explanation };
+    },
+  };
+}
+
+export const contextTaskClassifier: TaskClassifier = {
+  id: "context",
+  classify: async ({ selectedComponent, appPath }) => {
+    let recentFiles: string[] = [];
+    try {
+      recentFiles = await getRecentlyChangedFiles({
+        path: appPath,
+        depth: RECENT_COMMIT_DEPTH,
+      });
+    } catch (error) {
+      logger.warn("Could not read recent commits:", error);
+    }
+    return classifyFromFilePaths({
+      selectedComponentPath: selectedComponent?.relativePath,
+      recentFiles,
+    });
+  },
+};
+
+/**
+ * Returns the classifier configured in settings. Older settings without a
+ * `taskClassifier` keep their behavior: the router model when the AI router is
+ * enabled, keywords otherwise.
+ */
+export function getConfiguredTaskClassifierId(
+  settings: UserSettings,
+): TaskClassifierId {
+  if (settings.taskClassifier) {
+    return settings.taskClassifier;
+  }
+  return settings.enableAIRouter && settings.routerModel ? "router" : "keyword";
+}
+
+function getTaskClassifier(
+  id: TaskClassifierId,
+  settings: UserSettings,
+  chatId?: number,
+): TaskClassifier {
+  switch (id) {
+    case "router":
+      return createRouterTaskClassifier(settings, chatId);
+    case "context":
+      return contextTaskClassifier;
+    case "keyword":
+      return keywordTaskClassifier;
+  }
+}
+
+/**
+ * Classifies a prompt with the configured classifier, falling back to the
+ * keyword heuristic when it has no opinion or fails. A task type picked by the
+ * user always wins.
+ */
+export async function classifyTask({
+  params,
+  settings,
+  override,
+  chatId,
+}: {
+  params: TaskDetectionParams & { appPath: string };
+  settings: UserSettings;
+  override?: TaskType | null;
+  // The chat the prompt was sent in, to charge the router's usage to
+  chatId?: number;
+}): Promise<TaskClassification> {
+  if (override) {
+    return {
+      taskType: override,
+      classifier: "override",
+      explanation: `Task type set to ${override} in the chat input`,
+      ultrathink: /\bultrathink\b/i.test(params.userPrompt),
+    };
+  }
+
+  const id = getConfiguredTaskClassifierId(settings);
+  if (id !== "keyword") {
+    try {
+      const classification = await getTaskClassifier(
+        id,
+        settings,
+        chatId,
+      ).classify(params);
+      if (classification) {
+        logger.log(
+          `${id} classifier picked ${classification.taskType}: ${classification.explanation}`,
+        );
+        return classification;
+      }
+    } catch (error) {
+      logger.error(`${id} classifier failed, falling back to keywords:`, error);
+    }
+  }
+
+  const classification = classifyByKeywords(params);
+  logger.log(
+    `keyword classifier picked ${classification.taskType}: ${classification.explanation}`,
+  );
+  if (id === "keyword") {
+    return classification;
+  }
+  return {
+    ...classification,
+    explanation: `The ${id} classifier gave no result. ${classification.explanation}`,
+  };
+}
@@ -1,19 +1,56 @@
 import type { CodebaseFile } from "../../utils/codebase";
+import type { TaskType } from "../ipc_types";
 
-export type TaskType = "frontend" | "backend" | "debugging" | "general";
+export type { TaskType };
 
-interface TaskDetectionParams {
+export type TaskClassifierId = "keyword" | "router" | "context";
+
+export interface TaskClassification {
+    taskType: TaskType;
+    // Which classifier produced the result, or "override" if the user picked
+    // the task type.
+    classifier: TaskClassifierId | "override";
+    // Human readable reason shown next to the response in the chat.
+    explanation: string;
+    // The prompt asks for deep reasoning and should go to the ultrathink model.
+    ultrathink?: boolean;
+}
+
+export interface TaskDetectionParams {
     userPrompt: string;
     selectedComponent?: { relativePath: string };
     codebaseFiles?: CodebaseFile[];
 }
 
 /**
- * Detects the task type based on user prompt, selected component, and codebase context
+ * A pluggable way of deciding which task model handles a prompt. Returns null
+ * when the classifier has no opinion (or failed), so the caller can fall back
+ * to another classifier.
+ */
+export interface TaskClassifier {
+    id: TaskClassifierId;
+    classify(
+        params: TaskDetectionParams & { appPath: string },
+    ): Promise<TaskClassification | null>;
+}
+
+// Matches whole words, allowing a plural "s" ("components", "errors")
+function matchKeywords(text: string, keywords: string[]): string[] {
+    return keywords.filter((keyword) =>
+        new RegExp(`\\b${keyword}s?\\b`).test(text),
+    );
+}
+
+/**
+ * Detects the task type based on user prompt, selected component, and codebase
+ * context by counting keywords and file extensions.
  */
-export function detectTaskType(params: TaskDetectionParams): TaskType {
+export function classifyByKeywords(
+    params: TaskDetectionParams,
+): TaskClassification {
     const { userPrompt, selectedComponent, codebaseFiles } = params;
     const promptLower = userPrompt.toLowerCase();
+    const ultrathink = promptLower.includes("ultrathink");
 
     // Debugging keywords - highest priority
     const debuggingKeywords = [
@@ -109,29 +146,39 @@ export function detectTaskType(params: TaskDetectionParams): TaskType {
     ];
 
     // Check for debugging indicators first (highest priority)
-    const debuggingScore = debuggingKeywords.filter((keyword) =>
-        promptLower.includes(keyword),
-    ).length;
+    const debuggingMatches = matchKeywords(promptLower, debuggingKeywords);
 
-    if (debuggingScore >= 1) {
-        return "debugging";
+    if (debuggingMatches.length >= 1) {
+        return {
+            taskType: "debugging",
+            classifier: "keyword",
+            explanation: `Prompt mentions ${formatKeywords(debuggingMatches)}`,
+            ultrathink,
+        };
     }
 
     // Check frontend vs backend keywords
-    let frontendScore = frontendKeywords.filter((keyword) =>
-        promptLower.includes(keyword),
-    ).length;
-    let backendScore = backendKeywords.filter((keyword) =>
-        promptLower.includes(keyword),
-    ).length;
+    const frontendMatches = matchKeywords(promptLower, frontendKeywords);
+    const backendMatches = matchKeywords(promptLower, backendKeywords);
+    let frontendScore = frontendMatches.length;
+    let backendScore = backendMatches.length;
+    const reasons: string[] = [];
+    if (frontendMatches.length > 0) {
+        reasons.push(`frontend keywords ${formatKeywords(frontendMatches)}`);
+    }
+    if (backendMatches.length > 0) {
+        reasons.push(`backend keywords ${formatKeywords(backendMatches)}`);
+    }
 
     // Analyze file extensions from selected component
     if (selectedComponent) {
         const ext = getFileExtension(selectedComponent.relativePath);
         if (isFrontendExtension(ext)) {
             frontendScore += 2; // Boost frontend score
+            reasons.push(`selected component is a .${ext} file`);
         } else if (isBackendExtension(ext)) {
             backendScore += 2; // Boost backend score
+            reasons.push(`selected component is a .${ext} file`);
         }
     }
 
@@ -151,15 +198,98 @@ export function detectTaskType(params: TaskDetectionParams): TaskType {
         }
     }
 
+    const explanation =
+        reasons.length > 0
+            ? `Scored frontend ${frontendScore} vs backend ${backendScore}: ${reasons.join("; ")}`
+            : "No frontend, backend or debugging keywords in the prompt";
+
     // Determine task type based on scores
     if (frontendScore > backendScore && frontendScore > 0) {
-        return "frontend";
+        return { taskType: "frontend", classifier: "keyword", explanation, ultrathink };
     } else if (backendScore > frontendScore && backendScore > 0) {
-        return "backend";
+        return { taskType: "backend", classifier: "keyword", explanation, ultrathink };
     }
 
     // Default to general if no clear signal
-    return "general";
+    return { taskType: "general", classifier: "keyword", explanation, ultrathink };
+}
+
+export const keywordTaskClassifier: TaskClassifier = {
+    id: "keyword",
+    classify: async (params) => classifyByKeywords(params),
+};
+
+const FRONTEND_PATH_PATTERNS = [/(^|\/)(components|pages|app|styles|hooks|ui)\//];
+const BACKEND_PATH_PATTERNS = [
+    /(^|\/)(api|server|supabase|functions|db|migrations|lib\/server)\//,
+    /\.sql$/,
+];
+
+function classifyPath(filePath: string): "frontend" | "backend" | null {
+    const normalized = filePath.replace(/\\/g, "/").toLowerCase();
+    if (BACKEND_PATH_PATTERNS.some((pattern) => pattern.test(normalized))) {
+        return "backend";
+    }
+    const ext = getFileExtension(normalized);
+    if (
+        isFrontendExtension(ext) ||
+        FRONTEND_PATH_PATTERNS.some((pattern) => pattern.test(normalized))
+    ) {
+        return "frontend";
+    }
+    if (isBackendExtension(ext)) {
+        return "backend";
+    }
+    return null;
+}
+
+/**
+ * Classifies a prompt from where the user is working rather than what they
+ * wrote: the selected component counts three times as much as each file
+ * touched by a recent commit. Returns null if neither gives a signal.
+ */
+export function classifyFromFilePaths({
+    selectedComponentPath,
+    recentFiles,
+}: {
+    selectedComponentPath?: string;
+    recentFiles: string[];
+}): TaskClassification | null {
+    let frontendScore = 0;
+    let backendScore = 0;
+    const reasons: string[] = [];
+
+    if (selectedComponentPath) {
+        const side = classifyPath(selectedComponentPath);
+        if (side === "frontend") frontendScore += 3;
+        if (side === "backend") backendScore += 3;
+        if (side) {
+            reasons.push(`selected component ${selectedComponentPath} is ${side} code`);
+        }
+    }
+
+    const recentFrontend = recentFiles.filter((f) => classifyPath(f) === "frontend").length;
+    const recentBackend = recentFiles.filter((f) => classifyPath(f) === "backend").length;
+    frontendScore += recentFrontend;
+    backendScore += recentBackend;
+    if (recentFrontend + recentBackend > 0) {
+        reasons.push(
+            `recent commits touched ${recentFrontend} frontend and ${recentBackend} backend files`,
+        );
+    }
+
+    if (frontendScore === backendScore) {
+        return null;
+    }
+    return {
+        taskType: frontendScore > backendScore ? "frontend" : "backend",
+        classifier: "context",
+        explanation: reasons.join("; "),
+    };
+}
+
+function formatKeywords(keywords: string[]): string {
+    return keywords.map((keyword) => `"${keyword}"`).join(", ");
 }
 
 function getFileExtension(filePath: string): string {
@@ -1,26 +1,40 @@
 import { LargeLanguageModel } from "@/lib/schemas";
 import { readSettings } from "../../main/settings";
-import { Message } from "../ipc_types";
 
 import { findLanguageModel } from "./findLanguageModel";
+import { countMessageTokens, getTokenizer } from "./tokenizer_registry";
 
-// Estimate tokens (4 characters per token)
-export const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
+/**
+ * Counts tokens with the tokenizer of the model's family. Defaults to the
+ * selected model.
+ */
+export const countTokens = (
+  text: string,
+  model: LargeLanguageModel = readSettings().selectedModel,
+): number => {
+  return getTokenizer(model).count(text);
 };
 
-export const estimateMessagesTokens = (messages: Message[]): number => {
+/**
+ * Counts the tokens of chat messages, caching the count of each message.
+ */
+export const countMessagesTokens = (
+  messages: { id: number; content: string }[],
+  model: LargeLanguageModel = readSettings().selectedModel,
+): number => {
+  const tokenizer = getTokenizer(model);
   return messages.reduce(
-    (acc, message) => acc + estimateTokens(message.content),
+    (acc, message) => acc + countMessageTokens(tokenizer, message),
     0,
   );
 };
 
 const DEFAULT_CONTEXT_WINDOW = 128_000;
 
-export async function getContextWindow() {
-  const settings = readSettings();
-  const modelOption = await findLanguageModel(settings.selectedModel);
+export async function getContextWindow(
+  model: LargeLanguageModel = readSettings().selectedModel,
+) {
+  const modelOption = await findLanguageModel(model);
   return modelOption?.contextWindow || DEFAULT_CONTEXT_WINDOW;
 }
 
@@ -37,3 +51,36 @@ export async function getTemperature(
   const modelOption = await findLanguageModel(model);
   return modelOption?.temperature ?? 0;
 }
+
+/**
+ * Drops the oldest messages of a chat history until it fits in `budget`
+ * tokens, keeping the history starting with a user message. The last message
+ * (the prompt being answered) is always kept.
+ */
+export function fitMessagesToTokenBudget<
+  T extends { id: number; role: string; content: string },
+>(
+  messages: T[],
+  budget: number,
+  model: LargeLanguageModel = readSettings().selectedModel,
+): T[] {
+  const tokenizer = getTokenizer(model);
+  let total = messages.reduce(
+    (acc, message) => acc + countMessageTokens(tokenizer, message),
+    0,
+  );
+  let start = 0;
+  while (start < messages.length - 1 && total > budget) {
+    total -= countMessageTokens(tokenizer, messages[start]);
+    start++;
+  }
+  // Don't start with the answer to a dropped prompt
+  while (
+    start > 0 &&
+    start < messages.length - 1 &&
+    messages[start].role !== "user"
+  ) {
+    start++;
+  }
+  return messages.slice(start);
+}
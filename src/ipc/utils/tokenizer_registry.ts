@@ -0,0 +1,278 @@
+import fs from "node:fs";
+import path from "node:path";
+import log from "electron-log";
+import type { LargeLanguageModel } from "../../lib/schemas";
+import { getElectron } from "../../paths/paths";
+import {
+  BpeTokenizer,
+  CL100K_PATTERN,
+  O200K_PATTERN,
+  parseTiktokenRanks,
+} from "./bpe_tokenizer";
+
+const logger = log.scope("tokenizer_registry");
+
+export interface Tokenizer {
+  id: string;
+  count(text: string): number;
+}
+
+/**
+ * How many characters of each kind make up a token, for model families whose
+ * vocabulary isn't bundled. Rough figures per family, but unlike a flat 4
+ * characters per token they account for code being dense in symbols and
+ * indentation.
+ */
+export interface ApproximateTokenTable {
+  // Letters per token in a word or identifier
+  lettersPerToken: number;
+  digitsPerToken: number;
+  // Punctuation and symbol characters per token
+  symbolsPerToken: number;
+  // Tokens per character for scripts without spaces between words (CJK, ...)
+  tokensPerIdeograph: number;
+  // Whitespace characters per token, e.g. indentation
+  spacesPerToken: number;
+}
+
+export const APPROXIMATE_TOKEN_TABLES: Record<string, ApproximateTokenTable> = {
+  openai: {
+    lettersPerToken: 6,
+    digitsPerToken: 3,
+    symbolsPerToken: 2,
+    tokensPerIdeograph: 1,
+    spacesPerToken: 8,
+  },
+  anthropic: {
+    lettersPerToken: 5,
+    digitsPerToken: 3,
+    symbolsPerToken: 1.5,
+    tokensPerIdeograph: 1.2,
+    spacesPerToken: 4,
+  },
+  google: {
+    lettersPerToken: 6,
+    digitsPerToken: 1,
+    symbolsPerToken: 2,
+    tokensPerIdeograph: 0.8,
+    spacesPerToken: 8,
+  },
+  generic: {
+    lettersPerToken: 5,
+    digitsPerToken: 3,
+    symbolsPerToken: 1.5,
+    tokensPerIdeograph: 1.2,
+    spacesPerToken: 4,
+  },
+};
+
+const IDEOGRAPH =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+export class ApproximateTokenizer implements Tokenizer {
+  constructor(
+    readonly id: string,
+    private readonly table: ApproximateTokenTable,
+  ) {}
+
+  count(text: string): number {
+    let total = 0;
+    for (const [piece] of text.matchAll(CL100K_PATTERN)) {
+      total += this.countPiece(piece);
+    }
+    return total;
+  }
+
+  private countPiece(piece: string): number {
+    const { table } = this;
+    const trimmed = piece.trim();
+    if (trimmed === "") {
+      return Math.ceil(piece.length / table.spacesPerToken);
+    }
+    if (/^\p{N}+$/u.test(trimmed)) {
+      return Math.ceil(trimmed.length / table.digitsPerToken);
+    }
+    const letters = trimmed.replace(/[^\p{L}]/gu, "");
+    if (letters.length === 0) {
+      return Math.ceil(trimmed.length / table.symbolsPerToken);
+    }
+    const ideographs = [...letters].filter((char) =>
+      IDEOGRAPH.test(char),
+    ).length;
+    // A leading space or symbol usually merges into the word's first token.
+    return (
+      Math.ceil(ideographs * table.tokensPerIdeograph) +
+      Math.ceil((letters.length - ideographs) / table.lettersPerToken)
+    );
+  }
+}
+
+interface TokenizerFamily {
+  id: string;
+  matches(model: LargeLanguageModel): boolean;
+  create(): Tokenizer;
+}
+
+/**
+ * Where the tokenizer vocabularies are bundled (`.tiktoken` rank files):
+ * next to app.asar in a packaged build (see `extraResource` in
+ * forge.config.ts), else the `tokenizers` directory of the checkout.
+ */
+export function getTokenizerDataDir(): string {
+  const electron = getElectron();
+  if (electron?.app.isPackaged) {
+    return path.join(process.resourcesPath, "tokenizers");
+  }
+  // Outside Electron, e.g. in tests, this runs from the checkout
+  return path.join(electron?.app.getAppPath() ?? process.cwd(), "tokenizers");
+}
+
+const bpeTokenizers = new Map<string, Tokenizer>();
+
+// Loads a bundled vocabulary, falling back to the family's approximate table
+// if it can't be read.
+function loadBpeTokenizer(
+  encoding: string,
+  pattern: RegExp,
+  fallback: ApproximateTokenTable,
+): Tokenizer {
+  let tokenizer = bpeTokenizers.get(encoding);
+  if (!tokenizer) {
+    tokenizer = readBpeTokenizer(encoding, pattern, fallback);
+    bpeTokenizers.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
+
+function readBpeTokenizer(
+  encoding: string,
+  pattern: RegExp,
+  fallback: ApproximateTokenTable,
+): Tokenizer {
+  const filePath = path.join(getTokenizerDataDir(), `${encoding}.tiktoken`);
+  try {
+    const ranks = parseTiktokenRanks(fs.readFileSync(filePath, "utf8"));
+    logger.log(`Loaded ${ranks.size} tokens for ${encoding}`);
+    return new BpeTokenizer(encoding, ranks, pattern);
+  } catch (error) {
+    logger.warn(
+      `Tokenizer data ${filePath} not available, approximating ${encoding}:`,
+      error,
+    );
+    return new ApproximateTokenizer(`${encoding}~approx`, fallback);
+  }
+}
+
+function modelName(model: LargeLanguageModel): string {
+  // OpenRouter-style names carry the vendor, e.g. "openai/gpt-4o"
+  return model.name.toLowerCase();
+}
+
+const O200K_MODELS =
+  /(^|\/)(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt|codex)/;
+const CL100K_MODELS = /(^|\/)(gpt-4|gpt-3\.5)/;
+
+// Checked in order; the first family that matches the model wins.
+const TOKENIZER_FAMILIES: TokenizerFamily[] = [
+  {
+    id: "o200k_base",
+    matches: (model) => O200K_MODELS.test(modelName(model)),
+    create: () =>
+      loadBpeTokenizer(
+        "o200k_base",
+        O200K_PATTERN,
+        APPROXIMATE_TOKEN_TABLES.openai,
+      ),
+  },
+  {
+    id: "cl100k_base",
+    matches: (model) => CL100K_MODELS.test(modelName(model)),
+    create: () =>
+      loadBpeTokenizer(
+        "cl100k_base",
+        CL100K_PATTERN,
+        APPROXIMATE_TOKEN_TABLES.openai,
+      ),
+  },
+  {
+    id: "anthropic",
+    matches: (model) =>
+      model.provider === "anthropic" || modelName(model).includes("claude"),
+    create: () =>
+      new ApproximateTokenizer("anthropic", APPROXIMATE_TOKEN_TABLES.anthropic),
+  },
+  {
+    id: "google",
+    matches: (model) =>
+      model.provider === "google" ||
+      model.provider === "vertex" ||
+      modelName(model).includes("gemini"),
+    create: () =>
+      new ApproximateTokenizer("google", APPROXIMATE_TOKEN_TABLES.google),
+  },
+  {
+    // Other models on OpenAI's API
+    id: "openai",
+    matches: (model) =>
+      model.provider === "openai" || model.provider === "azure",
+    create: () =>
+      loadBpeTokenizer(
+        "o200k_base",
+        O200K_PATTERN,
+        APPROXIMATE_TOKEN_TABLES.openai,
+      ),
+  },
+  {
+    id: "generic",
+    matches: () => true,
+    create: () =>
+      new ApproximateTokenizer("generic", APPROXIMATE_TOKEN_TABLES.generic),
+  },
+];
+
+const tokenizers = new Map<string, Tokenizer>();
+
+/**
+ * The tokenizer for a model's family. Tokenizers are created once and shared,
+ * so vocabularies are only loaded the first time they're needed.
+ */
+export function getTokenizer(model: LargeLanguageModel): Tokenizer {
+  const family = TOKENIZER_FAMILIES.find((family) => family.matches(model))!;
+  let tokenizer = tokenizers.get(family.id);
+  if (!tokenizer) {
+    tokenizer = family.create();
+    tokenizers.set(family.id, tokenizer);
+  }
+  return tokenizer;
+}
+
+const MAX_CACHED_MESSAGES = 5_000;
+
+// Token counts of chat messages, keyed by tokenizer and message id. The
+// content is kept to notice messages that changed (e.g. while streaming).
+const messageTokenCache = new Map<
+  string,
+  { content: string; tokens: number }
+>();
+
+/**
+ * Counts a chat message's tokens, reusing the count from earlier calls while
+ * the message is unchanged.
+ */
+export function countMessageTokens(
+  tokenizer: Tokenizer,
+  message: { id: number; content: string },
+): number {
+  const key = `${tokenizer.id}:${message.id}`;
+  const cached = messageTokenCache.get(key);
+  if (cached && cached.content === message.content) {
+    return cached.tokens;
+  }
+  const tokens = tokenizer.count(message.content);
+  if (messageTokenCache.size >= MAX_CACHED_MESSAGES) {
+    // Maps iterate in insertion order, so this drops the oldest entry.
+    messageTokenCache.delete(messageTokenCache.keys().next().value!);
+  }
+  messageTokenCache.set(key, { content: message.content, tokens });
+  return tokens;
+}
@@ -0,0 +1,394 @@
+import type { LanguageModelUsage, ModelMessage } from "ai";
+import { and, eq, gte, isNotNull, sum } from "drizzle-orm";
+import log from "electron-log";
+import { db } from "../../db";
+import { apps, chats, usageRecords } from "../../db/schema";
+import { readSettings } from "../../main/settings";
+import type { LargeLanguageModel } from "../../lib/schemas";
+import {
+  computeCost,
+  getModelPrice,
+  type TokenUsage,
+} from "../shared/model_prices";
+import type {
+  AppBudget,
+  BudgetCheckResult,
+  UsageAnalytics,
+  UsageBreakdownRow,
+  UsageKind,
+  UsageTotals,
+} from "../ipc_types";
+import { countTokens } from "./token_utils";
+
+const logger = log.scope("usage_ledger");
+
+// Chats listed in the analytics, the most expensive first
+const MAX_CHAT_ROWS = 20;
+
+/**
+ * Converts the usage reported through the AI SDK to the ledger's convention
+ * (input includes cached input, output includes reasoning). Anthropic
+ * reports cache reads apart from the input tokens and Google reports
+ * thinking apart from the output tokens.
+ */
+export function normalizeUsage(
+  provider: string,
+  usage: LanguageModelUsage,
+): TokenUsage {
+  const cachedInputTokens = usage.cachedInputTokens ?? 0;
+  const reasoningTokens = usage.reasoningTokens ?? 0;
+  let inputTokens = usage.inputTokens ?? 0;
+  let outputTokens = usage.outputTokens ?? 0;
+  if (provider === "anthropic" || provider === "bedrock") {
+    inputTokens += cachedInputTokens;
+  }
+  if (
+    provider === "google" ||
+    provider === "vertex" ||
+    provider === "gemini-cli"
+  ) {
+    outputTokens += reasoningTokens;
+  }
+  return { inputTokens, outputTokens, cachedInputTokens, reasoningTokens };
+}
+
+export interface UsageRecordParams {
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  // The app is looked up from the chat when it isn't given.
+  appId?: number | null;
+  chatId?: number | null;
+  messageId?: number | null;
+  estimated?: boolean;
+}
+
+/**
+ * Adds a provider request to the ledger, priced with the current price
+ * table. Never throws: a request shouldn't fail because its usage couldn't
+ * be saved.
+ */
+export async function recordUsage(params: UsageRecordParams): Promise<void> {
+  const { kind, provider, model, usage, chatId = null } = params;
+  try {
+    let appId = params.appId ?? null;
+    if (appId === null && chatId !== null) {
+      const chat = await db.query.chats.findFirst({
+        where: eq(chats.id, chatId),
+        columns: { appId: true },
+      });
+      appId = chat?.appId ?? null;
+    }
+    const price = getModelPrice(provider, model, readSettings().modelPrices);
+    await db.insert(usageRecords).values({
+      appId,
+      chatId,
+      messageId: params.messageId ?? null,
+      kind,
+      provider,
+      model,
+      ...usage,
+      cost: price ? computeCost(usage, price) : null,
+      estimated: params.estimated ?? false,
+    });
+  } catch (error) {
+    logger.error(`Failed to record ${kind} usage of ${model}:`, error);
+  }
+}
+
+export function getMonthStart(now = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * What the app has spent since the start of the calendar month, in USD.
+ */
+export async function getMonthlySpend(appId: number): Promise<number> {
+  const [row] = await db
+    .select({ total: sum(usageRecords.cost) })
+    .from(usageRecords)
+    .where(
+      and(
+        eq(usageRecords.appId, appId),
+        gte(usageRecords.createdAt, getMonthStart()),
+        isNotNull(usageRecords.cost),
+      ),
+    );
+  return Number(row?.total ?? 0);
+}
+
+export function getBudgetStatus(
+  spent: number,
+  softLimit: number | null,
+  hardLimit: number | null,
+): Pick<BudgetCheckResult, "status" | "limit"> {
+  if (hardLimit !== null && spent >= hardLimit) {
+    return { status: "hard-limit", limit: hardLimit };
+  }
+  if (softLimit !== null && spent >= softLimit) {
+    return { status: "soft-limit", limit: softLimit };
+  }
+  return { status: "ok", limit: null };
+}
+
+/**
+ * Whether the app a chat belongs to is past one of its spending limits.
+ */
+export async function checkChatBudget(
+  chatId: number,
+): Promise<BudgetCheckResult> {
+  const chat = await db.query.chats.findFirst({
+    where: eq(chats.id, chatId),
+    with: { app: true },
+  });
+  if (!chat) {
+    throw new Error(`Chat not found: ${chatId}`);
+  }
+  const { app } = chat;
+  if (app.monthlySoftLimit === null && app.monthlyHardLimit === null) {
+    return {
+      status: "ok",
+      appName: app.name,
+      spentThisMonth: 0,
+      limit: null,
+    };
+  }
+  const spentThisMonth = await getMonthlySpend(app.id);
+  return {
+    ...getBudgetStatus(
+      spentThisMonth,
+      app.monthlySoftLimit,
+      app.monthlyHardLimit,
+    ),
+    appName: app.name,
+    spentThisMonth,
+  };
+}
+
+export function formatBudgetError({
+  appName,
+  spentThisMonth,
+  limit,
+}: BudgetCheckResult): string {
+  return `${appName} has reached its spending limit for this month ($${spentThisMonth.toFixed(2)} of $${limit?.toFixed(2)}). Raise the limit in Settings → Usage & Costs to keep chatting.`;
+}
+
+export interface UsageRow {
+  appId: number | null;
+  appName: string | null;
+  chatId: number | null;
+  chatTitle: string | null;
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  reasoningTokens: number;
+  cost: number | null;
+  createdAt: Date;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedInputTokens: 0,
+    reasoningTokens: 0,
+    cost: 0,
+    unpricedRequests: 0,
+  };
+}
+
+function addToTotals(totals: UsageTotals, row: UsageRow) {
+  totals.requests++;
+  totals.inputTokens += row.inputTokens;
+  totals.outputTokens += row.outputTokens;
+  totals.cachedInputTokens += row.cachedInputTokens;
+  totals.reasoningTokens += row.reasoningTokens;
+  if (row.cost === null) {
+    totals.unpricedRequests++;
+  } else {
+    totals.cost += row.cost;
+  }
+}
+
+// YYYY-MM-DD in local time, so days match the month the budgets cover
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function breakdown(
+  rows: UsageRow[],
+  describe: (row: UsageRow) => Omit<UsageBreakdownRow, keyof UsageTotals>,
+): UsageBreakdownRow[] {
+  const groups = new Map<string, UsageBreakdownRow>();
+  for (const row of rows) {
+    const description = describe(row);
+    let group = groups.get(description.key);
+    if (!group) {
+      group = { ...description, ...emptyTotals() };
+      groups.set(description.key, group);
+    }
+    addToTotals(group, row);
+  }
+  return [...groups.values()].sort(
+    (a, b) =>
+      b.cost - a.cost ||
+      b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens),
+  );
+}
+
+/**
+ * Totals of the ledger rows since `startDate`, per day and broken down by
+ * app, chat, model and kind of request.
+ */
+export function summarizeUsage(
+  rows: UsageRow[],
+  startDate: Date,
+): Omit<UsageAnalytics, "budgets"> {
+  const totals = emptyTotals();
+  const daily = new Map<
+    string,
+    { date: string; cost: number; tokens: number }
+  >();
+  for (
+    const day = new Date(startDate);
+    day <= new Date();
+    day.setDate(day.getDate() + 1)
+  ) {
+    daily.set(toDateKey(day), { date: toDateKey(day), cost: 0, tokens: 0 });
+  }
+  for (const row of rows) {
+    addToTotals(totals, row);
+    const day = daily.get(toDateKey(row.createdAt));
+    if (day) {
+      day.cost += row.cost ?? 0;
+      day.tokens += row.inputTokens + row.outputTokens;
+    }
+  }
+
+  return {
+    totals,
+    daily: [...daily.values()],
+    byApp: breakdown(rows, (row) => ({
+      key: String(row.appId),
+      label: row.appName ?? "No app",
+      appId: row.appId,
+      chatId: null,
+    })),
+    byChat: breakdown(
+      rows.filter((row) => row.chatId !== null),
+      (row) => ({
+        key: String(row.chatId),
+        label: row.chatTitle || `Chat #${row.chatId}`,
+        appId: row.appId,
+        chatId: row.chatId,
+      }),
+    ).slice(0, MAX_CHAT_ROWS),
+    byModel: breakdown(rows, (row) => ({
+      key: `${row.provider}/${row.model}`,
+      label: `${row.provider}/${row.model}`,
+      appId: null,
+      chatId: null,
+    })),
+    byKind: breakdown(rows, (row) => ({
+      key: row.kind,
+      label: row.kind,
+      appId: null,
+      chatId: null,
+    })),
+  };
+}
+
+export async function getUsageRows(startDate: Date): Promise<UsageRow[]> {
+  return db
+    .select({
+      appId: usageRecords.appId,
+      appName: apps.name,
+      chatId: usageRecords.chatId,
+      chatTitle: chats.title,
+      kind: usageRecords.kind,
+      provider: usageRecords.provider,
+      model: usageRecords.model,
+      inputTokens: usageRecords.inputTokens,
+      outputTokens: usageRecords.outputTokens,
+      cachedInputTokens: usageRecords.cachedInputTokens,
+      reasoningTokens: usageRecords.reasoningTokens,
+      cost: usageRecords.cost,
+      createdAt: usageRecords.createdAt,
+    })
+    .from(usageRecords)
+    .leftJoin(apps, eq(usageRecords.appId, apps.id))
+    .leftJoin(chats, eq(usageRecords.chatId, chats.id))
+    .where(gte(usageRecords.createdAt, startDate));
+}
+
+/**
+ * Every app's limits and what it has spent this month.
+ */
+export async function getAppBudgets(): Promise<AppBudget[]> {
+  const spent = await db
+    .select({ appId: usageRecords.appId, total: sum(usageRecords.cost) })
+    .from(usageRecords)
+    .where(gte(usageRecords.createdAt, getMonthStart()))
+    .groupBy(usageRecords.appId);
+  const spentByApp = new Map(
+    spent.map((row) => [row.appId, Number(row.total ?? 0)]),
+  );
+  const allApps = await db
+    .select({
+      id: apps.id,
+      name: apps.name,
+      monthlySoftLimit: apps.monthlySoftLimit,
+      monthlyHardLimit: apps.monthlyHardLimit,
+    })
+    .from(apps);
+  return allApps
+    .map((app) => ({
+      appId: app.id,
+      appName: app.name,
+      monthlySoftLimit: app.monthlySoftLimit,
+      monthlyHardLimit: app.monthlyHardLimit,
+      spentThisMonth: spentByApp.get(app.id) ?? 0,
+    }))
+    .sort(
+      (a, b) =>
+        b.spentThisMonth - a.spentThisMonth ||
+        a.appName.localeCompare(b.appName),
+    );
+}
+
+function getMessageText(message: ModelMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+}
+
+/**
+ * Counts a request's usage locally, for a stream that was stopped before
+ * the provider reported it.
+ */
+export function estimateUsage(
+  model: LargeLanguageModel,
+  {
+    system,
+    messages,
+    output,
+  }: { system?: string; messages: ModelMessage[]; output: string },
+): TokenUsage {
+  const input = [system ?? "", ...messages.map(getMessageText)].join("\n");
+  return {
+    inputTokens: countTokens(input, model),
+    outputTokens: countTokens(output, model),
+    cachedInputTokens: 0,
+    reasoningTokens: 0,
+  };
+}
@@ -0,0 +1,276 @@
+// Direct edits of the element picked in the preview: its static text and its
+// `className`, written back to the JSX it was rendered from without a round
+// trip through the AI.
+import type * as TypeScript from "typescript";
+
+export const VISUAL_EDIT_EXTENSIONS = [".jsx", ".tsx", ".js"];
+
+export interface VisualEditLocation {
+  fileName: string;
+  content: string;
+  // 1-based line and 0-based column of the element's "<", as in the
+  // `data-dyad-id` of the component tagger
+  line: number;
+  column: number;
+}
+
+export interface InspectedElement {
+  tagName: string;
+  // null when the class list is computed, e.g. `className={cn(...)}`
+  className: string | null;
+  // null when the children aren't plain text
+  text: string | null;
+}
+
+export interface VisualEditChanges {
+  className?: string;
+  text?: string;
+}
+
+type JsxTag = TypeScript.JsxOpeningElement | TypeScript.JsxSelfClosingElement;
+
+interface TextSlot {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ElementInfo {
+  tag: JsxTag;
+  classAttribute: TypeScript.JsxAttribute | null;
+  className: string | null;
+  textSlot: TextSlot | null;
+}
+
+function parse(
+  ts: typeof TypeScript,
+  { fileName, content }: VisualEditLocation,
+): TypeScript.SourceFile {
+  if (!VISUAL_EDIT_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+    throw new Error(
+      `Visual edits are only supported in JSX files, not ${fileName}`,
+    );
+  }
+  return ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    fileName.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.JSX,
+  );
+}
+
+function findTag(
+  ts: typeof TypeScript,
+  sourceFile: TypeScript.SourceFile,
+  { fileName, line, column }: VisualEditLocation,
+): JsxTag {
+  const lineStarts = sourceFile.getLineStarts();
+  const position =
+    line >= 1 && line <= lineStarts.length ? lineStarts[line - 1] + column : -1;
+  let found: JsxTag | null = null;
+  const visit = (node: TypeScript.Node) => {
+    if (found || node.end < position || node.pos > position) return;
+    if (
+      (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) &&
+      node.getStart(sourceFile) === position
+    ) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  if (!found) {
+    throw new Error(
+      `No element found at ${fileName}:${line}:${column}. The file may have changed since the element was selected.`,
+    );
+  }
+  return found;
+}
+
+function getStaticString(
+  ts: typeof TypeScript,
+  initializer: TypeScript.JsxAttributeValue | undefined,
+): string | null {
+  if (!initializer) return null;
+  if (ts.isStringLiteral(initializer)) return initializer.text;
+  if (
+    ts.isJsxExpression(initializer) &&
+    initializer.expression &&
+    ts.isStringLiteralLike(initializer.expression)
+  ) {
+    return initializer.expression.text;
+  }
+  return null;
+}
+
+// Text as the browser shows it: JSX drops the line breaks and indentation
+// between lines
+function normalizeJsxText(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ").trim();
+}
+
+function getTextSlot(
+  ts: typeof TypeScript,
+  sourceFile: TypeScript.SourceFile,
+  tag: JsxTag,
+): TextSlot | null {
+  if (!ts.isJsxOpeningElement(tag)) return null;
+  const element = tag.parent;
+  const children = element.children.filter(
+    (child) => !(ts.isJsxText(child) && child.containsOnlyTriviaWhiteSpaces),
+  );
+  if (children.length === 0) {
+    // An empty element can be given text
+    return { start: tag.end, end: element.closingElement.pos, text: "" };
+  }
+  if (children.length > 1) return null;
+  const child = children[0];
+  if (ts.isJsxText(child)) {
+    // The whitespace around the text is kept so the formatting doesn't
+    // change
+    const raw = child.text;
+    const leading = /^\s*/.exec(raw)![0].length;
+    const trailing = /\s*$/.exec(raw.slice(leading))![0].length;
+    return {
+      start: child.pos + leading,
+      end: child.end - trailing,
+      text: normalizeJsxText(raw),
+    };
+  }
+  if (
+    ts.isJsxExpression(child) &&
+    child.expression &&
+    ts.isStringLiteralLike(child.expression)
+  ) {
+    return {
+      start: child.getStart(sourceFile),
+      end: child.end,
+      text: child.expression.text,
+    };
+  }
+  return null;
+}
+
+function inspect(
+  ts: typeof TypeScript,
+  location: VisualEditLocation,
+): { sourceFile: TypeScript.SourceFile; info: ElementInfo } {
+  const sourceFile = parse(ts, location);
+  const tag = findTag(ts, sourceFile, location);
+  const classAttribute =
+    tag.attributes.properties.find(
+      (property): property is TypeScript.JsxAttribute =>
+        ts.isJsxAttribute(property) &&
+        ts.isIdentifier(property.name) &&
+        property.name.text === "className",
+    ) ?? null;
+  return {
+    sourceFile,
+    info: {
+      tag,
+      classAttribute,
+      className: classAttribute
+        ? getStaticString(ts, classAttribute.initializer)
+        : "",
+      textSlot: getTextSlot(ts, sourceFile, tag),
+    },
+  };
+}
+
+/**
+ * The tag name, class list and text of the element at the location.
+ */
+export function inspectJsxElement(
+  ts: typeof TypeScript,
+  location: VisualEditLocation,
+): InspectedElement {
+  const { sourceFile, info } = inspect(ts, location);
+  return {
+    tagName: info.tag.tagName.getText(sourceFile),
+    className: info.className,
+    text: info.textSlot?.text ?? null,
+  };
+}
+
+function formatAttributeValue(value: string): string {
+  return value.includes('"') ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+function formatText(text: string): string {
+  // Characters JSX would read as markup or entities go in an expression
+  return /[{}<>&\n]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+/**
+ * The file's content with the element's class list and text replaced. Only
+ * the parts that change are rewritten, so the rest of the file keeps its
+ * formatting.
+ */
+export function applyVisualEdit(
+  ts: typeof TypeScript,
+  location: VisualEditLocation,
+  changes: VisualEditChanges,
+): string {
+  const { sourceFile, info } = inspect(ts, location);
+  const replacements: { start: number; end: number; text: string }[] = [];
+
+  if (changes.className !== undefined) {
+    const className = changes.className.trim().split(/\s+/).join(" ");
+    if (info.className === null) {
+      throw new Error(
+        "The element's classes are computed in code and can't be edited here",
+      );
+    }
+    if (className !== info.className) {
+      const attribute = info.classAttribute;
+      if (!attribute) {
+        const position = info.tag.attributes.end;
+        replacements.push({
+          start: position,
+          end: position,
+          text: ` className=${formatAttributeValue(className)}`,
+        });
+      } else if (!className) {
+        // Drop the attribute along with the whitespace before it
+        replacements.push({
+          start: attribute.getFullStart(),
+          end: attribute.end,
+          text: "",
+        });
+      } else {
+        replacements.push({
+          start: attribute.initializer!.getStart(sourceFile),
+          end: attribute.initializer!.end,
+          text: formatAttributeValue(className),
+        });
+      }
+    }
+  }
+
+  if (changes.text !== undefined) {
+    const slot = info.textSlot;
+    if (!slot) {
+      throw new Error(
+        "The element's content isn't plain text and can't be edited here",
+      );
+    }
+    const text = changes.text.trim();
+    if (text !== slot.text) {
+      replacements.push({
+        start: slot.start,
+        end: slot.end,
+        text: formatText(text),
+      });
+    }
+  }
+
+  let content = location.content;
+  for (const { start, end, text } of replacements.sort(
+    (a, b) => b.start - a.start,
+  )) {
+    content = content.slice(0, start) + text + content.slice(end);
+  }
+  return content;
+}
@@ -0,0 +1,36 @@
+import type { WorkflowChecklistItem } from "../ipc_types";
+
+const CHECKLIST_ITEM_REGEX = /^\s*[-*]\s+\[([ xX])\]\s+(.+?)\s*$/gm;
+
+/**
+ * Extracts the markdown checkbox items (`- [x] Task`) that workflow steps are
+ * asked to end their responses with.
+ */
+export function parseChecklistItems(content: string): WorkflowChecklistItem[] {
+  const items: WorkflowChecklistItem[] = [];
+  for (const match of content.matchAll(CHECKLIST_ITEM_REGEX)) {
+    items.push({ text: match[2], checked: match[1] !== " " });
+  }
+  return items;
+}
+
+/**
+ * Merges the checklist of a new response into the one collected so far for a
+ * step. Items are matched by text and the latest state wins, so an item left
+ * unchecked in one response and ticked in the next ends up checked.
+ */
+export function mergeChecklists(
+  existing: WorkflowChecklistItem[],
+  incoming: WorkflowChecklistItem[],
+): WorkflowChecklistItem[] {
+  const merged = existing.map((item) => ({ ...item }));
+  for (const item of incoming) {
+    const match = merged.find((m) => m.text === item.text);
+    if (match) {
+      match.checked = item.checked;
+    } else {
+      merged.push({ ...item });
+    }
+  }
+  return merged;
+}
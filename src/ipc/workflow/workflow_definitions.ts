@@ -0,0 +1,174 @@
+import { parse as parseYaml } from "yaml";
+import {
+  WorkflowDefinition,
+  WorkflowDefinitionSchema,
+  WorkflowGate,
+  WorkflowStepDefinition,
+} from "../../lib/schemas";
+
+const CHECKLIST_INSTRUCTION =
+  "\n\n## CHECKLIST REQUIREMENT\nYou must output a checklist of what you have done at the end of your response using markdown checkboxes (e.g., - [x] Task).";
+
+// Tags that change the app and can therefore be restricted per step with
+// `allowedTags`. Other tags (chat summaries, tool call transcripts, ...) are
+// always allowed.
+export const RESTRICTABLE_WORKFLOW_TAGS = [
+  "dyad-write",
+  "dyad-patch",
+  "dyad-rename",
+  "dyad-delete",
+  "dyad-add-dependency",
+  "dyad-execute-sql",
+  "dyad-command",
+];
+
+/**
+ * The workflow used by chats that haven't picked a custom one.
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  name: "Default",
+  description: "Plan, document, build the frontend and backend, then test.",
+  steps: [
+    {
+      id: "planning",
+      name: "Planning",
+      rolePrompt:
+        "You are a Software Architect. Analyze the request and create a detailed implementation plan. Break down the task into logical components. Do not write code yet. Output the plan in Markdown. Be concise but thorough.",
+      taskType: "general",
+      allowedTags: [],
+      exitCriteria: ["An implementation plan has been written"],
+      gates: [],
+    },
+    {
+      id: "docs",
+      name: "Docs",
+      rolePrompt:
+        "You are a Technical Writer. Create or update documentation based on the architecture plan. Ensure 'README.md' and 'docs/architecture.md' (if applicable) are up to date. Verify file paths.",
+      taskType: "general",
+      exitCriteria: ["README.md reflects the planned architecture"],
+      gates: [{ type: "files-exist", glob: "README.md" }],
+    },
+    {
+      id: "frontend",
+      name: "Frontend",
+      rolePrompt:
+        "You are a Frontend Developer. Implement the UI components and pages based on the plan. Use Shadcn UI and Tailwind CSS. Focus on creating a polished, responsive, and functional UI. Batch your file edits to avoid partial states.",
+      taskType: "frontend",
+      exitCriteria: [],
+      gates: [{ type: "tsc" }],
+    },
+    {
+      id: "backend",
+      name: "Backend",
+      rolePrompt:
+        "You are a Backend Developer. Implement the API routes, database schema, and server logic. Ensure data integrity and error handling. Follow the project's architectural patterns.",
+      taskType: "backend",
+      exitCriteria: [],
+      gates: [{ type: "tsc" }],
+    },
+    {
+      id: "testing",
+      name: "Testing",
+      rolePrompt:
+        "You are a QA Engineer. Write and run tests (Vitest/Playwright) to verify the implementation. Fix any bugs found. Ensure the application runs smoothly.",
+      taskType: "debugging",
+      exitCriteria: [],
+      gates: [],
+    },
+  ],
+};
+
+/**
+ * Parses a workflow definition written as JSON or YAML (YAML is a superset of
+ * JSON, so a single parser handles both) and validates it.
+ */
+export function parseWorkflowDefinition(source: string): WorkflowDefinition {
+  let raw: unknown;
+  try {
+    raw = parseYaml(source);
+  } catch (error) {
+    throw new Error(
+      `Workflow definition is not valid JSON or YAML: ${(error as Error).message}`,
+    );
+  }
+  const result = WorkflowDefinitionSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid workflow definition: ${issues}`);
+  }
+  return result.data;
+}
+
+export function getWorkflowStep(
+  definition: WorkflowDefinition,
+  stepId: string,
+): WorkflowStepDefinition | undefined {
+  return definition.steps.find((step) => step.id === stepId);
+}
+
+/**
+ * Returns the steps that run together with `stepId`: its parallel group, in
+ * order, or just the step itself.
+ */
+export function getParallelSteps(
+  definition: WorkflowDefinition,
+  stepId: string,
+): WorkflowStepDefinition[] {
+  const step = getWorkflowStep(definition, stepId);
+  if (!step) {
+    return [];
+  }
+  if (!step.parallelGroup) {
+    return [step];
+  }
+  return definition.steps.filter(
+    (other) => other.parallelGroup === step.parallelGroup,
+  );
+}
+
+/**
+ * Returns the dyad tags allowed in a step, or null if the step doesn't
+ * restrict them.
+ */
+export function getAllowedTagsForStep(
+  step: WorkflowStepDefinition,
+): string[] | null {
+  return step.allowedTags ?? null;
+}
+
+export function describeWorkflowGate(gate: WorkflowGate): string {
+  switch (gate.type) {
+    case "tsc":
+      return "TypeScript problem report is clean";
+    case "command":
+      return `\`${gate.command}\` succeeds`;
+    case "files-exist":
+      return `Files matching \`${gate.glob}\` exist`;
+  }
+}
+
+export function buildStepSystemPrompt(step: WorkflowStepDefinition): string {
+  let prompt = `\n\n# Workflow Step: ${(step.name ?? step.id).toUpperCase()}\n${step.rolePrompt}`;
+
+  const allowedTags = getAllowedTagsForStep(step);
+  if (allowedTags) {
+    prompt +=
+      allowedTags.length > 0
+        ? `\n\n## ALLOWED TAGS\nIn this step you may only use these tags: ${allowedTags.map((tag) => `<${tag}>`).join(", ")}.`
+        : "\n\n## ALLOWED TAGS\nDo not create, modify, rename or delete any files in this step.";
+  }
+
+  const criteria = [
+    ...step.exitCriteria,
+    ...step.gates.map(
+      (gate) => `${describeWorkflowGate(gate)} (checked automatically)`,
+    ),
+  ];
+  if (criteria.length > 0) {
+    prompt += `\n\n## EXIT CRITERIA\nThis step is complete when:\n${criteria.map((criterion) => `- ${criterion}`).join("\n")}`;
+  }
+
+  return prompt + CHECKLIST_INSTRUCTION;
+}
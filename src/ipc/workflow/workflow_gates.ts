@@ -0,0 +1,137 @@
+import { glob } from "glob";
+import log from "electron-log";
+import type { CommandPolicy, WorkflowGate } from "../../lib/schemas";
+import { readSettings } from "../../main/settings";
+import { generateProblemReport } from "../processors/tsc";
+import { evaluateCommandPolicy } from "../shared/command_policy";
+import { runAppCommand } from "../utils/command_runner";
+import { describeWorkflowGate } from "./workflow_definitions";
+
+const logger = log.scope("workflow-gates");
+
+// Gate output is stored in the history table and sent back to the model, so
+// keep only the tail of long outputs (test runners put the summary last).
+const MAX_OUTPUT_LENGTH = 4000;
+
+/** The app whose files and commands a step's gates check. */
+export interface WorkflowGateApp {
+  id: number;
+  // Absolute path of the app directory
+  path: string;
+  commandPolicy: CommandPolicy | null;
+}
+
+export interface WorkflowGateResult {
+  gate: WorkflowGate;
+  passed: boolean;
+  output: string;
+}
+
+function truncateOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT_LENGTH) {
+    return output;
+  }
+  return `...\n${output.slice(-MAX_OUTPUT_LENGTH)}`;
+}
+
+async function runGate(
+  gate: WorkflowGate,
+  app: WorkflowGateApp,
+): Promise<WorkflowGateResult> {
+  switch (gate.type) {
+    case "tsc": {
+      const report = await generateProblemReport({
+        fullResponse: "",
+        appPath: app.path,
+      });
+      return {
+        gate,
+        passed: report.problems.length === 0,
+        output: report.problems
+          .map(
+            (problem) =>
+              `${problem.file}:${problem.line}:${problem.column} - ${problem.message} (TS${problem.code})`,
+          )
+          .join("\n"),
+      };
+    }
+    case "command": {
+      // The user wrote the gate, so like a custom app command it only needs
+      // the policy not to deny it
+      const decision = evaluateCommandPolicy(gate.command, app.commandPolicy, {
+        autoApprove: false,
+        defaultRuntime: readSettings().runtimeMode2 ?? "host",
+      });
+      if (decision.action === "deny") {
+        return { gate, passed: false, output: decision.reason };
+      }
+      const result = await runAppCommand({
+        appId: app.id,
+        appPath: app.path,
+        command: gate.command,
+        runId: `gate-${app.id}-${Date.now()}`,
+        decision,
+      });
+      return {
+        gate,
+        passed: result.exitCode === 0 && !result.timedOut,
+        output: [result.stdout, result.stderr].filter(Boolean).join("\n"),
+      };
+    }
+    case "files-exist": {
+      const matches = await glob(gate.glob, {
+        cwd: app.path,
+        nodir: true,
+        ignore: "**/node_modules/**",
+      });
+      return {
+        gate,
+        passed: matches.length > 0,
+        output:
+          matches.length > 0
+            ? matches.slice(0, 20).join("\n")
+            : `No files match ${gate.glob}`,
+      };
+    }
+  }
+}
+
+/**
+ * Runs every gate of a workflow step against the app. Gates run one at a time
+ * so commands don't compete with each other (e.g. two test runs building the
+ * same project). A gate that throws counts as failed.
+ */
+export async function runWorkflowGates({
+  gates,
+  app,
+}: {
+  gates: WorkflowGate[];
+  app: WorkflowGateApp;
+}): Promise<WorkflowGateResult[]> {
+  const results: WorkflowGateResult[] = [];
+  for (const gate of gates) {
+    let result: WorkflowGateResult;
+    try {
+      result = await runGate(gate, app);
+    } catch (error) {
+      logger.error(`Workflow gate ${gate.type} failed to run:`, error);
+      result = { gate, passed: false, output: String(error) };
+    }
+    results.push({ ...result, output: truncateOutput(result.output) });
+  }
+  return results;
+}
+
+/**
+ * Builds the prompt that sends the model back to a step whose gates failed.
+ */
+export function buildGateFailurePrompt(
+  stepId: string,
+  failures: WorkflowGateResult[],
+): string {
+  const sections = failures.map((failure) => {
+    const output = failure.output ? `\n\`\`\`\n${failure.output}\n\`\`\`` : "";
+    return `- ${describeWorkflowGate(failure.gate)}: FAILED${output}`;
+  });
+  return `The "${stepId}" step is not complete yet. These checks must pass before the workflow can move on:\n\n${sections.join("\n\n")}\n\nFix the problems above.`;
+}
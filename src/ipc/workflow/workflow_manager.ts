@@ -1,13 +1,42 @@
 import { db } from "../../db";
-import { chats } from "../../db/schema";
-import { eq } from "drizzle-orm";
+import { chats, workflowHistory, workflows } from "../../db/schema";
+import { desc, eq } from "drizzle-orm";
 import log from "electron-log";
+import type { WorkflowDefinition } from "../../lib/schemas";
+import type { TaskType } from "../utils/task_detector";
+import {
+  DEFAULT_WORKFLOW,
+  buildStepSystemPrompt,
+  describeWorkflowGate,
+  getAllowedTagsForStep,
+  getParallelSteps,
+  getWorkflowStep,
+} from "./workflow_definitions";
+import {
+  WorkflowGateApp,
+  WorkflowGateResult,
+  runWorkflowGates,
+} from "./workflow_gates";
+import { WorkflowRunManager } from "./workflow_runs";
 
 const logger = log.scope("workflow-manager");
 
-export type WorkflowStep = "planning" | "docs" | "frontend" | "backend" | "testing";
+/**
+ * Id of a step within the chat's workflow definition.
+ */
+export type WorkflowStep = string;
 
-export const WORKFLOW_STEPS: WorkflowStep[] = ["planning", "docs", "frontend", "backend", "testing"];
+export type AdvanceStepResult =
+  | { status: "inactive" }
+  // One or more gates of the current step failed; the chat stays on `step`.
+  | { status: "blocked"; step: WorkflowStep; failures: WorkflowGateResult[] }
+  | { status: "advanced"; step: WorkflowStep }
+  | { status: "completed" };
+
+type WorkflowHistoryEntry = Omit<
+  typeof workflowHistory.$inferInsert,
+  "id" | "createdAt"
+>;
 
 export class WorkflowManager {
   static async getChatState(chatId: number) {
@@ -16,20 +45,67 @@ export class WorkflowManager {
       columns: {
         workflowStatus: true,
         workflowStep: true,
+        workflowId: true,
       }
     });
     return chat;
   }
 
-  static async startWorkflow(chatId: number) {
-    logger.info(`Starting workflow for chat ${chatId}`);
+  static async getDefinition(
+    workflowId: number | null | undefined,
+  ): Promise<WorkflowDefinition> {
+    if (!workflowId) {
+      return DEFAULT_WORKFLOW;
+    }
+    const workflow = await db.query.workflows.findFirst({
+      where: eq(workflows.id, workflowId),
+    });
+    if (!workflow) {
+      logger.warn(`Workflow ${workflowId} not found, using the default workflow`);
+      return DEFAULT_WORKFLOW;
+    }
+    return workflow.definition;
+  }
+
+  static async getDefinitionForChat(chatId: number): Promise<WorkflowDefinition> {
+    const chat = await this.getChatState(chatId);
+    return this.getDefinition(chat?.workflowId);
+  }
+
+  /**
+   * Selects which workflow definition a chat runs. Any workflow that is in
+   * progress is stopped, since its step ids may not exist in the new one.
+   */
+  static async setChatWorkflow(chatId: number, workflowId: number | null) {
+    logger.info(`Setting workflow for chat ${chatId} to ${workflowId ?? "default"}`);
+    await db.update(chats)
+      .set({
+        workflowId,
+        workflowStatus: "idle",
+        workflowStep: null,
+      })
+      .where(eq(chats.id, chatId));
+    await WorkflowRunManager.finishRun(chatId, "stopped");
+  }
+
+  static async startWorkflow(chatId: number): Promise<WorkflowStep> {
+    const chat = await this.getChatState(chatId);
+    const definition = await this.getDefinition(chat?.workflowId);
+    const firstStep = definition.steps[0].id;
+    logger.info(`Starting workflow "${definition.name}" for chat ${chatId}`);
     await db.update(chats)
       .set({
         workflowStatus: "active",
-        workflowStep: "planning"
+        workflowStep: firstStep
       })
       .where(eq(chats.id, chatId));
-    return "planning";
+    await WorkflowRunManager.startRun({
+      chatId,
+      workflowId: chat?.workflowId ?? null,
+      workflowName: definition.name,
+      step: firstStep,
+    });
+    return firstStep;
   }
 
   static async stopWorkflow(chatId: number) {
@@ -40,9 +116,61 @@ export class WorkflowManager {
         workflowStep: null
       })
       .where(eq(chats.id, chatId));
+    await WorkflowRunManager.finishRun(chatId, "stopped");
+  }
+
+  /**
+   * Starts a new run of the workflow a step run belonged to, beginning with
+   * the step that followed it. The caller is expected to have reverted the
+   * app to the step's end commit first.
+   */
+  static async restartFromStepRun(stepRunId: number): Promise<WorkflowStep> {
+    const stepRun = await WorkflowRunManager.getStepRun(stepRunId);
+    if (!stepRun) {
+      throw new Error(`Workflow step run ${stepRunId} not found`);
+    }
+    if (stepRun.status !== "completed") {
+      throw new Error(`Step "${stepRun.step}" did not complete`);
+    }
+    const definition = await this.getDefinition(stepRun.run.workflowId);
+    const stepIds = definition.steps.map((step) => step.id);
+    const index = stepIds.indexOf(stepRun.step);
+    if (index === -1) {
+      throw new Error(
+        `Workflow "${definition.name}" no longer has a "${stepRun.step}" step`,
+      );
+    }
+    if (index === stepIds.length - 1) {
+      throw new Error(`"${stepRun.step}" is the last step of the workflow`);
+    }
+
+    const chatId = stepRun.run.chatId;
+    const nextStep = stepIds[index + 1];
+    logger.info(
+      `Restarting workflow for chat ${chatId} after step run ${stepRunId} at ${nextStep}`,
+    );
+    await db.update(chats)
+      .set({
+        workflowId: stepRun.run.workflowId,
+        workflowStatus: "active",
+        workflowStep: nextStep,
+      })
+      .where(eq(chats.id, chatId));
+    await WorkflowRunManager.startRun({
+      chatId,
+      workflowId: stepRun.run.workflowId,
+      workflowName: definition.name,
+      step: nextStep,
+    });
+    return nextStep;
   }
 
   static async forceStep(chatId: number, step: WorkflowStep) {
+    const chat = await this.getChatState(chatId);
+    const definition = await this.getDefinition(chat?.workflowId);
+    if (!getWorkflowStep(definition, step)) {
+      throw new Error(`Workflow "${definition.name}" has no step "${step}"`);
+    }
     logger.info(`Forcing workflow step for chat ${chatId} to ${step}`);
     await db.update(chats)
       .set({
@@ -50,71 +178,151 @@ export class WorkflowManager {
         workflowStep: step
       })
       .where(eq(chats.id, chatId));
+    if (await WorkflowRunManager.getActiveRun(chatId)) {
+      await WorkflowRunManager.moveToStep(chatId, step);
+    } else {
+      await WorkflowRunManager.startRun({
+        chatId,
+        workflowId: chat?.workflowId ?? null,
+        workflowName: definition.name,
+        step,
+      });
+    }
+    if (chat?.workflowStep) {
+      await this.recordHistory({
+        chatId,
+        workflowId: chat.workflowId,
+        kind: "transition",
+        step: chat.workflowStep,
+        toStep: step,
+        passed: true,
+        output: "Step forced without running gates",
+      });
+    }
     return step;
   }
 
-  static async advanceStep(chatId: number): Promise<WorkflowStep | null> {
+  /**
+   * Moves the chat to the next step of its workflow, but only once every gate
+   * of the current step passes. Each gate result and the transition itself
+   * are recorded in the workflow history.
+   */
+  static async advanceStep(
+    chatId: number,
+    { app }: { app: WorkflowGateApp },
+  ): Promise<AdvanceStepResult> {
     const chat = await this.getChatState(chatId);
     if (!chat || chat.workflowStatus !== "active") {
         logger.warn(`Cannot advance step: Workflow not active for chat ${chatId}`);
-        return null;
+        return { status: "inactive" };
     }
 
-    const currentStepIndex = WORKFLOW_STEPS.indexOf(chat.workflowStep as WorkflowStep);
-    
+    const definition = await this.getDefinition(chat.workflowId);
+    const stepIds = definition.steps.map((step) => step.id);
+    const currentStepIndex = chat.workflowStep
+      ? stepIds.indexOf(chat.workflowStep)
+      : -1;
+
     if (currentStepIndex === -1) {
-        // Invalid state, reset or start over? Let's start at planning.
-        logger.warn(`Invalid step ${chat.workflowStep}, resetting to planning`);
-        await this.forceStep(chatId, "planning");
-        return "planning";
+        // Invalid state (e.g. the definition was edited), start over.
+        logger.warn(`Invalid step ${chat.workflowStep}, resetting to ${stepIds[0]}`);
+        await this.forceStep(chatId, stepIds[0]);
+        return { status: "advanced", step: stepIds[0] };
+    }
+
+    const currentStep = definition.steps[currentStepIndex];
+    // A parallel group that ran as sub-agents is finished as a whole: the
+    // gates of all its steps are checked and the workflow moves past it.
+    const stepsToFinish = (await WorkflowRunManager.ranSubAgents(chatId))
+      ? getParallelSteps(definition, currentStep.id)
+      : [currentStep];
+    const results: WorkflowGateResult[] = [];
+    for (const step of stepsToFinish) {
+      const stepResults = await runWorkflowGates({
+        gates: step.gates,
+        app,
+      });
+      for (const result of stepResults) {
+        await this.recordHistory({
+          chatId,
+          workflowId: chat.workflowId,
+          kind: "gate",
+          step: step.id,
+          gate: describeWorkflowGate(result.gate),
+          passed: result.passed,
+          output: result.output,
+        });
+      }
+      results.push(...stepResults);
+    }
+
+    const failures = results.filter((result) => !result.passed);
+    if (failures.length > 0) {
+      logger.info(
+        `Not advancing workflow for chat ${chatId}: ${failures.length} gate(s) of ${currentStep.id} failed`,
+      );
+      return { status: "blocked", step: currentStep.id, failures };
     }
 
-    if (currentStepIndex === WORKFLOW_STEPS.length - 1) {
+    const lastStepIndex = stepIds.indexOf(
+      stepsToFinish[stepsToFinish.length - 1].id,
+    );
+    const nextStep =
+      lastStepIndex === stepIds.length - 1 ? null : stepIds[lastStepIndex + 1];
+    await this.recordHistory({
+      chatId,
+      workflowId: chat.workflowId,
+      kind: "transition",
+      step: currentStep.id,
+      toStep: nextStep,
+      passed: true,
+      output:
+        results.length > 0
+          ? `All ${results.length} gate(s) passed`
+          : "Step has no gates",
+    });
+
+    if (!nextStep) {
       // Finished
       logger.info(`Workflow finished for chat ${chatId}`);
       await db.update(chats)
         .set({ workflowStatus: "idle", workflowStep: null })
         .where(eq(chats.id, chatId));
-      return null;
+      await WorkflowRunManager.finishRun(chatId, "completed");
+      return { status: "completed" };
     }
 
-    const nextStep = WORKFLOW_STEPS[currentStepIndex + 1];
     logger.info(`Advancing workflow for chat ${chatId} from ${chat.workflowStep} to ${nextStep}`);
     await db.update(chats)
       .set({ workflowStep: nextStep })
       .where(eq(chats.id, chatId));
-    
-    return nextStep;
+    await WorkflowRunManager.moveToStep(chatId, nextStep);
+
+    return { status: "advanced", step: nextStep };
   }
 
-  static getTaskTypeForStep(step: WorkflowStep): "frontend" | "backend" | "debugging" | "general" {
-    switch (step) {
-      case "frontend": return "frontend";
-      case "backend": return "backend";
-      case "testing": return "debugging";
-      case "planning": 
-      case "docs":
-      default: return "general";
-    }
+  static async getHistory(chatId: number) {
+    return db.query.workflowHistory.findMany({
+      where: eq(workflowHistory.chatId, chatId),
+      orderBy: [desc(workflowHistory.createdAt), desc(workflowHistory.id)],
+    });
   }
 
-  static getSystemPromptForStep(step: WorkflowStep): string {
-    const prefix = `\n\n# Workflow Step: ${step.toUpperCase()}\n`;
-    const checklistInstruction = "\n\n## CHECKLIST REQUIREMENT\nYou must output a checklist of what you have done at the end of your response using markdown checkboxes (e.g., - [x] Task).";
-    
-    switch (step) {
-      case "planning":
-        return prefix + "You are a Software Architect. Analyze the request and create a detailed implementation plan. Break down the task into logical components. Do not write code yet. Output the plan in Markdown. Be concise but thorough." + checklistInstruction;
-      case "docs":
-        return prefix + "You are a Technical Writer. Create or update documentation based on the architecture plan. Ensure 'README.md' and 'docs/architecture.md' (if applicable) are up to date. Verify file paths." + checklistInstruction;
-      case "frontend":
-        return prefix + "You are a Frontend Developer. Implement the UI components and pages based on the plan. Use Shadcn UI and Tailwind CSS. Focus on creating a polished, responsive, and functional UI. Batch your file edits to avoid partial states." + checklistInstruction;
-      case "backend":
-        return prefix + "You are a Backend Developer. Implement the API routes, database schema, and server logic. Ensure data integrity and error handling. Follow the project's architectural patterns." + checklistInstruction;
-      case "testing":
-        return prefix + "You are a QA Engineer. Write and run tests (Vitest/Playwright) to verify the implementation. Fix any bugs found. Ensure the application runs smoothly." + checklistInstruction;
-      default:
-        return "";
-    }
+  private static async recordHistory(entry: WorkflowHistoryEntry) {
+    await db.insert(workflowHistory).values(entry);
+  }
+
+  static getTaskTypeForStep(definition: WorkflowDefinition, step: WorkflowStep): TaskType {
+    return getWorkflowStep(definition, step)?.taskType ?? "general";
+  }
+
+  static getAllowedTagsForStep(definition: WorkflowDefinition, step: WorkflowStep): string[] | null {
+    const stepDefinition = getWorkflowStep(definition, step);
+    return stepDefinition ? getAllowedTagsForStep(stepDefinition) : null;
+  }
+
+  static getSystemPromptForStep(definition: WorkflowDefinition, step: WorkflowStep): string {
+    const stepDefinition = getWorkflowStep(definition, step);
+    return stepDefinition ? buildStepSystemPrompt(stepDefinition) : "";
   }
 }
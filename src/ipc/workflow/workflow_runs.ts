@@ -0,0 +1,270 @@
+import { db } from "../../db";
+import {
+  chats,
+  messages,
+  workflowRuns,
+  workflowStepRuns,
+  workflowSubAgentRuns,
+} from "../../db/schema";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import log from "electron-log";
+import { getDyadAppPath } from "../../paths/paths";
+import { getCurrentCommitHash } from "../utils/git_utils";
+import { mergeChecklists, parseChecklistItems } from "./workflow_checklist";
+
+const logger = log.scope("workflow-runs");
+
+type RunStatus = "completed" | "stopped";
+
+type SubAgentRunUpdate = Partial<
+  Pick<
+    typeof workflowSubAgentRuns.$inferInsert,
+    "status" | "commitHash" | "changedFiles" | "conflictFiles" | "error"
+  >
+>;
+
+/**
+ * Persists workflow runs and their steps so a finished workflow can still be
+ * inspected: which messages and commits belong to each step, which model ran
+ * it and what checklist it produced.
+ */
+export class WorkflowRunManager {
+  private static async getHeadForChat(chatId: number): Promise<string | null> {
+    const chat = await db.query.chats.findFirst({
+      where: eq(chats.id, chatId),
+      with: { app: true },
+    });
+    if (!chat) {
+      return null;
+    }
+    try {
+      return await getCurrentCommitHash({
+        path: getDyadAppPath(chat.app.path),
+      });
+    } catch (error) {
+      logger.warn(`Could not resolve HEAD for chat ${chatId}:`, error);
+      return null;
+    }
+  }
+
+  static async getActiveRun(chatId: number) {
+    return db.query.workflowRuns.findFirst({
+      where: and(
+        eq(workflowRuns.chatId, chatId),
+        eq(workflowRuns.status, "active"),
+      ),
+      orderBy: [desc(workflowRuns.id)],
+    });
+  }
+
+  static async getActiveStepRun(chatId: number) {
+    const run = await this.getActiveRun(chatId);
+    if (!run) {
+      return undefined;
+    }
+    return db.query.workflowStepRuns.findFirst({
+      where: and(
+        eq(workflowStepRuns.runId, run.id),
+        eq(workflowStepRuns.status, "active"),
+      ),
+      orderBy: [desc(workflowStepRuns.id)],
+    });
+  }
+
+  /**
+   * Starts a new run at `step`, stopping any run that is still active in the
+   * chat.
+   */
+  static async startRun({
+    chatId,
+    workflowId,
+    workflowName,
+    step,
+  }: {
+    chatId: number;
+    workflowId: number | null;
+    workflowName: string;
+    step: string;
+  }) {
+    await this.finishRun(chatId, "stopped");
+    const [run] = await db
+      .insert(workflowRuns)
+      .values({ chatId, workflowId, workflowName, status: "active" })
+      .returning();
+    await db.insert(workflowStepRuns).values({
+      runId: run.id,
+      step,
+      status: "active",
+      startCommitHash: await this.getHeadForChat(chatId),
+    });
+    logger.info(`Started workflow run ${run.id} for chat ${chatId} at ${step}`);
+    return run;
+  }
+
+  /**
+   * Closes the active step at the current commit and opens `toStep`.
+   */
+  static async moveToStep(chatId: number, toStep: string) {
+    const run = await this.getActiveRun(chatId);
+    if (!run) {
+      return;
+    }
+    const head = await this.getHeadForChat(chatId);
+    await this.closeActiveStep(run.id, "completed", head);
+    await db.insert(workflowStepRuns).values({
+      runId: run.id,
+      step: toStep,
+      status: "active",
+      startCommitHash: head,
+    });
+  }
+
+  static async finishRun(chatId: number, status: RunStatus) {
+    const run = await this.getActiveRun(chatId);
+    if (!run) {
+      return;
+    }
+    await this.closeActiveStep(
+      run.id,
+      status,
+      await this.getHeadForChat(chatId),
+    );
+    await db
+      .update(workflowRuns)
+      .set({ status, finishedAt: new Date() })
+      .where(eq(workflowRuns.id, run.id));
+    logger.info(`Workflow run ${run.id} for chat ${chatId} ${status}`);
+  }
+
+  private static async closeActiveStep(
+    runId: number,
+    status: RunStatus,
+    endCommitHash: string | null,
+  ) {
+    await db
+      .update(workflowStepRuns)
+      .set({ status, endCommitHash, finishedAt: new Date() })
+      .where(
+        and(
+          eq(workflowStepRuns.runId, runId),
+          eq(workflowStepRuns.status, "active"),
+        ),
+      );
+  }
+
+  /**
+   * Links the messages of a completed exchange to the active step and folds
+   * the response's checklist into the step's.
+   */
+  static async recordExchange({
+    chatId,
+    messageIds,
+    model,
+    response,
+  }: {
+    chatId: number;
+    messageIds: number[];
+    model: string | null;
+    response: string;
+  }) {
+    const stepRun = await this.getActiveStepRun(chatId);
+    if (!stepRun) {
+      return;
+    }
+    await db
+      .update(messages)
+      .set({ workflowStepRunId: stepRun.id })
+      .where(inArray(messages.id, messageIds));
+    await db
+      .update(workflowStepRuns)
+      .set({
+        model: model ?? stepRun.model,
+        checklist: mergeChecklists(
+          stepRun.checklist,
+          parseChecklistItems(response),
+        ),
+      })
+      .where(eq(workflowStepRuns.id, stepRun.id));
+  }
+
+  static async listRuns(chatId: number) {
+    return db.query.workflowRuns.findMany({
+      where: eq(workflowRuns.chatId, chatId),
+      orderBy: [desc(workflowRuns.id)],
+      with: {
+        stepRuns: {
+          orderBy: [asc(workflowStepRuns.id)],
+          with: {
+            messages: {
+              columns: { id: true, role: true, commitHash: true },
+              orderBy: [asc(messages.id)],
+            },
+            subAgentRuns: {
+              orderBy: [asc(workflowSubAgentRuns.id)],
+            },
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Records a sub-agent starting one step of a parallel group under the
+   * chat's active step run.
+   */
+  static async startSubAgentRun({
+    chatId,
+    step,
+    model,
+    branch,
+  }: {
+    chatId: number;
+    step: string;
+    model: string;
+    branch: string;
+  }) {
+    const stepRun = await this.getActiveStepRun(chatId);
+    if (!stepRun) {
+      return null;
+    }
+    const [subAgentRun] = await db
+      .insert(workflowSubAgentRuns)
+      .values({ stepRunId: stepRun.id, step, model, branch, status: "running" })
+      .returning();
+    return subAgentRun;
+  }
+
+  /** Whether the chat's current step ran its parallel group as sub-agents. */
+  static async ranSubAgents(chatId: number): Promise<boolean> {
+    const stepRun = await this.getActiveStepRun(chatId);
+    if (!stepRun) {
+      return false;
+    }
+    const subAgentRun = await db.query.workflowSubAgentRuns.findFirst({
+      where: eq(workflowSubAgentRuns.stepRunId, stepRun.id),
+      columns: { id: true },
+    });
+    return subAgentRun !== undefined;
+  }
+
+  static async updateSubAgentRun(
+    subAgentRunId: number,
+    update: SubAgentRunUpdate,
+  ) {
+    await db
+      .update(workflowSubAgentRuns)
+      .set({
+        ...update,
+        finishedAt:
+          update.status && update.status !== "running" ? new Date() : undefined,
+      })
+      .where(eq(workflowSubAgentRuns.id, subAgentRunId));
+  }
+
+  static async getStepRun(stepRunId: number) {
+    return db.query.workflowStepRuns.findFirst({
+      where: eq(workflowStepRuns.id, stepRunId),
+      with: { run: true },
+    });
+  }
+}
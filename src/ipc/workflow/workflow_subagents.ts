@@ -0,0 +1,456 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { streamText, type ModelMessage } from "ai";
+import log from "electron-log";
+import { asc, eq } from "drizzle-orm";
+import { db } from "../../db";
+import { messages } from "../../db/schema";
+import { MAX_CHAT_TURNS_IN_CONTEXT } from "@/constants/settings_constants";
+import type {
+  AppChatContext,
+  LargeLanguageModel,
+  UserSettings,
+  WorkflowStepDefinition,
+} from "../../lib/schemas";
+import { getUserDataPath } from "../../paths/paths";
+import {
+  constructSystemPrompt,
+  readAiRules,
+} from "../../prompts/system_prompt";
+import { extractCodebase } from "../../utils/codebase";
+import type { SubAgentLane, WorkflowSubAgentStatus } from "../ipc_types";
+import {
+  getDyadDeleteTags,
+  getDyadRenameTags,
+  getDyadWriteTags,
+} from "../utils/dyad_tag_parser";
+import { getMaxTokens, getTemperature } from "../utils/token_utils";
+import { getModelClient } from "../utils/get_model_client";
+import {
+  getCurrentCommitHash,
+  gitAddWorktree,
+  gitChangedFiles,
+  gitCommitAll,
+  gitDeleteBranch,
+  gitMergeBranch,
+  gitRemoveWorktree,
+  gitUncommittedFiles,
+} from "../utils/git_utils";
+import { safeJoin } from "../utils/path_utils";
+import { normalizeUsage, recordUsage } from "../utils/usage_ledger";
+import { buildStepSystemPrompt } from "./workflow_definitions";
+import { WorkflowRunManager } from "./workflow_runs";
+
+const logger = log.scope("workflow-subagents");
+
+// How often a lane's character count is sent while it streams
+const PROGRESS_INTERVAL_MS = 500;
+
+const SUB_AGENT_TAGS = ["dyad-write", "dyad-rename", "dyad-delete"];
+
+interface SubAgent {
+  step: WorkflowStepDefinition;
+  lane: SubAgentLane;
+  model: LargeLanguageModel;
+  branch: string;
+  worktreePath: string;
+  runId: number | null;
+  commitHash: string | null;
+  response: string;
+}
+
+export interface ParallelStepsResult {
+  lanes: SubAgentLane[];
+  // Markdown for the chat: what each sub-agent did and how it merged
+  summary: string;
+  // The app's HEAD after merging, or null if nothing was merged
+  commitHash: string | null;
+}
+
+/**
+ * The model a step's sub-agent runs on: the task model for the step's task
+ * type when one is configured, otherwise the chat's model.
+ */
+export function getSubAgentModel(
+  step: WorkflowStepDefinition,
+  settings: UserSettings,
+): LargeLanguageModel {
+  const taskModel =
+    step.taskType !== "general" ? settings.taskModels?.[step.taskType] : null;
+  return taskModel ?? settings.selectedModel;
+}
+
+function buildSubAgentInstructions(
+  step: WorkflowStepDefinition,
+  peers: WorkflowStepDefinition[],
+): string {
+  const peerNames = peers
+    .filter((peer) => peer.id !== step.id)
+    .map((peer) => `"${peer.name ?? peer.id}"`)
+    .join(", ");
+  return `
+
+# Parallel Sub-Agent
+You are one of several agents working on this app at the same time, each on its own copy. The other agents are handling ${peerNames}. Your work is merged with theirs when everyone is done, so:
+- Only change the files your step is responsible for, and leave the rest to the other agents.
+- Only use ${SUB_AGENT_TAGS.map((tag) => `<${tag}>`).join(", ")}. Commands, dependencies and SQL are not run for sub-agents.
+- If you need something from another agent's part, describe it in your response instead of building it yourself.`;
+}
+
+async function loadRecentHistory(chatId: number): Promise<ModelMessage[]> {
+  const history = await db.query.messages.findMany({
+    where: eq(messages.chatId, chatId),
+    orderBy: [asc(messages.createdAt), asc(messages.id)],
+    columns: { role: true, content: true },
+  });
+  // The last two messages are the prompt and its placeholder response
+  return history
+    .slice(0, -2)
+    .filter((message) => message.content)
+    .slice(-MAX_CHAT_TURNS_IN_CONTEXT * 2)
+    .map((message) => ({ role: message.role, content: message.content }));
+}
+
+async function applyChanges(worktreePath: string, response: string) {
+  for (const tag of getDyadWriteTags(response)) {
+    const filePath = safeJoin(worktreePath, tag.path);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, tag.content);
+  }
+  for (const tag of getDyadRenameTags(response)) {
+    const to = safeJoin(worktreePath, tag.to);
+    await fs.mkdir(path.dirname(to), { recursive: true });
+    await fs.rename(safeJoin(worktreePath, tag.from), to);
+  }
+  for (const deletePath of getDyadDeleteTags(response)) {
+    await fs.rm(safeJoin(worktreePath, deletePath), {
+      recursive: true,
+      force: true,
+    });
+  }
+}
+
+// The response's prose, without the file contents that are already merged
+function stripDyadTags(text: string): string {
+  return text
+    .replace(/<dyad-[^>]*>[\s\S]*?<\/dyad-[^>]*>/g, "")
+    .replace(/<dyad-[^>]*\/>/g, "")
+    .trim();
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function formatFileList(files: string[]): string {
+  const shown = files.slice(0, 5).map((file) => `\`${file}\``);
+  if (files.length > shown.length) {
+    shown.push(plural(files.length - shown.length, "more file"));
+  }
+  return shown.join(", ");
+}
+
+function formatSummary(groupName: string, agents: SubAgent[]): string {
+  const sections = agents.map(({ lane, branch, response }) => {
+    let status: string;
+    switch (lane.status) {
+      case "merged":
+        status = `Merged ${plural(lane.changedFiles.length, "changed file")}.`;
+        break;
+      case "no-changes":
+        status = "No files changed.";
+        break;
+      case "conflict":
+        status = `Not merged: conflicts in ${lane.conflictFiles
+          .map((file) => `\`${file}\``)
+          .join(", ")}. The changes are kept on branch \`${branch}\`.`;
+        break;
+      case "stopped":
+        status = "Stopped before it finished.";
+        break;
+      default:
+        status = `Failed: ${lane.error ?? "unknown error"}`;
+    }
+    const prose = stripDyadTags(response);
+    return `### ${lane.name} (${lane.model})\n${status}${prose ? `\n\n${prose}` : ""}`;
+  });
+
+  // Files that merged cleanly but were changed by more than one sub-agent
+  // are worth a look
+  const changedBy = new Map<string, string[]>();
+  for (const { lane } of agents) {
+    for (const file of lane.changedFiles) {
+      changedBy.set(file, [...(changedBy.get(file) ?? []), lane.name]);
+    }
+  }
+  const overlaps = [...changedBy].filter(([, names]) => names.length > 1);
+  if (overlaps.length > 0) {
+    sections.push(
+      `### Changed by more than one sub-agent\n${overlaps
+        .map(([file, names]) => `- \`${file}\` (${names.join(", ")})`)
+        .join("\n")}`,
+    );
+  }
+
+  return `Ran the **${groupName}** steps as ${agents.length} parallel sub-agents.\n\n${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Runs the steps of a parallel group at the same time, each as a sub-agent
+ * with its own model and context on a branch checked out in its own git
+ * worktree. The branches are then merged into the app one by one, in step
+ * order. A branch that conflicts is left unmerged for the user to resolve.
+ */
+export async function runParallelWorkflowSteps({
+  chatId,
+  appId,
+  appPath,
+  chatContext,
+  steps,
+  prompt,
+  settings,
+  abortSignal,
+  onProgress,
+}: {
+  chatId: number;
+  appId: number;
+  appPath: string;
+  chatContext: AppChatContext;
+  steps: WorkflowStepDefinition[];
+  prompt: string;
+  settings: UserSettings;
+  abortSignal: AbortSignal;
+  onProgress: (lanes: SubAgentLane[]) => void;
+}): Promise<ParallelStepsResult> {
+  const groupName = steps[0].parallelGroup ?? steps[0].id;
+  // The sub-agents start from the last commit and are merged back into the
+  // working tree, so uncommitted changes would be left out or in the way
+  const uncommitted = await gitUncommittedFiles({ path: appPath });
+  if (uncommitted.length > 0) {
+    throw new Error(
+      `The app has uncommitted changes in ${formatFileList(uncommitted)}. Commit or discard them before running the "${groupName}" steps in parallel.`,
+    );
+  }
+  const baseCommit = await getCurrentCommitHash({ path: appPath });
+  const token = Date.now().toString(36);
+  const agents: SubAgent[] = steps.map((step) => {
+    const model = getSubAgentModel(step, settings);
+    return {
+      step,
+      model,
+      lane: {
+        step: step.id,
+        name: step.name ?? step.id,
+        model: model.name,
+        status: "queued",
+        outputChars: 0,
+        changedFiles: [],
+        conflictFiles: [],
+        error: null,
+      },
+      branch: `dyad/workflow-${chatId}-${token}/${step.id}`,
+      worktreePath: path.join(
+        getUserDataPath(),
+        "worktrees",
+        `chat-${chatId}-${token}`,
+        step.id,
+      ),
+      runId: null,
+      commitHash: null,
+      response: "",
+    };
+  });
+  const sendProgress = () =>
+    onProgress(agents.map((agent) => ({ ...agent.lane })));
+  const history = await loadRecentHistory(chatId);
+  const aiRules = await readAiRules(appPath);
+
+  const finish = async (
+    agent: SubAgent,
+    update: Partial<SubAgentLane> & { status: WorkflowSubAgentStatus },
+  ) => {
+    Object.assign(agent.lane, update);
+    sendProgress();
+    if (agent.runId !== null) {
+      await WorkflowRunManager.updateSubAgentRun(agent.runId, {
+        status: update.status,
+        commitHash: agent.commitHash,
+        changedFiles: agent.lane.changedFiles,
+        conflictFiles: agent.lane.conflictFiles,
+        error: agent.lane.error,
+      });
+    }
+  };
+
+  const runAgent = async (agent: SubAgent) => {
+    const { step, model, worktreePath } = agent;
+    try {
+      await gitAddWorktree({
+        path: appPath,
+        worktreePath,
+        branch: agent.branch,
+        ref: baseCommit,
+      });
+      const subAgentRun = await WorkflowRunManager.startSubAgentRun({
+        chatId,
+        step: step.id,
+        model: model.name,
+        branch: agent.branch,
+      });
+      agent.runId = subAgentRun?.id ?? null;
+      agent.lane.status = "running";
+      sendProgress();
+
+      const { formattedOutput: codebaseInfo } = await extractCodebase({
+        appPath: worktreePath,
+        chatContext: step.contextPaths
+          ? {
+              ...chatContext,
+              contextPaths: step.contextPaths.map((globPath) => ({
+                globPath,
+              })),
+            }
+          : chatContext,
+      });
+      const { modelClient } = await getModelClient(
+        model,
+        settings,
+        worktreePath,
+      );
+      const system =
+        constructSystemPrompt({
+          aiRules,
+          chatMode: "build",
+          taskType: step.taskType !== "general" ? step.taskType : step.id,
+        }) +
+        buildStepSystemPrompt(step) +
+        buildSubAgentInstructions(step, steps);
+
+      const stream = streamText({
+        model: modelClient.model,
+        system,
+        messages: [
+          { role: "user", content: `This is my codebase. ${codebaseInfo}` },
+          { role: "assistant", content: "OK, got it. I'm ready to help" },
+          ...history,
+          { role: "user", content: prompt },
+        ],
+        maxOutputTokens: await getMaxTokens(model),
+        temperature: await getTemperature(model),
+        abortSignal,
+      });
+      let lastProgress = 0;
+      for await (const text of stream.textStream) {
+        agent.response += text;
+        agent.lane.outputChars = agent.response.length;
+        if (Date.now() - lastProgress > PROGRESS_INTERVAL_MS) {
+          lastProgress = Date.now();
+          sendProgress();
+        }
+      }
+      await recordUsage({
+        kind: "chat",
+        provider: model.provider,
+        model: model.name,
+        usage: normalizeUsage(model.provider, await stream.totalUsage),
+        chatId,
+        appId,
+      });
+
+      await applyChanges(worktreePath, agent.response);
+      agent.commitHash = await gitCommitAll({
+        path: worktreePath,
+        message: `[dyad] ${agent.lane.name} sub-agent`,
+      });
+      if (!agent.commitHash) {
+        await finish(agent, { status: "no-changes" });
+        return;
+      }
+      agent.lane.changedFiles = await gitChangedFiles({
+        path: worktreePath,
+        from: baseCommit,
+        to: agent.commitHash,
+      });
+      // Waits here until every sub-agent is done, then merges in step order
+      agent.lane.status = "merging";
+      sendProgress();
+    } catch (error) {
+      if (abortSignal.aborted) {
+        await finish(agent, { status: "stopped" });
+      } else {
+        logger.error(`Sub-agent for step ${step.id} failed:`, error);
+        await finish(agent, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+
+  let commitHash: string | null = null;
+  try {
+    await Promise.all(agents.map(runAgent));
+
+    // Files changed in the app while the sub-agents ran would stop the
+    // merges, so their branches are kept to merge by hand instead
+    const inTheWay = await gitUncommittedFiles({ path: appPath });
+    for (const agent of agents) {
+      if (agent.lane.status !== "merging") {
+        continue;
+      }
+      if (abortSignal.aborted) {
+        await finish(agent, { status: "stopped" });
+        continue;
+      }
+      if (inTheWay.length > 0) {
+        await finish(agent, { status: "conflict", conflictFiles: inTheWay });
+        continue;
+      }
+      try {
+        const result = await gitMergeBranch({
+          path: appPath,
+          branch: agent.branch,
+          message: `[dyad] Merge ${agent.lane.name} sub-agent`,
+        });
+        if (result.merged) {
+          commitHash = result.commitHash;
+          await finish(agent, { status: "merged" });
+        } else {
+          await finish(agent, {
+            status: "conflict",
+            conflictFiles: result.conflicts,
+          });
+        }
+      } catch (error) {
+        logger.error(`Failed to merge ${agent.branch}:`, error);
+        await finish(agent, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    for (const agent of agents) {
+      await gitRemoveWorktree({
+        path: appPath,
+        worktreePath: agent.worktreePath,
+      }).catch((error) =>
+        logger.warn(`Failed to remove worktree ${agent.worktreePath}:`, error),
+      );
+      // A conflicting branch is kept so it can be merged by hand
+      if (agent.lane.status !== "conflict") {
+        await gitDeleteBranch({ path: appPath, branch: agent.branch }).catch(
+          () => {
+            // The worktree may not have been created
+          },
+        );
+      }
+    }
+  }
+
+  return {
+    lanes: agents.map((agent) => agent.lane),
+    summary: formatSummary(groupName, agents),
+    commitHash,
+  };
+}
@@ -90,6 +90,31 @@ export const LargeLanguageModelSchema = z.object({
  */
 export type LargeLanguageModel = z.infer<typeof LargeLanguageModelSchema>;
 
+/**
+ * Kinds of model errors a fallback chain can move past. Any other error is
+ * shown to the user.
+ */
+export const FallbackErrorClassSchema = z.enum([
+  "auth",
+  "rate-limit",
+  "server",
+  "network",
+  "context-length",
+]);
+
+export type FallbackErrorClass = z.infer<typeof FallbackErrorClassSchema>;
+
+/**
+ * Models to try, in order, after the task's model fails with one of the
+ * `fallbackOn` errors.
+ */
+export const FallbackChainSchema = z.object({
+  models: z.array(LargeLanguageModelSchema),
+  fallbackOn: z.array(FallbackErrorClassSchema).optional(),
+});
+
+export type FallbackChain = z.infer<typeof FallbackChainSchema>;
+
 /**
  * Zod schema for task-based model configuration
  */
@@ -98,6 +123,14 @@ export const TaskModelsSchema = z.object({
   backend: LargeLanguageModelSchema.optional(),
   debugging: LargeLanguageModelSchema.optional(),
   useTaskBasedSwitching: z.boolean().optional(),
+  fallbacks: z
+    .object({
+      frontend: FallbackChainSchema.optional(),
+      backend: FallbackChainSchema.optional(),
+      debugging: FallbackChainSchema.optional(),
+      general: FallbackChainSchema.optional(),
+    })
+    .optional(),
 });
 
 /**
@@ -157,7 +190,7 @@ export type RuntimeMode = z.infer<typeof RuntimeModeSchema>;
 export const RuntimeMode2Schema = z.enum(["host", "docker"]);
 export type RuntimeMode2 = z.infer<typeof RuntimeMode2Schema>;
 
-export const ChatModeSchema = z.enum(["build", "ask", "agent"]);
+export const ChatModeSchema = z.enum(["build", "ask", "agent", "plan"]);
 export type ChatMode = z.infer<typeof ChatModeSchema>;
 
 export const GitHubSecretsSchema = z.object({
@@ -223,6 +256,229 @@ export type ContextPathResults = {
   excludePaths: ContextPathResult[];
 };
 
+/**
+ * Zod schema for a verifiable exit condition of a workflow step
+ */
+export const WorkflowGateSchema = z.discriminatedUnion("type", [
+  // The TypeScript problem report for the app is clean.
+  z.object({ type: z.literal("tsc") }),
+  // A shell command run in the app directory exits with code 0.
+  z.object({
+    type: z.literal("command"),
+    command: z.string().min(1),
+  }),
+  // At least one file in the app matches the glob.
+  z.object({
+    type: z.literal("files-exist"),
+    glob: z.string().min(1),
+  }),
+]);
+export type WorkflowGate = z.infer<typeof WorkflowGateSchema>;
+
+/**
+ * Zod schema for a single step of a workflow definition
+ */
+export const WorkflowStepDefinitionSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9_-]*$/,
+      "Step ids must be lowercase letters, digits, '-' or '_'",
+    ),
+  name: z.string().optional(),
+  rolePrompt: z.string().min(1),
+  taskType: z
+    .enum(["frontend", "backend", "debugging", "general"])
+    .default("general"),
+  // Dyad tags the model may emit during this step. Omit to allow all tags.
+  allowedTags: z.array(z.string()).optional(),
+  exitCriteria: z.array(z.string()).default([]),
+  // Checks that must all pass before the workflow can leave this step.
+  gates: z.array(WorkflowGateSchema).default([]),
+  // Consecutive steps with the same group run at the same time, each as a
+  // sub-agent in its own git worktree, and are merged back together.
+  parallelGroup: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]*$/, "Group ids must be like step ids")
+    .optional(),
+  // Globs of the files a sub-agent gets as context. Omit for the codebase
+  // the chat would get.
+  contextPaths: z.array(z.string().min(1)).optional(),
+});
+export type WorkflowStepDefinition = z.infer<
+  typeof WorkflowStepDefinitionSchema
+>;
+
+/**
+ * Zod schema for a multi-step workflow definition (written as JSON or YAML)
+ */
+export const WorkflowDefinitionSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    steps: z.array(WorkflowStepDefinitionSchema).min(1),
+  })
+  .refine(
+    (definition) =>
+      new Set(definition.steps.map((step) => step.id)).size ===
+      definition.steps.length,
+    { message: "Step ids must be unique", path: ["steps"] },
+  )
+  .refine(
+    (definition) => {
+      const groups = definition.steps.map((step) => step.parallelGroup);
+      return groups.every(
+        (group, index) =>
+          !group ||
+          groups[index - 1] === group ||
+          !groups.slice(0, index).includes(group),
+      );
+    },
+    {
+      message: "Steps of a parallel group must be next to each other",
+      path: ["steps"],
+    },
+  );
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+
+/**
+ * Zod schema for what a guardrail rule looks for in a response
+ */
+export const GuardrailPredicateSchema = z.discriminatedUnion("type", [
+  // A regular expression. `scope` limits where it is matched: the whole
+  // response, the text outside dyad tags, or the content of each dyad-write.
+  z.object({
+    type: z.literal("regex"),
+    pattern: z.string().min(1),
+    flags: z.string().optional(),
+    scope: z
+      .enum(["response", "outside-tags", "dyad-write-content"])
+      .default("response"),
+  }),
+  // Dyad tag structure: any of `tags` is used at all, or is left unclosed.
+  // With `source: "model"`, tags rendered by agent mode's tools don't count.
+  z.object({
+    type: z.literal("tag"),
+    tags: z.array(z.string()).min(1),
+    check: z.enum(["present", "unclosed"]).default("present"),
+    source: z.enum(["any", "model"]).default("any"),
+  }),
+  // Paths of file operations. "allow-only" flags paths outside the glob,
+  // "deny" flags paths inside it.
+  z.object({
+    type: z.literal("path"),
+    glob: z.string().min(1),
+    policy: z.enum(["allow-only", "deny"]),
+    tags: z.array(z.string()).default(["dyad-write", "dyad-patch"]),
+  }),
+]).superRefine((predicate, ctx) => {
+  // Rejected when the config is loaded instead of when a response is checked
+  if (predicate.type !== "regex") {
+    return;
+  }
+  try {
+    new RegExp(predicate.pattern, predicate.flags);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : String(error),
+      path: ["pattern"],
+    });
+  }
+});
+export type GuardrailPredicate = z.infer<typeof GuardrailPredicateSchema>;
+
+/**
+ * Zod schema for a guardrail rule. `action` decides what happens when the
+ * rule matches: "warn" only records it, "correct" stops the response and
+ * resumes it with `correction`, "abort" stops it with an error.
+ */
+export const GuardrailRuleSchema = z.object({
+  id: z.string().min(1),
+  // Shown to the user and the model; `{match}` is replaced with the
+  // matched text.
+  message: z.string().min(1),
+  when: GuardrailPredicateSchema,
+  severity: z.enum(["critical", "warning"]).default("critical"),
+  action: z.enum(["warn", "correct", "abort"]).default("correct"),
+  // Chat modes and workflow steps the rule applies to. Omit for all.
+  modes: z.array(ChatModeSchema).optional(),
+  workflowSteps: z.array(z.string()).optional(),
+  correction: z.string().optional(),
+  enabled: z.boolean().default(true),
+});
+export type GuardrailRule = z.infer<typeof GuardrailRuleSchema>;
+
+/**
+ * Zod schema for ~/.dyad/guardrails.json and an app's .dyad/guardrails.json.
+ * Rules replace earlier rules with the same id.
+ */
+export const GuardrailConfigSchema = z.object({
+  rules: z.array(GuardrailRuleSchema).default([]),
+  // Ids of rules (including built-in ones) to turn off.
+  disabledRules: z.array(z.string()).default([]),
+});
+export type GuardrailConfig = z.infer<typeof GuardrailConfigSchema>;
+
+/**
+ * A model's price in USD per million tokens, set by the user for models
+ * without a built-in price (e.g. custom models) or to override one.
+ */
+export const ModelPriceOverrideSchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  inputPerMillion: z.number().nonnegative(),
+  outputPerMillion: z.number().nonnegative(),
+  cachedInputPerMillion: z.number().nonnegative().optional(),
+});
+export type ModelPriceOverride = z.infer<typeof ModelPriceOverrideSchema>;
+
+const AgentCommandConsentSchema = z.enum(["ask", "always", "denied"]);
+
+// What agent mode does with the shell commands it wants to run, by command
+// category. Unset categories use the defaults.
+export const AgentCommandConsentsSchema = z.object({
+  "read-only": AgentCommandConsentSchema.optional(),
+  "package-install": AgentCommandConsentSchema.optional(),
+  network: AgentCommandConsentSchema.optional(),
+  destructive: AgentCommandConsentSchema.optional(),
+  other: AgentCommandConsentSchema.optional(),
+});
+export type AgentCommandConsents = z.infer<typeof AgentCommandConsentsSchema>;
+
+// Per-app rules for the terminal commands the assistant asks to run.
+// Patterns are globs matched against each command in a chain, e.g.
+// "npm run *" or "git push*".
+export const CommandPolicySchema = z.object({
+  allow: z.array(z.string()),
+  deny: z.array(z.string()),
+  // Where commands run. Follows the app runtime setting when unset.
+  runtime: RuntimeMode2Schema.optional(),
+  timeoutSeconds: z.number().int().positive().max(3600).optional(),
+  agentConsents: AgentCommandConsentsSchema.optional(),
+});
+export type CommandPolicy = z.infer<typeof CommandPolicySchema>;
+
+export const CodeIndexSettingsSchema = z.object({
+  enabled: z.boolean(),
+  // "bm25" ranks by keywords only and needs no model.
+  embeddingBackend: z.enum(["bm25", "ollama", "lmstudio"]),
+  embeddingModel: z.string().optional(),
+});
+export type CodeIndexSettings = z.infer<typeof CodeIndexSettingsSchema>;
+
+// Agent mode's verify-and-fix loop: after each response the edits are
+// checked and failures are sent back as another turn.
+export const AgentLoopSettingsSchema = z.object({
+  enabled: z.boolean(),
+  maxIterations: z.number().int().positive().max(10),
+  // Tokens the fix turns may use in total, across input and output.
+  tokenBudget: z.number().int().positive(),
+  runTests: z.boolean(),
+  checkRuntimeErrors: z.boolean(),
+});
+export type AgentLoopSettings = z.infer<typeof AgentLoopSettingsSchema>;
+
 export const ReleaseChannelSchema = z.enum(["stable", "beta"]);
 export type ReleaseChannel = z.infer<typeof ReleaseChannelSchema>;
 
@@ -265,13 +521,20 @@ export const UserSettingsSchema = z.object({
   ultrathinkModel: LargeLanguageModelSchema.optional(),
   enableAIRouter: z.boolean().optional(),
   routerModel: LargeLanguageModelSchema.optional(),
+  // How prompts are classified into task types for task-based switching.
+  taskClassifier: z.enum(["keyword", "router", "context"]).optional(),
   enableCorrectiveAgent: z.boolean().optional().default(true),
   maxCorrectionAttempts: z.number().optional().default(2),
   enableRealtimeMonitoring: z.boolean().optional().default(true),
   monitoringInterval: z.number().optional().default(100), // ms between chunk analyses
   enableFastCorrection: z.boolean().optional().default(true), // Stop-correct-resume pattern
   checkIntervalChars: z.number().optional().default(50), // Check every N characters
+  // Days of guardrail violation logs to keep.
+  guardrailLogRetentionDays: z.number().int().positive().optional(),
   autoApproveTerminalCommands: z.boolean().optional(),
+  modelPrices: z.array(ModelPriceOverrideSchema).optional(),
+  codeIndex: CodeIndexSettingsSchema.optional(),
+  agentLoop: AgentLoopSettingsSchema.optional(),
 
   ////////////////////////////////
   // E2E TESTING ONLY.
@@ -41,6 +41,9 @@ import { useDebounce } from "@/hooks/useDebounce";
 import { useCheckName } from "@/hooks/useCheckName";
 import { AppUpgrades } from "@/components/AppUpgrades";
 import { CapacitorControls } from "@/components/CapacitorControls";
+import { CommandPolicySettings } from "@/components/CommandPolicySettings";
+import { AgentCommandLog } from "@/components/AgentCommandLog";
+import { CodeIndexStatusCard } from "@/components/CodeIndexStatusCard";
 
 export default function AppDetailsPage() {
   const navigate = useNavigate();
@@ -347,6 +350,9 @@ export default function AppDetailsPage() {
           </div>
           {appId && <SupabaseConnector appId={appId} />}
           {appId && <CapacitorControls appId={appId} />}
+          {appId && <CommandPolicySettings appId={appId} />}
+          {appId && <AgentCommandLog appId={appId} />}
+          {appId && <CodeIndexStatusCard appId={appId} />}
           <AppUpgrades appId={appId} />
         </div>
 
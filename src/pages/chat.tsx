@@ -15,7 +15,7 @@ import { useChats } from "@/hooks/useChats";
 import { selectedAppIdAtom } from "@/atoms/appAtoms";
 
 export default function ChatPage() {
-  let { id: chatId } = useSearch({ from: "/chat" });
+  let { id: chatId, messageId } = useSearch({ from: "/chat" });
   const navigate = useNavigate();
   const [isPreviewOpen, setIsPreviewOpen] = useAtom(isPreviewOpenAtom);
   const [isResizing, setIsResizing] = useState(false);
@@ -47,6 +47,7 @@ export default function ChatPage() {
         <div className="h-full w-full">
           <ChatPanel
             chatId={chatId}
+            messageId={messageId}
             isPreviewOpen={isPreviewOpen}
             onTogglePreview={() => {
               setIsPreviewOpen(!isPreviewOpen);
@@ -6,6 +6,7 @@ import { IpcClient } from "@/ipc/ipc_client";
 import { showSuccess, showError } from "@/lib/toast";
 import { AutoApproveSwitch } from "@/components/AutoApproveSwitch";
 import { AutoApproveTerminalCommandsSwitch } from "@/components/AutoApproveTerminalCommandsSwitch";
+import { CodeIndexSettings } from "@/components/CodeIndexSettings";
 import { TelemetrySwitch } from "@/components/TelemetrySwitch";
 import { MaxChatTurnsSelector } from "@/components/MaxChatTurnsSelector";
 import { ThinkingBudgetSelector } from "@/components/ThinkingBudgetSelector";
@@ -21,12 +22,16 @@ import { SupabaseIntegration } from "@/components/SupabaseIntegration";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { AutoFixProblemsSwitch } from "@/components/AutoFixProblemsSwitch";
+import { AgentLoopSettings } from "@/components/AgentLoopSettings";
 import { AutoUpdateSwitch } from "@/components/AutoUpdateSwitch";
 import { ReleaseChannelSelector } from "@/components/ReleaseChannelSelector";
 import { NeonIntegration } from "@/components/NeonIntegration";
 import { RuntimeModeSelector } from "@/components/RuntimeModeSelector";
 import { NodePathSelector } from "@/components/NodePathSelector";
 import { ToolsMcpSettings } from "@/components/settings/ToolsMcpSettings";
+import { ModelHealthPanel } from "@/components/settings/ModelHealthPanel";
+import { GuardrailInsightsPanel } from "@/components/settings/GuardrailInsightsPanel";
+import { UsageCostsPanel } from "@/components/settings/UsageCostsPanel";
 import { TaskBasedModelsSelector } from "@/components/TaskBasedModelsSelector";
 import { UltrathinkModelSelector } from "@/components/UltrathinkModelSelector";
 
@@ -84,6 +89,36 @@ export default function SettingsPage() {
             <ProviderSettingsGrid />
           </div>
 
+          <div
+            id="model-health"
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6"
+          >
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+              Model Health
+            </h2>
+            <ModelHealthPanel />
+          </div>
+
+          <div
+            id="guardrail-insights"
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6"
+          >
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+              Guardrail Insights
+            </h2>
+            <GuardrailInsightsPanel />
+          </div>
+
+          <div
+            id="usage-costs"
+            className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6"
+          >
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+              Usage & Costs
+            </h2>
+            <UsageCostsPanel />
+          </div>
+
           <div className="space-y-6">
             <div
               id="telemetry"
@@ -313,10 +348,16 @@ export function WorkflowSettings() {
         </div>
       </div>
 
+      <div className="mt-4">
+        <AgentLoopSettings />
+      </div>
+
       <div className="space-y-1 mt-4">
         <AutoApproveTerminalCommandsSwitch />
         <div className="text-sm text-gray-500 dark:text-gray-400">
-          This will automatically run terminal commands without confirmation.
+          This will automatically run terminal commands without confirmation,
+          except destructive ones. Each app's allow and deny rules are set on
+          its details page.
         </div>
       </div>
     </div>
@@ -347,6 +388,10 @@ export function AISettings() {
       <div className="mt-4">
         <UltrathinkModelSelector />
       </div>
+
+      <div className="mt-4">
+        <CodeIndexSettings />
+      </div>
     </div>
   );
 }
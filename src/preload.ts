@@ -86,6 +86,7 @@ const validInvokeChannels = [
   "window:minimize",
   "window:maximize",
   "window:close",
+  "window:capture-region",
   "get-system-platform",
   "upload-to-signed-url",
   "delete-chat",
@@ -130,6 +131,39 @@ const validInvokeChannels = [
   "prompts:create",
   "prompts:update",
   "prompts:delete",
+  // Workflows
+  "workflow:list",
+  "workflow:create",
+  "workflow:update",
+  "workflow:delete",
+  "workflow:set-chat-workflow",
+  "workflow:get-history",
+  "workflow:list-runs",
+  "workflow:restart-from-step",
+  "model-health:list",
+  "model-health:reset",
+  "guardrail-analytics:get",
+  "guardrail-analytics:export-csv",
+  "guardrail-analytics:prune",
+  "usage:get-analytics",
+  "usage:set-app-budget",
+  "usage:check-budget",
+  "exec-command",
+  "exec-command:evaluate",
+  "exec-command:cancel",
+  "get-app-command-policy",
+  "set-app-command-policy",
+  "agent-command:consent-response",
+  "agent-command:list-runs",
+  "code-index:get-status",
+  "code-index:rebuild",
+  "visual-edit:inspect",
+  "visual-edit:apply",
+  "plan:list",
+  "plan:update-steps",
+  "plan:set-status",
+  "agent-loop:stop",
+  "agent-loop:report-runtime-error",
   // adding app to favorite
   "add-to-favorite",
   "github:clone-repo-from-url",
@@ -146,6 +180,7 @@ const validReceiveChannels = [
   "chat:response:end",
   "chat:response:error",
   "app:output",
+  "exec-command:output",
   "github:flow-update",
   "github:flow-success",
   "github:flow-error",
@@ -156,6 +191,11 @@ const validReceiveChannels = [
   "help:chat:response:error",
   // MCP consent request from main to renderer
   "mcp:tool-consent-request",
+  // Agent mode shell command consent
+  "agent-command:consent-request",
+  "agent-command:consent-cancelled",
+  "agent-loop:progress",
+  "workflow:subagent-progress",
 ] as const;
 
 type ValidInvokeChannel = (typeof validInvokeChannels)[number];
@@ -13,6 +13,12 @@ import {
 } from "@tanstack/react-query";
 import { showError, showMcpConsentToast } from "./lib/toast";
 import { IpcClient } from "./ipc/ipc_client";
+import { useSetAtom } from "jotai";
+import {
+  agentCommandConsentRequestsAtom,
+  agentLoopProgressByIdAtom,
+  subAgentLanesByIdAtom,
+} from "./atoms/chatAtoms";
 
 // @ts-ignore
 console.log("Running in mode:", import.meta.env.MODE);
@@ -89,6 +95,12 @@ const posthogClient = posthog.init(
 );
 
 function App() {
+  const setAgentCommandConsentRequests = useSetAtom(
+    agentCommandConsentRequestsAtom,
+  );
+  const setAgentLoopProgressById = useSetAtom(agentLoopProgressByIdAtom);
+  const setSubAgentLanesById = useSetAtom(subAgentLanesByIdAtom);
+
   useEffect(() => {
     // Subscribe to navigation state changes
     const unsubscribe = router.subscribe("onResolved", (navigation) => {
@@ -110,6 +122,33 @@ function App() {
     };
   }, []);
 
+  useEffect(() => {
+    return IpcClient.getInstance().onAgentCommandConsentRequest({
+      onRequest: (request) =>
+        setAgentCommandConsentRequests((prev) => [...prev, request]),
+      onCancelled: (requestId) =>
+        setAgentCommandConsentRequests((prev) =>
+          prev.filter((request) => request.requestId !== requestId),
+        ),
+    });
+  }, [setAgentCommandConsentRequests]);
+
+  useEffect(() => {
+    return IpcClient.getInstance().onAgentLoopProgress((progress) =>
+      setAgentLoopProgressById((prev) =>
+        new Map(prev).set(progress.chatId, progress),
+      ),
+    );
+  }, [setAgentLoopProgressById]);
+
+  useEffect(() => {
+    return IpcClient.getInstance().onSubAgentProgress((progress) =>
+      setSubAgentLanesById((prev) =>
+        new Map(prev).set(progress.chatId, progress.lanes),
+      ),
+    );
+  }, [setSubAgentLanesById]);
+
   useEffect(() => {
     const ipc = IpcClient.getInstance();
     const unsubscribe = ipc.onMcpToolConsentRequest((payload) => {
@@ -9,5 +9,7 @@ export const chatRoute = createRoute({
   component: ChatPage,
   validateSearch: z.object({
     id: z.number().optional(),
+    // Scrolls to this message once the chat has loaded.
+    messageId: z.number().optional(),
   }),
 });
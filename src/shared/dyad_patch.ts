@@ -0,0 +1,320 @@
+/**
+ * Search/replace hunks carried by <dyad-patch> tags, so the model can change
+ * part of a file without rewriting all of it. A patch is either a series of
+ *
+ *   <<<<<<< SEARCH
+ *   old lines
+ *   =======
+ *   new lines
+ *   >>>>>>> REPLACE
+ *
+ * blocks, or a unified diff whose hunks are turned into the same shape.
+ */
+
+export interface PatchHunk {
+  search: string;
+  replace: string;
+}
+
+export interface ParsedPatch {
+  hunks: PatchHunk[];
+  // Problems with the patch text itself, e.g. a SEARCH block never closed
+  errors: string[];
+}
+
+export interface PatchHunkFailure {
+  // Zero-based index of the hunk in the patch
+  index: number;
+  reason: string;
+}
+
+const SEARCH_MARKER = /^<{5,}\s*SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,}\s*REPLACE\s*$/;
+const UNIFIED_HUNK_HEADER = /^@@ .* @@/;
+
+function parseSearchReplaceBlocks(lines: string[]): ParsedPatch {
+  const hunks: PatchHunk[] = [];
+  const errors: string[] = [];
+  let search: string[] | null = null;
+  let replace: string[] | null = null;
+
+  for (const line of lines) {
+    if (SEARCH_MARKER.test(line)) {
+      if (search !== null) {
+        errors.push(
+          `Hunk ${hunks.length + 1} starts a new SEARCH block before the previous one ended with ">>>>>>> REPLACE".`,
+        );
+      }
+      search = [];
+      replace = null;
+    } else if (
+      search !== null &&
+      replace === null &&
+      DIVIDER_MARKER.test(line)
+    ) {
+      replace = [];
+    } else if (
+      search !== null &&
+      replace !== null &&
+      REPLACE_MARKER.test(line)
+    ) {
+      hunks.push({ search: search.join("\n"), replace: replace.join("\n") });
+      search = null;
+      replace = null;
+    } else if (replace !== null) {
+      replace.push(line);
+    } else if (search !== null) {
+      search.push(line);
+    }
+  }
+
+  if (search !== null) {
+    errors.push(
+      `Hunk ${hunks.length + 1} is missing its ${replace === null ? '"=======" divider' : '">>>>>>> REPLACE" marker'}.`,
+    );
+  }
+  return { hunks, errors };
+}
+
+function parseUnifiedDiff(lines: string[]): ParsedPatch {
+  const hunks: PatchHunk[] = [];
+  let search: string[] | null = null;
+  let replace: string[] = [];
+
+  const flush = () => {
+    if (search !== null) {
+      hunks.push({ search: search.join("\n"), replace: replace.join("\n") });
+    }
+  };
+
+  for (const line of lines) {
+    if (UNIFIED_HUNK_HEADER.test(line)) {
+      flush();
+      search = [];
+      replace = [];
+    } else if (search === null) {
+      // File headers (---, +++, diff --git, index ...) before the first hunk
+      continue;
+    } else if (line.startsWith("-")) {
+      search.push(line.slice(1));
+    } else if (line.startsWith("+")) {
+      replace.push(line.slice(1));
+    } else if (line.startsWith("\\")) {
+      // "\ No newline at end of file"
+      continue;
+    } else {
+      // Context line; some models drop the leading space on blank lines
+      const context = line.startsWith(" ") ? line.slice(1) : line;
+      search.push(context);
+      replace.push(context);
+    }
+  }
+  flush();
+  return { hunks, errors: [] };
+}
+
+/**
+ * Parses the content of a <dyad-patch> tag.
+ */
+export function parsePatchHunks(content: string): ParsedPatch {
+  const lines = content
+    .replace(/\r\n/g, "\n")
+    .replace(/^\n+|\n+$/g, "")
+    .split("\n");
+  const parsed = lines.some((line) => SEARCH_MARKER.test(line))
+    ? parseSearchReplaceBlocks(lines)
+    : lines.some((line) => UNIFIED_HUNK_HEADER.test(line))
+      ? parseUnifiedDiff(lines)
+      : { hunks: [], errors: [] };
+  if (parsed.hunks.length === 0 && parsed.errors.length === 0) {
+    parsed.errors.push(
+      'No hunks found. Use "<<<<<<< SEARCH" / "=======" / ">>>>>>> REPLACE" blocks or a unified diff with "@@" hunk headers.',
+    );
+  }
+  return parsed;
+}
+
+// Whitespace-insensitive forms of a line, from strictest to loosest.
+const LINE_NORMALIZERS: ((line: string) => string)[] = [
+  (line) => line.trimEnd(),
+  (line) => line.trim().replace(/\s+/g, " "),
+];
+
+function getIndent(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+function findLineMatches(
+  fileLines: string[],
+  searchLines: string[],
+  normalize: (line: string) => string,
+): number[] {
+  const normalizedFile = fileLines.map(normalize);
+  const normalizedSearch = searchLines.map(normalize);
+  const matches: number[] = [];
+  for (
+    let start = 0;
+    start + normalizedSearch.length <= normalizedFile.length;
+    start++
+  ) {
+    if (
+      normalizedSearch.every(
+        (line, offset) => normalizedFile[start + offset] === line,
+      )
+    ) {
+      matches.push(start);
+    }
+  }
+  return matches;
+}
+
+// Shifts replacement lines by the indentation difference between the file and
+// the SEARCH text, so a hunk written at the wrong depth still lines up. A
+// replacement line that repeats a SEARCH line takes that line's difference;
+// other lines take the difference of the last such line.
+function reindent(
+  replaceLines: string[],
+  searchLines: string[],
+  matchedLines: string[],
+): string[] {
+  const anchor = searchLines.findIndex((line) => line.trim() !== "");
+  if (anchor === -1) {
+    return replaceLines;
+  }
+  let searchIndent = getIndent(searchLines[anchor]);
+  let fileIndent = getIndent(matchedLines[anchor]);
+  let next = 0;
+  return replaceLines.map((line) => {
+    const same = searchLines.findIndex(
+      (searchLine, index) =>
+        index >= next &&
+        searchLine.trim() !== "" &&
+        searchLine.trim() === line.trim(),
+    );
+    if (same !== -1) {
+      searchIndent = getIndent(searchLines[same]);
+      fileIndent = getIndent(matchedLines[same]);
+      next = same + 1;
+    }
+    return line.startsWith(searchIndent)
+      ? fileIndent + line.slice(searchIndent.length)
+      : line;
+  });
+}
+
+function describeLines(starts: number[]): string {
+  return starts.map((start) => start + 1).join(", ");
+}
+
+function describeMissingSearch(
+  fileLines: string[],
+  searchLines: string[],
+): string {
+  const first = searchLines.find((line) => line.trim() !== "");
+  const normalize = LINE_NORMALIZERS[LINE_NORMALIZERS.length - 1];
+  const candidates = first
+    ? fileLines.flatMap((line, index) =>
+        normalize(line) === normalize(first) ? [index] : [],
+      )
+    : [];
+  if (candidates.length === 0) {
+    return `SEARCH text not found; its first line "${first?.trim() ?? ""}" does not appear in the file.`;
+  }
+  return `SEARCH text not found; its first line appears at line ${describeLines(candidates)} but the lines after it differ. Copy the SEARCH lines exactly from the current file.`;
+}
+
+function applyHunk(
+  content: string,
+  hunk: PatchHunk,
+): { content: string } | { reason: string } {
+  if (hunk.search.trim() === "") {
+    return content.trim() === ""
+      ? { content: hunk.replace }
+      : {
+          reason:
+            "SEARCH is empty, which is only allowed when creating a new or empty file.",
+        };
+  }
+
+  const exact = content.split(hunk.search).length - 1;
+  if (exact === 1) {
+    return { content: content.replace(hunk.search, () => hunk.replace) };
+  }
+
+  const fileLines = content.split("\n");
+  const searchLines = hunk.search.split("\n");
+  for (const normalize of LINE_NORMALIZERS) {
+    const matches = findLineMatches(fileLines, searchLines, normalize);
+    if (matches.length > 1) {
+      return {
+        reason: `SEARCH text matches ${matches.length} places (lines ${describeLines(matches)}). Include more surrounding lines so it matches only one.`,
+      };
+    }
+    if (matches.length === 1) {
+      const [start] = matches;
+      const matched = fileLines.slice(start, start + searchLines.length);
+      const replaceLines =
+        hunk.replace === ""
+          ? []
+          : reindent(hunk.replace.split("\n"), searchLines, matched);
+      fileLines.splice(start, searchLines.length, ...replaceLines);
+      return { content: fileLines.join("\n") };
+    }
+  }
+  if (exact > 1) {
+    return {
+      reason: `SEARCH text matches ${exact} places. Include more surrounding lines so it matches only one.`,
+    };
+  }
+  return { reason: describeMissingSearch(fileLines, searchLines) };
+}
+
+/**
+ * Applies hunks in order, each to the result of the previous ones. Hunks
+ * match exactly first, then line by line ignoring trailing and then all
+ * whitespace differences. Failed hunks are skipped and reported.
+ */
+export function applyPatchHunks(
+  original: string,
+  hunks: PatchHunk[],
+): { content: string; failures: PatchHunkFailure[] } {
+  const crlf = original.includes("\r\n");
+  let content = crlf ? original.replace(/\r\n/g, "\n") : original;
+  const failures: PatchHunkFailure[] = [];
+
+  hunks.forEach((hunk, index) => {
+    const result = applyHunk(content, hunk);
+    if ("reason" in result) {
+      failures.push({ index, reason: result.reason });
+    } else {
+      content = result.content;
+    }
+  });
+
+  return {
+    content: crlf ? content.replace(/\n/g, "\r\n") : content,
+    failures,
+  };
+}
+
+/**
+ * A report of what went wrong with a patch, written for the model to fix it.
+ */
+export function formatPatchProblems(problems: string[]): string {
+  return [
+    ...problems.map((problem) => `- ${problem}`),
+    "The file was left unchanged. Send a corrected <dyad-patch> for this file, or a <dyad-write> with its complete content.",
+  ].join("\n");
+}
+
+export function formatPatchFailures(
+  failures: PatchHunkFailure[],
+  hunkCount: number,
+): string {
+  return formatPatchProblems(
+    failures.map(
+      ({ index, reason }) => `Hunk ${index + 1} of ${hunkCount}: ${reason}`,
+    ),
+  );
+}
@@ -5,9 +5,11 @@ import { isIgnored } from "isomorphic-git";
 import log from "electron-log";
 import { IS_TEST_BUILD } from "../ipc/utils/test_utils";
 import { glob } from "glob";
-import { AppChatContext } from "../lib/schemas";
+import { AppChatContext, type LargeLanguageModel } from "../lib/schemas";
 import { readSettings } from "@/main/settings";
 import { AsyncVirtualFileSystem } from "../../shared/VirtualFilesystem";
+import { countTokens } from "../ipc/utils/token_utils";
+import { selectFilesWithinBudget } from "../ipc/utils/code_index";
 
 const logger = log.scope("utils/codebase");
 
@@ -305,6 +307,23 @@ async function collectFiles(dir: string, baseDir: string): Promise<string[]> {
 
 const OMITTED_FILE_CONTENT = "// File contents excluded from context";
 
+/**
+ * Files whose contents would be included in the codebase extract, as
+ * absolute paths. Used to build the app's code index.
+ */
+export async function listIndexableFiles(appPath: string): Promise<string[]> {
+  const files = await collectFiles(appPath, appPath);
+  return files.filter((file) =>
+    shouldReadFileContents({
+      filePath: file,
+      normalizedRelativePath: path
+        .relative(appPath, file)
+        .split(path.sep)
+        .join("/"),
+    }),
+  );
+}
+
 /**
  * Check if file contents should be read based on extension and inclusion rules
  */
@@ -410,20 +429,38 @@ export type CodebaseFile = {
   force?: boolean;
 };
 
+export type CodebaseRelevance = {
+  // Relevance of each file (by relative path) to the prompt, from the code
+  // index
+  scores: Map<string, number>;
+  tokenBudget: number;
+  model: LargeLanguageModel;
+  // Files the prompt is about, e.g. the selected component's
+  focusedPaths?: string[];
+};
+
 /**
  * Extract and format codebase files as a string to be included in prompts
  * @param appPath - Path to the codebase to extract
  * @param virtualFileSystem - Optional virtual filesystem to apply modifications
+ * @param relevance - When the codebase exceeds its token budget, only the
+ * most relevant files keep their contents
+ * @param expandedPaths - Files related to the one the user is working on,
+ * kept even when the context paths would leave them out
  * @returns Object containing formatted output and individual files
  */
 export async function extractCodebase({
   appPath,
   chatContext,
   virtualFileSystem,
+  relevance,
+  expandedPaths = [],
 }: {
   appPath: string;
   chatContext: AppChatContext;
   virtualFileSystem?: AsyncVirtualFileSystem;
+  relevance?: CodebaseRelevance;
+  expandedPaths?: string[];
 }): Promise<{
   formattedOutput: string;
   files: CodebaseFile[];
@@ -490,6 +527,10 @@ export async function extractCodebase({
     }
   }
 
+  for (const relativePath of expandedPaths) {
+    includedFiles.add(path.normalize(path.join(appPath, relativePath)));
+  }
+
   // Add files from smartContextAutoIncludes
   if (
     isSmartContextEnabled &&
@@ -590,7 +631,21 @@ export async function extractCodebase({
     return formattedContent;
   });
 
-  const formattedFiles = await Promise.all(formatPromises);
+  let formattedFiles = await Promise.all(formatPromises);
+  if (relevance) {
+    formattedFiles = fitFilesToRelevanceBudget({
+      appPath,
+      sortedFiles,
+      formattedFiles,
+      filesArray,
+      forcedFiles: new Set(
+        [...autoIncludedFiles, ...includedFiles].filter(
+          (file) => !excludedFiles.has(file),
+        ),
+      ),
+      relevance,
+    });
+  }
   const formattedOutput = formattedFiles.join("");
 
   const endTime = Date.now();
@@ -608,6 +663,72 @@ export async function extractCodebase({
   };
 }
 
+function formatOmittedFile(normalizedRelativePath: string): string {
+  return `<dyad-file path="${normalizedRelativePath}">
+${OMITTED_FILE_CONTENT}
+</dyad-file>
+
+`;
+}
+
+/**
+ * Omits the contents of the least relevant files until the codebase fits in
+ * the relevance token budget. Files picked through the context paths or
+ * focused by the prompt are always kept.
+ */
+function fitFilesToRelevanceBudget({
+  appPath,
+  sortedFiles,
+  formattedFiles,
+  filesArray,
+  forcedFiles,
+  relevance,
+}: {
+  appPath: string;
+  sortedFiles: string[];
+  formattedFiles: string[];
+  filesArray: CodebaseFile[];
+  forcedFiles: Set<string>;
+  relevance: CodebaseRelevance;
+}): string[] {
+  const { scores, tokenBudget, model, focusedPaths = [] } = relevance;
+  const relativePaths = sortedFiles.map((file) =>
+    path.relative(appPath, file).split(path.sep).join("/"),
+  );
+  const tokens = formattedFiles.map((content) => countTokens(content, model));
+  if (tokens.reduce((sum, count) => sum + count, 0) <= tokenBudget) {
+    return formattedFiles;
+  }
+
+  const selected = selectFilesWithinBudget(
+    relativePaths.map((relativePath, i) => ({
+      path: relativePath,
+      tokens: tokens[i],
+      omittedTokens: countTokens(formatOmittedFile(relativePath), model),
+      forced:
+        forcedFiles.has(path.normalize(sortedFiles[i])) ||
+        focusedPaths.includes(relativePath),
+      score: scores.get(relativePath) ?? 0,
+      // Sorted oldest first
+      recency: i,
+    })),
+    tokenBudget,
+  );
+  for (const file of filesArray) {
+    if (!selected.has(file.path)) {
+      file.content = OMITTED_FILE_CONTENT;
+    }
+  }
+  logger.log(
+    `Kept the contents of ${selected.size} of ${relativePaths.length} files to fit ${tokenBudget} tokens`,
+  );
+  return formattedFiles.map((content, i) =>
+    selected.has(relativePaths[i])
+      ? content
+      : formatOmittedFile(relativePaths[i]),
+  );
+}
+
 /**
  * Sort files by their modification timestamp (oldest first)
  */
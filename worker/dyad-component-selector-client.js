@@ -1,6 +1,9 @@
 (() => {
   const OVERLAY_ID = "__dyad_overlay__";
   let overlay, label;
+  // Overlays of the selected components, kept in sync with the parent's
+  // selection: [{ overlay, label, element }]
+  let selectedOverlays = [];
 
   //detect if the user is using Mac
   const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
@@ -9,14 +12,14 @@
   // { type: 'inactive' }
   // { type: 'inspecting', element: ?HTMLElement }
   // { type: 'selected', element: HTMLElement }
+  // Shift+click adds to the selection and keeps inspecting.
   let state = { type: "inactive" };
 
   /* ---------- helpers --------------------------------------------------- */
   const css = (el, obj) => Object.assign(el.style, obj);
 
-  function makeOverlay() {
-    overlay = document.createElement("div");
-    overlay.id = OVERLAY_ID;
+  function createOverlay() {
+    const overlay = document.createElement("div");
     css(overlay, {
       position: "absolute",
       border: "2px solid #7f22fe",
@@ -27,7 +30,7 @@
       boxShadow: "0 2px 8px rgba(0, 0, 0, 0.15)",
     });
 
-    label = document.createElement("div");
+    const label = document.createElement("div");
     css(label, {
       position: "absolute",
       left: "0",
@@ -45,11 +48,21 @@
     });
     overlay.appendChild(label);
     document.body.appendChild(overlay);
+    return { overlay, label };
+  }
+
+  function makeOverlay() {
+    ({ overlay, label } = createOverlay());
+    overlay.id = OVERLAY_ID;
   }
 
   function updateOverlay(el, isSelected = false) {
     if (!overlay) makeOverlay();
+    positionOverlay(overlay, label, el, isSelected);
+  }
 
+  // `number` labels the element when several are selected
+  function positionOverlay(overlay, label, el, isSelected, number) {
     const rect = el.getBoundingClientRect();
     css(overlay, {
       top: `${rect.top + window.scrollY}px`,
@@ -103,7 +116,7 @@
     const file = (el.dataset.dyadId || "").split(":")[0];
 
     const nameEl = document.createElement("div");
-    nameEl.textContent = name;
+    nameEl.textContent = number ? `${number}. ${name}` : name;
     label.appendChild(nameEl);
 
     if (file) {
@@ -114,6 +127,43 @@
     }
   }
 
+  /* ---------- selection ------------------------------------------------- */
+  function clearSelection() {
+    for (const selected of selectedOverlays) selected.overlay.remove();
+    selectedOverlays = [];
+  }
+
+  function showSelection(ids) {
+    clearSelection();
+    ids.forEach((id, index) => {
+      const element = document.querySelector(
+        `[data-dyad-id="${CSS.escape(id)}"]`,
+      );
+      if (!element) return;
+      const { overlay, label } = createOverlay();
+      positionOverlay(
+        overlay,
+        label,
+        element,
+        true,
+        ids.length > 1 ? index + 1 : undefined,
+      );
+      selectedOverlays.push({ overlay, label, element });
+    });
+  }
+
+  function repositionSelection() {
+    selectedOverlays.forEach(({ overlay, label, element }, index) => {
+      positionOverlay(
+        overlay,
+        label,
+        element,
+        true,
+        selectedOverlays.length > 1 ? index + 1 : undefined,
+      );
+    });
+  }
+
   /* ---------- event handlers -------------------------------------------- */
   function onMouseMove(e) {
     if (state.type !== "inspecting") return;
@@ -136,14 +186,23 @@
     e.preventDefault();
     e.stopPropagation();
 
-    state = { type: "selected", element: state.element };
-    updateOverlay(state.element, true);
+    const element = state.element;
+    const append = e.shiftKey;
+    if (append) {
+      // Keep inspecting so more elements can be added
+      state = { type: "inspecting", element: null };
+    } else {
+      state = { type: "selected", element };
+    }
+    // The parent echoes the new selection back, which draws its overlays
+    if (overlay) overlay.style.display = "none";
 
     window.parent.postMessage(
       {
         type: "dyad-component-selected",
-        id: state.element.dataset.dyadId,
-        name: state.element.dataset.dyadName,
+        id: element.dataset.dyadId,
+        name: element.dataset.dyadName,
+        append,
       },
       "*",
     );
@@ -204,8 +263,11 @@
     if (e.source !== window.parent) return;
     if (e.data.type === "activate-dyad-component-selector") activate();
     if (e.data.type === "deactivate-dyad-component-selector") deactivate();
+    if (e.data.type === "dyad-selected-components") showSelection(e.data.ids);
   });
 
+  window.addEventListener("resize", repositionSelection);
+
   // Always listen for keyboard shortcuts
   window.addEventListener("keydown", onKeyDown, true);
 
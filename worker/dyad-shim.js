@@ -1,5 +1,5 @@
 (function () {
-  console.debug("dyad-shim.js loaded via proxy v0.6.0");
+  console.debug("dyad-shim.js loaded via proxy v0.7.0");
   const isInsideIframe = window.parent !== window;
   if (!isInsideIframe) return;
 
@@ -86,6 +86,331 @@
     }
   });
 
+  // --- Network Capture (fetch, XHR and WebSocket) ---
+  // Bodies are truncated so a large download doesn't flood the parent.
+  const MAX_BODY_LENGTH = 4000;
+  const MAX_WEBSOCKET_MESSAGES = 50;
+  // Dev server connections that aren't part of the app
+  const IGNORED_URL_PATTERNS = [/\/_next\/webpack-hmr/, /\/@vite\//];
+  let networkRequestCounter = 0;
+
+  const isIgnoredUrl = (url) =>
+    IGNORED_URL_PATTERNS.some((pattern) => pattern.test(url));
+
+  const truncateBody = (text) => {
+    if (text == null) return undefined;
+    return text.length > MAX_BODY_LENGTH
+      ? `${text.slice(0, MAX_BODY_LENGTH)}… [truncated ${text.length - MAX_BODY_LENGTH} characters]`
+      : text;
+  };
+
+  const describeBody = (body) => {
+    if (body == null) return undefined;
+    if (typeof body === "string") return truncateBody(body);
+    if (body instanceof URLSearchParams) return truncateBody(body.toString());
+    if (body instanceof FormData) {
+      const fields = [];
+      body.forEach((value, key) => {
+        fields.push(
+          `${key}=${typeof value === "string" ? value : `[file ${value.name}]`}`,
+        );
+      });
+      return truncateBody(fields.join("&"));
+    }
+    if (body instanceof Blob) return `[binary ${body.size} bytes]`;
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+      return `[binary ${body.byteLength} bytes]`;
+    }
+    return "[unreadable body]";
+  };
+
+  const headersToObject = (headers) => {
+    const result = {};
+    try {
+      new Headers(headers).forEach((value, key) => {
+        result[key] = value;
+      });
+    } catch {
+      // Not a valid headers init
+    }
+    return result;
+  };
+
+  const isTextContentType = (contentType) =>
+    !contentType ||
+    /^text\/|json|xml|javascript|x-www-form-urlencoded|graphql/.test(
+      contentType,
+    );
+
+  // Responses that stream until the app closes them, so their bodies are
+  // never read
+  const isStreamingContentType = (contentType) =>
+    /^text\/event-stream|ndjson|jsonl/.test(contentType || "");
+
+  // Reads a response's body until MAX_BODY_LENGTH characters, then stops
+  // instead of buffering the rest
+  const readBodyPrefix = async (response) => {
+    if (!response.body) {
+      return truncateBody(await response.text());
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    try {
+      while (text.length <= MAX_BODY_LENGTH) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return truncateBody(text + decoder.decode());
+        }
+        text += decoder.decode(value, { stream: true });
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+    return `${text.slice(0, MAX_BODY_LENGTH)}… [truncated]`;
+  };
+
+  const reportNetworkRequest = (request) => {
+    window.parent.postMessage(
+      { type: "network-request", payload: request },
+      PARENT_TARGET_ORIGIN,
+    );
+  };
+
+  const nextRequestId = () =>
+    `${Date.now().toString(36)}-${(networkRequestCounter++).toString(36)}`;
+
+  const originalFetch = window.fetch;
+  if (originalFetch) {
+    window.fetch = function (input, init) {
+      let method = (init && init.method) || "GET";
+      let url;
+      let requestHeaders = {};
+      try {
+        if (input instanceof Request) {
+          method = (init && init.method) || input.method;
+          url = input.url;
+          requestHeaders = headersToObject(input.headers);
+        } else {
+          url = new URL(String(input), window.location.href).href;
+        }
+        if (init && init.headers) {
+          requestHeaders = headersToObject(init.headers);
+        }
+      } catch {
+        url = String(input);
+      }
+      if (isIgnoredUrl(url)) {
+        return originalFetch.apply(this, arguments);
+      }
+
+      const request = {
+        id: nextRequestId(),
+        kind: "fetch",
+        method: method.toUpperCase(),
+        url,
+        status: null,
+        startTime: Date.now(),
+        durationMs: null,
+        requestHeaders,
+        requestBody: describeBody(init && init.body),
+      };
+      reportNetworkRequest(request);
+      const start = performance.now();
+
+      return originalFetch.apply(this, arguments).then(
+        (response) => {
+          const contentType = response.headers.get("content-type");
+          const completed = {
+            ...request,
+            status: response.status,
+            statusText: response.statusText,
+            durationMs: Math.round(performance.now() - start),
+            responseHeaders: headersToObject(response.headers),
+          };
+          if (
+            !isTextContentType(contentType) ||
+            isStreamingContentType(contentType)
+          ) {
+            reportNetworkRequest({
+              ...completed,
+              responseBody: `[${contentType}]`,
+            });
+            return response;
+          }
+          // Read a copy so the app can still consume the original
+          readBodyPrefix(response.clone()).then(
+            (responseBody) =>
+              reportNetworkRequest({ ...completed, responseBody }),
+            () => reportNetworkRequest(completed),
+          );
+          return response;
+        },
+        (error) => {
+          reportNetworkRequest({
+            ...request,
+            durationMs: Math.round(performance.now() - start),
+            error: error?.message || String(error),
+          });
+          throw error;
+        },
+      );
+    };
+  }
+
+  const originalXhrOpen = XMLHttpRequest.prototype.open;
+  const originalXhrSend = XMLHttpRequest.prototype.send;
+  const originalXhrSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
+
+  XMLHttpRequest.prototype.open = function (method, url) {
+    try {
+      this.__dyadRequest = {
+        method: String(method).toUpperCase(),
+        url: new URL(String(url), window.location.href).href,
+        requestHeaders: {},
+      };
+    } catch {
+      this.__dyadRequest = undefined;
+    }
+    return originalXhrOpen.apply(this, arguments);
+  };
+
+  XMLHttpRequest.prototype.setRequestHeader = function (name, value) {
+    if (this.__dyadRequest) {
+      this.__dyadRequest.requestHeaders[name.toLowerCase()] = value;
+    }
+    return originalXhrSetRequestHeader.apply(this, arguments);
+  };
+
+  XMLHttpRequest.prototype.send = function (body) {
+    const info = this.__dyadRequest;
+    if (info && !isIgnoredUrl(info.url)) {
+      const request = {
+        id: nextRequestId(),
+        kind: "xhr",
+        method: info.method,
+        url: info.url,
+        status: null,
+        startTime: Date.now(),
+        durationMs: null,
+        requestHeaders: info.requestHeaders,
+        requestBody: describeBody(body),
+      };
+      reportNetworkRequest(request);
+      const start = performance.now();
+      this.addEventListener("loadend", () => {
+        const durationMs = Math.round(performance.now() - start);
+        if (this.status === 0) {
+          reportNetworkRequest({
+            ...request,
+            durationMs,
+            error: "Network error or request aborted",
+          });
+          return;
+        }
+        const responseHeaders = {};
+        for (const line of this.getAllResponseHeaders().trim().split(/\r?\n/)) {
+          const separator = line.indexOf(":");
+          if (separator > 0) {
+            responseHeaders[line.slice(0, separator).trim().toLowerCase()] =
+              line.slice(separator + 1).trim();
+          }
+        }
+        let responseBody;
+        if (this.responseType === "" || this.responseType === "text") {
+          responseBody = truncateBody(this.responseText);
+        } else if (this.responseType === "json") {
+          try {
+            responseBody = truncateBody(JSON.stringify(this.response));
+          } catch {
+            responseBody = "[unserializable JSON]";
+          }
+        } else {
+          responseBody = `[${this.responseType} response]`;
+        }
+        reportNetworkRequest({
+          ...request,
+          status: this.status,
+          statusText: this.statusText,
+          durationMs,
+          responseHeaders,
+          responseBody,
+        });
+      });
+    }
+    return originalXhrSend.apply(this, arguments);
+  };
+
+  const OriginalWebSocket = window.WebSocket;
+  if (OriginalWebSocket) {
+    const CapturingWebSocket = function (url, protocols) {
+      const socket =
+        protocols === undefined
+          ? new OriginalWebSocket(url)
+          : new OriginalWebSocket(url, protocols);
+      const protocolList = [].concat(protocols || []);
+      if (protocolList.includes("vite-hmr") || isIgnoredUrl(socket.url)) {
+        return socket;
+      }
+
+      const request = {
+        id: nextRequestId(),
+        kind: "websocket",
+        method: "GET",
+        url: socket.url,
+        status: null,
+        startTime: Date.now(),
+        durationMs: null,
+        messages: [],
+      };
+      const start = performance.now();
+      const addMessage = (direction, data) => {
+        request.messages = [
+          ...request.messages,
+          {
+            direction,
+            data:
+              typeof data === "string"
+                ? truncateBody(data)
+                : `[binary ${data.size ?? data.byteLength ?? 0} bytes]`,
+            timestamp: Date.now(),
+          },
+        ].slice(-MAX_WEBSOCKET_MESSAGES);
+        reportNetworkRequest(request);
+      };
+      reportNetworkRequest(request);
+
+      socket.addEventListener("open", () => {
+        // 101 Switching Protocols
+        request.status = 101;
+        request.durationMs = Math.round(performance.now() - start);
+        reportNetworkRequest(request);
+      });
+      socket.addEventListener("message", (event) =>
+        addMessage("received", event.data),
+      );
+      socket.addEventListener("error", () => {
+        request.error = "WebSocket error";
+        reportNetworkRequest(request);
+      });
+      socket.addEventListener("close", (event) => {
+        request.closeCode = event.code;
+        reportNetworkRequest(request);
+      });
+      const originalSend = socket.send;
+      socket.send = function (data) {
+        addMessage("sent", data);
+        return originalSend.apply(socket, arguments);
+      };
+      return socket;
+    };
+    CapturingWebSocket.prototype = OriginalWebSocket.prototype;
+    for (const key of ["CONNECTING", "OPEN", "CLOSING", "CLOSED"]) {
+      CapturingWebSocket[key] = OriginalWebSocket[key];
+    }
+    window.WebSocket = CapturingWebSocket;
+  }
+
   // --- Sourcemapped Error Handling ---
   function sendSourcemappedErrorToParent(error, sourceType) {
     if (typeof window.StackTrace === "undefined") {